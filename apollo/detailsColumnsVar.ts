@@ -0,0 +1,38 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+import filter from 'lodash/filter';
+import some from 'lodash/some';
+
+import { DetailsColumn, DetailsColumnLayout } from '../types/common';
+import { getStoredDetailsColumns } from '../utils/detailsColumnsStorage';
+
+export const DETAILS_COLUMNS_DEFAULT: DetailsColumnLayout[] = [
+	{ id: DetailsColumn.Name, width: 240 },
+	{ id: DetailsColumn.Owner, width: 160 },
+	{ id: DetailsColumn.LastEditor, width: 160 },
+	{ id: DetailsColumn.Type, width: 96 },
+	{ id: DetailsColumn.Size, width: 96 },
+	{ id: DetailsColumn.UpdatedAt, width: 144 },
+	{ id: DetailsColumn.Shares, width: 80 }
+];
+
+const getInitialDetailsColumns = (): DetailsColumnLayout[] => {
+	const storedColumns = filter(getStoredDetailsColumns(), (column) =>
+		some(DETAILS_COLUMNS_DEFAULT, ['id', column.id])
+	);
+	// columns added after the layout has been stored are shown at the end
+	return [
+		...storedColumns,
+		...filter(DETAILS_COLUMNS_DEFAULT, (column) => !some(storedColumns, ['id', column.id]))
+	];
+};
+
+/**
+ * Order and widths of the columns of the details view
+ */
+export const detailsColumnsVar = makeVar<DetailsColumnLayout[]>(getInitialDetailsColumns());
@@ -0,0 +1,17 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+
+import { DownloadType } from '../types/common';
+
+export const downloadVar = makeVar<{ [id: string]: DownloadType }>({});
+
+export interface DownloadFunctions {
+	abort: () => void;
+}
+
+export const downloadFunctionsVar = makeVar<{ [id: string]: DownloadFunctions }>({});
@@ -0,0 +1,13 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+
+/**
+ * Ids of the folders expanded in the folder tree, by user id.
+ * The ids of a user are loaded from the local storage on first use.
+ */
+export const expandedFoldersVar = makeVar<Record<string, string[]>>({});
@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import map from 'lodash/map';
+
+import FIND_NODES from '../graphql/queries/findNodes.graphql';
+import { populateNodePage, populateNodes, populateUser } from '../mocks/mockUtils';
+import { FindNodesQuery, FindNodesQueryVariables } from '../types/graphql/types';
+import { getFindNodesVariables } from '../utils/mockUtils';
+
+describe('Apollo cache', () => {
+	describe('findNodes', () => {
+		function writeFindNodes(variables: FindNodesQueryVariables): string[] {
+			const nodes = populateNodes(2);
+			global.apolloClient.cache.writeQuery<FindNodesQuery, FindNodesQueryVariables>({
+				query: FIND_NODES,
+				variables,
+				data: {
+					findNodes: populateNodePage(nodes)
+				}
+			});
+			return map(nodes, (node) => node.id);
+		}
+
+		function readFindNodes(variables: FindNodesQueryVariables): string[] {
+			const result = global.apolloClient.cache.readQuery<FindNodesQuery, FindNodesQueryVariables>({
+				query: FIND_NODES,
+				variables
+			});
+			return map(result?.findNodes?.nodes, (node) => node?.id as string);
+		}
+
+		test('searches which differ only by the size are cached separately', () => {
+			const smallFilesVariables = getFindNodesVariables({ keywords: ['a'], size_min: 1 });
+			const bigFilesVariables = getFindNodesVariables({ keywords: ['a'], size_min: 1000 });
+			const smallFiles = writeFindNodes(smallFilesVariables);
+			const bigFiles = writeFindNodes(bigFilesVariables);
+			expect(readFindNodes(smallFilesVariables)).toEqual(smallFiles);
+			expect(readFindNodes(bigFilesVariables)).toEqual(bigFiles);
+		});
+
+		test('searches which differ only by the owner are cached separately', () => {
+			const firstOwnerVariables = getFindNodesVariables({ owner_id: populateUser().id });
+			const secondOwnerVariables = getFindNodesVariables({ owner_id: populateUser().id });
+			const firstOwnerNodes = writeFindNodes(firstOwnerVariables);
+			const secondOwnerNodes = writeFindNodes(secondOwnerVariables);
+			expect(readFindNodes(firstOwnerVariables)).toEqual(firstOwnerNodes);
+			expect(readFindNodes(secondOwnerVariables)).toEqual(secondOwnerNodes);
+		});
+	});
+});
@@ -154,6 +154,13 @@ const cache = new InMemoryCache({
 						'folder_id',
 						'cascade',
 						'keywords',
+						'type',
+						'mime_type',
+						'size_min',
+						'size_max',
+						'modified_after',
+						'modified_before',
+						'owner_id',
 						'sort'
 					],
 					merge(
@@ -0,0 +1,15 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+
+import { StoredListPreferences } from '../types/common';
+
+/**
+ * Preferences of the lists by user id. The preferences of a user are loaded from the local storage
+ * on first use.
+ */
+export const listPreferencesVar = makeVar<Record<string, StoredListPreferences>>({});
@@ -0,0 +1,14 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+
+import { AdvancedFilters } from '../types/common';
+
+/**
+ * Recent searches by user id. The history of a user is loaded from the local storage on first use.
+ */
+export const recentSearchesVar = makeVar<Record<string, AdvancedFilters[]>>({});
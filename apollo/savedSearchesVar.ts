@@ -0,0 +1,14 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+
+import { SavedSearch } from '../types/common';
+
+/**
+ * Saved searches by user id. The searches of a user are loaded from the local storage on first use.
+ */
+export const savedSearchesVar = makeVar<Record<string, SavedSearch[]>>({});
@@ -0,0 +1,13 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { makeVar } from '@apollo/client';
+
+/**
+ * Node which the list has to scroll to, when its item is not rendered because it is out of the
+ * visible window of the list
+ */
+export const scrollToNodeVar = makeVar<{ nodeId: string; isLast: boolean } | null>(null);
@@ -6,7 +6,7 @@
 
 import { makeVar } from '@apollo/client';
 
-import { UploadType } from '../types/common';
+import { UploadLimits, UploadType } from '../types/common';
 
 export const uploadVar = makeVar<{ [id: string]: UploadType }>({});
 
@@ -16,3 +16,9 @@ export interface UploadFunctions {
 }
 
 export const uploadFunctionsVar = makeVar<{ [id: string]: UploadFunctions }>({});
+
+/** ids of the uploads interrupted in a previous session and restored when the app is loaded */
+export const restoredUploadsVar = makeVar<string[]>([]);
+
+/** limits checked before sending a file, read from the configs once when the app is loaded */
+export const uploadLimitsVar = makeVar<UploadLimits>({ forbiddenExtensions: [] });
@@ -15,6 +15,14 @@ export const LIST_ITEM_AVATAR_HEIGHT = 42;
 export const LIST_ITEM_AVATAR_HEIGHT_COMPACT = 32;
 export const LIST_ITEM_AVATAR_ICON_HEIGHT = 24;
 export const LIST_ITEM_AVATAR_ICON_HEIGHT_COMPACT = 16;
+export const GRID_ITEM_WIDTH = 176;
+export const GRID_ITEM_HEIGHT = 184;
+export const GRID_ITEM_PREVIEW_HEIGHT = 120;
+export const GRID_ITEM_GAP = 8;
+// rows rendered above and below the visible ones in the windowed lists
+export const WINDOWED_LIST_OVERSCAN = 10;
+export const DETAILS_HEADER_HEIGHT = 40;
+export const DETAILS_COLUMN_MIN_WIDTH = 64;
 export const LIST_WIDTH = '40%';
 export const DISPLAYER_WIDTH = '60%';
 export const FULL_SHARES_LOAD_LIMIT = 100;
@@ -36,15 +44,39 @@ export const ROOTS = {
 	TRASH_SHARED_ELEMENTS: 'TRASH_ROOT_SHARED_ELEMENTS',
 	SHARED_WITH_ME: 'SHARED_WITH_ME_ROOT'
 } as const;
+// id of the uploads entry of the secondary bar
+export const UPLOADS_ITEM_ID = 'uploads';
+// id of the saved searches entry of the secondary bar
+export const SAVED_SEARCHES_ITEM_ID = 'savedSearches';
+export const SAVED_SEARCHES_STORAGE_KEY = 'carbonio-files-saved-searches';
+// the id of the user is appended to the key, so that each user has its own history
+export const RECENT_SEARCHES_STORAGE_KEY = 'carbonio-files-recent-searches';
+export const RECENT_SEARCHES_LIMIT = 10;
+// max number of suggestions of each kind shown while typing in the search bar
+export const SEARCH_SUGGESTIONS_LIMIT = 5;
+// delay in ms after the user stops typing before the suggestions are updated
+export const SEARCH_SUGGESTIONS_DEBOUNCE = 300;
+// sort, view mode and density chosen for each folder. The id of the user is appended to the key
+export const LIST_PREFERENCES_STORAGE_KEY = 'carbonio-files-list-preferences';
+// view modes by folder id, shared by all the users, stored before the list preferences
+export const VIEW_MODES_STORAGE_KEY = 'carbonio-files-view-mode';
+export const DETAILS_COLUMNS_STORAGE_KEY = 'carbonio-files-details-columns';
+// folders expanded in the tree of the secondary bar. The id of the user is appended to the key
+export const EXPANDED_FOLDERS_STORAGE_KEY = 'carbonio-files-expanded-folders';
 export const DRAG_TYPES = {
 	upload: 'Files',
 	move: 'files-drag-move',
-	markForDeletion: 'files-drag-markfordeletion'
+	markForDeletion: 'files-drag-markfordeletion',
+	uploadQueue: 'files-drag-upload-queue',
+	detailsColumn: 'files-drag-details-column'
 };
 export const SHARE_CHIP_SIZE = 'small';
 export const CONFIGS = {
 	MAX_VERSIONS: 'max-number-of-versions',
-	MAX_KEEP_VERSIONS: 'max-number-of-keep-versions'
+	MAX_KEEP_VERSIONS: 'max-number-of-keep-versions',
+	MAX_UPLOAD_SIZE: 'max-upload-size',
+	FORBIDDEN_UPLOAD_EXTENSIONS: 'forbidden-upload-extensions',
+	MAX_UPLOAD_FILES: 'max-number-of-upload-files'
 } as const;
 export const PREVIEW_MAX_SIZE = 20971520;
 
@@ -56,6 +88,7 @@ export const DOCS_ENDPOINT = '/services/docs';
 // add leading slash in path
 export const OPEN_FILE_PATH = '/files/open';
 export const DOWNLOAD_PATH = '/download';
+export const DOWNLOAD_ARCHIVE_PATH = '/download-archive';
 export const UPLOAD_PATH = '/upload';
 export const UPLOAD_TO_PATH = '/upload-to';
 export const UPLOAD_VERSION_PATH = '/upload-version';
@@ -69,4 +102,14 @@ export const PREVIEW_TYPE = {
 
 export const FILES_ROUTE = 'files';
 export const FILES_APP_ID = 'carbonio-files-ui';
+// files bigger than this size are not read in memory but streamed to disk or handed to the browser
+export const DOWNLOAD_IN_MEMORY_MAX_SIZE = 52428800;
 export const UPLOAD_QUEUE_LIMIT = 3;
+// max number of uploads in progress at the same time which the user can choose
+export const UPLOAD_QUEUE_MAX_LIMIT = 10;
+// files bigger than the chunk size are uploaded in chunks, so that they can be paused and resumed
+export const UPLOAD_CHUNK_SIZE = 10485760;
+export const UPLOAD_CHUNK_MAX_RETRIES = 5;
+export const UPLOAD_CHUNK_RETRY_DELAY = 1000;
+// weight of the last sample in the exponential moving average of the upload speed
+export const UPLOAD_SPEED_SMOOTHING_FACTOR = 0.2;
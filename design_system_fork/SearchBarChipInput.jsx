@@ -12,8 +12,11 @@ import filter from 'lodash/filter';
 import isEmpty from 'lodash/isEmpty';
 import map from 'lodash/map';
 import slice from 'lodash/slice';
+import startsWith from 'lodash/startsWith';
+import trimStart from 'lodash/trimStart';
 import styled from 'styled-components';
 
+import { isSearchQueryQuoteOpen } from '../utils/searchQuery';
 import { getKeyboardPreset, useKeyboard } from './useKeyboard';
 
 const InputDiv = styled.div``;
@@ -88,7 +91,7 @@ const ChipInputWrapper = styled.div`
 function reducer(state, action) {
 	switch (action.type) {
 		case 'push':
-			return [...state, action.item];
+			return [...state, ...action.items];
 		case 'pop':
 			return filter(state, (value, index) => action.index !== index);
 		case 'popLast':
@@ -118,7 +121,7 @@ export const SearchBarChipInput = React.forwardRef(function ChipInputFn(
 		defaultValue,
 		/** Callback to call when Input's value changes */
 		onChange,
-		/** Dropdown items */
+		/** Dropdown items. Items with their own click callback do not add a chip when selected */
 		options = [],
 		/** Callback to call when Input typing occurs
 		 * - returns the keyup event object with an additional textContent value
@@ -135,6 +138,11 @@ export const SearchBarChipInput = React.forwardRef(function ChipInputFn(
 
 		/** FILES CUSTOM PROPS */
 		createChipKeyEvents,
+		/** Callback to split the typed text into chips, sync or async.
+		 * When valued, it replaces onAdd and the whitespace inside double quotes does not create a chip */
+		parseQuery,
+		/** Callback to call when parseQuery fails. The typed text is kept, so that it can be fixed */
+		onParseError = console.error,
 
 		...rest
 	},
@@ -152,14 +160,38 @@ export const SearchBarChipInput = React.forwardRef(function ChipInputFn(
 
 	const setFocus = useCallback(() => contentEditableInput.current.focus(), [contentEditableInput]);
 
+	const saveItems = useCallback(
+		(itemsToSave) => {
+			uncontrolledMode && dispatch({ type: 'push', items: itemsToSave });
+			onChange && onChange([...itemsRef.current, ...itemsToSave]);
+		},
+		[uncontrolledMode, onChange]
+	);
+	const clearSavedValue = useCallback(
+		(savedValue) => {
+			const input = contentEditableInput.current;
+			// the user can go on typing while the query is parsed, so only the saved text is removed
+			if (input && startsWith(input.textContent, savedValue)) {
+				input.textContent = trimStart(input.textContent.substring(savedValue.length));
+			}
+		},
+		[contentEditableInput]
+	);
 	const saveValue = useCallback(
 		(valueToSave) => {
-			const item = onAdd(valueToSave);
-			uncontrolledMode && dispatch({ type: 'push', item });
-			onChange && onChange([...itemsRef.current, item]);
-			contentEditableInput.current.innerHTML = '';
+			if (parseQuery) {
+				Promise.resolve(parseQuery(valueToSave))
+					.then((parsedItems) => {
+						clearSavedValue(valueToSave);
+						saveItems(parsedItems);
+					})
+					.catch(onParseError);
+			} else {
+				saveItems([onAdd(valueToSave)]);
+				contentEditableInput.current.innerHTML = '';
+			}
 		},
-		[contentEditableInput, onAdd, uncontrolledMode, onChange]
+		[parseQuery, clearSavedValue, saveItems, onParseError, onAdd, contentEditableInput]
 	);
 	const saveCurrentValue = useCallback(() => {
 		const inputValue = contentEditableInput.current.textContent;
@@ -168,8 +200,23 @@ export const SearchBarChipInput = React.forwardRef(function ChipInputFn(
 	const saveCurrentEvent = useMemo(
 		() =>
 			(createChipKeyEvents && createChipKeyEvents(saveCurrentValue)) ||
+			(parseQuery && [
+				{
+					type: 'keypress',
+					callback: (e) => {
+						// whitespace inside quotes is part of the token
+						if (!isSearchQueryQuoteOpen(contentEditableInput.current.textContent)) {
+							e.preventDefault();
+							saveCurrentValue();
+						}
+					},
+					keys: ['Space'],
+					haveToPreventDefault: false
+				},
+				{ type: 'keypress', callback: saveCurrentValue, keys: ['Enter', 'NumpadEnter'] }
+			]) ||
 			getKeyboardPreset('chipInput', saveCurrentValue),
-		[createChipKeyEvents, saveCurrentValue]
+		[contentEditableInput, createChipKeyEvents, parseQuery, saveCurrentValue]
 	);
 	useKeyboard(contentEditableInput, saveCurrentEvent);
 
@@ -231,14 +278,28 @@ export const SearchBarChipInput = React.forwardRef(function ChipInputFn(
 		[saveValue, setFocus]
 	);
 
+	const onSuggestionClick = useCallback(
+		(click) => {
+			contentEditableInput.current.innerHTML = '';
+			setShowDropdown(false);
+			click();
+		},
+		[contentEditableInput]
+	);
+
 	useEffect(() => {
 		!uncontrolledMode && dispatch({ type: 'reset', value });
 	}, [uncontrolledMode, value]);
 
 	useEffect(() => {
 		setShowDropdown(!isEmpty(options));
-		setDropdownItems(map(options, (o) => ({ ...o, click: () => onOptionClick(o.value) })));
-	}, [onOptionClick, options]);
+		setDropdownItems(
+			map(options, (o) => ({
+				...o,
+				click: () => (o.click ? onSuggestionClick(o.click) : onOptionClick(o.value))
+			}))
+		);
+	}, [onOptionClick, onSuggestionClick, options]);
 
 	useEffect(() => {
 		itemsRef.current = items;
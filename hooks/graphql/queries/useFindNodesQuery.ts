@@ -31,7 +31,14 @@ export function useFindNodesQuery({
 	folderId,
 	cascade,
 	keywords,
-	directShare
+	directShare,
+	type,
+	mimeType,
+	sizeMin,
+	sizeMax,
+	modifiedAfter,
+	modifiedBefore,
+	ownerId
 }: SearchParams): FindNodesQueryHookReturnType {
 	const nodeSort = useReactiveVar(nodeSortVar);
 
@@ -50,13 +57,27 @@ export function useFindNodesQuery({
 				cascade,
 				limit: NODES_LOAD_LIMIT,
 				sort: nodeSort,
-				direct_share: directShare
+				direct_share: directShare,
+				type,
+				mime_type: mimeType,
+				size_min: sizeMin,
+				size_max: sizeMax,
+				modified_after: modifiedAfter,
+				modified_before: modifiedBefore,
+				owner_id: ownerId
 			},
 			skip:
 				!flagged &&
 				!sharedWithMe &&
 				!sharedByMe &&
 				!folderId &&
+				!type &&
+				!mimeType &&
+				sizeMin == null &&
+				sizeMax == null &&
+				!modifiedAfter &&
+				!modifiedBefore &&
+				!ownerId &&
 				(!keywords || keywords.length === 0),
 			notifyOnNetworkStatusChange: true,
 			errorPolicy: 'all'
@@ -10,13 +10,24 @@ import { useModal } from '@zextras/carbonio-design-system';
 
 import { useSearch } from '../../../hooks/useSearch';
 import { searchParamsVar } from '../../apollo/searchVar';
+import { AdvancedFilters } from '../../types/common';
 import { AdvancedSearchModalContent } from '../../views/components/AdvancedSearchModalContent';
+import { useRecentSearches } from '../useRecentSearches';
 
 export function useAdvancedSearchModal(): {
 	openAdvancedSearchModal: () => void;
 } {
 	const createModal = useModal();
 	const { searchAdvancedFilters } = useSearch();
+	const { addRecentSearch } = useRecentSearches();
+
+	const submitSearch = useCallback(
+		(filters: AdvancedFilters) => {
+			addRecentSearch(filters);
+			searchAdvancedFilters(filters);
+		},
+		[addRecentSearch, searchAdvancedFilters]
+	);
 
 	const openAdvancedSearchModal = useCallback(() => {
 		const closeModal = createModal(
@@ -29,13 +40,13 @@ export function useAdvancedSearchModal(): {
 					<AdvancedSearchModalContent
 						closeAction={(): void => closeModal()}
 						filters={searchParamsVar()}
-						searchAdvancedFilters={searchAdvancedFilters}
+						searchAdvancedFilters={submitSearch}
 					/>
 				)
 			},
 			true
 		);
-	}, [createModal, searchAdvancedFilters]);
+	}, [createModal, submitSearch]);
 
 	return { openAdvancedSearchModal };
 }
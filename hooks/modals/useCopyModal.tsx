@@ -12,7 +12,7 @@ import { GetNodeParentType, Node } from '../../types/common';
 import { CopyNodesModalContent } from '../../views/components/CopyNodesModalContent';
 
 export type OpenCopyModal = (
-	nodes: Array<Pick<Node, '__typename' | 'id'> & GetNodeParentType>,
+	nodes: Array<Pick<Node, '__typename' | 'id' | 'name'> & GetNodeParentType>,
 	fromFolder?: string
 ) => void;
 
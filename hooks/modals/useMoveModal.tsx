@@ -14,7 +14,7 @@ import { MoveNodesModalContent } from '../../views/components/MoveNodesModalCont
 import { useCreateSnackbar } from '../useCreateSnackbar';
 
 export type OpenMoveModal = (
-	nodes: Array<Pick<Node, '__typename' | 'id' | 'owner'> & GetNodeParentType>,
+	nodes: Array<Pick<Node, '__typename' | 'id' | 'owner' | 'name'> & GetNodeParentType>,
 	fromFolder?: string
 ) => void;
 
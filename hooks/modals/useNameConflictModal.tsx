@@ -0,0 +1,105 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback } from 'react';
+
+import { useModal } from '@zextras/carbonio-design-system';
+import reduce from 'lodash/reduce';
+
+import { NameConflictResolution } from '../../types/common';
+import { NameConflictModalContent } from '../../views/components/NameConflictModalContent';
+
+export type NameConflict<T> = {
+	item: T;
+	name: string;
+	allowReplace: boolean;
+};
+
+export type ResolvedNameConflict<T> = {
+	item: T;
+	resolution: NameConflictResolution;
+};
+
+export type ResolveNameConflicts = <T>(
+	conflicts: Array<NameConflict<T>>
+) => Promise<Array<ResolvedNameConflict<T>>>;
+
+type NameConflictAnswer = { resolution: NameConflictResolution; applyToAll: boolean };
+
+/**
+ * Ask the user how to resolve a list of name conflicts, one at a time.
+ * When the user chooses to apply a resolution to all the conflicts, the remaining ones are resolved
+ * without asking again, except for the ones which cannot be replaced when the chosen resolution is replace.
+ * Closing the modal skips the current conflict.
+ */
+export function useNameConflictModal(): { resolveNameConflicts: ResolveNameConflicts } {
+	const createModal = useModal();
+
+	const openNameConflictModal = useCallback(
+		(name: string, allowReplace: boolean, remainingConflicts: number) =>
+			new Promise<NameConflictAnswer>((resolve) => {
+				const closeModal = createModal(
+					{
+						onClose: () => {
+							closeModal();
+							resolve({ resolution: NameConflictResolution.SKIP, applyToAll: false });
+						},
+						children: (
+							<NameConflictModalContent
+								name={name}
+								allowReplace={allowReplace}
+								remainingConflicts={remainingConflicts}
+								resolveAction={(resolution, applyToAll): void => {
+									closeModal();
+									resolve({ resolution, applyToAll });
+								}}
+								closeAction={(): void => {
+									closeModal();
+									resolve({ resolution: NameConflictResolution.SKIP, applyToAll: false });
+								}}
+							/>
+						)
+					},
+					true
+				);
+			}),
+		[createModal]
+	);
+
+	const resolveNameConflicts = useCallback<ResolveNameConflicts>(
+		<T,>(conflicts: Array<NameConflict<T>>) => {
+			const resolvedConflicts: Array<ResolvedNameConflict<T>> = [];
+			let resolutionForAll: NameConflictResolution | undefined;
+			return reduce(
+				conflicts,
+				(promise: Promise<void>, conflict, index) =>
+					promise.then(() => {
+						if (
+							resolutionForAll &&
+							(resolutionForAll !== NameConflictResolution.REPLACE || conflict.allowReplace)
+						) {
+							resolvedConflicts.push({ item: conflict.item, resolution: resolutionForAll });
+							return undefined;
+						}
+						return openNameConflictModal(
+							conflict.name,
+							conflict.allowReplace,
+							conflicts.length - index - 1
+						).then(({ resolution, applyToAll }) => {
+							if (applyToAll) {
+								resolutionForAll = resolution;
+							}
+							resolvedConflicts.push({ item: conflict.item, resolution });
+						});
+					}),
+				Promise.resolve()
+			).then(() => resolvedConflicts);
+		},
+		[openNameConflictModal]
+	);
+
+	return { resolveNameConflicts };
+}
@@ -0,0 +1,31 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useEffect, useRef } from 'react';
+
+import forEach from 'lodash/forEach';
+
+/**
+ * Typed version of the useCombinedRefs of the design system.
+ * The returned ref is given to the element, and its value is forwarded to all the given refs
+ */
+export function useCombinedRefs<T>(
+	...refs: Array<React.Ref<T> | undefined>
+): React.MutableRefObject<T | null> {
+	const targetRef = useRef<T | null>(null);
+
+	useEffect(() => {
+		forEach(refs, (ref) => {
+			if (typeof ref === 'function') {
+				ref(targetRef.current);
+			} else if (ref) {
+				(ref as React.MutableRefObject<T | null>).current = targetRef.current;
+			}
+		});
+	}, [refs]);
+
+	return targetRef;
+}
@@ -0,0 +1,66 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
+import findIndex from 'lodash/findIndex';
+import map from 'lodash/map';
+
+import { detailsColumnsVar } from '../apollo/detailsColumnsVar';
+import { DETAILS_COLUMN_MIN_WIDTH } from '../constants';
+import { DetailsColumn, DetailsColumnLayout } from '../types/common';
+import { storeDetailsColumns } from '../utils/detailsColumnsStorage';
+
+const setDetailsColumns = (columns: DetailsColumnLayout[]): void => {
+	detailsColumnsVar(columns);
+	storeDetailsColumns(columns);
+};
+
+export type UseDetailsColumnsHook = () => {
+	columns: DetailsColumnLayout[];
+	/** the width is stored only when the resize ends, while dragging it is just shown */
+	resizeColumn: (id: DetailsColumn, width: number, isResizeEnd?: boolean) => void;
+	/** move the column in the position of the target one */
+	moveColumn: (id: DetailsColumn, targetId: DetailsColumn) => void;
+};
+
+export const useDetailsColumns: UseDetailsColumnsHook = () => {
+	const columns = useReactiveVar(detailsColumnsVar);
+
+	const resizeColumn = useCallback<ReturnType<UseDetailsColumnsHook>['resizeColumn']>(
+		(id, width, isResizeEnd = false) => {
+			const newColumns = map(detailsColumnsVar(), (column) =>
+				column.id === id
+					? { ...column, width: Math.max(Math.round(width), DETAILS_COLUMN_MIN_WIDTH) }
+					: column
+			);
+			if (isResizeEnd) {
+				setDetailsColumns(newColumns);
+			} else {
+				detailsColumnsVar(newColumns);
+			}
+		},
+		[]
+	);
+
+	const moveColumn = useCallback<ReturnType<UseDetailsColumnsHook>['moveColumn']>(
+		(id, targetId) => {
+			const prevColumns = detailsColumnsVar();
+			const movedColumn = find(prevColumns, ['id', id]);
+			if (movedColumn && id !== targetId) {
+				const newColumns = filter(prevColumns, (column) => column.id !== id);
+				newColumns.splice(findIndex(prevColumns, ['id', targetId]), 0, movedColumn);
+				setDetailsColumns(newColumns);
+			}
+		},
+		[]
+	);
+
+	return { columns, resizeColumn, moveColumn };
+};
@@ -0,0 +1,355 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback } from 'react';
+
+import filter from 'lodash/filter';
+import forEach from 'lodash/forEach';
+import includes from 'lodash/includes';
+import map from 'lodash/map';
+import noop from 'lodash/noop';
+import uniqueId from 'lodash/uniqueId';
+import moment from 'moment-timezone';
+import { TFunction, useTranslation } from 'react-i18next';
+
+import { downloadFunctionsVar, downloadVar } from '../apollo/downloadVar';
+import { DOWNLOAD_IN_MEMORY_MAX_SIZE } from '../constants';
+import { DownloadStatus, DownloadType } from '../types/common';
+import { File, MakeOptional, Node } from '../types/graphql/types';
+import {
+	clickDownloadLink,
+	decodeHttpError,
+	getDownloadArchiveUrl,
+	getDownloadUrl,
+	saveBlob
+} from '../utils/utils';
+
+export type DownloadableNode = Pick<Node, 'id' | 'name'> &
+	MakeOptional<Pick<File, 'size'>, 'size'>;
+
+const updateDownload = (id: string, changes: Partial<DownloadType>): void => {
+	const download = downloadVar()[id];
+	// the download could have been removed by the user in the meantime
+	if (download) {
+		downloadVar({ ...downloadVar(), [id]: { ...download, ...changes } });
+	}
+};
+
+// File System Access API, which is not part of the dom types yet
+export interface SaveFileHandle {
+	createWritable: () => Promise<WritableStream<Uint8Array | Blob>>;
+}
+
+type WindowWithSaveFilePicker = Window & {
+	showSaveFilePicker?: (options: { suggestedName: string }) => Promise<SaveFileHandle>;
+};
+
+/**
+ * Only small files are read in memory. Archives are built while they are sent, so their size is
+ * not known in advance, and they are streamed as the files of unknown or big size
+ */
+const isStreamed = (download: Pick<DownloadType, 'archive' | 'total'>): boolean =>
+	download.archive || download.total === undefined || download.total > DOWNLOAD_IN_MEMORY_MAX_SIZE;
+
+/**
+ * Ask the user the file in which a streamed download is saved. The request must be done
+ * while handling the action of the user, so before starting the download.
+ * Resolve to undefined if the browser does not support it, so that the download is handed to
+ * the browser, and reject if the user closes the dialog.
+ */
+const chooseSaveFile = (name: string): Promise<SaveFileHandle | undefined> => {
+	const { showSaveFilePicker } = window as WindowWithSaveFilePicker;
+	if (!showSaveFilePicker) {
+		return Promise.resolve(undefined);
+	}
+	return showSaveFilePicker({ suggestedName: name }).catch((err) => {
+		if (err?.name === 'AbortError') {
+			throw err;
+		}
+		console.error(err);
+		return undefined;
+	});
+};
+
+/**
+ * Read the body of the response in memory, notifying the bytes received so far.
+ * Used only for small files, see isStreamed
+ */
+const readResponse = (response: Response, onProgress: (loaded: number) => void): Promise<Blob> => {
+	const contentType = response.headers.get('Content-Type') || '';
+	if (!response.body) {
+		// streams are not supported, so the progress is notified only once the whole body is received
+		return response.blob().then((blob) => {
+			onProgress(blob.size);
+			return blob;
+		});
+	}
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let loaded = 0;
+	const readChunk = (): Promise<Blob> =>
+		reader.read().then(({ done, value }) => {
+			if (done || !value) {
+				return new Blob(chunks, { type: contentType });
+			}
+			chunks.push(value);
+			loaded += value.length;
+			onProgress(loaded);
+			return readChunk();
+		});
+	return readChunk();
+};
+
+/**
+ * Write the body of the response in the given file while it is received, notifying the bytes
+ * written so far. Resolve to the size of the file
+ */
+const writeResponse = (
+	response: Response,
+	fileHandle: SaveFileHandle,
+	onProgress: (loaded: number) => void
+): Promise<number> =>
+	fileHandle.createWritable().then((writable) => {
+		const writer = writable.getWriter();
+		let loaded = 0;
+		const writeChunk = (chunk: Uint8Array | Blob, size: number): Promise<void> =>
+			writer.write(chunk).then(() => {
+				loaded += size;
+				onProgress(loaded);
+			});
+		const writeBody = (): Promise<void> => {
+			if (!response.body) {
+				return response.blob().then((blob) => writeChunk(blob, blob.size));
+			}
+			const reader = response.body.getReader();
+			const writeNextChunk = (): Promise<void> =>
+				reader
+					.read()
+					.then(({ done, value }) =>
+						done || !value ? undefined : writeChunk(value, value.length).then(writeNextChunk)
+					);
+			return writeNextChunk();
+		};
+		return writeBody()
+			.then(() => writer.close())
+			.then(() => loaded)
+			.catch((err) =>
+				// discard the partial file
+				writer
+					.abort(err)
+					.catch(noop)
+					.then(() => Promise.reject(err))
+			);
+	});
+
+const getContentUrl = (download: DownloadType): string =>
+	download.archive
+		? getDownloadArchiveUrl(download.nodeIds)
+		: // download node without version to be sure last version is downloaded
+		  getDownloadUrl(download.nodeIds[0]);
+
+const startDownload = (download: DownloadType, t: TFunction, fileHandle?: SaveFileHandle): void => {
+	if (isStreamed(download) && !fileHandle) {
+		// the browser downloads the content by itself and shows its progress
+		clickDownloadLink(getContentUrl(download), download.name);
+		updateDownload(download.id, { status: DownloadStatus.COMPLETED, handedToBrowser: true });
+		return;
+	}
+
+	const abortController = new AbortController();
+	downloadFunctionsVar({
+		...downloadFunctionsVar(),
+		[download.id]: { abort: (): void => abortController.abort() }
+	});
+
+	fetch(getContentUrl(download), { signal: abortController.signal })
+		.then((response) => {
+			if (!response.ok) {
+				updateDownload(download.id, {
+					status: DownloadStatus.FAILED,
+					errorMessage: decodeHttpError(response, t)
+				});
+				return undefined;
+			}
+			const contentLength = Number(response.headers.get('Content-Length'));
+			if (contentLength > 0) {
+				updateDownload(download.id, { total: contentLength });
+			}
+			const onProgress = (loaded: number): void => updateDownload(download.id, { loaded });
+			if (fileHandle) {
+				return writeResponse(response, fileHandle, onProgress);
+			}
+			return readResponse(response, onProgress).then((blob) => {
+				// the user could have canceled or removed the download while the last chunk was received
+				if (abortController.signal.aborted) {
+					return undefined;
+				}
+				saveBlob(blob, download.name);
+				return blob.size;
+			});
+		})
+		.then((size) => {
+			if (size !== undefined && !abortController.signal.aborted) {
+				updateDownload(download.id, { status: DownloadStatus.COMPLETED, total: size });
+			}
+		})
+		.catch((err) => {
+			// a canceled download is already marked as such by the cancel action
+			if (!abortController.signal.aborted) {
+				console.error(err);
+				updateDownload(download.id, {
+					status: DownloadStatus.FAILED,
+					errorMessage: t(
+						'download.error.network',
+						'The download has been interrupted, check your connection and try again'
+					)
+				});
+			}
+		});
+};
+
+/**
+ * Ask where to save the download if it is streamed, and then start it.
+ * Nothing is started if the user closes the dialog
+ */
+const prepareDownload = (
+	download: Pick<DownloadType, 'archive' | 'name' | 'total'>,
+	start: (fileHandle?: SaveFileHandle) => void
+): void => {
+	(isStreamed(download) ? chooseSaveFile(download.name) : Promise.resolve(undefined))
+		.then(start)
+		.catch((err) => {
+			if (err?.name !== 'AbortError') {
+				console.error(err);
+			}
+		});
+};
+
+export type UseDownloadHook = () => {
+	/**
+	 * Download the last version of the given file
+	 */
+	downloadFile: (node: DownloadableNode) => void;
+	/**
+	 * Download the given nodes, folders content included, as a single zip archive.
+	 * The archive is streamed in a file chosen by the user or, if the browser does not support
+	 * the choice, handed to the browser
+	 */
+	downloadArchive: (nodes: DownloadableNode[]) => void;
+	cancelById: (ids: string[]) => void;
+	retryById: (ids: string[]) => void;
+	removeById: (ids: string[]) => void;
+	removeAllCompleted: () => void;
+};
+
+export const useDownload: UseDownloadHook = () => {
+	const [t] = useTranslation();
+
+	const addDownload = useCallback(
+		(download: Omit<DownloadType, 'id' | 'status' | 'loaded'>): void => {
+			prepareDownload(download, (fileHandle) => {
+				const downloadEnriched: DownloadType = {
+					...download,
+					id: uniqueId('download-'),
+					status: DownloadStatus.LOADING,
+					loaded: 0
+				};
+				downloadVar({ ...downloadVar(), [downloadEnriched.id]: downloadEnriched });
+				startDownload(downloadEnriched, t, fileHandle);
+			});
+		},
+		[t]
+	);
+
+	const downloadFile = useCallback<ReturnType<UseDownloadHook>['downloadFile']>(
+		(node) =>
+			addDownload({
+				name: node.name,
+				nodeIds: [node.id],
+				archive: false,
+				total: node.size || undefined
+			}),
+		[addDownload]
+	);
+
+	const downloadArchive = useCallback<ReturnType<UseDownloadHook>['downloadArchive']>(
+		(nodes) =>
+			addDownload({
+				name:
+					nodes.length === 1
+						? `${nodes[0].name}.zip`
+						: `${t('download.archive.name', 'Files {{date}}', {
+								date: moment().format('YYYY-MM-DD HH.mm.ss')
+						  })}.zip`,
+				nodeIds: map(nodes, (node) => node.id),
+				archive: true
+			}),
+		[addDownload, t]
+	);
+
+	const cancelById = useCallback<ReturnType<UseDownloadHook>['cancelById']>((ids) => {
+		const downloadFunctions = downloadFunctionsVar();
+		forEach(ids, (id) => {
+			if (downloadVar()[id]?.status === DownloadStatus.LOADING) {
+				updateDownload(id, { status: DownloadStatus.CANCELED });
+				downloadFunctions[id]?.abort();
+			}
+		});
+	}, []);
+
+	const retryById = useCallback<ReturnType<UseDownloadHook>['retryById']>(
+		(ids) => {
+			forEach(ids, (id) => {
+				const download = downloadVar()[id];
+				if (
+					download &&
+					includes([DownloadStatus.FAILED, DownloadStatus.CANCELED], download.status)
+				) {
+					prepareDownload(download, (fileHandle) => {
+						updateDownload(id, {
+							status: DownloadStatus.LOADING,
+							loaded: 0,
+							errorMessage: undefined
+						});
+						startDownload(download, t, fileHandle);
+					});
+				}
+			});
+		},
+		[t]
+	);
+
+	const removeById = useCallback<ReturnType<UseDownloadHook>['removeById']>((ids) => {
+		const state = downloadVar();
+		const downloadFunctions = downloadFunctionsVar();
+		forEach(ids, (id) => {
+			// a running download is aborted before being removed
+			downloadFunctions[id]?.abort();
+			delete state[id];
+			delete downloadFunctions[id];
+		});
+		downloadVar({ ...state });
+		downloadFunctionsVar({ ...downloadFunctions });
+	}, []);
+
+	const removeAllCompleted = useCallback<ReturnType<UseDownloadHook>['removeAllCompleted']>(() => {
+		removeById(
+			map(
+				filter(downloadVar(), (download) => download.status === DownloadStatus.COMPLETED),
+				(download) => download.id
+			)
+		);
+	}, [removeById]);
+
+	return {
+		downloadFile,
+		downloadArchive,
+		cancelById,
+		retryById,
+		removeById,
+		removeAllCompleted
+	};
+};
@@ -247,7 +247,7 @@ export function useDroppableCrumbs(
 			event: React.DragEvent<HTMLElement>
 		) => {
 			if (node && canUploadFile(node)) {
-				add(event.dataTransfer.files, node.id, true);
+				add(event.dataTransfer, node.id);
 				createSnackbar({
 					key: new Date().toLocaleString(),
 					type: 'info',
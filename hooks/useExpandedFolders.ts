@@ -0,0 +1,47 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import filter from 'lodash/filter';
+import includes from 'lodash/includes';
+
+import useUserInfo from '../../hooks/useUserInfo';
+import { expandedFoldersVar } from '../apollo/expandedFoldersVar';
+import { getStoredExpandedFolders, storeExpandedFolders } from '../utils/expandedFoldersStorage';
+
+export type UseExpandedFoldersHook = () => {
+	/** ids of the folders expanded in the folder tree by the logged user */
+	expandedFolderIds: string[];
+	setFolderExpanded: (folderId: string, expanded: boolean) => void;
+};
+
+export const useExpandedFolders: UseExpandedFoldersHook = () => {
+	const { me } = useUserInfo();
+	const expandedFoldersByUser = useReactiveVar(expandedFoldersVar);
+
+	const expandedFolderIds = useMemo(
+		() => expandedFoldersByUser[me] || getStoredExpandedFolders(me),
+		[expandedFoldersByUser, me]
+	);
+
+	const setFolderExpanded = useCallback<ReturnType<UseExpandedFoldersHook>['setFolderExpanded']>(
+		(folderId, expanded) => {
+			const prevFolderIds = expandedFoldersVar()[me] || getStoredExpandedFolders(me);
+			if (includes(prevFolderIds, folderId) !== expanded) {
+				const folderIds = expanded
+					? [...prevFolderIds, folderId]
+					: filter(prevFolderIds, (id) => id !== folderId);
+				expandedFoldersVar({ ...expandedFoldersVar(), [me]: folderIds });
+				storeExpandedFolders(me, folderIds);
+			}
+		},
+		[me]
+	);
+
+	return { expandedFolderIds, setFolderExpanded };
+};
@@ -0,0 +1,228 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useApolloClient } from '@apollo/client';
+import filter from 'lodash/filter';
+import fromPairs from 'lodash/fromPairs';
+import map from 'lodash/map';
+import uniq from 'lodash/uniq';
+import { useTranslation } from 'react-i18next';
+
+import useUserInfo from '../../hooks/useUserInfo';
+import { nodeSortVar } from '../apollo/nodeSortVar';
+import { FULL_SHARES_LOAD_LIMIT, NODES_LOAD_LIMIT } from '../constants';
+import FIND_NODES from '../graphql/queries/findNodes.graphql';
+import GET_PATH from '../graphql/queries/getPath.graphql';
+import { SearchParams } from '../types/common';
+import {
+	FindNodesQuery,
+	FindNodesQueryVariables,
+	GetPathQuery,
+	GetPathQueryVariables
+} from '../types/graphql/types';
+import { NonNullableListItem } from '../types/utils';
+import { buildCsv, formatDate, saveBlob } from '../utils/utils';
+import { useCreateSnackbar } from './useCreateSnackbar';
+
+type ExportedNode = NonNullableListItem<NonNullable<FindNodesQuery['findNodes']>['nodes']>;
+
+export type ExportProgress = {
+	/** number of nodes loaded so far */
+	loaded: number;
+};
+
+const EXPORT_DATE_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+class ExportCancelledError extends Error {}
+
+export type UseExportNodesHook = () => {
+	/** progress of the running export, undefined when no export is running */
+	exportProgress: ExportProgress | undefined;
+	/**
+	 * Load all the nodes matching the params, page by page, and save them in a CSV file
+	 */
+	exportNodes: (params: SearchParams, fileName: string) => Promise<void>;
+	cancelExport: () => void;
+};
+
+export const useExportNodes: UseExportNodesHook = () => {
+	const apolloClient = useApolloClient();
+	const [t] = useTranslation();
+	const { zimbraPrefTimeZoneId } = useUserInfo();
+	const createSnackbar = useCreateSnackbar();
+	const [exportProgress, setExportProgress] = useState<ExportProgress>();
+	const abortControllerRef = useRef<AbortController>();
+
+	useEffect(
+		() => () => {
+			abortControllerRef.current?.abort();
+		},
+		[]
+	);
+
+	const getParentPaths = useCallback(
+		(nodes: ExportedNode[], signal: AbortSignal): Promise<Record<string, string>> => {
+			// nodes inside the same folder share the path of the parent, so it is loaded only once
+			const parentIds = uniq(
+				filter(
+					map(nodes, (node) => node.parent?.id),
+					(parentId): parentId is string => !!parentId
+				)
+			);
+			return Promise.all(
+				map(parentIds, (parentId) =>
+					apolloClient
+						.query<GetPathQuery, GetPathQueryVariables>({
+							query: GET_PATH,
+							variables: { node_id: parentId },
+							context: { fetchOptions: { signal } }
+						})
+						.then(({ data }): [string, string] => {
+							const path = map(data?.getPath, (pathNode) =>
+								/* i18next-extract-disable-next-line */
+								pathNode ? t('node.alias.name', pathNode.name, { context: pathNode.id }) : ''
+							);
+							return [parentId, path.join('/')];
+						})
+						.catch((): [string, string] => {
+							if (signal.aborted) {
+								throw new ExportCancelledError();
+							}
+							// the path of a node shared with the user can be not accessible
+							return [parentId, ''];
+						})
+				)
+			).then((entries) => fromPairs(entries));
+		},
+		[apolloClient, t]
+	);
+
+	const exportNodes = useCallback<ReturnType<UseExportNodesHook>['exportNodes']>(
+		(
+			{
+				keywords,
+				flagged,
+				sharedWithMe,
+				sharedByMe,
+				folderId,
+				cascade,
+				directShare,
+				type,
+				mimeType,
+				sizeMin,
+				sizeMax,
+				modifiedAfter,
+				modifiedBefore,
+				ownerId
+			},
+			fileName
+		) => {
+			abortControllerRef.current?.abort();
+			const abortController = new AbortController();
+			abortControllerRef.current = abortController;
+			const { signal } = abortController;
+			setExportProgress({ loaded: 0 });
+
+			const rows: Array<Array<string | number | undefined>> = [
+				[
+					t('export.csv.header.path', 'Path'),
+					t('export.csv.header.owner', 'Owner'),
+					t('export.csv.header.lastEditor', 'Last editor'),
+					t('export.csv.header.size', 'Size (bytes)'),
+					t('export.csv.header.type', 'Type'),
+					t('export.csv.header.createdAt', 'Created at'),
+					t('export.csv.header.updatedAt', 'Updated at'),
+					t('export.csv.header.shares', 'Shares')
+				]
+			];
+
+			const loadPage = (pageToken?: string | null): Promise<void> =>
+				apolloClient
+					.query<FindNodesQuery, FindNodesQueryVariables>({
+						query: FIND_NODES,
+						// pages loaded for the export must not replace the ones shown in the list
+						fetchPolicy: 'no-cache',
+						variables: {
+							keywords,
+							flagged,
+							shared_with_me: sharedWithMe,
+							shared_by_me: sharedByMe,
+							folder_id: folderId,
+							cascade,
+							direct_share: directShare,
+							type,
+							mime_type: mimeType,
+							size_min: sizeMin,
+							size_max: sizeMax,
+							modified_after: modifiedAfter,
+							modified_before: modifiedBefore,
+							owner_id: ownerId,
+							limit: NODES_LOAD_LIMIT,
+							sort: nodeSortVar(),
+							page_token: pageToken,
+							// shares are counted on the loaded ones, so load as many as possible
+							shares_limit: FULL_SHARES_LOAD_LIMIT
+						},
+						context: { fetchOptions: { signal } }
+					})
+					.then(({ data }) => {
+						if (signal.aborted) {
+							throw new ExportCancelledError();
+						}
+						const nodes = filter(data.findNodes?.nodes, (node): node is ExportedNode => !!node);
+						return getParentPaths(nodes, signal).then((parentPaths) => {
+							rows.push(
+								...map(nodes, (node) => [
+									`${(node.parent && parentPaths[node.parent.id]) || ''}/${node.name}`,
+									node.owner.email,
+									node.last_editor?.email,
+									'size' in node ? node.size : undefined,
+									node.type,
+									formatDate(node.created_at, EXPORT_DATE_FORMAT, zimbraPrefTimeZoneId),
+									formatDate(node.updated_at, EXPORT_DATE_FORMAT, zimbraPrefTimeZoneId),
+									node.shares.length
+								])
+							);
+							setExportProgress({ loaded: rows.length - 1 });
+							const nextPageToken = data.findNodes?.page_token;
+							return nextPageToken ? loadPage(nextPageToken) : undefined;
+						});
+					});
+
+			return loadPage()
+				.then(() => {
+					saveBlob(new Blob([buildCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+				})
+				.catch((error) => {
+					if (!signal.aborted && !(error instanceof ExportCancelledError)) {
+						console.error(error);
+						createSnackbar({
+							key: new Date().toLocaleString(),
+							type: 'error',
+							label: t('errorCode.export', 'Something went wrong while exporting the list'),
+							replace: true,
+							hideButton: true
+						});
+					}
+				})
+				.finally(() => {
+					if (abortControllerRef.current === abortController) {
+						abortControllerRef.current = undefined;
+						setExportProgress(undefined);
+					}
+				});
+		},
+		[apolloClient, createSnackbar, getParentPaths, t, zimbraPrefTimeZoneId]
+	);
+
+	const cancelExport = useCallback(() => {
+		abortControllerRef.current?.abort();
+	}, []);
+
+	return { exportProgress, exportNodes, cancelExport };
+};
@@ -0,0 +1,113 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback } from 'react';
+
+import isEmpty from 'lodash/isEmpty';
+import map from 'lodash/map';
+import uniq from 'lodash/uniq';
+import { useTranslation } from 'react-i18next';
+
+import { useNavigation } from '../../hooks/useNavigation';
+import useUserInfo from '../../hooks/useUserInfo';
+import { draggedItemsVar } from '../apollo/dragAndDropVar';
+import { selectionModeVar } from '../apollo/selectionVar';
+import { DRAG_TYPES } from '../constants';
+import { Node } from '../types/graphql/types';
+import {
+	ActionsFactoryNodeType,
+	canBeMoveDestination,
+	canUploadFile,
+	isFolder
+} from '../utils/ActionsFactory';
+import { useMoveNodesMutation } from './graphql/mutations/useMoveNodesMutation';
+import { useCreateSnackbar } from './useCreateSnackbar';
+import { useUpload } from './useUpload';
+
+export type DropFolder = Pick<ActionsFactoryNodeType, '__typename' | 'permissions' | 'id'> &
+	Partial<Pick<ActionsFactoryNodeType, 'owner'>> &
+	Pick<Node, 'name'>;
+
+export type UseFolderDropHook = (folder: DropFolder | undefined) => {
+	/** effect of the drop of the dragged items, and whether they can be dropped in the folder */
+	getDropState: (event: React.DragEvent) => {
+		effect: typeof DataTransfer.prototype.dropEffect;
+		enabled: boolean;
+	};
+	/** move the dragged nodes, or upload the dragged files, into the folder */
+	drop: (event: React.DragEvent) => void;
+};
+
+/**
+ * Drop of nodes and files on a folder shown outside of the list, like the ones of the secondary bar
+ */
+export const useFolderDrop: UseFolderDropHook = (folder) => {
+	const [t] = useTranslation();
+	const { me } = useUserInfo();
+	const { navigateToFolder } = useNavigation();
+	const { moveNodes: moveNodesMutation } = useMoveNodesMutation();
+	const { add } = useUpload();
+	const createSnackbar = useCreateSnackbar();
+
+	const getDropState = useCallback<ReturnType<UseFolderDropHook>['getDropState']>(
+		(event) => {
+			if (folder && event.dataTransfer.types.includes(DRAG_TYPES.move)) {
+				const draggedNodes = draggedItemsVar() || [];
+				const parents = uniq(map(draggedNodes, (node) => node.parent?.id));
+				return {
+					effect: 'move',
+					// nodes cannot be moved into the folder which already contains them
+					enabled:
+						!isEmpty(draggedNodes) &&
+						(parents.length !== 1 || parents[0] !== folder.id) &&
+						canBeMoveDestination(folder, draggedNodes, me)
+				};
+			}
+			if (folder && event.dataTransfer.types.includes(DRAG_TYPES.upload)) {
+				return { effect: 'copy', enabled: canUploadFile(folder) };
+			}
+			return { effect: 'none', enabled: false };
+		},
+		[folder, me]
+	);
+
+	const drop = useCallback<ReturnType<UseFolderDropHook>['drop']>(
+		(event) => {
+			if (!folder || !isFolder(folder)) {
+				return;
+			}
+			if (event.dataTransfer.types.includes(DRAG_TYPES.move)) {
+				const movingNodes = JSON.parse(event.dataTransfer.getData(DRAG_TYPES.move) || '[]');
+				moveNodesMutation(folder, ...movingNodes)
+					.then(() => {
+						selectionModeVar(false);
+					})
+					.catch((err) => {
+						console.error(err);
+					});
+			} else if (event.dataTransfer.types.includes(DRAG_TYPES.upload)) {
+				add(event.dataTransfer, folder.id);
+				createSnackbar({
+					key: new Date().toLocaleString(),
+					type: 'info',
+					label: t('snackbar.upload.success', 'Upload occurred in {{destination}}', {
+						/* i18next-extract-disable-next-line */
+						destination: t('node.alias.name', folder.name, { context: folder.id })
+					}),
+					actionLabel: t('snackbar.upload.goToFolder', 'Go to folder'),
+					onActionClick: () => {
+						navigateToFolder(folder.id);
+					},
+					replace: false,
+					hideButton: true
+				});
+			}
+		},
+		[add, createSnackbar, folder, moveNodesMutation, navigateToFolder, t]
+	);
+
+	return { getDropState, drop };
+};
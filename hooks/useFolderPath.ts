@@ -0,0 +1,100 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback } from 'react';
+
+import { useApolloClient } from '@apollo/client';
+import filter from 'lodash/filter';
+import flatten from 'lodash/flatten';
+import map from 'lodash/map';
+import reduce from 'lodash/reduce';
+
+import { nodeSortVar } from '../apollo/nodeSortVar';
+import { NODES_LOAD_LIMIT } from '../constants';
+import FIND_NODES from '../graphql/queries/findNodes.graphql';
+import {
+	FindNodesQuery,
+	FindNodesQueryVariables,
+	Maybe,
+	Node,
+	NodeType
+} from '../types/graphql/types';
+
+type FolderPathNode = Pick<Node, 'id' | 'name'>;
+
+export type UseFolderPathHook = () => {
+	/** load all the pages of the subfolders of a folder */
+	getChildFolders: (folderId: string) => Promise<FolderPathNode[]>;
+	/**
+	 * Resolve a list of folder names, each one child of the previous, starting from the given folder.
+	 * Since names are not unique, resolve to the ids of all the folders with the given path.
+	 */
+	findFoldersByPath: (folderId: string, names: string[]) => Promise<string[]>;
+};
+
+export const useFolderPath: UseFolderPathHook = () => {
+	const apolloClient = useApolloClient();
+
+	const getChildFolders = useCallback<ReturnType<UseFolderPathHook>['getChildFolders']>(
+		(folderId) => {
+			const loadPage = (pageToken?: string | null): Promise<FolderPathNode[]> =>
+				apolloClient
+					.query<FindNodesQuery, FindNodesQueryVariables>({
+						query: FIND_NODES,
+						// pages loaded for the path must not replace the ones shown in the list
+						fetchPolicy: 'no-cache',
+						variables: {
+							folder_id: folderId,
+							cascade: false,
+							type: NodeType.Folder,
+							limit: NODES_LOAD_LIMIT,
+							sort: nodeSortVar(),
+							page_token: pageToken
+						}
+					})
+					.then(({ data }) => {
+						const folders = filter(
+							data.findNodes?.nodes,
+							(node: Maybe<FolderPathNode>): node is FolderPathNode => !!node
+						);
+						const nextPageToken = data.findNodes?.page_token;
+						return nextPageToken
+							? loadPage(nextPageToken).then((nextFolders) => [...folders, ...nextFolders])
+							: folders;
+					});
+
+			return loadPage().catch((err) => {
+				console.error(err);
+				return [];
+			});
+		},
+		[apolloClient]
+	);
+
+	const findFoldersByPath = useCallback<ReturnType<UseFolderPathHook>['findFoldersByPath']>(
+		(folderId, names) =>
+			reduce(
+				names,
+				(promise: Promise<string[]>, name) =>
+					promise.then((parentIds) =>
+						Promise.all(
+							map(parentIds, (parentId) =>
+								getChildFolders(parentId).then((folders) =>
+									map(
+										filter(folders, (folder) => folder.name === name),
+										(folder) => folder.id
+									)
+								)
+							)
+						).then(flatten)
+					),
+				Promise.resolve([folderId])
+			),
+		[getChildFolders]
+	);
+
+	return { getChildFolders, findFoldersByPath };
+};
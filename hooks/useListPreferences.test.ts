@@ -0,0 +1,118 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { act, renderHook } from '@testing-library/react-hooks';
+
+import { LOGGED_USER } from '../../mocks/constants';
+import { listPreferencesVar } from '../apollo/listPreferencesVar';
+import { nodeSortVar } from '../apollo/nodeSortVar';
+import {
+	LIST_PREFERENCES_STORAGE_KEY,
+	NODES_SORT_DEFAULT,
+	VIEW_MODES_STORAGE_KEY
+} from '../constants';
+import { ListDensity, ViewMode } from '../types/common';
+import { NodeSort } from '../types/graphql/types';
+import { useListPreferences, useRestoreNodeSort } from './useListPreferences';
+
+describe('useListPreferences', () => {
+	const storageKey = `${LIST_PREFERENCES_STORAGE_KEY}-${LOGGED_USER.id}`;
+
+	beforeEach(() => {
+		listPreferencesVar({});
+		nodeSortVar(NODES_SORT_DEFAULT);
+		window.localStorage.clear();
+	});
+
+	it('should keep the preferences of each folder, and use the default ones for the others', () => {
+		const { result: invoices } = renderHook(() => useListPreferences('invoices'));
+		const { result: reports } = renderHook(() => useListPreferences('reports'));
+		expect(invoices.current.preferences).toEqual({
+			sort: NODES_SORT_DEFAULT,
+			viewMode: ViewMode.List,
+			density: ListDensity.Comfortable
+		});
+
+		act(() => {
+			invoices.current.setPreferences({ sort: NodeSort.UpdatedAtDesc });
+			invoices.current.setPreferences({ density: ListDensity.Compact });
+		});
+		expect(invoices.current.preferences).toEqual({
+			sort: NodeSort.UpdatedAtDesc,
+			viewMode: ViewMode.List,
+			density: ListDensity.Compact
+		});
+		expect(reports.current.preferences.sort).toBe(NODES_SORT_DEFAULT);
+
+		act(() => {
+			invoices.current.setDefaultPreferences();
+			reports.current.setPreferences({ viewMode: ViewMode.Grid });
+		});
+		// preferences not chosen for the folder are taken from the default ones
+		expect(reports.current.preferences).toEqual({
+			sort: NodeSort.UpdatedAtDesc,
+			viewMode: ViewMode.Grid,
+			density: ListDensity.Compact
+		});
+		expect(JSON.parse(window.localStorage.getItem(storageKey) || '')).toEqual(
+			listPreferencesVar()[LOGGED_USER.id]
+		);
+	});
+
+	it('should restore the sort of the folder from the local storage', () => {
+		window.localStorage.setItem(
+			storageKey,
+			JSON.stringify({ default: {}, folders: { invoices: { sort: NodeSort.SizeDesc } } })
+		);
+		const { rerender } = renderHook(({ folderId }) => useRestoreNodeSort(folderId), {
+			initialProps: { folderId: 'invoices' }
+		});
+		expect(nodeSortVar()).toBe(NodeSort.SizeDesc);
+		rerender({ folderId: 'reports' });
+		expect(nodeSortVar()).toBe(NODES_SORT_DEFAULT);
+	});
+
+	it('should move the view modes stored before the preferences into the ones of the user', () => {
+		window.localStorage.setItem(
+			VIEW_MODES_STORAGE_KEY,
+			JSON.stringify({ invoices: ViewMode.Grid, reports: ViewMode.Details })
+		);
+		const { result } = renderHook(() => useListPreferences('invoices'));
+
+		expect(result.current.preferences.viewMode).toBe(ViewMode.Grid);
+		expect(JSON.parse(window.localStorage.getItem(storageKey) || '')).toEqual({
+			default: {},
+			folders: { invoices: { viewMode: ViewMode.Grid }, reports: { viewMode: ViewMode.Details } }
+		});
+		expect(window.localStorage.getItem(VIEW_MODES_STORAGE_KEY)).toBeNull();
+	});
+
+	it('should ignore the stored preferences with values which are not valid', () => {
+		const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+		window.localStorage.setItem(
+			storageKey,
+			JSON.stringify({ default: {}, folders: { invoices: { sort: 'BY_COLOR' } } })
+		);
+		const { result } = renderHook(() => useListPreferences('invoices'));
+
+		expect(result.current.preferences.sort).toBe(NODES_SORT_DEFAULT);
+		expect(consoleError).toHaveBeenCalled();
+		consoleError.mockRestore();
+	});
+
+	it('should keep the stored preferences with keys which are not known', () => {
+		window.localStorage.setItem(
+			storageKey,
+			JSON.stringify({
+				default: { zoom: 2 },
+				folders: { invoices: { sort: NodeSort.SizeDesc, columns: ['name'] } }
+			})
+		);
+		const { result } = renderHook(() => useListPreferences('invoices'));
+
+		expect(result.current.preferences.sort).toBe(NodeSort.SizeDesc);
+	});
+});
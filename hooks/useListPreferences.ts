@@ -0,0 +1,109 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+
+import useUserInfo from '../../hooks/useUserInfo';
+import { listPreferencesVar } from '../apollo/listPreferencesVar';
+import { nodeSortVar } from '../apollo/nodeSortVar';
+import { NODES_SORT_DEFAULT } from '../constants';
+import { ListDensity, ListPreferences, StoredListPreferences, ViewMode } from '../types/common';
+import {
+	getStoredListPreferences,
+	migrateViewModes,
+	storeListPreferences
+} from '../utils/listPreferencesStorage';
+
+const LIST_PREFERENCES_DEFAULT: ListPreferences = {
+	sort: NODES_SORT_DEFAULT,
+	viewMode: ViewMode.List,
+	density: ListDensity.Comfortable
+};
+
+const getListPreferences = (userId: string): StoredListPreferences =>
+	listPreferencesVar()[userId] || getStoredListPreferences(userId);
+
+const setListPreferences = (userId: string, preferences: StoredListPreferences): void => {
+	listPreferencesVar({ ...listPreferencesVar(), [userId]: preferences });
+	storeListPreferences(userId, preferences);
+};
+
+export type UseListPreferencesHook = (folderId?: string) => {
+	/**
+	 * Preferences chosen by the user for the folder. The missing ones are taken from the default
+	 * preferences of the user, and then from the default preferences of the application
+	 */
+	preferences: ListPreferences;
+	setPreferences: (preferences: Partial<ListPreferences>) => void;
+	/** use the preferences of the folder also for all the folders without their own */
+	setDefaultPreferences: () => void;
+};
+
+export const useListPreferences: UseListPreferencesHook = (folderId = '') => {
+	const { me } = useUserInfo();
+	const preferencesByUser = useReactiveVar(listPreferencesVar);
+	// the storage is read once, and used only until the preferences are written in the var
+	const [storedPreferences] = useState(
+		() => listPreferencesVar()[me] || getStoredListPreferences(me)
+	);
+
+	useEffect(() => {
+		if (!listPreferencesVar()[me]) {
+			migrateViewModes(me, storedPreferences);
+			listPreferencesVar({ ...listPreferencesVar(), [me]: storedPreferences });
+		}
+	}, [me, storedPreferences]);
+
+	const preferences = useMemo(() => {
+		const userPreferences = preferencesByUser[me] || storedPreferences;
+		return {
+			...LIST_PREFERENCES_DEFAULT,
+			...userPreferences.default,
+			...userPreferences.folders[folderId]
+		};
+	}, [folderId, me, preferencesByUser, storedPreferences]);
+
+	const setPreferences = useCallback<ReturnType<UseListPreferencesHook>['setPreferences']>(
+		(newPreferences) => {
+			const userPreferences = getListPreferences(me);
+			setListPreferences(me, {
+				...userPreferences,
+				folders: {
+					...userPreferences.folders,
+					[folderId]: { ...userPreferences.folders[folderId], ...newPreferences }
+				}
+			});
+		},
+		[folderId, me]
+	);
+
+	const setDefaultPreferences = useCallback(() => {
+		setListPreferences(me, { ...getListPreferences(me), default: preferences });
+	}, [me, preferences]);
+
+	return { preferences, setPreferences, setDefaultPreferences };
+};
+
+/**
+ * Apply the sort chosen for the folder to the nodeSortVar, which is read by the queries and by the
+ * updates of the cached lists. Children are cached by sort, so the sort must be restored before
+ * the list of the folder is loaded or updated.
+ * The var is written only when the sort of the folder is different from the current one, so that
+ * moving between folders with the same sort does not notify all the lists.
+ */
+export function useRestoreNodeSort(folderId?: string): void {
+	const {
+		preferences: { sort }
+	} = useListPreferences(folderId);
+
+	useLayoutEffect(() => {
+		if (nodeSortVar() !== sort) {
+			nodeSortVar(sort);
+		}
+	}, [sort]);
+}
@@ -0,0 +1,203 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback } from 'react';
+
+import { useApolloClient } from '@apollo/client';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
+import forEach from 'lodash/forEach';
+import includes from 'lodash/includes';
+import map from 'lodash/map';
+import reduce from 'lodash/reduce';
+
+import { nodeSortVar } from '../apollo/nodeSortVar';
+import { NODES_LOAD_LIMIT } from '../constants';
+import GET_CHILDREN from '../graphql/queries/getChildren.graphql';
+import { NameConflictResolution } from '../types/common';
+import {
+	ChildFragment,
+	GetChildrenQuery,
+	GetChildrenQueryVariables,
+	Maybe,
+	Node
+} from '../types/graphql/types';
+import { isFile, isFolder } from '../utils/ActionsFactory';
+import { getNameWithSuffix } from '../utils/utils';
+import { useTrashNodesMutation } from './graphql/mutations/useTrashNodesMutation';
+import { useUpdateNodeMutation } from './graphql/mutations/useUpdateNodeMutation';
+import { NameConflict, useNameConflictModal } from './modals/useNameConflictModal';
+
+type NodeWithName = Pick<Node, '__typename' | 'id' | 'name'>;
+
+type NodeConflictItem<T> = { node: T; existing: ChildFragment };
+
+export type ResolveNodesNameConflicts = <T extends NodeWithName>(
+	destinationFolderId: string,
+	nodes: T[]
+) => Promise<{
+	// nodes which have to be copied or moved, skipped nodes are excluded
+	nodes: T[];
+	// new names for the nodes which have to be kept together with the existing ones
+	// and for the nodes which replace the existing ones, until the replaced node is trashed
+	newNames: { [id: string]: string };
+	// existing nodes to replace once the operation succeeded, by id of the node which replaces them
+	replacedNodes: { [id: string]: ChildFragment };
+}>;
+
+export type NodeReplacement = {
+	// id of the node, in the destination folder, which replaces the existing one
+	id: string;
+	name: string;
+	existing: ChildFragment;
+};
+
+export type ReplaceExistingNodes = (replacements: NodeReplacement[]) => Promise<void>;
+
+/**
+ * Check the names of the given nodes against the children of the destination folder
+ * and ask the user how to resolve the conflicts.
+ * Existing files are replaced through replaceExistingNodes, once the copy or the move succeeded.
+ */
+export function useNodesNameConflicts(): {
+	resolveNodesNameConflicts: ResolveNodesNameConflicts;
+	replaceExistingNodes: ReplaceExistingNodes;
+} {
+	const apolloClient = useApolloClient();
+	const { resolveNameConflicts } = useNameConflictModal();
+	const trashNodes = useTrashNodesMutation();
+	const [updateNode] = useUpdateNodeMutation();
+
+	const loadAllChildren = useCallback(
+		(folderId: string, pageToken?: string | null): Promise<Array<Maybe<ChildFragment>>> =>
+			apolloClient
+				.query<GetChildrenQuery, GetChildrenQueryVariables>({
+					query: GET_CHILDREN,
+					variables: {
+						node_id: folderId,
+						children_limit: NODES_LOAD_LIMIT,
+						sort: nodeSortVar(),
+						page_token: pageToken
+					},
+					// pages are loaded only to check the names, so they must not be merged in the list
+					fetchPolicy: 'no-cache'
+				})
+				.then(({ data }) => {
+					if (!data?.getNode || !isFolder(data.getNode)) {
+						return [];
+					}
+					const { nodes, page_token: nextPageToken } = data.getNode.children;
+					return nextPageToken
+						? loadAllChildren(folderId, nextPageToken).then((nextNodes) => [...nodes, ...nextNodes])
+						: nodes;
+				}),
+		[apolloClient]
+	);
+
+	const getChildren = useCallback(
+		(folderId: string): Promise<ChildFragment[]> => {
+			const cachedFolder = apolloClient.readQuery<GetChildrenQuery, GetChildrenQueryVariables>({
+				query: GET_CHILDREN,
+				variables: {
+					node_id: folderId,
+					// load all cached children
+					children_limit: Number.MAX_SAFE_INTEGER,
+					sort: nodeSortVar()
+				}
+			});
+			const cachedChildren =
+				cachedFolder?.getNode && isFolder(cachedFolder.getNode)
+					? cachedFolder.getNode.children
+					: undefined;
+			// the cached children are enough only if all the pages are loaded
+			const childrenPromise =
+				cachedChildren && cachedChildren.page_token === null
+					? Promise.resolve(cachedChildren.nodes)
+					: loadAllChildren(folderId).catch((err) => {
+							// the server refuses the conflicting names anyway
+							console.error(err);
+							return cachedChildren?.nodes || [];
+					  });
+			return childrenPromise.then((children) =>
+				filter(children, (child): child is ChildFragment => !!child)
+			);
+		},
+		[apolloClient, loadAllChildren]
+	);
+
+	const resolveNodesNameConflicts = useCallback<ResolveNodesNameConflicts>(
+		<T extends NodeWithName>(destinationFolderId: string, nodes: T[]) =>
+			getChildren(destinationFolderId).then((children) => {
+				const conflicts = reduce(
+					nodes,
+					(accumulator: Array<NameConflict<NodeConflictItem<T>>>, node) => {
+						// a node copied inside its own folder does not conflict with itself
+						const existing = find(
+							children,
+							(child) => child.name === node.name && child.id !== node.id
+						);
+						if (existing) {
+							accumulator.push({
+								item: { node, existing },
+								name: node.name,
+								// only a file can replace another file
+								allowReplace: isFile(node) && isFile(existing)
+							});
+						}
+						return accumulator;
+					},
+					[]
+				);
+				if (conflicts.length === 0) {
+					return { nodes, newNames: {}, replacedNodes: {} };
+				}
+				return resolveNameConflicts(conflicts).then((resolvedConflicts) => {
+					const skippedIds: string[] = [];
+					const replacedNodes: { [id: string]: ChildFragment } = {};
+					const newNames: { [id: string]: string } = {};
+					const usedNames = map(children, (child) => child.name);
+					forEach(resolvedConflicts, ({ item: { node, existing }, resolution }) => {
+						if (resolution === NameConflictResolution.SKIP) {
+							skippedIds.push(node.id);
+						} else {
+							if (resolution === NameConflictResolution.REPLACE) {
+								replacedNodes[node.id] = existing;
+							}
+							newNames[node.id] = getNameWithSuffix(node.name, usedNames);
+							usedNames.push(newNames[node.id]);
+						}
+					});
+					return {
+						nodes: filter(nodes, (node) => !includes(skippedIds, node.id)),
+						newNames,
+						replacedNodes
+					};
+				});
+			}),
+		[getChildren, resolveNameConflicts]
+	);
+
+	const replaceExistingNodes = useCallback<ReplaceExistingNodes>(
+		(replacements) => {
+			if (replacements.length === 0) {
+				return Promise.resolve();
+			}
+			return trashNodes(...map(replacements, ({ existing }) => existing)).then(({ data }) => {
+				// a node takes the name of the existing one only if this one has been trashed
+				const trashedIds = data?.trashNodes || [];
+				return Promise.all(
+					map(
+						filter(replacements, ({ existing }) => includes(trashedIds, existing.id)),
+						({ id, name }) => updateNode(id, name)
+					)
+				).then(() => undefined);
+			});
+		},
+		[trashNodes, updateNode]
+	);
+
+	return { resolveNodesNameConflicts, replaceExistingNodes };
+}
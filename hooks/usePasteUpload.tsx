@@ -0,0 +1,142 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useEffect } from 'react';
+
+import { useModal } from '@zextras/carbonio-design-system';
+import filter from 'lodash/filter';
+import map from 'lodash/map';
+import moment from 'moment-timezone';
+import { useTranslation } from 'react-i18next';
+
+import { UpdateNodeNameModalContent } from '../views/components/UpdateNodeNameModalContent';
+import { useUpload } from './useUpload';
+
+// browsers give the same default name to every image pasted from the clipboard
+const DEFAULT_CLIPBOARD_NAME_REGEXP = /^image\.\w+$/;
+
+const isEditableTarget = (target: EventTarget | null): boolean =>
+	target instanceof HTMLElement &&
+	(target instanceof HTMLInputElement ||
+		target instanceof HTMLTextAreaElement ||
+		target.isContentEditable);
+
+const getFileExtension = (file: File): string => {
+	const [, subType] = file.type.split('/');
+	// image/svg+xml becomes svg
+	return (subType && subType.split('+')[0]) || 'bin';
+};
+
+/**
+ * Get the files from the clipboard items, with the given name, numbered and followed by the
+ * extension, for the ones without a meaningful name
+ */
+const getClipboardFiles = (clipboardData: DataTransfer, defaultName: string): File[] => {
+	const files = map(
+		filter(clipboardData.items, (item) => item.kind === 'file'),
+		(item) => item.getAsFile()
+	);
+	return map(
+		filter(files, (file): file is File => file !== null),
+		(file, index) => {
+			if (file.name && !DEFAULT_CLIPBOARD_NAME_REGEXP.test(file.name)) {
+				return file;
+			}
+			const suffix = index > 0 ? ` (${index})` : '';
+			return new File([file], `${defaultName}${suffix}.${getFileExtension(file)}`, {
+				type: file.type,
+				lastModified: file.lastModified
+			});
+		}
+	);
+};
+
+/**
+ * Upload in the given folder the files pasted from the clipboard.
+ * When a single file is pasted, the user can choose its name before the upload starts.
+ * Pastes inside inputs and editable elements are ignored.
+ */
+export function usePasteUpload(
+	destinationId: string | undefined,
+	canUpload: boolean,
+	onUpload?: () => void
+): void {
+	const { add } = useUpload();
+	const [t] = useTranslation();
+	const createModal = useModal();
+
+	const uploadFiles = useCallback(
+		(files: File[]) => {
+			if (destinationId) {
+				add(files, destinationId);
+				onUpload && onUpload();
+			}
+		},
+		[add, destinationId, onUpload]
+	);
+
+	const openNameModal = useCallback(
+		(file: File) => {
+			const closeModal = createModal({
+				title: t('uploads.paste.modal.title', 'Upload from clipboard'),
+				onClose: () => {
+					closeModal();
+				},
+				children: (
+					<UpdateNodeNameModalContent
+						inputLabel={t('uploads.paste.modal.input.label.name', 'File name')}
+						nodeName={file.name}
+						allowSameName
+						confirmAction={(_destinationId, newName): Promise<void> => {
+							uploadFiles([
+								new File([file], newName, { type: file.type, lastModified: file.lastModified })
+							]);
+							return Promise.resolve();
+						}}
+						confirmLabel={t('uploads.paste.modal.button.confirm', 'Upload')}
+						nodeId={destinationId || ''}
+						closeAction={(): void => {
+							closeModal();
+						}}
+					/>
+				),
+				hideFooter: true,
+				showCloseIcon: true
+			});
+		},
+		[createModal, destinationId, t, uploadFiles]
+	);
+
+	useEffect(() => {
+		if (!destinationId || !canUpload) {
+			return undefined;
+		}
+		const pasteHandler = (event: ClipboardEvent): void => {
+			if (!event.clipboardData || isEditableTarget(event.target)) {
+				return;
+			}
+			const files = getClipboardFiles(
+				event.clipboardData,
+				t('uploads.paste.fileName', 'Pasted {{date}}', {
+					date: moment().format('YYYY-MM-DD HH.mm.ss')
+				})
+			);
+			if (files.length === 0) {
+				return;
+			}
+			event.preventDefault();
+			if (files.length === 1) {
+				openNameModal(files[0]);
+			} else {
+				uploadFiles(files);
+			}
+		};
+		document.addEventListener('paste', pasteHandler);
+		return (): void => {
+			document.removeEventListener('paste', pasteHandler);
+		};
+	}, [canUpload, destinationId, openNameModal, t, uploadFiles]);
+}
@@ -0,0 +1,70 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { act, renderHook } from '@testing-library/react-hooks';
+import map from 'lodash/map';
+import times from 'lodash/times';
+
+import { LOGGED_USER } from '../../mocks/constants';
+import { recentSearchesVar } from '../apollo/recentSearchesVar';
+import { RECENT_SEARCHES_LIMIT, RECENT_SEARCHES_STORAGE_KEY } from '../constants';
+import { AdvancedFilters } from '../types/common';
+import { buildChipsFromKeywords } from '../utils/testUtils';
+import { useRecentSearches } from './useRecentSearches';
+
+describe('useRecentSearches', () => {
+	const storageKey = `${RECENT_SEARCHES_STORAGE_KEY}-${LOGGED_USER.id}`;
+
+	beforeEach(() => {
+		recentSearchesVar({});
+		window.localStorage.clear();
+	});
+
+	it('should keep the most recent searches first without duplicates, in the storage of the user', () => {
+		const { result } = renderHook(() => useRecentSearches());
+		const reports: AdvancedFilters = { keywords: buildChipsFromKeywords(['report']) };
+		const flaggedReports: AdvancedFilters = {
+			...reports,
+			flagged: { label: 'Flagged', value: true }
+		};
+
+		act(() => {
+			result.current.addRecentSearch(reports);
+			result.current.addRecentSearch(flaggedReports);
+			result.current.addRecentSearch(reports);
+			result.current.addRecentSearch({});
+		});
+		expect(result.current.recentSearches).toEqual([reports, flaggedReports]);
+		expect(JSON.parse(window.localStorage.getItem(storageKey) || '')).toEqual(
+			result.current.recentSearches
+		);
+
+		act(() => {
+			result.current.clearRecentSearches();
+		});
+		expect(result.current.recentSearches).toEqual([]);
+		expect(window.localStorage.getItem(storageKey)).toBe('[]');
+	});
+
+	it('should restore the history from the local storage and drop the oldest searches over the limit', () => {
+		const storedSearches = map(times(RECENT_SEARCHES_LIMIT), (index) => ({
+			keywords: buildChipsFromKeywords([`keyword${index}`])
+		}));
+		window.localStorage.setItem(storageKey, JSON.stringify(storedSearches));
+		const { result } = renderHook(() => useRecentSearches());
+		expect(result.current.recentSearches).toEqual(storedSearches);
+
+		const newSearch: AdvancedFilters = { keywords: buildChipsFromKeywords(['new']) };
+		act(() => {
+			result.current.addRecentSearch(newSearch);
+		});
+		expect(result.current.recentSearches).toHaveLength(RECENT_SEARCHES_LIMIT);
+		expect(result.current.recentSearches[0]).toEqual(newSearch);
+		expect(result.current.recentSearches).not.toContainEqual(
+			storedSearches[RECENT_SEARCHES_LIMIT - 1]
+		);
+	});
+});
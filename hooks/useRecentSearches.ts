@@ -0,0 +1,75 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import filter from 'lodash/filter';
+import take from 'lodash/take';
+
+import useUserInfo from '../../hooks/useUserInfo';
+import { recentSearchesVar } from '../apollo/recentSearchesVar';
+import { RECENT_SEARCHES_LIMIT } from '../constants';
+import { AdvancedFilters } from '../types/common';
+import { getStoredRecentSearches, storeRecentSearches } from '../utils/recentSearchesStorage';
+import { serializeSearchQuery } from '../utils/searchQuery';
+
+const getRecentSearches = (userId: string): AdvancedFilters[] =>
+	recentSearchesVar()[userId] || getStoredRecentSearches(userId);
+
+const setRecentSearches = (userId: string, recentSearches: AdvancedFilters[]): void => {
+	recentSearchesVar({ ...recentSearchesVar(), [userId]: recentSearches });
+	storeRecentSearches(userId, recentSearches);
+};
+
+export type UseRecentSearchesHook = () => {
+	/** recent searches of the logged user, most recent first */
+	recentSearches: AdvancedFilters[];
+	/**
+	 * Add the filters on top of the history. A previous search with the same query is replaced.
+	 */
+	addRecentSearch: (filters: AdvancedFilters) => void;
+	clearRecentSearches: () => void;
+};
+
+export const useRecentSearches: UseRecentSearchesHook = () => {
+	const { me } = useUserInfo();
+	const recentSearchesByUser = useReactiveVar(recentSearchesVar);
+
+	const recentSearches = useMemo(
+		() => recentSearchesByUser[me] || getStoredRecentSearches(me),
+		[me, recentSearchesByUser]
+	);
+
+	const addRecentSearch = useCallback<ReturnType<UseRecentSearchesHook>['addRecentSearch']>(
+		(filters) => {
+			const query = serializeSearchQuery(filters);
+			if (!query) {
+				return;
+			}
+			setRecentSearches(
+				me,
+				take(
+					[
+						filters,
+						...filter(
+							getRecentSearches(me),
+							(recentSearch) => serializeSearchQuery(recentSearch) !== query
+						)
+					],
+					RECENT_SEARCHES_LIMIT
+				)
+			);
+		},
+		[me]
+	);
+
+	const clearRecentSearches = useCallback(() => {
+		setRecentSearches(me, []);
+	}, [me]);
+
+	return { recentSearches, addRecentSearch, clearRecentSearches };
+};
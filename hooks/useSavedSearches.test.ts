@@ -0,0 +1,113 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { act, renderHook } from '@testing-library/react-hooks';
+
+import { LOGGED_USER } from '../../mocks/constants';
+import { savedSearchesVar } from '../apollo/savedSearchesVar';
+import { SAVED_SEARCHES_STORAGE_KEY } from '../constants';
+import { AdvancedFilters } from '../types/common';
+import { buildChipsFromKeywords } from '../utils/testUtils';
+import { useSavedSearches } from './useSavedSearches';
+import { useSavedSearchesItem } from './useSavedSearchesItem';
+
+const mockSearchAdvancedFilters = jest.fn();
+
+jest.mock('../../hooks/useSearch', () => ({
+	useSearch: (): unknown => ({
+		searchParams: {},
+		searchAdvancedFilters: mockSearchAdvancedFilters
+	})
+}));
+
+describe('useSavedSearches', () => {
+	const storageKey = `${SAVED_SEARCHES_STORAGE_KEY}-${LOGGED_USER.id}`;
+	const filters: AdvancedFilters = {
+		keywords: buildChipsFromKeywords(['report']),
+		flagged: { label: 'Flagged', value: true }
+	};
+
+	beforeEach(() => {
+		savedSearchesVar({});
+		window.localStorage.clear();
+	});
+
+	it('should save, update and delete searches keeping the storage of the user in sync', () => {
+		const { result } = renderHook(() => useSavedSearches());
+
+		let savedSearchId = '';
+		act(() => {
+			savedSearchId = result.current.saveSearch('Reports', filters).id;
+		});
+		expect(result.current.savedSearches).toEqual([{ id: savedSearchId, name: 'Reports', filters }]);
+		expect(JSON.parse(window.localStorage.getItem(storageKey) || '')).toEqual(
+			result.current.savedSearches
+		);
+
+		act(() => {
+			result.current.updateSavedSearch(savedSearchId, { name: 'Flagged reports' });
+		});
+		expect(result.current.savedSearches[0].name).toBe('Flagged reports');
+		expect(result.current.savedSearches[0].filters).toEqual(filters);
+
+		act(() => {
+			result.current.deleteSavedSearch(savedSearchId);
+		});
+		expect(result.current.savedSearches).toEqual([]);
+		expect(window.localStorage.getItem(storageKey)).toBe('[]');
+	});
+
+	it('should restore the filters of the saved search opened from the secondary bar', () => {
+		const { result: savedSearchesResult } = renderHook(() => useSavedSearches());
+		const { result: itemResult } = renderHook(() => useSavedSearchesItem());
+		expect(itemResult.current).toBeUndefined();
+
+		act(() => {
+			savedSearchesResult.current.saveSearch('Reports', filters);
+		});
+		expect(itemResult.current?.items).toHaveLength(1);
+		expect(itemResult.current?.items?.[0].label).toBe('Reports');
+
+		act(() => {
+			itemResult.current?.items?.[0].onClick?.({
+				stopPropagation: jest.fn()
+			} as unknown as React.SyntheticEvent);
+		});
+		expect(mockSearchAdvancedFilters).toHaveBeenCalledWith(filters);
+	});
+
+	it('should restore the chip callbacks of the searches saved in a previous session', () => {
+		const folderFilters: AdvancedFilters = {
+			folderId: { label: 'in:Reports', avatarIcon: 'Folder', value: 'folder-id' },
+			cascade: { value: false }
+		};
+		window.localStorage.setItem(
+			storageKey,
+			JSON.stringify([{ id: 'saved-search', name: 'In reports', filters: folderFilters }])
+		);
+		const { result } = renderHook(() => useSavedSearches());
+
+		const stopPropagation = jest.fn();
+		expect(result.current.savedSearches[0].filters).toEqual({
+			...folderFilters,
+			folderId: { ...folderFilters.folderId, onClick: expect.any(Function) }
+		});
+		result.current.savedSearches[0].filters.folderId?.onClick?.({
+			stopPropagation
+		} as unknown as React.SyntheticEvent);
+		expect(stopPropagation).toHaveBeenCalled();
+	});
+
+	it('should ignore an invalid value in the storage', () => {
+		const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+		window.localStorage.setItem(storageKey, JSON.stringify({ name: 'not a list' }));
+		const { result } = renderHook(() => useSavedSearches());
+
+		expect(result.current.savedSearches).toEqual([]);
+		expect(consoleError).toHaveBeenCalled();
+		consoleError.mockRestore();
+	});
+});
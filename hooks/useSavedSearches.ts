@@ -0,0 +1,95 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
+import map from 'lodash/map';
+import uniqueId from 'lodash/uniqueId';
+
+import { useSearch } from '../../hooks/useSearch';
+import useUserInfo from '../../hooks/useUserInfo';
+import { savedSearchesVar } from '../apollo/savedSearchesVar';
+import { AdvancedFilters, SavedSearch } from '../types/common';
+import { getStoredSavedSearches, storeSavedSearches } from '../utils/savedSearchesStorage';
+
+const getSavedSearches = (userId: string): SavedSearch[] =>
+	savedSearchesVar()[userId] || getStoredSavedSearches(userId);
+
+const setSavedSearches = (userId: string, savedSearches: SavedSearch[]): void => {
+	savedSearchesVar({ ...savedSearchesVar(), [userId]: savedSearches });
+	storeSavedSearches(userId, savedSearches);
+};
+
+export type UseSavedSearchesHook = () => {
+	/** searches saved by the logged user */
+	savedSearches: SavedSearch[];
+	saveSearch: (name: string, filters: AdvancedFilters) => SavedSearch;
+	updateSavedSearch: (id: string, changes: Partial<Pick<SavedSearch, 'name' | 'filters'>>) => void;
+	deleteSavedSearch: (id: string) => void;
+	/**
+	 * Restore the filters of the saved search and run the search
+	 */
+	openSavedSearch: (id: string) => void;
+};
+
+export const useSavedSearches: UseSavedSearchesHook = () => {
+	const { me } = useUserInfo();
+	const savedSearchesByUser = useReactiveVar(savedSearchesVar);
+	const { searchAdvancedFilters } = useSearch();
+
+	const savedSearches = useMemo(
+		() => savedSearchesByUser[me] || getStoredSavedSearches(me),
+		[me, savedSearchesByUser]
+	);
+
+	const saveSearch = useCallback<ReturnType<UseSavedSearchesHook>['saveSearch']>(
+		(name, filters) => {
+			const savedSearch: SavedSearch = {
+				// time is added to keep ids unique across page reloads
+				id: uniqueId(`saved-search-${Date.now()}-`),
+				name,
+				filters
+			};
+			setSavedSearches(me, [...getSavedSearches(me), savedSearch]);
+			return savedSearch;
+		},
+		[me]
+	);
+
+	const updateSavedSearch = useCallback<ReturnType<UseSavedSearchesHook>['updateSavedSearch']>(
+		(id, changes) => {
+			setSavedSearches(
+				me,
+				map(getSavedSearches(me), (savedSearch) =>
+					savedSearch.id === id ? { ...savedSearch, ...changes } : savedSearch
+				)
+			);
+		},
+		[me]
+	);
+
+	const deleteSavedSearch = useCallback<ReturnType<UseSavedSearchesHook>['deleteSavedSearch']>(
+		(id) => {
+			setSavedSearches(me, filter(getSavedSearches(me), (savedSearch) => savedSearch.id !== id));
+		},
+		[me]
+	);
+
+	const openSavedSearch = useCallback<ReturnType<UseSavedSearchesHook>['openSavedSearch']>(
+		(id) => {
+			const savedSearch = find(getSavedSearches(me), (item) => item.id === id);
+			if (savedSearch) {
+				searchAdvancedFilters(savedSearch.filters);
+			}
+		},
+		[me, searchAdvancedFilters]
+	);
+
+	return { savedSearches, saveSearch, updateSavedSearch, deleteSavedSearch, openSavedSearch };
+};
@@ -0,0 +1,44 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useMemo } from 'react';
+
+import map from 'lodash/map';
+import { useTranslation } from 'react-i18next';
+
+import { SAVED_SEARCHES_ITEM_ID } from '../constants';
+import { AccordionItemShape } from '../views/components/SecondaryBarItem';
+import { useSavedSearches } from './useSavedSearches';
+
+/**
+ * Entry of the secondary bar which lists the saved searches.
+ * Undefined when the user has not saved any search yet.
+ */
+export function useSavedSearchesItem(): AccordionItemShape | undefined {
+	const [t] = useTranslation();
+	const { savedSearches, openSavedSearch } = useSavedSearches();
+
+	return useMemo(
+		() =>
+			savedSearches.length > 0
+				? {
+						id: SAVED_SEARCHES_ITEM_ID,
+						label: t('secondaryBar.savedSearches', 'Saved searches'),
+						icon: 'SearchOutline',
+						items: map(savedSearches, (savedSearch) => ({
+							id: `${SAVED_SEARCHES_ITEM_ID}-${savedSearch.id}`,
+							label: savedSearch.name,
+							icon: 'Search',
+							onClick: (event: React.SyntheticEvent): void => {
+								event.stopPropagation();
+								openSavedSearch(savedSearch.id);
+							}
+						}))
+				  }
+				: undefined,
+		[openSavedSearch, savedSearches, t]
+	);
+}
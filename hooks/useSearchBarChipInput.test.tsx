@@ -0,0 +1,89 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { LOGGED_USER } from '../../mocks/constants';
+import { recentSearchesVar } from '../apollo/recentSearchesVar';
+import { SearchBarChipInput } from '../design_system_fork/SearchBarChipInput';
+import { populateUser } from '../mocks/mockUtils';
+import { mockGetAccountByEmail } from '../utils/mockUtils';
+import { render } from '../utils/testUtils';
+import { useSearchBarChipInput } from './useSearchBarChipInput';
+
+const mockSearchAdvancedFilters = jest.fn();
+
+jest.mock('../../hooks/useSearch', () => ({
+	useSearch: (): unknown => ({
+		searchParams: {},
+		searchAdvancedFilters: mockSearchAdvancedFilters
+	})
+}));
+
+const SearchBar = (): JSX.Element => {
+	const searchBarProps = useSearchBarChipInput();
+	return <SearchBarChipInput placeholder="Search" {...searchBarProps} />;
+};
+
+describe('useSearchBarChipInput', () => {
+	beforeEach(() => {
+		mockSearchAdvancedFilters.mockClear();
+		recentSearchesVar({});
+		window.localStorage.clear();
+	});
+
+	test('the typed query is resolved into the filters of the search', async () => {
+		const owner = populateUser();
+		const mocks = [mockGetAccountByEmail({ email: owner.email }, owner)];
+
+		render(<SearchBar />, { mocks });
+
+		const input = screen.getByTestId('search-bar-chip-input');
+		userEvent.type(input, `owner:${owner.email}{enter}`);
+		await waitFor(() => expect(mockSearchAdvancedFilters).toHaveBeenCalled());
+		expect(mockSearchAdvancedFilters).toHaveBeenCalledWith({
+			ownerId: expect.objectContaining({
+				label: `owner:${owner.full_name}`,
+				value: owner.id,
+				queryValue: owner.email
+			})
+		});
+		// the text is removed only once it has become a chip
+		expect(input).toHaveTextContent('');
+		// the submitted search is added to the recent searches
+		expect(recentSearchesVar()[LOGGED_USER.id]).toEqual([
+			mockSearchAdvancedFilters.mock.calls[0][0]
+		]);
+	});
+
+	test('a token which is not valid is shown as chip without changing the search', async () => {
+		render(<SearchBar />, { mocks: [] });
+
+		const input = screen.getByTestId('search-bar-chip-input');
+		userEvent.type(input, 'type:unknown{enter}');
+		expect(await screen.findByText('type:unknown')).toBeVisible();
+		expect(input).toHaveTextContent('');
+		expect(mockSearchAdvancedFilters).not.toHaveBeenCalled();
+		expect(recentSearchesVar()[LOGGED_USER.id]).toBeUndefined();
+	});
+
+	test('the recent searches matching the typed text are suggested', async () => {
+		recentSearchesVar({
+			[LOGGED_USER.id]: [
+				{ flagged: { label: 'Flagged', value: true } },
+				{ sharedByMe: { label: 'Shared', value: true } }
+			]
+		});
+		render(<SearchBar />, { mocks: [] });
+
+		userEvent.type(screen.getByTestId('search-bar-chip-input'), 'flag');
+		expect(await screen.findByText('flagged:true')).toBeVisible();
+		expect(screen.queryByText('shared:true')).not.toBeInTheDocument();
+	});
+});
@@ -0,0 +1,79 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+
+import filter from 'lodash/filter';
+import isEqual from 'lodash/isEqual';
+import { useTranslation } from 'react-i18next';
+
+import { useSearch } from '../../hooks/useSearch';
+import {
+	searchFiltersToChips,
+	SearchQueryChip,
+	searchQueryChipsToFilters
+} from '../utils/searchQuery';
+import { useCreateSnackbar } from './useCreateSnackbar';
+import { useRecentSearches } from './useRecentSearches';
+import { useSearchQueryParser } from './useSearchQueryParser';
+import { useSearchSuggestions } from './useSearchSuggestions';
+
+export type UseSearchBarChipInputHook = () => {
+	/** chips of the filters of the current search, followed by the chips which are not valid */
+	value: SearchQueryChip[];
+	/** run the search with the filters of the valid chips and add it to the recent searches */
+	onChange: (chips: SearchQueryChip[]) => void;
+	parseQuery: (query: string) => Promise<SearchQueryChip[]>;
+	onParseError: (error: unknown) => void;
+} & ReturnType<typeof useSearchSuggestions>;
+
+/**
+ * Props of the SearchBarChipInput of the search bar, which accepts the search query language.
+ * The typed text is parsed into chips, and the chips are converted into the filters of the search.
+ */
+export const useSearchBarChipInput: UseSearchBarChipInputHook = () => {
+	const [t] = useTranslation();
+	const { searchParams, searchAdvancedFilters } = useSearch();
+	const parseQuery = useSearchQueryParser();
+	const createSnackbar = useCreateSnackbar();
+	const { addRecentSearch } = useRecentSearches();
+	const { options, onInputType, onInputTypeDebounce } = useSearchSuggestions();
+	// chips which cannot be converted into a filter are kept until the user removes them
+	const [invalidChips, setInvalidChips] = useState<SearchQueryChip[]>([]);
+
+	const filterChips = useMemo(() => searchFiltersToChips(searchParams), [searchParams]);
+
+	const value = useMemo(() => [...filterChips, ...invalidChips], [filterChips, invalidChips]);
+
+	const onChange = useCallback<ReturnType<UseSearchBarChipInputHook>['onChange']>(
+		(chips) => {
+			setInvalidChips(filter(chips, (chip) => !!chip.error || !chip.filterKey));
+			const filters = searchQueryChipsToFilters(chips);
+			// adding or removing an invalid chip does not change the search
+			if (!isEqual(filters, searchQueryChipsToFilters(filterChips))) {
+				addRecentSearch(filters);
+				searchAdvancedFilters(filters);
+			}
+		},
+		[addRecentSearch, filterChips, searchAdvancedFilters]
+	);
+
+	const onParseError = useCallback<ReturnType<UseSearchBarChipInputHook>['onParseError']>(
+		(error) => {
+			console.error(error);
+			createSnackbar({
+				key: new Date().toLocaleString(),
+				type: 'error',
+				label: t('search.query.error', 'Unable to read the search, please try again'),
+				replace: true,
+				hideButton: true
+			});
+		},
+		[createSnackbar, t]
+	);
+
+	return { value, onChange, parseQuery, onParseError, options, onInputType, onInputTypeDebounce };
+};
@@ -0,0 +1,40 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import reduce from 'lodash/reduce';
+import { useLocation } from 'react-router-dom';
+
+import { searchParamsVar } from '../apollo/searchVar';
+import { isSearchView } from '../utils/utils';
+
+/**
+ * Keywords of the current search. Empty outside the search view.
+ */
+export function useSearchKeywords(): string[] {
+	const location = useLocation();
+	const { keywords } = useReactiveVar(searchParamsVar);
+	const searchView = isSearchView(location);
+
+	return useMemo(
+		() =>
+			searchView
+				? reduce(
+						keywords,
+						(accumulator, keyword) => {
+							if (keyword.value && typeof keyword.value === 'string') {
+								accumulator.push(keyword.value);
+							}
+							return accumulator;
+						},
+						[] as string[]
+				  )
+				: [],
+		[keywords, searchView]
+	);
+}
@@ -0,0 +1,74 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback } from 'react';
+
+import { useApolloClient } from '@apollo/client';
+import find from 'lodash/find';
+import map from 'lodash/map';
+import toLower from 'lodash/toLower';
+
+import { NODES_LOAD_LIMIT } from '../constants';
+import FIND_NODES from '../graphql/queries/findNodes.graphql';
+import { FindNodesQuery, FindNodesQueryVariables, NodeType } from '../types/graphql/types';
+import { parseSearchQuery, SearchQueryChip } from '../utils/searchQuery';
+import { getChipLabel } from '../utils/utils';
+import { useGetAccountByEmailQuery } from './graphql/queries/useGetAccountByEmailQuery';
+
+/**
+ * Parse a search query into chips, resolving owner emails and folder names into ids.
+ * Tokens which cannot be resolved become error chips.
+ */
+export function useSearchQueryParser(): (query: string) => Promise<SearchQueryChip[]> {
+	const apolloClient = useApolloClient();
+	const getAccountByEmailLazyQuery = useGetAccountByEmailQuery();
+
+	const resolveChip = useCallback(
+		(chip: SearchQueryChip): Promise<SearchQueryChip> => {
+			const invalidChip = { label: chip.query, query: chip.query, hasAvatar: false, error: true };
+			if (chip.filterKey === 'ownerId' && typeof chip.value === 'string') {
+				const email = chip.value;
+				return getAccountByEmailLazyQuery({ variables: { email } })
+					.then((result) => {
+						const account = result?.data?.getAccountByEmail;
+						return account
+							? {
+									...chip,
+									label: `owner:${getChipLabel(account)}`,
+									value: account.id,
+									queryValue: email
+							  }
+							: invalidChip;
+					})
+					.catch(() => invalidChip);
+			}
+			if (chip.filterKey === 'folderId' && typeof chip.value === 'string') {
+				const folderName = chip.value;
+				return apolloClient
+					.query<FindNodesQuery, FindNodesQueryVariables>({
+						query: FIND_NODES,
+						fetchPolicy: 'network-only',
+						variables: { keywords: [folderName], type: NodeType.Folder, limit: NODES_LOAD_LIMIT }
+					})
+					.then((result) => {
+						const folder = find(
+							result.data.findNodes?.nodes,
+							(node) => !!node && toLower(node.name) === toLower(folderName)
+						);
+						return folder ? { ...chip, value: folder.id, queryValue: folderName } : invalidChip;
+					})
+					.catch(() => invalidChip);
+			}
+			return Promise.resolve(chip);
+		},
+		[apolloClient, getAccountByEmailLazyQuery]
+	);
+
+	return useCallback(
+		(query: string) => Promise.all(map(parseSearchQuery(query), resolveChip)),
+		[resolveChip]
+	);
+}
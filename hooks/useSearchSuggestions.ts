@@ -0,0 +1,148 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+import { NormalizedCacheObject, StoreObject, useApolloClient } from '@apollo/client';
+import filter from 'lodash/filter';
+import forEach from 'lodash/forEach';
+import includes from 'lodash/includes';
+import map from 'lodash/map';
+import reduce from 'lodash/reduce';
+import startsWith from 'lodash/startsWith';
+import take from 'lodash/take';
+import toLower from 'lodash/toLower';
+import trim from 'lodash/trim';
+import uniqBy from 'lodash/uniqBy';
+
+import { useNavigation } from '../../hooks/useNavigation';
+import { useSearch } from '../../hooks/useSearch';
+import { ROOTS, SEARCH_SUGGESTIONS_DEBOUNCE, SEARCH_SUGGESTIONS_LIMIT } from '../constants';
+import { NodesPageCachedObject } from '../types/apollo';
+import { Folder } from '../types/graphql/types';
+import { serializeSearchQuery } from '../utils/searchQuery';
+import { useRecentSearches } from './useRecentSearches';
+
+export type SearchSuggestion = {
+	id: string;
+	label: string;
+	icon: string;
+	/** run the suggested search or open the suggested folder */
+	click: () => void;
+};
+
+type CachedFolder = Pick<Folder, 'id' | 'name' | 'rootId'>;
+
+/**
+ * Folders listed inside the cached children of the folders already opened by the user
+ */
+function getCachedChildFolders(cacheData: NormalizedCacheObject): CachedFolder[] {
+	const folders: CachedFolder[] = [];
+	forEach(cacheData, (cachedObject) => {
+		if (cachedObject?.__typename !== 'Folder') {
+			return;
+		}
+		// children are cached with the sort in the field key, ex. children({"sort":"NAME_ASC"})
+		forEach(cachedObject, (fieldValue, fieldKey) => {
+			if (!startsWith(fieldKey, 'children')) {
+				return;
+			}
+			const children = fieldValue as unknown as NodesPageCachedObject | undefined;
+			const childrenRefs = [
+				...(children?.nodes?.ordered || []),
+				...(children?.nodes?.unOrdered || [])
+			];
+			forEach(childrenRefs, (ref) => {
+				const child: StoreObject | undefined = cacheData[ref.__ref];
+				if (child?.__typename === 'Folder' && typeof child.name === 'string') {
+					folders.push(child as unknown as CachedFolder);
+				}
+			});
+		});
+	});
+	return uniqBy(folders, 'id');
+}
+
+/**
+ * Suggestions for the search bar, built from the recent searches of the user and from the names
+ * of the folders already loaded in the cache.
+ * The returned options and onInputType are meant to be given to the SearchBarChipInput, which
+ * debounces onInputType by onInputTypeDebounce.
+ */
+export function useSearchSuggestions(): {
+	options: SearchSuggestion[];
+	onInputType: (event: { textContent: string | null }) => void;
+	onInputTypeDebounce: number;
+} {
+	const apolloClient = useApolloClient();
+	const { recentSearches, addRecentSearch } = useRecentSearches();
+	const { searchAdvancedFilters } = useSearch();
+	const { navigateToFolder } = useNavigation();
+	const [typedText, setTypedText] = useState('');
+	// the cache is read once when the user starts typing, instead of on every typed character
+	const cachedFoldersRef = useRef<CachedFolder[]>();
+
+	const onInputType = useCallback(
+		(event: { textContent: string | null }) => {
+			const text = trim(event.textContent || '');
+			if (!text) {
+				cachedFoldersRef.current = undefined;
+			} else if (!cachedFoldersRef.current) {
+				cachedFoldersRef.current = filter(
+					getCachedChildFolders(apolloClient.cache.extract() as NormalizedCacheObject),
+					(folder) => folder.rootId !== ROOTS.TRASH
+				);
+			}
+			setTypedText(text);
+		},
+		[apolloClient]
+	);
+
+	const options = useMemo<SearchSuggestion[]>(() => {
+		if (!typedText) {
+			return [];
+		}
+		const text = toLower(typedText);
+		const recentSearchesSuggestions = reduce(
+			recentSearches,
+			(accumulator, recentSearch, index) => {
+				const query = serializeSearchQuery(recentSearch);
+				if (accumulator.length < SEARCH_SUGGESTIONS_LIMIT && includes(toLower(query), text)) {
+					accumulator.push({
+						id: `recent-search-${index}`,
+						label: query,
+						icon: 'ClockOutline',
+						click: (): void => {
+							setTypedText('');
+							addRecentSearch(recentSearch);
+							searchAdvancedFilters(recentSearch);
+						}
+					});
+				}
+				return accumulator;
+			},
+			[] as SearchSuggestion[]
+		);
+		const folderSuggestions = map(
+			take(
+				filter(cachedFoldersRef.current, (folder) => includes(toLower(folder.name), text)),
+				SEARCH_SUGGESTIONS_LIMIT
+			),
+			(folder) => ({
+				id: `folder-${folder.id}`,
+				label: folder.name,
+				icon: 'Folder',
+				click: (): void => {
+					setTypedText('');
+					navigateToFolder(folder.id);
+				}
+			})
+		);
+		return [...recentSearchesSuggestions, ...folderSuggestions];
+	}, [addRecentSearch, navigateToFolder, recentSearches, searchAdvancedFilters, typedText]);
+
+	return { options, onInputType, onInputTypeDebounce: SEARCH_SUGGESTIONS_DEBOUNCE };
+}
@@ -15,6 +15,7 @@ import useSelection from './useSelection';
  * selectedIDs,
  * selectedMap,
  * selectId,
+ * selectRange,
  * isSelectionModeActive,
  * unSelectAll,
  * selectAll,
@@ -98,4 +99,51 @@ describe('useSelection tests', () => {
 
 		expect(result.current.isSelectionModeActive).toBeFalsy();
 	});
+
+	it('selectRange tests', () => {
+		const nodes: Node[] = [];
+
+		// eslint-disable-next-line no-plusplus
+		for (let i = 0; i < 10; i++) {
+			nodes.push(populateFolder());
+		}
+		const { result } = renderHook(() => useSelection(nodes));
+
+		act(() => {
+			result.current.selectRange(nodes[3].id, nodes[1].id);
+		});
+
+		// without an anchor the range starts from the fallback one
+		expect(result.current.selectedIDs).toEqual([nodes[1].id, nodes[2].id, nodes[3].id]);
+		expect(result.current.isSelectionModeActive).toBeTruthy();
+
+		act(() => {
+			result.current.selectId(nodes[5].id);
+		});
+
+		act(() => {
+			result.current.selectRange(nodes[2].id);
+		});
+
+		expect(result.current.selectedIDs).toEqual([
+			nodes[2].id,
+			nodes[3].id,
+			nodes[4].id,
+			nodes[5].id
+		]);
+
+		act(() => {
+			result.current.selectRange(nodes[7].id, nodes[0].id);
+		});
+
+		// the anchor is kept, so the range is moved instead of extended
+		expect(result.current.selectedIDs).toEqual([nodes[5].id, nodes[6].id, nodes[7].id]);
+
+		act(() => {
+			result.current.exitSelectionMode();
+		});
+
+		expect(result.current.selectedIDs.length).toBe(0);
+		expect(result.current.isSelectionModeActive).toBeFalsy();
+	});
 });
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { useReactiveVar } from '@apollo/client';
 import filter from 'lodash/filter';
@@ -16,12 +16,18 @@ import reduce from 'lodash/reduce';
 
 import { selectionModeVar } from '../apollo/selectionVar';
 import { PickIdNodeType } from '../types/common';
+import { getNodesRange } from '../utils/utils';
 import { useMemoCompare } from './useMemoCompare';
 
 export default function useSelection(nodes: Array<PickIdNodeType>): {
 	selectedIDs: string[];
 	selectedMap: { [id: string]: boolean };
 	selectId: (id: string) => void;
+	/**
+	 * Select the nodes between the anchor and the given one.
+	 * The anchor is the last node selected with selectId, or the fallback one when there is none.
+	 */
+	selectRange: (id: string, fallbackAnchorId?: string) => void;
 	isSelectionModeActive: boolean;
 	unSelectAll: () => void;
 	selectAll: () => void;
@@ -30,11 +36,13 @@ export default function useSelection(nodes: Array<PickIdNodeType>): {
 	const [selectedIDs, setSelectedIDs] = useState<string[]>([]);
 	const [isSelectionModeActive, setIsSelectionModeActive] = useState(false);
 	const selectionModeActive = useReactiveVar(selectionModeVar);
+	const anchorIdRef = useRef<string>();
 
 	useEffect(() => {
 		if (!selectionModeActive) {
 			setSelectedIDs([]);
 			setIsSelectionModeActive(false);
+			anchorIdRef.current = undefined;
 		}
 	}, [selectionModeActive]);
 
@@ -64,6 +72,7 @@ export default function useSelection(nodes: Array<PickIdNodeType>): {
 	);
 
 	const selectId = useCallback((id: string) => {
+		anchorIdRef.current = id;
 		setSelectedIDs((prevState) => {
 			const previousIds = [...prevState];
 			const index = previousIds.indexOf(id);
@@ -78,6 +87,20 @@ export default function useSelection(nodes: Array<PickIdNodeType>): {
 		selectionModeVar(true);
 	}, []);
 
+	const selectRange = useCallback(
+		(id: string, fallbackAnchorId?: string) => {
+			if (!find(memoNodes, ['id', anchorIdRef.current])) {
+				anchorIdRef.current = fallbackAnchorId || id;
+			}
+			setSelectedIDs(
+				map(getNodesRange(memoNodes, anchorIdRef.current as string, id), (node) => node.id)
+			);
+			setIsSelectionModeActive(true);
+			selectionModeVar(true);
+		},
+		[memoNodes]
+	);
+
 	const unSelectAll = useCallback(() => {
 		setSelectedIDs([]);
 	}, []);
@@ -97,6 +120,7 @@ export default function useSelection(nodes: Array<PickIdNodeType>): {
 		selectedIDs,
 		selectedMap,
 		selectId,
+		selectRange,
 		isSelectionModeActive,
 		unSelectAll,
 		selectAll,
@@ -0,0 +1,105 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+
+import { useApolloClient } from '@apollo/client';
+import compact from 'lodash/compact';
+import filter from 'lodash/filter';
+import isEmpty from 'lodash/isEmpty';
+import map from 'lodash/map';
+import reduce from 'lodash/reduce';
+
+import GET_PATH from '../graphql/queries/getPath.graphql';
+import { Crumb } from '../types/common';
+import { GetPathQuery, GetPathQueryVariables } from '../types/graphql/types';
+import { useFolderPath } from './useFolderPath';
+
+export type SiblingsCrumb<T extends Crumb = Crumb> = T & {
+	/** sibling folders of the crumb, shown as nested items of the collapsed crumbs dropdown */
+	items?: Crumb[];
+};
+
+/**
+ * Add to each ancestor crumb the list of its sibling folders, for a lateral navigation.
+ * Siblings are loaded only on request, each time from the children of the parent of the crumb.
+ * Parents are read from the full path of the folder, since the collapsed breadcrumb shows
+ * only the last crumbs.
+ */
+export function useSiblingCrumbs<T extends Crumb>(
+	crumbs: T[],
+	folderId: string | undefined,
+	navigateToFolder: (id: string) => void
+): {
+	data: Array<SiblingsCrumb<T>>;
+	loadSiblings: () => void;
+} {
+	const apolloClient = useApolloClient();
+	const { getChildFolders } = useFolderPath();
+	const [siblings, setSiblings] = useState<Record<string, Crumb[]>>({});
+
+	const loadSiblings = useCallback(() => {
+		if (!folderId) {
+			return;
+		}
+		apolloClient
+			.query<GetPathQuery, GetPathQueryVariables>({
+				query: GET_PATH,
+				variables: { node_id: folderId }
+			})
+			.then(({ data }) => {
+				const path = compact(data.getPath);
+				const parentIds = reduce(
+					path,
+					(accumulator: Record<string, string>, node, index) => {
+						if (index > 0) {
+							accumulator[node.id] = path[index - 1].id;
+						}
+						return accumulator;
+					},
+					{}
+				);
+				// the root, which has no parent, and the current folder, the last crumb, are excluded
+				const ancestors = filter(crumbs.slice(0, -1), (crumb) => !!parentIds[crumb.id]);
+				return Promise.all(
+					map(ancestors, (crumb) =>
+						getChildFolders(parentIds[crumb.id]).then((folders) =>
+							map(
+								filter(folders, (folder) => folder.id !== crumb.id),
+								(folder) => ({
+									id: folder.id,
+									label: folder.name,
+									click: (): void => navigateToFolder(folder.id)
+								})
+							)
+						)
+					)
+				).then((siblingsList) => {
+					setSiblings(
+						reduce(
+							ancestors,
+							(accumulator: Record<string, Crumb[]>, crumb, index) => {
+								accumulator[crumb.id] = siblingsList[index];
+								return accumulator;
+							},
+							{}
+						)
+					);
+				});
+			})
+			.catch((err) => console.error(err));
+	}, [apolloClient, crumbs, folderId, getChildFolders, navigateToFolder]);
+
+	const data = useMemo(
+		() =>
+			map(crumbs, (crumb) =>
+				isEmpty(siblings[crumb.id]) ? crumb : { ...crumb, items: siblings[crumb.id] }
+			),
+		[crumbs, siblings]
+	);
+
+	return { data, loadSiblings };
+}
@@ -6,30 +6,53 @@
 
 import { useCallback, useMemo } from 'react';
 
-import { ApolloClient, NormalizedCacheObject } from '@apollo/client';
+import { ApolloClient, ApolloError, NormalizedCacheObject } from '@apollo/client';
 import filter from 'lodash/filter';
 import find from 'lodash/find';
 import forEach from 'lodash/forEach';
-import head from 'lodash/head';
 import includes from 'lodash/includes';
 import keyBy from 'lodash/keyBy';
+import keys from 'lodash/keys';
+import map from 'lodash/map';
 import noop from 'lodash/noop';
 import partition from 'lodash/partition';
-import pullAt from 'lodash/pullAt';
-import remove from 'lodash/remove';
-import size from 'lodash/size';
+import reduce from 'lodash/reduce';
+import uniqueId from 'lodash/uniqueId';
 import { useTranslation } from 'react-i18next';
 
 import buildClient from '../apollo';
 import { nodeSortVar } from '../apollo/nodeSortVar';
-import { UploadFunctions, uploadFunctionsVar, uploadVar } from '../apollo/uploadVar';
-import { REST_ENDPOINT, UPLOAD_PATH, UPLOAD_QUEUE_LIMIT, UPLOAD_VERSION_PATH } from '../constants';
+import {
+	restoredUploadsVar,
+	UploadFunctions,
+	uploadFunctionsVar,
+	uploadLimitsVar,
+	uploadVar
+} from '../apollo/uploadVar';
+import {
+	NODES_LOAD_LIMIT,
+	REST_ENDPOINT,
+	UPLOAD_CHUNK_MAX_RETRIES,
+	UPLOAD_CHUNK_RETRY_DELAY,
+	UPLOAD_CHUNK_SIZE,
+	UPLOAD_PATH,
+	UPLOAD_QUEUE_LIMIT,
+	UPLOAD_SPEED_SMOOTHING_FACTOR,
+	UPLOAD_VERSION_PATH
+} from '../constants';
+import CREATE_FOLDER from '../graphql/mutations/createFolder.graphql';
+import FIND_NODES from '../graphql/queries/findNodes.graphql';
 import GET_CHILD from '../graphql/queries/getChild.graphql';
 import GET_CHILDREN from '../graphql/queries/getChildren.graphql';
 import GET_VERSIONS from '../graphql/queries/getVersions.graphql';
-import { UploadStatus, UploadType } from '../types/common';
+import { NameConflictResolution, UploadStatus, UploadType } from '../types/common';
 import {
+	ChildFragment,
+	CreateFolderMutation,
+	CreateFolderMutationVariables,
 	File as FilesFile,
+	FindNodesQuery,
+	FindNodesQueryVariables,
 	Folder,
 	GetChildQuery,
 	GetChildQueryVariables,
@@ -37,25 +60,62 @@ import {
 	GetChildrenQueryVariables,
 	GetVersionsQuery,
 	GetVersionsQueryVariables,
+	Maybe,
 	NodeSort
 } from '../types/graphql/types';
 import { DeepPick } from '../types/utils';
 import { isFolder } from '../utils/ActionsFactory';
-import { encodeBase64 } from '../utils/utils';
+import {
+	getStoredUploads,
+	removeStoredUploads,
+	storeUploads,
+	toStoredUpload,
+	updateStoredUpload
+} from '../utils/uploadStorage';
+import { UploadManager } from '../utils/UploadManager';
+import {
+	decodeError,
+	encodeBase64,
+	getNameWithSuffix,
+	getUploadRejectionReason
+} from '../utils/utils';
 import { UpdateFolderContentType, useUpdateFolderContent } from './graphql/useUpdateFolderContent';
-import { useMoreInfoModal } from './modals/useMoreInfoModal';
+import { NameConflict, useNameConflictModal } from './modals/useNameConflictModal';
 import { useCreateSnackbar } from './useCreateSnackbar';
 
-// KNOWN ISSUE: Since that folders are actually files, this is the only way to distinguish them from another kind of file.
-// Although this method doesn't give you absolute certainty that a file is a folder:
-// it might be a file without extension and with a size of 0 or exactly N x 4096B.
-// https://stackoverflow.com/a/25095250/17280436
-const isMaybeFolder = (file: File): boolean => !file.type && file.size % 4096 === 0;
+/**
+ * Content of a folder which has to be uploaded.
+ * Sub-folders content is read lazily, only once the sub-folder has been created on the server.
+ */
+type UploadFolderContent = {
+	files: File[];
+	folders: Array<{ name: string; getContent: () => Promise<UploadFolderContent> }>;
+};
+
+type UploadVersionItem = UploadType & Required<Pick<UploadType, 'nodeId'>>;
 
-const waitingQueue: Array<string> = [];
-const loadingQueue: Array<string> = [];
-// window.waitingQueue = waitingQueue;
-// window.loadingQueue = loadingQueue;
+// returns the 1-based position of the next file among the ones uploaded with the same action
+type UploadBatchCounter = () => number;
+
+const createBatchCounter = (): UploadBatchCounter => {
+	let count = 0;
+	return (): number => {
+		count += 1;
+		return count;
+	};
+};
+
+// uploads saved in a previous session are restored only once
+let storedUploadsRestored = false;
+
+// uploads failed because the name is already used in the destination folder.
+// They are resolved in batches, so that the user can apply the same resolution to all of them
+const nameConflictsQueue: Array<string> = [];
+let resolvingNameConflicts = false;
+
+const logStorageError = (err: unknown): void => {
+	console.error('unable to update stored uploads', err);
+};
 
 const addVersionToCache = (
 	apolloClient: ApolloClient<NormalizedCacheObject>,
@@ -69,17 +129,217 @@ const addVersionToCache = (
 		}
 	});
 };
+// last progress sample of each upload in progress, used to compute the upload speed
+const progressSamples: { [id: string]: { loaded: number; time: number } } = {};
+
+const updateLoadedBytes = (id: string, loaded: number, total: number): void => {
+	const state = uploadVar();
+	const item = state[id];
+	if (!item) {
+		return;
+	}
+	const now = Date.now();
+	const lastSample = progressSamples[id];
+	let { speed } = item;
+	if (lastSample && now > lastSample.time && loaded >= lastSample.loaded) {
+		const sampleSpeed = ((loaded - lastSample.loaded) * 1000) / (now - lastSample.time);
+		// exponential moving average, so that the speed does not change abruptly between samples
+		speed =
+			speed !== undefined
+				? speed + UPLOAD_SPEED_SMOOTHING_FACTOR * (sampleSpeed - speed)
+				: sampleSpeed;
+	}
+	progressSamples[id] = { loaded, time: now };
+	state[id] = {
+		...item,
+		loaded,
+		percentage: Math.floor((loaded / total) * 100),
+		speed,
+		eta: speed ? Math.ceil((total - loaded) / speed) : undefined
+	};
+	uploadVar({ ...state });
+};
+
 const updateProgress = (ev: ProgressEvent, fileEnriched: UploadType): void => {
 	if (ev.lengthComputable) {
-		const updatedValue = {
-			...fileEnriched,
-			percentage: Math.floor((ev.loaded / ev.total) * 100)
+		updateLoadedBytes(fileEnriched.id, ev.loaded, ev.total);
+	}
+};
+
+const getCachedChildren = (
+	apolloClient: ApolloClient<NormalizedCacheObject>,
+	parentId: string
+): Array<Maybe<ChildFragment>> => {
+	const parentFolder = apolloClient.cache.readQuery<GetChildrenQuery, GetChildrenQueryVariables>({
+		query: GET_CHILDREN,
+		variables: {
+			node_id: parentId,
+			// load all cached children
+			children_limit: Number.MAX_SAFE_INTEGER,
+			sort: nodeSortVar()
+		}
+	});
+	return (
+		(parentFolder?.getNode && isFolder(parentFolder.getNode) && parentFolder.getNode.children.nodes) ||
+		[]
+	);
+};
+
+/**
+ * Find the id of the file with the given name inside the given folder,
+ * looking first in the cached children and then asking the server
+ */
+const findFileByName = (
+	apolloClient: ApolloClient<NormalizedCacheObject>,
+	parentId: string,
+	name: string
+): Promise<string | undefined> => {
+	const cachedNode = find(getCachedChildren(apolloClient, parentId), (child) => child?.name === name);
+	if (cachedNode) {
+		return Promise.resolve(cachedNode.__typename === 'File' ? cachedNode.id : undefined);
+	}
+	return apolloClient
+		.query<FindNodesQuery, FindNodesQueryVariables>({
+			query: FIND_NODES,
+			fetchPolicy: 'no-cache',
+			variables: {
+				keywords: [name],
+				folder_id: parentId,
+				cascade: false,
+				limit: NODES_LOAD_LIMIT
+			}
+		})
+		.then(
+			({ data }) =>
+				find(data?.findNodes?.nodes, (node) => node?.__typename === 'File' && node.name === name)
+					?.id
+		);
+};
+
+const addNodeToCachedParent = (
+	apolloClient: ApolloClient<NormalizedCacheObject>,
+	nodeSort: NodeSort,
+	addNodeToFolder: UpdateFolderContentType['addNodeToFolder'],
+	parentId: string,
+	node: ChildFragment
+): void => {
+	const parentFolder = apolloClient.cache.readQuery<GetChildrenQuery, GetChildrenQueryVariables>({
+		query: GET_CHILDREN,
+		variables: {
+			node_id: parentId,
+			// load all cached children
+			children_limit: Number.MAX_SAFE_INTEGER,
+			sort: nodeSort
+		}
+	});
+	if (parentFolder?.getNode && isFolder(parentFolder.getNode)) {
+		addNodeToFolder(parentFolder.getNode, node);
+	}
+};
+
+const readDirectoryEntries = (
+	directoryEntry: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> =>
+	new Promise((resolve, reject) => {
+		const reader = directoryEntry.createReader();
+		const entries: FileSystemEntry[] = [];
+		// readEntries returns the content in batches, so call it until it returns an empty list
+		const readBatch = (): void => {
+			reader.readEntries((batch) => {
+				if (batch.length > 0) {
+					entries.push(...batch);
+					readBatch();
+				} else {
+					resolve(entries);
+				}
+			}, reject);
 		};
+		readBatch();
+	});
 
-		const state = uploadVar();
-		state[fileEnriched.id] = updatedValue;
-		uploadVar({ ...state });
+const getFileFromEntry = (fileEntry: FileSystemFileEntry): Promise<File> =>
+	new Promise((resolve, reject) => {
+		fileEntry.file(resolve, reject);
+	});
+
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry =>
+	entry.isDirectory;
+
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+
+const getUploadFolderFromEntry = (
+	entry: FileSystemDirectoryEntry
+): UploadFolderContent['folders'][number] => ({
+	name: entry.name,
+	getContent: (): Promise<UploadFolderContent> =>
+		readDirectoryEntries(entry).then((entries) =>
+			Promise.all(map(filter(entries, isFileEntry), getFileFromEntry)).then((files) => ({
+				files,
+				folders: map(filter(entries, isDirectoryEntry), getUploadFolderFromEntry)
+			}))
+		)
+});
+
+/**
+ * Build the folder content from a list of files selected through a directory-enabled input,
+ * where the tree structure is described by the webkitRelativePath of each file
+ */
+const getFolderContentFromRelativePaths = (
+	files: Array<{ file: File; path: string[] }>
+): UploadFolderContent => {
+	const content: UploadFolderContent = { files: [], folders: [] };
+	const subFolders: { [name: string]: Array<{ file: File; path: string[] }> } = {};
+	forEach(files, ({ file, path }) => {
+		if (path.length === 0) {
+			content.files.push(file);
+		} else {
+			const [folderName, ...subPath] = path;
+			if (subFolders[folderName] === undefined) {
+				subFolders[folderName] = [];
+				content.folders.push({
+					name: folderName,
+					getContent: (): Promise<UploadFolderContent> =>
+						Promise.resolve(getFolderContentFromRelativePaths(subFolders[folderName]))
+				});
+			}
+			subFolders[folderName].push({ file, path: subPath });
+		}
+	});
+	return content;
+};
+
+/**
+ * Split the given source in files and folders.
+ * <li>From a DataTransfer, folders are recognized through the entries of the items.
+ * Entries must be read synchronously, before the end of the drop event</li>
+ * <li>From a FileList or an array of files, folders are recognized through the webkitRelativePath
+ * of each file</li>
+ */
+const getUploadFolderContent = (source: FileList | DataTransfer | File[]): UploadFolderContent => {
+	if ('files' in source) {
+		const fileItems = filter(source.items, (item) => item.kind === 'file');
+		if (fileItems.length === 0) {
+			return { files: Array.from(source.files), folders: [] };
+		}
+		const content: UploadFolderContent = { files: [], folders: [] };
+		forEach(fileItems, (item) => {
+			const entry = item.webkitGetAsEntry && item.webkitGetAsEntry();
+			if (entry && isDirectoryEntry(entry)) {
+				content.folders.push(getUploadFolderFromEntry(entry));
+			} else {
+				const file = item.getAsFile();
+				file && content.files.push(file);
+			}
+		});
+		return content;
 	}
+	return getFolderContentFromRelativePaths(
+		map(source, (file) => ({
+			file,
+			// remove the file name, which is the last element of the path
+			path: (file.webkitRelativePath || '').split('/').filter(Boolean).slice(0, -1)
+		}))
+	);
 };
 
 const singleRetry = (id: string): void => {
@@ -92,10 +352,15 @@ const singleRetry = (id: string): void => {
 		throw new Error('unable to retry, upload must be Failed');
 	}
 
+	delete progressSamples[id];
 	state[id] = {
 		...state[id],
 		status: UploadStatus.LOADING,
-		percentage: 0
+		// a chunked upload restarts from the last chunk acknowledged by the server
+		percentage: state[id].offset ? state[id].percentage : 0,
+		loaded: state[id].offset || 0,
+		speed: undefined,
+		eta: undefined
 	};
 	uploadVar({ ...state });
 	const newRetryFile = find(state, (item) => item.id === id);
@@ -111,13 +376,34 @@ const singleRetry = (id: string): void => {
 	}
 };
 
+export const uploadManager = new UploadManager({
+	start: singleRetry,
+	abort: (id) => {
+		uploadFunctionsVar()[id]?.abort();
+	},
+	concurrency: UPLOAD_QUEUE_LIMIT
+});
+
+/**
+ * Mark the given items as queued and add them to the upload manager queue
+ */
+const enqueueUploads = (ids: string[]): void => {
+	const state = uploadVar();
+	forEach(ids, (id) => {
+		state[id] = { ...state[id], status: UploadStatus.QUEUED };
+	});
+	uploadVar({ ...state });
+	uploadManager.enqueue(...ids);
+};
+
 const uploadCompleted = (
 	xhr: XMLHttpRequest,
 	fileEnriched: UploadType,
 	apolloClient: ApolloClient<NormalizedCacheObject>,
 	nodeSort: NodeSort,
 	addNodeToFolder: UpdateFolderContentType['addNodeToFolder'],
-	isUploadVersion: boolean
+	isUploadVersion: boolean,
+	onNameConflict?: (id: string) => void
 ): void => {
 	function updateStatus(uploadItem: UploadType, status: UploadStatus): void {
 		const state = uploadVar();
@@ -140,9 +426,13 @@ const uploadCompleted = (
 			...fileEnriched,
 			status: UploadStatus.COMPLETED,
 			percentage: 100,
+			loaded: fileEnriched.file.size,
+			speed: undefined,
+			eta: undefined,
 			nodeId
 		};
 		uploadVar({ ...state });
+		removeStoredUploads([fileEnriched.id]).catch(logStorageError);
 
 		apolloClient
 			.query<GetChildQuery, GetChildQueryVariables>({
@@ -154,23 +444,13 @@ const uploadCompleted = (
 			})
 			.then((result) => {
 				if (result?.data?.getNode?.parent) {
-					const parentId = result.data.getNode.parent.id;
-					const parentFolder = apolloClient.cache.readQuery<
-						GetChildrenQuery,
-						GetChildrenQueryVariables
-					>({
-						query: GET_CHILDREN,
-						variables: {
-							node_id: parentId,
-							// load all cached children
-							children_limit: Number.MAX_SAFE_INTEGER,
-							sort: nodeSort
-						}
-					});
-					if (parentFolder?.getNode && isFolder(parentFolder.getNode)) {
-						const parentNode = parentFolder.getNode;
-						addNodeToFolder(parentNode, result.data.getNode);
-					}
+					addNodeToCachedParent(
+						apolloClient,
+						nodeSort,
+						addNodeToFolder,
+						result.data.getNode.parent.id,
+						result.data.getNode
+					);
 				}
 			})
 			.catch((err) => {
@@ -185,28 +465,29 @@ const uploadCompleted = (
 		 * 500: name already exists
 		 * 0: aborted
 		 */
-		updateStatus(fileEnriched, UploadStatus.FAILED);
+		// a paused upload is aborted too, but it must not be marked as failed
+		if (uploadVar()[fileEnriched.id]?.status !== UploadStatus.PAUSED) {
+			updateStatus(fileEnriched, UploadStatus.FAILED);
+			if (xhr.status === 500 && onNameConflict) {
+				onNameConflict(fileEnriched.id);
+			}
+		}
 		const handledStatuses = [405, 413, 500, 0];
 		if (xhr.readyState !== XMLHttpRequest.UNSENT && !handledStatuses.includes(xhr.status)) {
 			console.error('upload error: unhandled status', xhr.status);
 		}
 	}
 
-	if (includes(loadingQueue, fileEnriched.id)) {
-		remove(loadingQueue, (item) => item === fileEnriched.id);
-		if (size(waitingQueue) > 0) {
-			const next = head(pullAt(waitingQueue, [0]));
-			loadingQueue.push(next as string);
-			singleRetry(next as string);
-		}
-	}
+	delete progressSamples[fileEnriched.id];
+	uploadManager.completed(fileEnriched.id);
 };
 
 const upload = (
 	fileEnriched: UploadType,
 	apolloClient: ApolloClient<NormalizedCacheObject>,
 	nodeSort: NodeSort,
-	addNodeToFolder: UpdateFolderContentType['addNodeToFolder']
+	addNodeToFolder: UpdateFolderContentType['addNodeToFolder'],
+	onNameConflict?: (id: string) => void
 ): (() => void) => {
 	const xhr = new XMLHttpRequest();
 	const url = `${REST_ENDPOINT}${UPLOAD_PATH}`;
@@ -221,7 +502,15 @@ const upload = (
 		);
 	}
 	xhr.addEventListener('load', () =>
-		uploadCompleted(xhr, fileEnriched, apolloClient, nodeSort, addNodeToFolder, false)
+		uploadCompleted(
+			xhr,
+			fileEnriched,
+			apolloClient,
+			nodeSort,
+			addNodeToFolder,
+			false,
+			onNameConflict
+		)
 	);
 	xhr.addEventListener('error', () =>
 		uploadCompleted(xhr, fileEnriched, apolloClient, nodeSort, addNodeToFolder, false)
@@ -236,8 +525,132 @@ const upload = (
 	};
 };
 
+/**
+ * Upload a file splitting it in chunks of UPLOAD_CHUNK_SIZE bytes.
+ * Each chunk is sent with a Content-Range header, and the server answers with the id of the upload
+ * and the offset it has received so far. The upload starts from the offset of the given item,
+ * so that a paused or failed upload can be resumed. A chunk which fails for a network or server error
+ * is sent again from the last acknowledged offset up to UPLOAD_CHUNK_MAX_RETRIES times.
+ */
+const uploadChunked = (
+	fileEnriched: UploadType,
+	apolloClient: ApolloClient<NormalizedCacheObject>,
+	nodeSort: NodeSort,
+	addNodeToFolder: UpdateFolderContentType['addNodeToFolder'],
+	onNameConflict?: (id: string) => void
+): (() => void) => {
+	const url = `${REST_ENDPOINT}${UPLOAD_PATH}`;
+	const fileSize = fileEnriched.file.size;
+	let xhr = new XMLHttpRequest();
+	let retryTimer: NodeJS.Timeout | null = null;
+	let retries = 0;
+
+	const getCurrentItem = (): UploadType => uploadVar()[fileEnriched.id] || fileEnriched;
+
+	const completed = (): void => {
+		uploadCompleted(
+			xhr,
+			getCurrentItem(),
+			apolloClient,
+			nodeSort,
+			addNodeToFolder,
+			false,
+			onNameConflict
+		);
+	};
+
+	const sendChunk = (offset: number, uploadId: string | undefined): void => {
+		const end = Math.min(offset + UPLOAD_CHUNK_SIZE, fileSize);
+
+		const retryChunk = (): boolean => {
+			if (retries >= UPLOAD_CHUNK_MAX_RETRIES) {
+				return false;
+			}
+			retries += 1;
+			// the chunk is sent again from the last offset acknowledged by the server
+			const { offset: lastOffset = 0, uploadId: lastUploadId } = getCurrentItem();
+			retryTimer = setTimeout(() => {
+				retryTimer = null;
+				sendChunk(lastOffset, lastUploadId);
+			}, UPLOAD_CHUNK_RETRY_DELAY * 2 ** (retries - 1));
+			return true;
+		};
+
+		xhr = new XMLHttpRequest();
+		xhr.open('POST', url, true);
+
+		xhr.setRequestHeader('Filename', encodeBase64(fileEnriched.file.name));
+		xhr.setRequestHeader('ParentId', fileEnriched.parentId);
+		xhr.setRequestHeader('Content-Range', `bytes ${offset}-${end - 1}/${fileSize}`);
+		if (uploadId) {
+			xhr.setRequestHeader('UploadId', uploadId);
+		}
+
+		if (xhr.upload) {
+			xhr.upload.addEventListener('progress', (ev: ProgressEvent) => {
+				if (ev.lengthComputable) {
+					updateLoadedBytes(fileEnriched.id, offset + ev.loaded, fileSize);
+				}
+			});
+		}
+		xhr.addEventListener('load', () => {
+			if (xhr.status === 200) {
+				const response = JSON.parse(xhr.response);
+				if (response.nodeId) {
+					completed();
+				} else {
+					// the server tells which is the offset from which to continue
+					const nextOffset: number = response.offset ?? end;
+					const state = uploadVar();
+					if (state[fileEnriched.id]) {
+						state[fileEnriched.id] = {
+							...state[fileEnriched.id],
+							uploadId: response.uploadId,
+							offset: nextOffset
+						};
+						uploadVar({ ...state });
+					}
+					updateStoredUpload(fileEnriched.id, {
+						uploadId: response.uploadId,
+						offset: nextOffset
+					}).catch(logStorageError);
+					retries = 0;
+					sendChunk(nextOffset, response.uploadId);
+				}
+			} else if (
+				xhr.status < 500 ||
+				// the first chunk is refused if the name is already used, so it must not be sent again
+				(xhr.status === 500 && !uploadId) ||
+				!retryChunk()
+			) {
+				completed();
+			}
+		});
+		xhr.addEventListener('error', () => {
+			if (!retryChunk()) {
+				completed();
+			}
+		});
+		xhr.addEventListener('abort', completed);
+		xhr.send(fileEnriched.file.slice(offset, end));
+	};
+
+	sendChunk(fileEnriched.offset || 0, fileEnriched.uploadId);
+
+	return (): void => {
+		if (retryTimer) {
+			// no request is running, so the abort event will not be fired
+			clearTimeout(retryTimer);
+			retryTimer = null;
+			completed();
+		} else {
+			xhr.abort();
+		}
+	};
+};
+
 const uploadVersion = (
-	fileEnriched: Required<UploadType>,
+	fileEnriched: UploadVersionItem,
 	apolloClient: ApolloClient<NormalizedCacheObject>,
 	nodeSort: NodeSort,
 	addNodeToFolder: UpdateFolderContentType['addNodeToFolder'],
@@ -273,7 +686,7 @@ const uploadVersion = (
 };
 
 export type UseUploadHook = () => {
-	add: (files: FileList, parentId: string, checkForFolders?: boolean) => void;
+	add: (source: FileList | DataTransfer | File[], parentId: string) => void;
 	update: (
 		node: Pick<FilesFile, '__typename' | 'id'> & DeepPick<FilesFile, 'parent', 'id'>,
 		file: File,
@@ -283,6 +696,14 @@ export type UseUploadHook = () => {
 	removeByNodeId: (nodeIds: Array<string>) => void;
 	removeAllCompleted: () => void;
 	retryById: (ids: Array<string>) => void;
+	pauseById: (ids: Array<string>) => void;
+	resumeById: (ids: Array<string>) => void;
+	/**
+	 * Restore as paused the uploads which were not completed in a previous session.
+	 * Resolves with the ids of the restored items, which are also set in the restoredUploadsVar.
+	 * Uploads are restored only once per session.
+	 */
+	restoreStoredUploads: () => Promise<string[]>;
 };
 
 export const useUpload: UseUploadHook = () => {
@@ -294,119 +715,227 @@ export const useUpload: UseUploadHook = () => {
 
 	const [t] = useTranslation();
 	const createSnackbar = useCreateSnackbar();
-	const { openMoreInfoModal } = useMoreInfoModal();
-
-	const createSnackbarForUploadError = useCallback(
-		(label: string) => {
-			createSnackbar({
-				key: new Date().toLocaleString(),
-				type: 'warning',
-				label,
-				actionLabel: t('snackbar.upload.moreInfo', 'More info'),
-				onActionClick: () =>
-					openMoreInfoModal(
-						t(
-							'uploads.error.moreInfo.foldersNotAllowed',
-							'Folders cannot be uploaded. Instead, if you are trying to upload a file, the system may not have recognized it. Try again using the "UPLOAD" button.'
-						)
-					)
-			});
-		},
-		[createSnackbar, openMoreInfoModal, t]
-	);
+	const { resolveNameConflicts } = useNameConflictModal();
 
-	const uploadFolder = useCallback<(folder: UploadType) => ReturnType<UploadFunctions['retry']>>(
-		(folder) => {
-			createSnackbarForUploadError(
-				t('snackbar.upload.foldersNotAllowed', 'Folders cannot be uploaded')
+	const keepBothUploads = useCallback(
+		(item: UploadType) => {
+			const usedNames = map(getCachedChildren(apolloClient, item.parentId), (child) => child?.name);
+			const file = new File(
+				[item.file],
+				getNameWithSuffix(item.file.name, [item.file.name, ...usedNames]),
+				{ type: item.file.type, lastModified: item.file.lastModified }
 			);
 			const state = uploadVar();
-			state[folder.id] = {
-				...state[folder.id],
-				status: UploadStatus.FAILED,
-				percentage: 0
-			};
+			// the upload restarts from the beginning with the new name
+			state[item.id] = { ...state[item.id], file, uploadId: undefined, offset: undefined };
 			uploadVar({ ...state });
-			return noop;
+			storeUploads([toStoredUpload(state[item.id])]).catch(logStorageError);
+			enqueueUploads([item.id]);
 		},
-		[createSnackbarForUploadError, t]
+		[apolloClient]
 	);
 
-	const add = useCallback<ReturnType<UseUploadHook>['add']>(
-		(files, parentId, checkForFolders) => {
-			// Upload only valid files
+	const replaceUploadAsVersion = useCallback(
+		(item: UploadType) =>
+			findFileByName(apolloClient, item.parentId, item.file.name).then((nodeId) => {
+				if (!nodeId) {
+					// the existing node is not a file, so it cannot have versions
+					keepBothUploads(item);
+					return;
+				}
+				const state = uploadVar();
+				state[item.id] = { ...state[item.id], nodeId, uploadId: undefined, offset: undefined };
+				uploadVar({ ...state });
+				storeUploads([toStoredUpload(state[item.id])]).catch(logStorageError);
+				const uploadFunctions = uploadFunctionsVar();
+				uploadFunctionsVar({
+					...uploadFunctions,
+					[item.id]: {
+						...uploadFunctions[item.id],
+						retry: (newFile): UploadFunctions['abort'] =>
+							uploadVersion({ nodeId, ...newFile }, apolloClient, nodeSortVar(), addNodeToFolder)
+					}
+				});
+				enqueueUploads([item.id]);
+			}),
+		[addNodeToFolder, apolloClient, keepBothUploads]
+	);
+
+	const handleNameConflict = useCallback(
+		(id: string) => {
+			nameConflictsQueue.push(id);
+			if (resolvingNameConflicts) {
+				// the conflict will be resolved with the next batch
+				return;
+			}
+			resolvingNameConflicts = true;
+			const resolveQueuedConflicts = (): Promise<void> => {
+				const state = uploadVar();
+				const conflicts = reduce(
+					nameConflictsQueue.splice(0, nameConflictsQueue.length),
+					(accumulator: Array<NameConflict<UploadType>>, conflictId) => {
+						if (state[conflictId]) {
+							accumulator.push({
+								item: state[conflictId],
+								name: state[conflictId].file.name,
+								allowReplace: true
+							});
+						}
+						return accumulator;
+					},
+					[]
+				);
+				return resolveNameConflicts(conflicts)
+					.then((resolvedConflicts) =>
+						Promise.all(
+							map(resolvedConflicts, ({ item, resolution }) => {
+								// the item could have been removed or retried in the meantime
+								if (uploadVar()[item.id]?.status !== UploadStatus.FAILED) {
+									return undefined;
+								}
+								if (resolution === NameConflictResolution.KEEP_BOTH) {
+									return keepBothUploads(item);
+								}
+								if (resolution === NameConflictResolution.REPLACE) {
+									return replaceUploadAsVersion(item);
+								}
+								// skipped items remain failed
+								return undefined;
+							})
+						)
+					)
+					.then(() => (nameConflictsQueue.length > 0 ? resolveQueuedConflicts() : undefined));
+			};
+			resolveQueuedConflicts()
+				.catch((err) => {
+					console.error(err);
+				})
+				.then(() => {
+					resolvingNameConflicts = false;
+				});
+		},
+		[keepBothUploads, replaceUploadAsVersion, resolveNameConflicts]
+	);
 
+	const addFiles = useCallback(
+		(files: File[], parentId: string, nextBatchPosition: UploadBatchCounter) => {
 			const filesEnriched: { [id: string]: UploadType } = {};
 			const uploadFunctions: { [id: string]: UploadFunctions } = {};
-			let validFilesCount = 0;
-
-			forEach(files, (file: File, index) => {
-				const isItemMaybeFolder = checkForFolders && isMaybeFolder(file);
-				const canBeLoaded = !isItemMaybeFolder && size(loadingQueue) < UPLOAD_QUEUE_LIMIT;
+			const uploadLimits = uploadLimitsVar();
 
-				const fileEnriched = {
+			forEach(files, (file) => {
+				const batchPosition = nextBatchPosition();
+				const rejectionReason = getUploadRejectionReason(file, uploadLimits, batchPosition);
+				const fileEnriched: UploadType = {
 					file,
 					parentId,
 					percentage: 0,
-					// eslint-disable-next-line no-nested-ternary
-					status: isItemMaybeFolder
-						? UploadStatus.FAILED
-						: size(loadingQueue) < UPLOAD_QUEUE_LIMIT
-						? UploadStatus.LOADING
-						: UploadStatus.QUEUED,
-					id: `${index}-${new Date().getTime()}`
+					// rejected files are not sent at all
+					status: rejectionReason ? UploadStatus.FAILED : UploadStatus.QUEUED,
+					id: `${uniqueId()}-${new Date().getTime()}`,
+					rejectionReason
 				};
-				const abortFunction: UploadFunctions['abort'] = canBeLoaded
-					? upload(fileEnriched, apolloClient, nodeSortVar(), addNodeToFolder)
-					: noop;
+				// big files are uploaded in chunks, so that they can be paused and resumed
+				const uploadFunction = file.size > UPLOAD_CHUNK_SIZE ? uploadChunked : upload;
 				const retryFunction: UploadFunctions['retry'] = (newFile: UploadType) =>
-					isItemMaybeFolder
-						? uploadFolder(newFile)
-						: upload(newFile, apolloClient, nodeSortVar(), addNodeToFolder);
+					uploadFunction(newFile, apolloClient, nodeSortVar(), addNodeToFolder, handleNameConflict);
 				filesEnriched[fileEnriched.id] = fileEnriched;
-				uploadFunctions[fileEnriched.id] = { abort: abortFunction, retry: retryFunction };
-				if (!isItemMaybeFolder) {
-					validFilesCount += 1;
-				}
-				if (canBeLoaded) {
-					loadingQueue.push(fileEnriched.id);
-				} else if (!isItemMaybeFolder) {
-					waitingQueue.push(fileEnriched.id);
-				}
+				// the upload is started by the upload manager, as soon as there is a free slot
+				uploadFunctions[fileEnriched.id] = { abort: noop, retry: retryFunction };
 			});
 
-			if (validFilesCount < files.length) {
-				createSnackbarForUploadError(
-					validFilesCount > 0
-						? t('snackbar.upload.nodesNotAllowed', 'Some items have not been uploaded')
-						: t('snackbar.upload.foldersNotAllowed', 'Folders cannot be uploaded')
-				);
-			}
-
 			uploadVar({ ...uploadVar(), ...filesEnriched });
 			uploadFunctionsVar({ ...uploadFunctionsVar(), ...uploadFunctions });
+			const acceptedItems = filter(filesEnriched, (item) => item.rejectionReason === undefined);
+			storeUploads(map(acceptedItems, (item) => toStoredUpload(item))).catch(logStorageError);
+			uploadManager.enqueue(...map(acceptedItems, (item) => item.id));
+		},
+		[addNodeToFolder, apolloClient, handleNameConflict]
+	);
+
+	const createFolder = useCallback(
+		(parentId: string, name: string): Promise<string> =>
+			apolloClient
+				.mutate<CreateFolderMutation, CreateFolderMutationVariables>({
+					mutation: CREATE_FOLDER,
+					variables: {
+						destination_id: parentId,
+						name
+					}
+				})
+				.then(({ data }) => {
+					if (!data?.createFolder) {
+						throw new Error(`unable to create folder ${name}`);
+					}
+					addNodeToCachedParent(
+						apolloClient,
+						nodeSortVar(),
+						addNodeToFolder,
+						parentId,
+						data.createFolder
+					);
+					return data.createFolder.id;
+				}),
+		[addNodeToFolder, apolloClient]
+	);
+
+	const uploadFolderContent = useCallback<
+		(
+			content: UploadFolderContent,
+			parentId: string,
+			nextBatchPosition: UploadBatchCounter
+		) => void
+	>(
+		(content, parentId, nextBatchPosition) => {
+			addFiles(content.files, parentId, nextBatchPosition);
+			forEach(content.folders, (folder) => {
+				createFolder(parentId, folder.name)
+					.then((folderId) =>
+						folder.getContent().then((folderContent) => {
+							uploadFolderContent(folderContent, folderId, nextBatchPosition);
+						})
+					)
+					.catch((err) => {
+						console.error(err);
+						createSnackbar({
+							key: new Date().toLocaleString(),
+							type: 'warning',
+							label:
+								(err instanceof ApolloError && decodeError(err, t)) ||
+								t(
+									'snackbar.upload.folderNotCreated',
+									'Folder {{folderName}} has not been uploaded',
+									{ folderName: folder.name }
+								),
+							replace: false,
+							hideButton: true
+						});
+					});
+			});
+		},
+		[addFiles, createFolder, createSnackbar, t]
+	);
+
+	const add = useCallback<ReturnType<UseUploadHook>['add']>(
+		(source, parentId) => {
+			uploadFolderContent(getUploadFolderContent(source), parentId, createBatchCounter());
 		},
-		[addNodeToFolder, apolloClient, createSnackbarForUploadError, t, uploadFolder]
+		[uploadFolderContent]
 	);
 
 	const update = useCallback<ReturnType<UseUploadHook>['update']>(
 		(node, file, overwriteVersion) => {
-			const fileEnriched: Required<UploadType> = {
+			const rejectionReason = getUploadRejectionReason(file, uploadLimitsVar());
+			const fileEnriched: UploadVersionItem = {
 				file,
 				percentage: 0,
-				status: UploadStatus.LOADING,
+				status: rejectionReason ? UploadStatus.FAILED : UploadStatus.QUEUED,
 				id: `${node.id}-${new Date().getTime()}`,
 				nodeId: node.id,
-				parentId: (node.parent as Folder).id
+				parentId: (node.parent as Folder).id,
+				rejectionReason
 			};
 			uploadVar({ ...uploadVar(), ...{ [fileEnriched.id]: fileEnriched } });
-			const abortFunction: UploadFunctions['abort'] = uploadVersion(
-				fileEnriched,
-				apolloClient,
-				nodeSortVar(),
-				addNodeToFolder,
-				overwriteVersion
-			);
 			const retryFunction: UploadFunctions['retry'] = (newFile) =>
 				uploadVersion(
 					// add default node id, but there should be already included in newFile obj
@@ -418,34 +947,32 @@ export const useUpload: UseUploadHook = () => {
 				);
 			uploadFunctionsVar({
 				...uploadFunctionsVar(),
-				[fileEnriched.id]: { abort: abortFunction, retry: retryFunction }
+				[fileEnriched.id]: { abort: noop, retry: retryFunction }
 			});
+			if (!rejectionReason) {
+				storeUploads([toStoredUpload(fileEnriched, overwriteVersion)]).catch(logStorageError);
+				uploadManager.enqueue(fileEnriched.id);
+			}
 		},
 		[addNodeToFolder, apolloClient]
 	);
 
-	const abort = useCallback((id: string) => {
+	const removeById = useCallback((ids: Array<string>) => {
+		const state = uploadVar();
+		forEach(ids, (id) => {
+			// a running upload is aborted, a queued one is just removed from the queue
+			uploadManager.cancel(id);
+			delete state[id];
+		});
+		uploadVar({ ...state });
 		const uploadFunctions = uploadFunctionsVar();
-		const abortFunction = uploadFunctions[id].abort;
-		abortFunction();
-		delete uploadFunctions[id];
-		uploadFunctionsVar(uploadFunctions);
+		forEach(ids, (id) => {
+			delete uploadFunctions[id];
+		});
+		uploadFunctionsVar({ ...uploadFunctions });
+		removeStoredUploads(ids).catch(logStorageError);
 	}, []);
 
-	const removeById = useCallback(
-		(ids: Array<string>) => {
-			const state = uploadVar();
-			forEach(ids, (id) => {
-				if (state[id].status === UploadStatus.LOADING) {
-					abort(id);
-				}
-				delete state[id];
-			});
-			uploadVar({ ...state });
-		},
-		[abort]
-	);
-
 	const removeByNodeId = useCallback((nodeIds: Array<string>) => {
 		const oldState = uploadVar();
 		const partitions = partition(oldState, (item) => includes(nodeIds, item.nodeId));
@@ -454,6 +981,7 @@ export const useUpload: UseUploadHook = () => {
 		// update reactive var only if there are removed nodes
 		if (removedNodes.length > 0) {
 			uploadVar(keyBy(notRemovedNodes, 'id'));
+			removeStoredUploads(map(removedNodes, (item) => item.id)).catch(logStorageError);
 		}
 	}, []);
 
@@ -467,10 +995,103 @@ export const useUpload: UseUploadHook = () => {
 	}, []);
 
 	const retryById = useCallback((ids: Array<string>) => {
+		// rejected uploads would be rejected again
+		enqueueUploads(
+			filter(
+				ids,
+				(id) =>
+					uploadVar()[id]?.status === UploadStatus.FAILED &&
+					uploadVar()[id].rejectionReason === undefined
+			)
+		);
+	}, []);
+
+	const pauseById = useCallback((ids: Array<string>) => {
+		const state = uploadVar();
+		const toCancel: string[] = [];
 		forEach(ids, (id) => {
-			singleRetry(id);
+			const status = state[id]?.status;
+			if (status === UploadStatus.LOADING || status === UploadStatus.QUEUED) {
+				toCancel.push(id);
+				state[id] = { ...state[id], status: UploadStatus.PAUSED };
+			}
+		});
+		uploadVar({ ...state });
+		// cancel after the status update, so that paused items are not marked as failed
+		// and their slot in the loading queue is given to the next queued item
+		forEach(toCancel, (id) => {
+			uploadManager.cancel(id);
 		});
 	}, []);
 
-	return { add, update, removeById, removeAllCompleted, retryById, removeByNodeId };
+	const resumeById = useCallback((ids: Array<string>) => {
+		enqueueUploads(filter(ids, (id) => uploadVar()[id]?.status === UploadStatus.PAUSED));
+	}, []);
+
+	const restoreStoredUploads = useCallback<ReturnType<UseUploadHook>['restoreStoredUploads']>(() => {
+		if (storedUploadsRestored) {
+			return Promise.resolve([]);
+		}
+		storedUploadsRestored = true;
+		return getStoredUploads()
+			.then((storedUploads) => {
+				const state = uploadVar();
+				const restoredItems: { [id: string]: UploadType } = {};
+				const uploadFunctions: { [id: string]: UploadFunctions } = {};
+				forEach(storedUploads, (storedUpload) => {
+					if (state[storedUpload.id]) {
+						return;
+					}
+					const { overwriteVersion, ...item } = storedUpload;
+					restoredItems[item.id] = {
+						...item,
+						status: UploadStatus.PAUSED,
+						loaded: item.offset,
+						percentage:
+							item.offset && item.file.size > 0
+								? Math.floor((item.offset / item.file.size) * 100)
+								: 0
+					};
+					const uploadFunction = item.file.size > UPLOAD_CHUNK_SIZE ? uploadChunked : upload;
+					const retryFunction: UploadFunctions['retry'] = (newFile) =>
+						item.nodeId
+							? uploadVersion(
+									{ nodeId: item.nodeId, ...newFile },
+									apolloClient,
+									nodeSortVar(),
+									addNodeToFolder,
+									overwriteVersion
+							  )
+							: uploadFunction(
+									newFile,
+									apolloClient,
+									nodeSortVar(),
+									addNodeToFolder,
+									handleNameConflict
+							  );
+					uploadFunctions[item.id] = { abort: noop, retry: retryFunction };
+				});
+				uploadVar({ ...uploadVar(), ...restoredItems });
+				uploadFunctionsVar({ ...uploadFunctionsVar(), ...uploadFunctions });
+				const restoredIds = keys(restoredItems);
+				restoredUploadsVar(restoredIds);
+				return restoredIds;
+			})
+			.catch((err) => {
+				logStorageError(err);
+				return [];
+			});
+	}, [addNodeToFolder, apolloClient, handleNameConflict]);
+
+	return {
+		add,
+		update,
+		removeById,
+		removeAllCompleted,
+		retryById,
+		removeByNodeId,
+		pauseById,
+		resumeById,
+		restoreStoredUploads
+	};
 };
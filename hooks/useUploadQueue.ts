@@ -0,0 +1,25 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useEffect, useState } from 'react';
+
+import { UploadQueueState } from '../utils/UploadManager';
+import { uploadManager } from './useUpload';
+
+/**
+ * Current state of the queues of the upload manager, updated on every change
+ */
+export function useUploadQueue(): UploadQueueState {
+	const [queueState, setQueueState] = useState(() => uploadManager.getState());
+
+	useEffect(() => {
+		// the state could be changed between the first render and the subscription
+		setQueueState(uploadManager.getState());
+		return uploadManager.on('queueChange', setQueueState);
+	}, []);
+
+	return queueState;
+}
@@ -0,0 +1,22 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import values from 'lodash/values';
+
+import { uploadVar } from '../apollo/uploadVar';
+import { UploadsSummary } from '../types/common';
+import { getUploadsSummary } from '../utils/utils';
+
+/**
+ * Overall progress of the uploads which are in progress or waiting to start
+ */
+export function useUploadsSummary(): UploadsSummary {
+	const uploads = useReactiveVar(uploadVar);
+	return useMemo(() => getUploadsSummary(values(uploads)), [uploads]);
+}
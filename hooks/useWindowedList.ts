@@ -0,0 +1,151 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { useCallback, useLayoutEffect, useMemo, useState } from 'react';
+
+import { WINDOWED_LIST_OVERSCAN } from '../constants';
+
+type WindowedListOptions = {
+	/** height of each row, gap excluded */
+	rowHeight: number;
+	/** min width of each column, gap excluded. When not set, each row has a single item */
+	columnWidth?: number;
+	/** space between rows and between columns */
+	gap?: number;
+	/** height of the sticky header rendered before the items, which covers the first rows */
+	headerHeight?: number;
+};
+
+type WindowedList = {
+	/** index of the first item to render */
+	startIndex: number;
+	/** index after the last item to render */
+	endIndex: number;
+	/** space to leave before the rendered items, in place of the ones not rendered */
+	offsetTop: number;
+	offsetBottom: number;
+	itemsPerRow: number;
+	/**
+	 * Scroll the container to make the item visible.
+	 * Block has the same meaning of the scrollIntoView option, nearest leaves the scroll as is
+	 * if the item is already fully visible.
+	 */
+	scrollToIndex: (index: number, block: 'center' | 'end' | 'nearest') => void;
+};
+
+type ContainerSize = {
+	firstVisibleRow: number;
+	/** undefined when the container is not laid out, so that all the items are rendered */
+	visibleRows: number | undefined;
+	itemsPerRow: number;
+};
+
+/**
+ * Windowed rendering of a list of items with a fixed height, inside a scrollable container.
+ * Only the items of the visible rows, plus an overscan, have to be rendered.
+ * The container is received as element instead of ref, so that the size is measured again
+ * and the scroll listener is attached once the element is mounted.
+ */
+export function useWindowedList(
+	scrollContainer: HTMLElement | null,
+	itemsCount: number,
+	{ rowHeight, columnWidth, gap = 0, headerHeight = 0 }: WindowedListOptions
+): WindowedList {
+	const rowStride = rowHeight + gap;
+
+	const [containerSize, setContainerSize] = useState<ContainerSize>(() => ({
+		firstVisibleRow: 0,
+		// the real size is read after the first render, until then assume the list fills the window
+		visibleRows: Math.ceil(window.innerHeight / rowStride),
+		itemsPerRow: 1
+	}));
+
+	const measure = useCallback(() => {
+		const container = scrollContainer;
+		if (container) {
+			const firstVisibleRow = Math.floor(container.scrollTop / rowStride);
+			// a container without height is not laid out (ex. it is hidden), so its size is unknown
+			const visibleRows =
+				container.clientHeight > 0
+					? Math.ceil((container.clientHeight - headerHeight) / rowStride)
+					: undefined;
+			let itemsPerRow = 1;
+			if (columnWidth) {
+				// the client width includes the padding, where the items are not placed
+				const { paddingLeft, paddingRight } = window.getComputedStyle(container);
+				const width =
+					container.clientWidth - (parseFloat(paddingLeft) || 0) - (parseFloat(paddingRight) || 0);
+				itemsPerRow = Math.max(Math.floor((width + gap) / (columnWidth + gap)), 1);
+			}
+			setContainerSize((prevState) =>
+				prevState.firstVisibleRow === firstVisibleRow &&
+				prevState.visibleRows === visibleRows &&
+				prevState.itemsPerRow === itemsPerRow
+					? prevState
+					: { firstVisibleRow, visibleRows, itemsPerRow }
+			);
+		}
+	}, [columnWidth, gap, headerHeight, rowStride, scrollContainer]);
+
+	useLayoutEffect(() => {
+		measure();
+	}, [measure, itemsCount]);
+
+	useLayoutEffect(() => {
+		scrollContainer?.addEventListener('scroll', measure, { passive: true });
+		window.addEventListener('resize', measure);
+		return (): void => {
+			scrollContainer?.removeEventListener('scroll', measure);
+			window.removeEventListener('resize', measure);
+		};
+	}, [measure, scrollContainer]);
+
+	const { firstVisibleRow, visibleRows, itemsPerRow } = containerSize;
+
+	const scrollToIndex = useCallback<WindowedList['scrollToIndex']>(
+		(index, block) => {
+			const container = scrollContainer;
+			if (container) {
+				const itemTop = Math.floor(index / itemsPerRow) * rowStride;
+				const itemBottom = itemTop + rowHeight;
+				const { scrollTop } = container;
+				const clientHeight = container.clientHeight - headerHeight;
+				if (block === 'center') {
+					container.scrollTop = Math.max(itemTop - (clientHeight - rowHeight) / 2, 0);
+				} else if (block === 'end' || itemBottom > scrollTop + clientHeight) {
+					container.scrollTop = Math.max(itemBottom - clientHeight, 0);
+				} else if (itemTop < scrollTop) {
+					container.scrollTop = itemTop;
+				}
+			}
+		},
+		[headerHeight, itemsPerRow, rowHeight, rowStride, scrollContainer]
+	);
+
+	return useMemo(() => {
+		const rowsCount = Math.ceil(itemsCount / itemsPerRow);
+		if (visibleRows === undefined) {
+			return {
+				startIndex: 0,
+				endIndex: itemsCount,
+				offsetTop: 0,
+				offsetBottom: 0,
+				itemsPerRow,
+				scrollToIndex
+			};
+		}
+		const startRow = Math.min(Math.max(firstVisibleRow - WINDOWED_LIST_OVERSCAN, 0), rowsCount);
+		const endRow = Math.min(firstVisibleRow + visibleRows + WINDOWED_LIST_OVERSCAN, rowsCount);
+		return {
+			startIndex: startRow * itemsPerRow,
+			endIndex: Math.min(endRow * itemsPerRow, itemsCount),
+			offsetTop: startRow * rowStride,
+			offsetBottom: (rowsCount - endRow) * rowStride,
+			itemsPerRow,
+			scrollToIndex
+		};
+	}, [firstVisibleRow, itemsCount, itemsPerRow, rowStride, scrollToIndex, visibleRows]);
+}
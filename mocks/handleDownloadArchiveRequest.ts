@@ -0,0 +1,29 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { PathParams, ResponseResolver, RestContext, RestRequest } from 'msw';
+
+// an empty zip archive is made only by the end of central directory record
+const EMPTY_ZIP = new Uint8Array([
+	0x50, 0x4b, 0x05, 0x06, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+]);
+
+/**
+ * Emulate the archive endpoint, which receives the ids of the nodes as node_id search params
+ */
+const handleDownloadArchiveRequest: ResponseResolver<
+	RestRequest<never, PathParams>,
+	RestContext,
+	ArrayBuffer
+> = (req, res, ctx) =>
+	res(
+		ctx.set('Content-Type', 'application/zip'),
+		ctx.set('Content-Disposition', 'attachment'),
+		// the archive is streamed while it is built, so its length is not known in advance
+		ctx.body(EMPTY_ZIP.buffer)
+	);
+
+export default handleDownloadArchiveRequest;
@@ -9,8 +9,15 @@ import take from 'lodash/take';
 import { GraphQLContext, GraphQLRequest, ResponseResolver, ResponseTransformer } from 'msw';
 
 import { ROOTS } from '../constants';
-import { FindNodesQuery, FindNodesQueryVariables } from '../types/graphql/types';
-import { populateNode, populateNodePage, populateShares, sortNodes } from './mockUtils';
+import { FindNodesQuery, FindNodesQueryVariables, NodeType } from '../types/graphql/types';
+import {
+	NodeTypename,
+	populateNode,
+	populateNodePage,
+	populateShares,
+	populateUser,
+	sortNodes
+} from './mockUtils';
 
 const handleFindNodesRequest: ResponseResolver<
 	GraphQLRequest<FindNodesQueryVariables>,
@@ -25,12 +32,23 @@ const handleFindNodesRequest: ResponseResolver<
 		limit,
 		sort,
 		folder_id: folderId,
-		shares_limit: sharesLimit
+		shares_limit: sharesLimit,
+		type,
+		mime_type: mimeType,
+		size_min: sizeMin,
+		size_max: sizeMax,
+		modified_after: modifiedAfter,
+		modified_before: modifiedBefore,
+		owner_id: ownerId
 	} = req.variables;
 
 	const nodes = [];
 
-	if (!flagged && !sharedWithMe && !sharedByMe && !folderId && !keywords) {
+	const fileFilters = !!mimeType || sizeMin != null || sizeMax != null;
+	const attributeFilters =
+		!!type || fileFilters || !!modifiedAfter || !!modifiedBefore || !!ownerId;
+
+	if (!flagged && !sharedWithMe && !sharedByMe && !folderId && !keywords && !attributeFilters) {
 		return res(
 			ctx.errors([
 				{ message: 'MSW handleFindNodesRequest: Invalid parameters in findNodes request' }
@@ -38,8 +56,37 @@ const handleFindNodesRequest: ResponseResolver<
 		);
 	}
 
+	let nodeTypename: NodeTypename | undefined;
+	if (type === NodeType.Folder) {
+		nodeTypename = 'Folder';
+	} else if (type || fileFilters) {
+		nodeTypename = 'File';
+	}
+
 	for (let i = 0; i < faker.datatype.number({ min: 1, max: limit }); i += 1) {
-		const node = populateNode();
+		const node = populateNode(nodeTypename);
+		if (type) {
+			node.type = type;
+		}
+		if (node.__typename === 'File') {
+			if (mimeType && !node.mime_type.startsWith(mimeType)) {
+				node.mime_type = `${mimeType}${faker.system.commonFileExt()}`;
+			}
+			if (sizeMin != null || sizeMax != null) {
+				node.size = faker.datatype.number({
+					min: sizeMin || 0,
+					max: sizeMax ?? (sizeMin || 0) + faker.datatype.number()
+				});
+			}
+		}
+		if (modifiedAfter || modifiedBefore) {
+			node.updated_at = faker.date
+				.between(modifiedAfter || faker.date.past(1, modifiedBefore), modifiedBefore || Date.now())
+				.getTime();
+		}
+		if (ownerId) {
+			node.owner = populateUser(ownerId);
+		}
 		if (flagged) {
 			node.flagged = true;
 		}
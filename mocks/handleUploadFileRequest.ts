@@ -11,6 +11,11 @@ export interface UploadResponse {
 	nodeId: string;
 }
 
+export interface UploadChunkResponse {
+	uploadId: string;
+	offset: number;
+}
+
 export interface UploadRequestParams extends PathParams {
 	Filename: string;
 	Description: string | '';
@@ -24,12 +29,26 @@ export interface UploadRequestBody {
 const handleUploadFileRequest: ResponseResolver<
 	RestRequest<UploadRequestBody, UploadRequestParams>,
 	RestContext,
-	UploadResponse
-> = (req, res, ctx) =>
-	res(
+	UploadResponse | UploadChunkResponse
+> = (req, res, ctx) => {
+	// chunked upload: answer with the received offset until the last chunk is sent
+	const contentRange = req.headers.get('Content-Range')?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+	if (contentRange) {
+		const nextOffset = Number(contentRange[2]) + 1;
+		if (nextOffset < Number(contentRange[3])) {
+			return res(
+				ctx.json({
+					uploadId: req.headers.get('UploadId') || faker.datatype.uuid(),
+					offset: nextOffset
+				})
+			);
+		}
+	}
+	return res(
 		ctx.json({
 			nodeId: faker.datatype.uuid()
 		})
 	);
+};
 
 export default handleUploadFileRequest;
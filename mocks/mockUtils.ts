@@ -39,16 +39,15 @@ import {
 } from '../types/network';
 import { MakeRequired } from '../types/utils';
 import { ActionsFactoryNodeType } from '../utils/ActionsFactory';
-import { nodeSortComparator } from '../utils/utils';
+import { getNodeSortsList, nodeSortComparator } from '../utils/utils';
 
-type NodeTypename = FilesFile['__typename'] | Folder['__typename'];
+export type NodeTypename = FilesFile['__typename'] | Folder['__typename'];
 
 export function sortNodes(
 	nodes: Array<Maybe<SortableNode>>,
 	sort: NodeSort
 ): Array<Maybe<SortableNode>> {
-	const sortsList =
-		sort === NodeSort.SizeAsc || sort === NodeSort.SizeDesc ? [sort] : [NodeSort.TypeAsc, sort];
+	const sortsList = getNodeSortsList(sort);
 	return nodes.sort((a, b) => nodeSortComparator(a, b, sortsList));
 }
 
@@ -434,7 +433,10 @@ export function populateLinks(node: Node, limit = 2): Link[] {
 export function populateConfigs(configMap?: Record<string, string>): Config[] {
 	const defaultConfigs: Record<typeof CONFIGS[keyof typeof CONFIGS], string> = {
 		[CONFIGS.MAX_VERSIONS]: '5',
-		[CONFIGS.MAX_KEEP_VERSIONS]: '3'
+		[CONFIGS.MAX_KEEP_VERSIONS]: '3',
+		[CONFIGS.MAX_UPLOAD_SIZE]: '0',
+		[CONFIGS.FORBIDDEN_UPLOAD_EXTENSIONS]: '',
+		[CONFIGS.MAX_UPLOAD_FILES]: '0'
 	};
 	const configs = { ...defaultConfigs, ...configMap };
 	return map(configs, (configValue, configName) => ({ name: configName, value: configValue }));
@@ -16,8 +16,11 @@ import {
 	GetNodeQuery,
 	MakeOptional,
 	Maybe,
+	NodeSort,
+	NodeType,
 	Permissions,
-	Share
+	Share,
+	User
 } from './graphql/types';
 import { SnakeToCamelCase } from './utils';
 
@@ -85,6 +88,8 @@ export enum Role {
 }
 
 export type NodeListItemType = ChildFragment & {
+	/** valued only for nodes loaded by a search */
+	description?: string;
 	disabled?: boolean;
 	selectable?: boolean;
 	shares?: Array<Pick<Share, '__typename' | 'created_at'> | null | undefined>;
@@ -96,14 +101,17 @@ export type RootListItemType = Pick<
 >;
 
 export type SortableNode = Pick<Node, 'id' | 'name' | 'updated_at' | 'type'> &
-	MakeOptional<Pick<File, 'size'>, 'size'>;
+	MakeOptional<Pick<File, 'size' | 'mime_type'>, 'size' | 'mime_type'> & {
+		owner?: Maybe<Pick<User, 'full_name'>>;
+		last_editor?: Maybe<Pick<User, 'full_name'>>;
+	};
 
 export enum UploadStatus {
 	COMPLETED = 'Completed',
 	LOADING = 'Loading',
 	FAILED = 'Failed',
-	QUEUED = 'Queued'
-	// PAUSED: 'Paused'(tentative)
+	QUEUED = 'Queued',
+	PAUSED = 'Paused'
 }
 
 export type UploadType = {
@@ -113,8 +121,78 @@ export type UploadType = {
 	percentage: number; // (should be rounded down)
 	id: string;
 	nodeId?: string;
+	// id of the chunked upload session, returned by the server with the first chunk
+	uploadId?: string;
+	// bytes already acknowledged by the server for a chunked upload
+	offset?: number;
+	// bytes sent to the server, including the ones of the chunks already acknowledged
+	loaded?: number;
+	// smoothed throughput of the upload, in bytes per second
+	speed?: number;
+	// estimated seconds remaining to complete the upload
+	eta?: number;
+	// set when the upload is refused before being sent because it does not respect the limits
+	rejectionReason?: UploadRejectionReason;
+};
+
+export enum DownloadStatus {
+	COMPLETED = 'Completed',
+	LOADING = 'Loading',
+	FAILED = 'Failed',
+	CANCELED = 'Canceled'
+}
+
+export type DownloadType = {
+	id: string;
+	// name of the file saved on the device of the user
+	name: string;
+	nodeIds: string[];
+	// true when the nodes are downloaded as a single zip archive
+	archive: boolean;
+	status: DownloadStatus;
+	// translated description of the failure
+	errorMessage?: string;
+	// bytes received from the server
+	loaded: number;
+	// undefined when the server does not declare the size of the response, as for streamed archives
+	total?: number;
+	// true when the content is downloaded by the browser, which shows the progress by itself
+	handedToBrowser?: boolean;
 };
 
+export enum UploadRejectionReason {
+	FILE_TOO_LARGE = 'FILE_TOO_LARGE',
+	FORBIDDEN_EXTENSION = 'FORBIDDEN_EXTENSION',
+	TOO_MANY_FILES = 'TOO_MANY_FILES'
+}
+
+export type UploadLimits = {
+	// max size in bytes of each file
+	maxFileSize?: number;
+	// lower case extensions, without the leading dot
+	forbiddenExtensions: string[];
+	// max number of files uploaded with a single action, folder content included
+	maxFiles?: number;
+};
+
+export type UploadsSummary = {
+	// number of uploads in progress or waiting to start
+	count: number;
+	totalBytes: number;
+	loadedBytes: number;
+	percentage: number;
+	// sum of the speeds of the uploads in progress, in bytes per second
+	speed: number;
+	// estimated seconds remaining to complete all the uploads
+	eta?: number;
+};
+
+export enum NameConflictResolution {
+	KEEP_BOTH = 'KEEP_BOTH',
+	REPLACE = 'REPLACE',
+	SKIP = 'SKIP'
+}
+
 export enum DocsType {
 	DOCUMENT = 'DOCUMENT',
 	SPREADSHEET = 'SPREADSHEET',
@@ -163,9 +241,53 @@ export enum OrderTrend {
 export enum OrderType {
 	Name = 'Name',
 	UpdatedAt = 'UpdatedAt',
-	Size = 'Size'
+	Size = 'Size',
+	Owner = 'Owner',
+	LastEditor = 'LastEditor',
+	Type = 'Type'
+}
+
+export enum ViewMode {
+	List = 'List',
+	Grid = 'Grid',
+	Details = 'Details'
+}
+
+export enum ListDensity {
+	Comfortable = 'Comfortable',
+	/** rows with the name only, to show more nodes at once */
+	Compact = 'Compact'
+}
+
+export type ListPreferences = {
+	sort: NodeSort;
+	viewMode: ViewMode;
+	density: ListDensity;
+};
+
+export type StoredListPreferences = {
+	/** preferences of the lists for which the user has not chosen their own ones */
+	default: Partial<ListPreferences>;
+	/** preferences by folder id. Lists which do not show a folder share the empty id */
+	folders: Record<string, Partial<ListPreferences>>;
+};
+
+export enum DetailsColumn {
+	Name = 'Name',
+	Owner = 'Owner',
+	LastEditor = 'LastEditor',
+	Type = 'Type',
+	Size = 'Size',
+	UpdatedAt = 'UpdatedAt',
+	Shares = 'Shares'
 }
 
+export type DetailsColumnLayout = {
+	id: DetailsColumn;
+	/** width in px */
+	width: number;
+};
+
 export type SearchParams = {
 	[K in keyof Pick<
 		FindNodesQueryVariables,
@@ -176,6 +298,13 @@ export type SearchParams = {
 		| 'cascade'
 		| 'keywords'
 		| 'direct_share'
+		| 'type'
+		| 'mime_type'
+		| 'size_min'
+		| 'size_max'
+		| 'modified_after'
+		| 'modified_before'
+		| 'owner_id'
 	> as SnakeToCamelCase<K & string>]: FindNodesQueryVariables[K];
 };
 
@@ -185,6 +314,11 @@ export type AdvancedFilters = {
 		'keywords' | 'cascade' | 'sharedWithMe' | 'directShare'
 	>]: SearchChip & {
 		value: SearchParams[P];
+		/**
+		 * text which identifies the value in a search query, valued for the filters whose value is
+		 * an id, i.e. the email of the owner or the name of the folder
+		 */
+		queryValue?: string;
 	};
 } & {
 	[P in keyof Pick<SearchParams, 'keywords'>]: Array<
@@ -196,6 +330,24 @@ export type AdvancedFilters = {
 	[P in keyof Pick<SearchParams, 'sharedWithMe' | 'cascade'>]: { value: SearchParams[P] };
 };
 
+export type SearchFacet<T> = {
+	value: T;
+	// number of loaded results which match the facet
+	count: number;
+};
+
+export type SearchFacets = {
+	types: SearchFacet<NodeType>[];
+	owners: SearchFacet<Pick<User, 'id' | 'full_name' | 'email'>>[];
+	roots: SearchFacet<typeof ROOTS.LOCAL_ROOT | typeof ROOTS.SHARED_WITH_ME | typeof ROOTS.TRASH>[];
+};
+
+export type SavedSearch = {
+	id: string;
+	name: string;
+	filters: AdvancedFilters;
+};
+
 export type ChipActionsType = {
 	background?:
 		| string
@@ -344,6 +496,8 @@ export enum Action {
 	UpsertDescription = 'UPSERT_DESCRIPTION',
 	removeUpload = 'REMOVE_UPLOAD',
 	RetryUpload = 'RETRY_UPLOAD',
+	PauseUpload = 'PAUSE_UPLOAD',
+	ResumeUpload = 'RESUME_UPLOAD',
 	GoToFolder = 'GO_TO_FOLDER'
 	// CreateFolder = 'CREATE_FOLDER',
 }
@@ -486,10 +486,17 @@ export type QueryFindNodesArgs = {
 	folder_id?: InputMaybe<Scalars['String']>;
 	keywords?: InputMaybe<Array<Scalars['String']>>;
 	limit?: InputMaybe<Scalars['Int']>;
+	mime_type?: InputMaybe<Scalars['String']>;
+	modified_after?: InputMaybe<Scalars['DateTime']>;
+	modified_before?: InputMaybe<Scalars['DateTime']>;
+	owner_id?: InputMaybe<Scalars['String']>;
 	page_token?: InputMaybe<Scalars['String']>;
 	shared_by_me?: InputMaybe<Scalars['Boolean']>;
 	shared_with_me?: InputMaybe<Scalars['Boolean']>;
+	size_max?: InputMaybe<Scalars['Float']>;
+	size_min?: InputMaybe<Scalars['Float']>;
 	sort?: InputMaybe<NodeSort>;
+	type?: InputMaybe<NodeType>;
 };
 
 export type QueryGetAccountByEmailArgs = {
@@ -1576,6 +1583,13 @@ export type FindNodesQueryVariables = Exact<{
 	sort?: InputMaybe<NodeSort>;
 	shares_limit?: InputMaybe<Scalars['Int']>;
 	direct_share?: InputMaybe<Scalars['Boolean']>;
+	type?: InputMaybe<NodeType>;
+	mime_type?: InputMaybe<Scalars['String']>;
+	size_min?: InputMaybe<Scalars['Float']>;
+	size_max?: InputMaybe<Scalars['Float']>;
+	modified_after?: InputMaybe<Scalars['DateTime']>;
+	modified_before?: InputMaybe<Scalars['DateTime']>;
+	owner_id?: InputMaybe<Scalars['String']>;
 }>;
 
 export type FindNodesQuery = {
@@ -1587,6 +1601,8 @@ export type FindNodesQuery = {
 			| {
 					__typename?: 'File';
 					updated_at: number;
+					description: string;
+					created_at: number;
 					size: number;
 					mime_type: string;
 					extension?: string | null;
@@ -1670,6 +1686,8 @@ export type FindNodesQuery = {
 			| {
 					__typename?: 'Folder';
 					updated_at: number;
+					description: string;
+					created_at: number;
 					id: string;
 					name: string;
 					type: NodeType;
@@ -4,12 +4,14 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
+import { ROOTS } from '../constants';
 import { populateFile, populateFolder, populateUnknownNode } from '../mocks/mockUtils';
 import { Node } from '../types/common';
 import { File, Folder } from '../types/graphql/types';
 import {
 	canCopy,
 	canCreateFolder,
+	canDownload,
 	canFlag,
 	canMarkForDeletion,
 	canMove,
@@ -365,6 +367,25 @@ describe('ActionsFactory test', () => {
 		expect(canCopy([testFolder])).toBeTruthy();
 	});
 
+	/**
+	 *  canDownload
+	 *
+	 * */
+	it('canDownload: multiple files and folders can be downloaded together', () => {
+		const testFile: File = populateFile();
+		const testFolder: Folder = populateFolder();
+		expect(canDownload([testFile])).toBeTruthy();
+		expect(canDownload([testFolder])).toBeTruthy();
+		expect(canDownload([testFile, testFolder])).toBeTruthy();
+	});
+
+	it('canDownload: nodes in the trash cannot be downloaded', () => {
+		const testFile: File = populateFile();
+		const trashedFolder: Folder = populateFolder();
+		trashedFolder.rootId = ROOTS.TRASH;
+		expect(canDownload([testFile, trashedFolder])).toBeFalsy();
+	});
+
 	// TODO uncomment and fix when permissions are updated
 	/*
 	it('getPermittedSelectionModePrimaryActions: ', () => {
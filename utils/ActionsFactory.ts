@@ -41,7 +41,7 @@ export type ActionsFactoryNodeType = Pick<
 	(Pick<FilesFile, '__typename'> | Pick<Folder, '__typename'>) &
 	MakeOptional<Pick<FilesFile, 'mime_type'>, 'mime_type'>;
 
-export type ActionsFactoryUploadType = Pick<UploadType, 'status' | 'parentId'>;
+export type ActionsFactoryUploadType = Pick<UploadType, 'status' | 'parentId' | 'rejectionReason'>;
 
 export type ActionsFactoryGlobalType = ActionsFactoryNodeType | ActionsFactoryUploadType;
 
@@ -76,7 +76,13 @@ const completeListActions: Action[] = [
 	Action.DeletePermanently
 ];
 
-const uploadActions: Action[] = [Action.removeUpload, Action.RetryUpload, Action.GoToFolder];
+const uploadActions: Action[] = [
+	Action.removeUpload,
+	Action.RetryUpload,
+	Action.PauseUpload,
+	Action.ResumeUpload,
+	Action.GoToFolder
+];
 
 export function isFile(node: { __typename?: string }): node is File {
 	return node.__typename === 'File';
@@ -232,7 +238,8 @@ export function canBeWriteNodeDestination(
 }
 
 export function canBeMoveDestination(
-	destinationNode: Pick<ActionsFactoryNodeType, '__typename' | 'permissions' | 'id' | 'owner'>,
+	destinationNode: Pick<ActionsFactoryNodeType, '__typename' | 'permissions' | 'id'> &
+		Partial<Pick<ActionsFactoryNodeType, 'owner'>>,
 	nodesToMove: Array<Pick<ActionsFactoryNodeType, '__typename' | 'id' | 'owner'>>,
 	loggedUserId: string
 ): boolean {
@@ -373,9 +380,11 @@ export function canDownload(nodes: OneOrMany<ActionsFactoryGlobalType>): boolean
 		throw Error('cannot evaluate canDownload on empty nodes array');
 	}
 	const $nodes = nodes as ActionsFactoryNodeType[];
-	// TODO: evaluate when batch will be enabled
-	// TODO: remove file check when download will be implemented also for folders
-	return size($nodes) === 1 && isFile($nodes[0]) && $nodes[0].rootId !== ROOTS.TRASH;
+	// multiple nodes and folders are downloaded as a single zip archive
+	return every(
+		$nodes,
+		(node) => (isFile(node) || isFolder(node)) && node.rootId !== ROOTS.TRASH
+	);
 }
 
 export function canOpenWithDocs(nodes: OneOrMany<ActionsFactoryGlobalType>): boolean {
@@ -467,8 +476,40 @@ export function canRetryUpload(nodes: OneOrMany<ActionsFactoryGlobalType>): bool
 		throw Error('cannot evaluate canRetryUpload on empty nodes array');
 	}
 	const $nodes = nodes as ActionsFactoryUploadType[];
-	// can retry only if all selected nodes are failed
-	return find($nodes, (node) => node.status !== UploadStatus.FAILED) === undefined;
+	// can retry only if all selected nodes are failed, rejected nodes would be rejected again
+	return (
+		find(
+			$nodes,
+			(node) => node.status !== UploadStatus.FAILED || node.rejectionReason !== undefined
+		) === undefined
+	);
+}
+
+export function canPauseUpload(nodes: OneOrMany<ActionsFactoryGlobalType>): boolean {
+	if (!(nodes instanceof Array)) {
+		throw Error('cannot evaluate canPauseUpload on Node type');
+	}
+	if (size(nodes) === 0) {
+		throw Error('cannot evaluate canPauseUpload on empty nodes array');
+	}
+	const $nodes = nodes as ActionsFactoryUploadType[];
+	// can pause only if all selected nodes are loading or queued
+	return every(
+		$nodes,
+		(node) => node.status === UploadStatus.LOADING || node.status === UploadStatus.QUEUED
+	);
+}
+
+export function canResumeUpload(nodes: OneOrMany<ActionsFactoryGlobalType>): boolean {
+	if (!(nodes instanceof Array)) {
+		throw Error('cannot evaluate canResumeUpload on Node type');
+	}
+	if (size(nodes) === 0) {
+		throw Error('cannot evaluate canResumeUpload on empty nodes array');
+	}
+	const $nodes = nodes as ActionsFactoryUploadType[];
+	// can resume only if all selected nodes are paused
+	return every($nodes, (node) => node.status === UploadStatus.PAUSED);
 }
 
 export function canGoToFolder(nodes: OneOrMany<ActionsFactoryGlobalType>): boolean {
@@ -534,6 +575,8 @@ const actionsCheckMap: {
 	[Action.UpsertDescription]: canUpsertDescription,
 	[Action.GoToFolder]: canGoToFolder,
 	[Action.RetryUpload]: canRetryUpload,
+	[Action.PauseUpload]: canPauseUpload,
+	[Action.ResumeUpload]: canResumeUpload,
 	[Action.removeUpload]: canRemoveUpload
 	// [Actions.CreateFolder]: canCreateFolder,
 };
@@ -0,0 +1,44 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import forEach from 'lodash/forEach';
+import pull from 'lodash/pull';
+
+export type EventListener<TPayload> = (payload: TPayload) => void;
+
+/**
+ * Minimal event emitter where each event name is bound to the type of its payload
+ */
+export class TypedEventEmitter<TEvents extends Record<string, unknown>> {
+	private listeners: { [K in keyof TEvents]?: Array<EventListener<TEvents[K]>> } = {};
+
+	/**
+	 * Register a listener for the given event.
+	 * Returns the function to unregister it
+	 */
+	on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+		const eventListeners = this.listeners[event] || [];
+		eventListeners.push(listener);
+		this.listeners[event] = eventListeners;
+		return (): void => {
+			this.off(event, listener);
+		};
+	}
+
+	off<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): void {
+		const eventListeners = this.listeners[event];
+		if (eventListeners) {
+			pull(eventListeners, listener);
+		}
+	}
+
+	protected emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+		// copy the listeners so that a listener can unregister itself while the event is emitted
+		forEach([...(this.listeners[event] || [])], (listener) => {
+			listener(payload);
+		});
+	}
+}
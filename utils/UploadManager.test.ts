@@ -0,0 +1,108 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { UploadManager } from './UploadManager';
+
+describe('Upload manager', () => {
+	function setup(concurrency = 2): {
+		manager: UploadManager;
+		start: jest.Mock;
+		abort: jest.Mock;
+	} {
+		const start = jest.fn();
+		const abort = jest.fn();
+		const manager = new UploadManager({ start, abort, concurrency });
+		return { manager, start, abort };
+	}
+
+	it('should start at most as many uploads as the concurrency and keep the others waiting', () => {
+		const { manager, start } = setup();
+		manager.enqueue('1', '2', '3');
+		expect(start).toHaveBeenCalledTimes(2);
+		expect(start).toHaveBeenNthCalledWith(1, '1');
+		expect(start).toHaveBeenNthCalledWith(2, '2');
+		expect(manager.getState()).toEqual({ waiting: ['3'], loading: ['1', '2'], concurrency: 2 });
+	});
+
+	it('should not enqueue twice the same upload', () => {
+		const { manager, start } = setup(1);
+		manager.enqueue('1', '2');
+		manager.enqueue('2', '1');
+		expect(start).toHaveBeenCalledTimes(1);
+		expect(manager.getState().waiting).toEqual(['2']);
+	});
+
+	it('should start the next waiting upload when an upload is completed', () => {
+		const { manager, start } = setup(1);
+		manager.enqueue('1', '2');
+		manager.completed('1');
+		expect(start).toHaveBeenLastCalledWith('2');
+		expect(manager.getState()).toEqual({ waiting: [], loading: ['2'], concurrency: 1 });
+	});
+
+	it('should abort an upload in progress when it is cancelled and give its slot to the next one', () => {
+		const { manager, start, abort } = setup(1);
+		manager.enqueue('1', '2');
+		manager.cancel('1');
+		expect(abort).toHaveBeenCalledWith('1');
+		expect(start).toHaveBeenLastCalledWith('2');
+		expect(manager.isQueued('1')).toBe(false);
+	});
+
+	it('should remove a waiting upload without aborting it when it is cancelled', () => {
+		const { manager, abort } = setup(1);
+		manager.enqueue('1', '2');
+		manager.cancel('2');
+		expect(abort).not.toHaveBeenCalled();
+		expect(manager.getState().waiting).toEqual([]);
+	});
+
+	it('should change the order of the waiting uploads', () => {
+		const { manager, start } = setup(1);
+		manager.enqueue('1', '2', '3', '4');
+		manager.reorder('4', 0);
+		expect(manager.getState().waiting).toEqual(['4', '2', '3']);
+		manager.completed('1');
+		expect(start).toHaveBeenLastCalledWith('4');
+	});
+
+	it('should start new uploads when the concurrency is increased', () => {
+		const { manager, start } = setup(1);
+		manager.enqueue('1', '2', '3');
+		manager.setConcurrency(3);
+		expect(start).toHaveBeenCalledTimes(3);
+		expect(manager.getState()).toEqual({ waiting: [], loading: ['1', '2', '3'], concurrency: 3 });
+	});
+
+	it('should not abort running uploads when the concurrency is decreased', () => {
+		const { manager, start, abort } = setup(2);
+		manager.enqueue('1', '2', '3');
+		manager.setConcurrency(1);
+		manager.completed('1');
+		expect(abort).not.toHaveBeenCalled();
+		expect(start).toHaveBeenCalledTimes(2);
+		expect(manager.getState().waiting).toEqual(['3']);
+	});
+
+	it('should notify the listeners on every change of the queues until they unsubscribe', () => {
+		const { manager } = setup(1);
+		const queueChangeListener = jest.fn();
+		const startListener = jest.fn();
+		const unsubscribe = manager.on('queueChange', queueChangeListener);
+		manager.on('start', startListener);
+		manager.enqueue('1', '2');
+		expect(startListener).toHaveBeenCalledWith({ id: '1' });
+		expect(queueChangeListener).toHaveBeenLastCalledWith({
+			waiting: ['2'],
+			loading: ['1'],
+			concurrency: 1
+		});
+		unsubscribe();
+		manager.completed('1');
+		expect(startListener).toHaveBeenLastCalledWith({ id: '2' });
+		expect(queueChangeListener).toHaveBeenCalledTimes(1);
+	});
+});
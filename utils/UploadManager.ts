@@ -0,0 +1,144 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import includes from 'lodash/includes';
+import pull from 'lodash/pull';
+
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+export type UploadQueueState = {
+	// ids of the uploads waiting for a free slot, in the order they will be started
+	waiting: string[];
+	// ids of the uploads in progress
+	loading: string[];
+	concurrency: number;
+};
+
+export type UploadManagerEvents = {
+	// emitted every time the content or the order of the queues change
+	queueChange: UploadQueueState;
+	// emitted when an upload is moved from the waiting queue to the loading one
+	start: { id: string };
+};
+
+export interface UploadManagerOptions {
+	// start the upload with the given id
+	start: (id: string) => void;
+	// abort the upload in progress with the given id
+	abort: (id: string) => void;
+	concurrency: number;
+}
+
+/**
+ * Schedule the uploads, so that at most `concurrency` of them are in progress at the same time.
+ * The manager knows only the ids of the uploads. How an upload is started and aborted is delegated
+ * to the functions received on creation, and the end of an upload must be notified with `completed`.
+ */
+export class UploadManager extends TypedEventEmitter<UploadManagerEvents> {
+	private waiting: string[] = [];
+
+	private loading: string[] = [];
+
+	private concurrency: number;
+
+	private readonly startUpload: UploadManagerOptions['start'];
+
+	private readonly abortUpload: UploadManagerOptions['abort'];
+
+	constructor({ start, abort, concurrency }: UploadManagerOptions) {
+		super();
+		this.startUpload = start;
+		this.abortUpload = abort;
+		this.concurrency = Math.max(1, concurrency);
+	}
+
+	getState(): UploadQueueState {
+		return {
+			waiting: [...this.waiting],
+			loading: [...this.loading],
+			concurrency: this.concurrency
+		};
+	}
+
+	isQueued(id: string): boolean {
+		return includes(this.waiting, id) || includes(this.loading, id);
+	}
+
+	/**
+	 * Add the given uploads at the end of the waiting queue and start as many of them as the concurrency allows
+	 */
+	enqueue(...ids: string[]): void {
+		this.waiting.push(...ids.filter((id) => !this.isQueued(id)));
+		this.fill();
+	}
+
+	/**
+	 * Put again in the queue an upload which is not running anymore
+	 */
+	retry(id: string): void {
+		this.enqueue(id);
+	}
+
+	/**
+	 * Remove the upload from the queues. If the upload is in progress, it is aborted
+	 * and its slot is given to the next upload in the waiting queue
+	 */
+	cancel(id: string): void {
+		if (includes(this.loading, id)) {
+			pull(this.loading, id);
+			this.abortUpload(id);
+			this.fill();
+		} else if (includes(this.waiting, id)) {
+			pull(this.waiting, id);
+			this.emitQueueChange();
+		}
+	}
+
+	/**
+	 * Notify the end of an upload, successful or not, so that the next one can start
+	 */
+	completed(id: string): void {
+		if (includes(this.loading, id)) {
+			pull(this.loading, id);
+			this.fill();
+		}
+	}
+
+	/**
+	 * Move a waiting upload to the given position of the waiting queue
+	 */
+	reorder(id: string, position: number): void {
+		if (includes(this.waiting, id)) {
+			pull(this.waiting, id);
+			this.waiting.splice(Math.max(0, Math.min(position, this.waiting.length)), 0, id);
+			this.emitQueueChange();
+		}
+	}
+
+	/**
+	 * Change the max number of uploads in progress at the same time.
+	 * Lowering the concurrency does not abort the running uploads, but no new upload starts until
+	 * the number of running ones is below the new limit
+	 */
+	setConcurrency(concurrency: number): void {
+		this.concurrency = Math.max(1, concurrency);
+		this.fill();
+	}
+
+	private fill(): void {
+		while (this.loading.length < this.concurrency && this.waiting.length > 0) {
+			const id = this.waiting.shift() as string;
+			this.loading.push(id);
+			this.emit('start', { id });
+			this.startUpload(id);
+		}
+		this.emitQueueChange();
+	}
+
+	private emitQueueChange(): void {
+		this.emit('queueChange', this.getState());
+	}
+}
@@ -0,0 +1,34 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import every from 'lodash/every';
+import includes from 'lodash/includes';
+import isArray from 'lodash/isArray';
+import isNumber from 'lodash/isNumber';
+import isPlainObject from 'lodash/isPlainObject';
+
+import { DETAILS_COLUMNS_STORAGE_KEY } from '../constants';
+import { DetailsColumn, DetailsColumnLayout } from '../types/common';
+import { getStoredValue, storeValue } from './localStorage';
+
+const isDetailsColumnLayouts = (value: unknown): value is DetailsColumnLayout[] =>
+	isArray(value) &&
+	every(
+		value,
+		(column) =>
+			isPlainObject(column) &&
+			includes(Object.values(DetailsColumn), column.id) &&
+			isNumber(column.width)
+	);
+
+/**
+ * Read the order and the widths of the columns of the details view from the local storage
+ */
+export const getStoredDetailsColumns = (): DetailsColumnLayout[] =>
+	getStoredValue(DETAILS_COLUMNS_STORAGE_KEY, [], isDetailsColumnLayouts);
+
+export const storeDetailsColumns = (columns: DetailsColumnLayout[]): void =>
+	storeValue(DETAILS_COLUMNS_STORAGE_KEY, columns);
@@ -0,0 +1,19 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { EXPANDED_FOLDERS_STORAGE_KEY } from '../constants';
+import { getStoredValue, isStringArray, storeValue } from './localStorage';
+
+const getStorageKey = (userId: string): string => `${EXPANDED_FOLDERS_STORAGE_KEY}-${userId}`;
+
+/**
+ * Read the ids of the folders expanded by the user in the folder tree from the local storage
+ */
+export const getStoredExpandedFolders = (userId: string): string[] =>
+	getStoredValue(getStorageKey(userId), [], isStringArray);
+
+export const storeExpandedFolders = (userId: string, folderIds: string[]): void =>
+	storeValue(getStorageKey(userId), folderIds);
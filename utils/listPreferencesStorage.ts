@@ -0,0 +1,79 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import every from 'lodash/every';
+import has from 'lodash/has';
+import includes from 'lodash/includes';
+import isPlainObject from 'lodash/isPlainObject';
+import mapValues from 'lodash/mapValues';
+import values from 'lodash/values';
+
+import { LIST_PREFERENCES_STORAGE_KEY, VIEW_MODES_STORAGE_KEY } from '../constants';
+import { ListDensity, ListPreferences, StoredListPreferences, ViewMode } from '../types/common';
+import { NodeSort } from '../types/graphql/types';
+import { getStoredValue, removeStoredValue, storeValue } from './localStorage';
+
+const getStorageKey = (userId: string): string => `${LIST_PREFERENCES_STORAGE_KEY}-${userId}`;
+
+const PREFERENCES_VALUES: Record<keyof ListPreferences, string[]> = {
+	sort: values(NodeSort),
+	viewMode: values(ViewMode),
+	density: values(ListDensity)
+};
+
+// keys which are not known, i.e. added by a newer version of the app, are not validated
+const isListPreferences = (value: unknown): value is Partial<ListPreferences> =>
+	isPlainObject(value) &&
+	every(
+		value as Record<string, unknown>,
+		(preference, key) =>
+			!has(PREFERENCES_VALUES, key) ||
+			includes(PREFERENCES_VALUES[key as keyof ListPreferences], preference)
+	);
+
+const isStoredListPreferences = (value: unknown): value is StoredListPreferences =>
+	isPlainObject(value) &&
+	isListPreferences((value as StoredListPreferences).default) &&
+	isPlainObject((value as StoredListPreferences).folders) &&
+	every((value as StoredListPreferences).folders, isListPreferences);
+
+const isViewModes = (value: unknown): value is Record<string, ViewMode> =>
+	isPlainObject(value) &&
+	every(value as Record<string, unknown>, (viewMode) =>
+		includes(PREFERENCES_VALUES.viewMode, viewMode)
+	);
+
+export const storeListPreferences = (userId: string, preferences: StoredListPreferences): void =>
+	storeValue(getStorageKey(userId), preferences);
+
+/**
+ * Read the preferences of the lists chosen by the user from the local storage.
+ * The view modes were stored by folder id for all the users, before being part of the preferences,
+ * so they are used when the user has no preferences yet. The storage is not written
+ */
+export const getStoredListPreferences = (userId: string): StoredListPreferences => {
+	const preferences = getStoredValue<StoredListPreferences | null>(
+		getStorageKey(userId),
+		null,
+		isStoredListPreferences
+	);
+	if (preferences) {
+		return preferences;
+	}
+	const viewModes = getStoredValue(VIEW_MODES_STORAGE_KEY, {}, isViewModes);
+	return { default: {}, folders: mapValues(viewModes, (viewMode) => ({ viewMode })) };
+};
+
+/**
+ * Move the view modes stored before the preferences into the given preferences of the user,
+ * which are the ones read from the storage, so that they are not read by the other users
+ */
+export const migrateViewModes = (userId: string, preferences: StoredListPreferences): void => {
+	if (getStoredValue(VIEW_MODES_STORAGE_KEY, null, isViewModes) !== null) {
+		storeListPreferences(userId, preferences);
+		removeStoredValue(VIEW_MODES_STORAGE_KEY);
+	}
+};
@@ -0,0 +1,56 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import every from 'lodash/every';
+import isArray from 'lodash/isArray';
+import isString from 'lodash/isString';
+
+/**
+ * Read a value from the local storage. The fallback is returned when the value is missing,
+ * cannot be read or is not valid, i.e. because it has been written by a previous version of the app
+ */
+export function getStoredValue<T>(
+	key: string,
+	fallback: T,
+	validate: (value: unknown) => value is T
+): T {
+	try {
+		const storedValue = window.localStorage.getItem(key);
+		if (storedValue === null) {
+			return fallback;
+		}
+		const value: unknown = JSON.parse(storedValue);
+		if (validate(value)) {
+			return value;
+		}
+		console.error(`invalid value stored for ${key}`, value);
+		return fallback;
+	} catch (err) {
+		// the local storage can be disabled by the browser settings, or the value can be corrupted
+		console.error(`unable to read ${key}`, err);
+		return fallback;
+	}
+}
+
+export function storeValue<T>(key: string, value: T): void {
+	try {
+		window.localStorage.setItem(key, JSON.stringify(value));
+	} catch (err) {
+		console.error(`unable to store ${key}`, err);
+	}
+}
+
+export function removeStoredValue(key: string): void {
+	try {
+		window.localStorage.removeItem(key);
+	} catch (err) {
+		console.error(`unable to remove ${key}`, err);
+	}
+}
+
+export function isStringArray(value: unknown): value is string[] {
+	return isArray(value) && every(value, isString);
+}
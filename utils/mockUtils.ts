@@ -192,17 +192,21 @@ export function mockFindNodes(
 
 export function mockTrashNodes(
 	variables: TrashNodesMutationVariables,
-	trashNodes: Id[]
+	trashNodes: Id[],
+	callback?: () => void
 ): Mock<TrashNodesMutation, TrashNodesMutationVariables> {
 	return {
 		request: {
 			query: TRASH_NODES,
 			variables
 		},
-		result: {
-			data: {
-				trashNodes
-			}
+		result: (): { data: TrashNodesMutation } => {
+			callback && callback();
+			return {
+				data: {
+					trashNodes
+				}
+			};
 		}
 	};
 }
@@ -252,17 +256,21 @@ export function mockDeletePermanently(
  */
 export function mockUpdateNode(
 	variables: UpdateNodeMutationVariables,
-	updateNode: Node
+	updateNode: Node,
+	callback?: () => void
 ): Mock<UpdateNodeMutation, UpdateNodeMutationVariables> {
 	return {
 		request: {
 			query: UPDATE_NODE,
 			variables: { ...variables, shares_limit: 1 }
 		},
-		result: {
-			data: {
-				updateNode
-			}
+		result: (): { data: UpdateNodeMutation } => {
+			callback && callback();
+			return {
+				data: {
+					updateNode
+				}
+			};
 		}
 	};
 }
@@ -398,17 +406,21 @@ export function mockMoveNodes(
  */
 export function mockCopyNodes(
 	variables: MoveNodesMutationVariables,
-	copyNodes: Node[]
+	copyNodes: Node[],
+	callback?: () => void
 ): Mock<CopyNodesMutation, CopyNodesMutationVariables> {
 	return {
 		request: {
 			query: COPY_NODES,
 			variables: { ...variables, shares_limit: 1 }
 		},
-		result: {
-			data: {
-				copyNodes
-			}
+		result: (): { data: CopyNodesMutation } => {
+			callback && callback();
+			return {
+				data: {
+					copyNodes
+				}
+			};
 		}
 	};
 }
@@ -0,0 +1,32 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import every from 'lodash/every';
+import isArray from 'lodash/isArray';
+import isPlainObject from 'lodash/isPlainObject';
+import map from 'lodash/map';
+
+import { RECENT_SEARCHES_STORAGE_KEY } from '../constants';
+import { AdvancedFilters } from '../types/common';
+import { getStoredValue, storeValue } from './localStorage';
+import { restoreSearchChipsCallbacks } from './searchQuery';
+
+const getStorageKey = (userId: string): string => `${RECENT_SEARCHES_STORAGE_KEY}-${userId}`;
+
+const isAdvancedFiltersList = (value: unknown): value is AdvancedFilters[] =>
+	isArray(value) && every(value, isPlainObject);
+
+/**
+ * Read the recent searches of the user from the local storage, most recent first
+ */
+export const getStoredRecentSearches = (userId: string): AdvancedFilters[] =>
+	map(
+		getStoredValue(getStorageKey(userId), [], isAdvancedFiltersList),
+		restoreSearchChipsCallbacks
+	);
+
+export const storeRecentSearches = (userId: string, recentSearches: AdvancedFilters[]): void =>
+	storeValue(getStorageKey(userId), recentSearches);
@@ -0,0 +1,41 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import every from 'lodash/every';
+import isArray from 'lodash/isArray';
+import isPlainObject from 'lodash/isPlainObject';
+import isString from 'lodash/isString';
+import map from 'lodash/map';
+
+import { SAVED_SEARCHES_STORAGE_KEY } from '../constants';
+import { SavedSearch } from '../types/common';
+import { getStoredValue, storeValue } from './localStorage';
+import { restoreSearchChipsCallbacks } from './searchQuery';
+
+const getStorageKey = (userId: string): string => `${SAVED_SEARCHES_STORAGE_KEY}-${userId}`;
+
+const isSavedSearches = (value: unknown): value is SavedSearch[] =>
+	isArray(value) &&
+	every(
+		value,
+		(savedSearch) =>
+			isPlainObject(savedSearch) &&
+			isString(savedSearch.id) &&
+			isString(savedSearch.name) &&
+			isPlainObject(savedSearch.filters)
+	);
+
+/**
+ * Read the searches saved by the user from the local storage
+ */
+export const getStoredSavedSearches = (userId: string): SavedSearch[] =>
+	map(getStoredValue(getStorageKey(userId), [], isSavedSearches), (savedSearch) => ({
+		...savedSearch,
+		filters: restoreSearchChipsCallbacks(savedSearch.filters)
+	}));
+
+export const storeSavedSearches = (userId: string, savedSearches: SavedSearch[]): void =>
+	storeValue(getStorageKey(userId), savedSearches);
@@ -0,0 +1,165 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import forEach from 'lodash/forEach';
+import moment from 'moment-timezone';
+
+import { AdvancedFilters } from '../types/common';
+import { NodeType } from '../types/graphql/types';
+import {
+	parseSearchQuery,
+	searchFiltersToChips,
+	searchQueryChipsToFilters,
+	serializeSearchQuery,
+	tokenizeSearchQuery
+} from './searchQuery';
+
+describe('Search query', () => {
+	describe('Tokenizer', () => {
+		it('should split on whitespaces outside double quotes', () => {
+			expect(
+				tokenizeSearchQuery('type:pdf  in:"Project X" "annual report" budget "unclosed quote')
+			).toEqual(['type:pdf', 'in:"Project X"', '"annual report"', 'budget', '"unclosed quote']);
+		});
+	});
+
+	describe('Parser', () => {
+		it('should turn each recognised token into a typed chip', () => {
+			const chips = parseSearchQuery(
+				'type:pdf owner:alice@x.com modified:>2026-01-01 in:"Project X" flagged:true budget'
+			);
+			expect(chips).toEqual([
+				expect.objectContaining({
+					filterKey: 'mimeType',
+					value: 'application/pdf',
+					label: 'type:pdf'
+				}),
+				expect.objectContaining({ filterKey: 'ownerId', value: 'alice@x.com' }),
+				expect.objectContaining({
+					filterKey: 'modifiedAfter',
+					value: moment('2026-01-01').endOf('day').valueOf()
+				}),
+				expect.objectContaining({
+					filterKey: 'folderId',
+					value: 'Project X',
+					cascade: false,
+					label: 'in:Project X'
+				}),
+				expect.objectContaining({ filterKey: 'flagged', value: true }),
+				expect.objectContaining({ filterKey: 'keywords', value: 'budget', hasAvatar: false })
+			]);
+			expect(chips).not.toContainEqual(expect.objectContaining({ error: true }));
+		});
+
+		it('should mark malformed tokens with an error', () => {
+			const chips = parseSearchQuery(
+				'type:unknown size:big modified:>yesterday owner:alice flagged:maybe in: "open'
+			);
+			expect(chips).toHaveLength(7);
+			chips.forEach((chip) => {
+				expect(chip).toEqual(expect.objectContaining({ error: true, label: chip.query }));
+				expect(chip.filterKey).toBeUndefined();
+			});
+		});
+
+		it('should consider tokens with an unknown key as keywords', () => {
+			expect(parseSearchQuery('10:30 "type:pdf"')).toEqual([
+				expect.objectContaining({ filterKey: 'keywords', value: '10:30' }),
+				expect.objectContaining({ filterKey: 'keywords', value: 'type:pdf' })
+			]);
+		});
+
+		it('should convert sizes with units in bytes', () => {
+			expect(parseSearchQuery('size:>=1.5MB size:<2gb')).toEqual([
+				expect.objectContaining({ filterKey: 'sizeMin', value: 1.5 * 1024 * 1024 }),
+				expect.objectContaining({ filterKey: 'sizeMax', value: 2 * 1024 * 1024 * 1024 - 1 })
+			]);
+		});
+
+		it('should exclude the given size with the operators without equal', () => {
+			expect(parseSearchQuery('size:>5MB size:<5MB size:<0')).toEqual([
+				expect.objectContaining({ filterKey: 'sizeMin', value: 5 * 1024 * 1024 + 1 }),
+				expect.objectContaining({ filterKey: 'sizeMax', value: 5 * 1024 * 1024 - 1 }),
+				expect.objectContaining({ error: true, query: 'size:<0' })
+			]);
+		});
+
+		it('should build the advanced filters from the valid chips', () => {
+			const filters = searchQueryChipsToFilters(
+				parseSearchQuery('type:folder under:Documents one two type:unknown')
+			);
+			expect(filters).toEqual({
+				type: expect.objectContaining({ value: NodeType.Folder }),
+				folderId: expect.objectContaining({ value: 'Documents' }),
+				cascade: { value: true },
+				keywords: [
+					expect.objectContaining({ value: 'one' }),
+					expect.objectContaining({ value: 'two' })
+				]
+			});
+		});
+	});
+
+	describe('Serializer', () => {
+		it('should serialize the advanced filters into a query', () => {
+			const filters: AdvancedFilters = {
+				keywords: [
+					{ label: 'budget', value: 'budget' },
+					{ label: 'annual report', value: 'annual report' }
+				],
+				type: { label: 'type:Image', value: NodeType.Image },
+				mimeType: { label: 'format:Video', value: 'video/' },
+				sizeMin: { label: 'larger:10.00 MB', value: 10 * 1024 * 1024 },
+				modifiedBefore: {
+					label: 'before:31/01/26',
+					value: moment('2026-01-31').endOf('day').valueOf()
+				},
+				ownerId: { label: 'owner:Alice', value: 'alice-id', queryValue: 'alice@x.com' },
+				folderId: { label: 'in:Project X', value: 'project-x-id', queryValue: 'Project X' },
+				cascade: { value: false },
+				sharedByMe: { label: 'Shared', value: true }
+			};
+			expect(serializeSearchQuery(filters)).toBe(
+				'budget "annual report" type:image format:video size:>=10MB modified:<=2026-01-31 owner:alice@x.com in:"Project X" shared:true'
+			);
+		});
+
+		it('should build the chips of the filters which are converted back into the same filters', () => {
+			const filters: AdvancedFilters = {
+				keywords: [{ label: 'budget', value: 'budget' }],
+				flagged: { label: 'Flagged', value: true },
+				folderId: { label: 'under:Project X', value: 'project-x-id', queryValue: 'Project X' },
+				cascade: { value: true }
+			};
+			const chips = searchFiltersToChips(filters);
+			expect(chips).toEqual([
+				expect.objectContaining({ filterKey: 'keywords', value: 'budget', query: 'budget' }),
+				expect.objectContaining({
+					filterKey: 'folderId',
+					value: 'project-x-id',
+					cascade: true,
+					query: 'under:"Project X"'
+				}),
+				expect.objectContaining({ filterKey: 'flagged', value: true, query: 'flagged:true' })
+			]);
+			expect(searchQueryChipsToFilters(chips)).toEqual(filters);
+		});
+
+		it('should produce a query which is parsed into the same filters', () => {
+			const query =
+				'budget type:text format:pdf size:<=512KB modified:>=2026-01-01 modified:<2026-02-01 flagged:false';
+			expect(serializeSearchQuery(searchQueryChipsToFilters(parseSearchQuery(query)))).toBe(query);
+		});
+
+		it('should produce a query with the same size operators', () => {
+			forEach(['size:>5MB', 'size:>=5MB', 'size:<5MB', 'size:<=5MB', 'size:>=0B'], (query) => {
+				expect(serializeSearchQuery(searchQueryChipsToFilters(parseSearchQuery(query)))).toBe(
+					query
+				);
+			});
+		});
+	});
+});
@@ -0,0 +1,402 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import find from 'lodash/find';
+import findKey from 'lodash/findKey';
+import forEach from 'lodash/forEach';
+import includes from 'lodash/includes';
+import map from 'lodash/map';
+import reduce from 'lodash/reduce';
+import toLower from 'lodash/toLower';
+import toUpper from 'lodash/toUpper';
+import without from 'lodash/without';
+import moment from 'moment-timezone';
+
+import { AdvancedFilters, SearchChip } from '../types/common';
+import { NodeType } from '../types/graphql/types';
+
+const QUERY_DATE_FORMAT = 'YYYY-MM-DD';
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+const MIME_TYPE_FAMILIES = ['image', 'video', 'audio', 'text', 'application'];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+	pdf: 'application/pdf',
+	zip: 'application/zip',
+	json: 'application/json',
+	doc: 'application/msword',
+	odt: 'application/vnd.oasis.opendocument.text',
+	ods: 'application/vnd.oasis.opendocument.spreadsheet',
+	odp: 'application/vnd.oasis.opendocument.presentation',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	gif: 'image/gif',
+	svg: 'image/svg+xml',
+	mp4: 'video/mp4',
+	mp3: 'audio/mpeg',
+	txt: 'text/plain',
+	csv: 'text/csv',
+	html: 'text/html'
+};
+
+export type SearchQueryFilterKey = Exclude<keyof AdvancedFilters, 'cascade' | 'sharedWithMe'>;
+
+export type SearchQueryChip = SearchChip & {
+	/** filter set by the token, undefined when the token is malformed */
+	filterKey?: SearchQueryFilterKey;
+	value?: string | number | boolean;
+	/** search also in sub-folders, valued only for folder tokens */
+	cascade?: boolean;
+	/** typed email or folder name, kept when the value is resolved into an id */
+	queryValue?: string;
+	/** text of the token which generated the chip */
+	query: string;
+};
+
+type KeywordChip = NonNullable<AdvancedFilters['keywords']>[number];
+
+type TokenParser = (
+	value: string,
+	key: string
+) => Pick<SearchQueryChip, 'filterKey' | 'value' | 'cascade' | 'avatarIcon'> | undefined;
+
+function parseMimeType(value: string): ReturnType<TokenParser> {
+	const lowerValue = toLower(value);
+	let mimeType: string | undefined = EXTENSION_MIME_TYPES[lowerValue];
+	if (includes(MIME_TYPE_FAMILIES, lowerValue)) {
+		mimeType = `${lowerValue}/`;
+	} else if (!mimeType && /^[\w.+-]+\/[\w.+-]*$/.test(lowerValue)) {
+		mimeType = lowerValue;
+	}
+	return mimeType
+		? { filterKey: 'mimeType', value: mimeType, avatarIcon: 'FileOutline' }
+		: undefined;
+}
+
+const parseFolder: TokenParser = (value, key) =>
+	value
+		? { filterKey: 'folderId', value, cascade: key === 'under', avatarIcon: 'Folder' }
+		: undefined;
+
+function parseBoolean(value: string): boolean | undefined {
+	switch (toLower(value)) {
+		case 'true':
+			return true;
+		case 'false':
+			return false;
+		default:
+			return undefined;
+	}
+}
+
+const TOKEN_PARSERS: Record<string, TokenParser> = {
+	type: (value) => {
+		const nodeType = find(
+			without(Object.values(NodeType), NodeType.Root),
+			(type) => type === toUpper(value)
+		);
+		// extensions and mime types are accepted too, ex. type:pdf
+		return nodeType
+			? { filterKey: 'type', value: nodeType, avatarIcon: 'FileTextOutline' }
+			: parseMimeType(value);
+	},
+	format: parseMimeType,
+	size: (value) => {
+		const match = /^(>=?|<=?)(\d+(?:\.\d+)?)([kmgt]?b)?$/i.exec(value);
+		if (!match) {
+			return undefined;
+		}
+		const [, operator, amount, unit = 'B'] = match;
+		const size = Math.round(Number(amount) * 1024 ** SIZE_UNITS.indexOf(toUpper(unit)));
+		// sizes are inclusive, so the operator without equal excludes the given size
+		switch (operator) {
+			case '>':
+				return { filterKey: 'sizeMin', value: size + 1, avatarIcon: 'ArrowheadUpOutline' };
+			case '>=':
+				return { filterKey: 'sizeMin', value: size, avatarIcon: 'ArrowheadUpOutline' };
+			case '<':
+				// no size is smaller than 0
+				return size > 0
+					? { filterKey: 'sizeMax', value: size - 1, avatarIcon: 'ArrowheadDownOutline' }
+					: undefined;
+			default:
+				return { filterKey: 'sizeMax', value: size, avatarIcon: 'ArrowheadDownOutline' };
+		}
+	},
+	modified: (value) => {
+		const match = /^(>=?|<=?)(.+)$/.exec(value);
+		const date = match && moment(match[2], QUERY_DATE_FORMAT, true);
+		if (!match || !date || !date.isValid()) {
+			return undefined;
+		}
+		const avatarIcon = 'CalendarOutline';
+		// the operator without equal excludes the whole day
+		switch (match[1]) {
+			case '>':
+				return { filterKey: 'modifiedAfter', value: date.endOf('day').valueOf(), avatarIcon };
+			case '>=':
+				return { filterKey: 'modifiedAfter', value: date.startOf('day').valueOf(), avatarIcon };
+			case '<':
+				return { filterKey: 'modifiedBefore', value: date.startOf('day').valueOf(), avatarIcon };
+			default:
+				return { filterKey: 'modifiedBefore', value: date.endOf('day').valueOf(), avatarIcon };
+		}
+	},
+	owner: (value) =>
+		/^[^\s@]+@[^\s@]+$/.test(value)
+			? { filterKey: 'ownerId', value, avatarIcon: 'PersonOutline' }
+			: undefined,
+	in: parseFolder,
+	under: parseFolder,
+	flagged: (value) => {
+		const flagged = parseBoolean(value);
+		return flagged !== undefined
+			? { filterKey: 'flagged', value: flagged, avatarIcon: 'Flag' }
+			: undefined;
+	},
+	shared: (value) => {
+		const shared = parseBoolean(value);
+		return shared !== undefined
+			? { filterKey: 'sharedByMe', value: shared, avatarIcon: 'Share' }
+			: undefined;
+	}
+};
+
+function quote(value: string): string {
+	return /[\s:"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function unquote(value: string): string {
+	return value.replace(/"/g, '');
+}
+
+/**
+ * Split a search query into tokens. Whitespaces inside double quotes do not split the token.
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+	return query.match(/(?:[^\s"]+|"[^"]*"?)+/g) || [];
+}
+
+/**
+ * Whether the text ends inside an open double quote, so that a whitespace is part of the token
+ */
+export function isSearchQueryQuoteOpen(text: string): boolean {
+	return (text.match(/"/g) || []).length % 2 !== 0;
+}
+
+/**
+ * Parse a single token of a search query into a chip.
+ * Tokens in the form <i>key:value</i> with an unknown key are considered keywords.
+ * Owner and folder chips have respectively the email and the name typed by the user as value,
+ * they need to be resolved into ids before being used as filters.
+ */
+export function parseSearchQueryToken(token: string): SearchQueryChip {
+	const invalidChip: SearchQueryChip = {
+		label: token,
+		query: token,
+		hasAvatar: false,
+		error: true
+	};
+	if (isSearchQueryQuoteOpen(token)) {
+		return invalidChip;
+	}
+	const match = /^([a-z]+):(.*)$/i.exec(token);
+	const key = match && toLower(match[1]);
+	if (!match || !key || !TOKEN_PARSERS[key]) {
+		const keyword = unquote(token);
+		return {
+			filterKey: 'keywords',
+			label: keyword,
+			value: keyword,
+			hasAvatar: false,
+			query: token
+		};
+	}
+	const value = unquote(match[2]);
+	const parsed = TOKEN_PARSERS[key](value, key);
+	return parsed
+		? {
+				...parsed,
+				label: `${key}:${value}`,
+				avatarBackground: 'secondary',
+				hasAvatar: !!parsed.avatarIcon,
+				query: token
+		  }
+		: invalidChip;
+}
+
+export function parseSearchQuery(query: string): SearchQueryChip[] {
+	return map(tokenizeSearchQuery(query), parseSearchQueryToken);
+}
+
+/**
+ * Build the advanced filters from the valid chips of a search query. Chips with the same filter
+ * replace the previous ones, except keywords which are accumulated.
+ */
+export function searchQueryChipsToFilters(chips: SearchQueryChip[]): AdvancedFilters {
+	return reduce(
+		chips,
+		(filters, { filterKey, query, cascade, ...chip }) => {
+			if (!filterKey || chip.error) {
+				return filters;
+			}
+			if (filterKey === 'keywords') {
+				return {
+					...filters,
+					keywords: [...(filters.keywords || []), chip as KeywordChip]
+				};
+			}
+			if (filterKey === 'folderId') {
+				return {
+					...filters,
+					folderId: chip as AdvancedFilters['folderId'],
+					cascade: { value: cascade }
+				};
+			}
+			return { ...filters, [filterKey]: chip };
+		},
+		{} as AdvancedFilters
+	);
+}
+
+/** index of the biggest unit in which the size is a whole number, bytes for no size */
+function getSizeUnitIndex(size: number): number {
+	let unitIndex = size > 0 ? SIZE_UNITS.length - 1 : 0;
+	while (unitIndex > 0 && size % 1024 ** unitIndex !== 0) {
+		unitIndex -= 1;
+	}
+	return unitIndex;
+}
+
+function serializeSize(size: number): string {
+	const unitIndex = getSizeUnitIndex(size);
+	return `${size / 1024 ** unitIndex}${SIZE_UNITS[unitIndex]}`;
+}
+
+function serializeMimeType(mimeType: string): string {
+	const family = find(MIME_TYPE_FAMILIES, (item) => `${item}/` === mimeType);
+	return family || findKey(EXTENSION_MIME_TYPES, (item) => item === mimeType) || quote(mimeType);
+}
+
+/**
+ * Serialize the advanced filters into a search query which can be parsed by {@link parseSearchQuery}
+ */
+export function serializeSearchQuery(filters: AdvancedFilters): string {
+	const tokens: string[] = [];
+	forEach(filters.keywords, (keyword) => {
+		if (keyword.value) {
+			tokens.push(quote(keyword.value));
+		}
+	});
+	if (filters.type?.value) {
+		tokens.push(`type:${toLower(filters.type.value)}`);
+	}
+	if (filters.mimeType?.value) {
+		tokens.push(`format:${serializeMimeType(filters.mimeType.value)}`);
+	}
+	// the operator without equal is used when it gives a bigger unit, as the one typed by the user
+	if (filters.sizeMin?.value != null) {
+		const size = filters.sizeMin.value;
+		tokens.push(
+			size > 0 && getSizeUnitIndex(size - 1) > getSizeUnitIndex(size)
+				? `size:>${serializeSize(size - 1)}`
+				: `size:>=${serializeSize(size)}`
+		);
+	}
+	if (filters.sizeMax?.value != null) {
+		const size = filters.sizeMax.value;
+		tokens.push(
+			getSizeUnitIndex(size + 1) > getSizeUnitIndex(size)
+				? `size:<${serializeSize(size + 1)}`
+				: `size:<=${serializeSize(size)}`
+		);
+	}
+	if (filters.modifiedAfter?.value) {
+		const date = moment(filters.modifiedAfter.value);
+		const operator = date.isSame(date.clone().startOf('day')) ? '>=' : '>';
+		tokens.push(`modified:${operator}${date.format(QUERY_DATE_FORMAT)}`);
+	}
+	if (filters.modifiedBefore?.value) {
+		const date = moment(filters.modifiedBefore.value);
+		const operator = date.isSame(date.clone().startOf('day')) ? '<' : '<=';
+		tokens.push(`modified:${operator}${date.format(QUERY_DATE_FORMAT)}`);
+	}
+	if (filters.ownerId?.queryValue) {
+		tokens.push(`owner:${quote(filters.ownerId.queryValue)}`);
+	}
+	if (filters.folderId?.queryValue) {
+		const key = filters.cascade?.value ? 'under' : 'in';
+		tokens.push(`${key}:${quote(filters.folderId.queryValue)}`);
+	}
+	if (filters.flagged?.value != null) {
+		tokens.push(`flagged:${filters.flagged.value}`);
+	}
+	if (filters.sharedByMe?.value != null) {
+		tokens.push(`shared:${filters.sharedByMe.value}`);
+	}
+	return tokens.join(' ');
+}
+
+// filters shown as a single chip, in the order of the query
+const CHIP_FILTER_KEYS: Array<Exclude<SearchQueryFilterKey, 'keywords'>> = [
+	'type',
+	'mimeType',
+	'sizeMin',
+	'sizeMax',
+	'modifiedAfter',
+	'modifiedBefore',
+	'ownerId',
+	'folderId',
+	'flagged',
+	'sharedByMe'
+];
+
+/**
+ * Build the chips of a search query from the advanced filters, so that the filters of the current
+ * search can be edited together with the typed ones.
+ * It is the inverse of {@link searchQueryChipsToFilters}
+ */
+export function searchFiltersToChips(filters: AdvancedFilters): SearchQueryChip[] {
+	const chips: SearchQueryChip[] = map(filters.keywords, (keyword) => ({
+		...keyword,
+		filterKey: 'keywords',
+		query: serializeSearchQuery({ keywords: [keyword] })
+	}));
+	forEach(CHIP_FILTER_KEYS, (filterKey) => {
+		const chip = filters[filterKey];
+		if (chip) {
+			const cascade = filterKey === 'folderId' ? !!filters.cascade?.value : undefined;
+			chips.push({
+				...chip,
+				value: chip.value ?? undefined,
+				filterKey,
+				cascade,
+				query: serializeSearchQuery({
+					[filterKey]: chip,
+					cascade: { value: cascade }
+				} as AdvancedFilters)
+			});
+		}
+	});
+	return chips;
+}
+
+/**
+ * Clicks on the folder chip must not open the input of the chips
+ */
+export function stopChipClickPropagation(event: React.SyntheticEvent): void {
+	event.stopPropagation();
+}
+
+/**
+ * Chips callbacks are not serializable, so they are added again to the filters read from a storage
+ */
+export function restoreSearchChipsCallbacks(filters: AdvancedFilters): AdvancedFilters {
+	return filters.folderId
+		? { ...filters, folderId: { ...filters.folderId, onClick: stopChipClickPropagation } }
+		: filters;
+}
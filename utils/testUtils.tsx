@@ -319,3 +319,48 @@ export function waitForNetworkResponse(): Promise<void> {
 			})
 	);
 }
+
+/**
+ * Install an in-memory IndexedDB on window, with only the operations used by the upload storage.
+ * Requests succeed asynchronously, and a transaction completes after all its requests.
+ * @returns the records of the object store, by key
+ */
+export function mockIndexedDB(): Map<string, { id: string }> {
+	const records = new Map<string, { id: string }>();
+
+	function createRequest<T>(result: T): IDBRequest<T> {
+		const request: { result: T; onsuccess?: () => void } = { result };
+		Promise.resolve().then(() => request.onsuccess && request.onsuccess());
+		return request as unknown as IDBRequest<T>;
+	}
+
+	const store = {
+		put: (item: { id: string }): IDBRequest<string> => {
+			records.set(item.id, item);
+			return createRequest(item.id);
+		},
+		get: (id: string): IDBRequest<{ id: string } | undefined> => createRequest(records.get(id)),
+		delete: (id: string): IDBRequest<undefined> => {
+			records.delete(id);
+			return createRequest(undefined);
+		},
+		getAll: (): IDBRequest<Array<{ id: string }>> => createRequest(Array.from(records.values()))
+	};
+
+	const database = {
+		createObjectStore: jest.fn(),
+		transaction: (): { objectStore: () => typeof store; oncomplete?: () => void } => {
+			const transaction: { objectStore: () => typeof store; oncomplete?: () => void } = {
+				objectStore: () => store
+			};
+			setTimeout(() => transaction.oncomplete && transaction.oncomplete());
+			return transaction;
+		}
+	};
+
+	Object.defineProperty(window, 'indexedDB', {
+		value: { open: (): IDBRequest => createRequest(database) },
+		configurable: true
+	});
+	return records;
+}
@@ -0,0 +1,58 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import { UploadStatus, UploadType } from '../types/common';
+import { mockIndexedDB } from './testUtils';
+import {
+	getStoredUploads,
+	removeStoredUploads,
+	storeUploads,
+	toStoredUpload,
+	updateStoredUpload
+} from './uploadStorage';
+
+describe('Upload storage', () => {
+	const records = mockIndexedDB();
+
+	const item: UploadType = {
+		id: 'upload1',
+		file: new File(['some content'], 'file1.txt', { type: 'text/plain' }),
+		parentId: 'folder1',
+		percentage: 50,
+		status: UploadStatus.LOADING,
+		uploadId: 'uploadId1',
+		offset: 6
+	};
+
+	beforeEach(() => {
+		records.clear();
+	});
+
+	test('only the data needed to send the file again is stored', async () => {
+		await storeUploads([toStoredUpload(item, true)]);
+		expect(await getStoredUploads()).toEqual([
+			{
+				id: item.id,
+				file: item.file,
+				parentId: item.parentId,
+				nodeId: undefined,
+				uploadId: item.uploadId,
+				offset: item.offset,
+				overwriteVersion: true
+			}
+		]);
+	});
+
+	test('the offset of a stored upload is updated and a removed upload is not stored again', async () => {
+		await storeUploads([toStoredUpload(item), toStoredUpload({ ...item, id: 'upload2' })]);
+		await updateStoredUpload(item.id, { uploadId: 'uploadId2', offset: 12 });
+		await removeStoredUploads(['upload2']);
+		await updateStoredUpload('upload2', { uploadId: 'uploadId3', offset: 12 });
+		expect(await getStoredUploads()).toEqual([
+			expect.objectContaining({ id: item.id, uploadId: 'uploadId2', offset: 12 })
+		]);
+	});
+});
@@ -0,0 +1,106 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import map from 'lodash/map';
+
+import { UploadType } from '../types/common';
+
+/**
+ * Upload item as it is saved in the IndexedDB, so that it can be restored after a page reload.
+ * The file is saved as a blob, together with the data needed to send it again to the same destination.
+ */
+export type StoredUpload = Pick<
+	UploadType,
+	'id' | 'file' | 'parentId' | 'nodeId' | 'uploadId' | 'offset'
+> & {
+	overwriteVersion?: boolean;
+};
+
+const DB_NAME = 'carbonio-files-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDB = (): Promise<IDBDatabase> | undefined => {
+	// IndexedDB is not available in every environment (i.e. private browsing, tests)
+	if (typeof window === 'undefined' || !window.indexedDB) {
+		return undefined;
+	}
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = (): void => {
+				request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+			};
+			request.onsuccess = (): void => resolve(request.result);
+			request.onerror = (): void => {
+				dbPromise = undefined;
+				reject(request.error);
+			};
+		});
+	}
+	return dbPromise;
+};
+
+const runTransaction = <T>(
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+	const db = openDB();
+	if (!db) {
+		return Promise.resolve(undefined);
+	}
+	return db.then(
+		(database) =>
+			new Promise((resolve, reject) => {
+				const transaction = database.transaction(STORE_NAME, mode);
+				const request = operation(transaction.objectStore(STORE_NAME));
+				transaction.oncomplete = (): void => resolve(request ? request.result : undefined);
+				transaction.onerror = (): void => reject(transaction.error);
+				transaction.onabort = (): void => reject(transaction.error);
+			})
+	);
+};
+
+export const toStoredUpload = (item: UploadType, overwriteVersion?: boolean): StoredUpload => ({
+	id: item.id,
+	file: item.file,
+	parentId: item.parentId,
+	nodeId: item.nodeId,
+	uploadId: item.uploadId,
+	offset: item.offset,
+	overwriteVersion
+});
+
+export const storeUploads = (items: StoredUpload[]): Promise<void> =>
+	runTransaction('readwrite', (store) => {
+		map(items, (item) => store.put(item));
+	}).then(() => undefined);
+
+export const updateStoredUpload = (
+	id: string,
+	data: Pick<StoredUpload, 'uploadId' | 'offset'>
+): Promise<void> =>
+	runTransaction('readwrite', (store) => {
+		const request = store.get(id);
+		request.onsuccess = (): void => {
+			// the item could have been already removed
+			if (request.result) {
+				store.put({ ...request.result, ...data });
+			}
+		};
+	}).then(() => undefined);
+
+export const removeStoredUploads = (ids: string[]): Promise<void> =>
+	runTransaction('readwrite', (store) => {
+		map(ids, (id) => store.delete(id));
+	}).then(() => undefined);
+
+export const getStoredUploads = (): Promise<StoredUpload[]> =>
+	runTransaction<StoredUpload[]>('readonly', (store) => store.getAll()).then(
+		(items) => items || []
+	);
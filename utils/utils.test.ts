@@ -4,9 +4,38 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import { populateFile, populateFolder, populateLocalRoot, populateNodes } from '../mocks/mockUtils';
+import I18nFactory from '../../i18n/i18n-test-factory';
+import { CONFIGS } from '../constants';
+import {
+	populateFile,
+	populateFolder,
+	populateLocalRoot,
+	populateNodes,
+	populateUser
+} from '../mocks/mockUtils';
+import {
+	OrderTrend,
+	OrderType,
+	UploadRejectionReason,
+	UploadStatus,
+	UploadType
+} from '../types/common';
 import { NodeSort } from '../types/graphql/types';
-import { addNodeInSortedList, buildCrumbs } from './utils';
+import {
+	addNodeInSortedList,
+	buildCrumbs,
+	buildCsv,
+	decodeHttpError,
+	getHighlightedChunks,
+	getNameWithSuffix,
+	getTextSnippet,
+	getUploadLimits,
+	getUploadRejectionReason,
+	getUploadsSummary,
+	humanDuration,
+	nodeSortGetter,
+	nodeSortParser
+} from './utils';
 
 describe('Crumbs builder', () => {
 	it('should return a flat array with 3 objects ordered from root to leaf', () => {
@@ -138,4 +167,212 @@ describe('Sort algorithm', () => {
 		const filePos = addNodeInSortedList(nodes, fileToAdd, NodeSort.NameDesc);
 		expect(filePos).toBe(6);
 	});
+	it('should sort by full name of the owner, case insensitive, keeping folders first', () => {
+		const alice = populateUser(undefined, 'alice');
+		const bob = populateUser(undefined, 'Bob');
+		const nodes = [
+			{ ...populateFolder(0, undefined, 'folder1'), owner: bob },
+			{ ...populateFile(undefined, 'file1'), owner: alice },
+			{ ...populateFile(undefined, 'file2'), owner: alice },
+			{ ...populateFile(undefined, 'file3'), owner: bob }
+		];
+		const fileToAdd = { ...populateFile(undefined, 'file4'), owner: alice };
+		expect(addNodeInSortedList(nodes, fileToAdd, NodeSort.OwnerAsc)).toBe(3);
+		const folderToAdd = { ...populateFolder(0, undefined, 'folder2'), owner: alice };
+		expect(addNodeInSortedList(nodes, folderToAdd, NodeSort.OwnerAsc)).toBe(0);
+	});
+	it('should sort by type keeping folders first, then by mime type and by name', () => {
+		const nodes = [
+			populateFolder(0, undefined, 'folder1'),
+			{ ...populateFile(undefined, 'file3'), mime_type: 'application/pdf' },
+			{ ...populateFile(undefined, 'file1'), mime_type: 'image/png' },
+			{ ...populateFile(undefined, 'file2'), mime_type: 'text/plain' }
+		];
+		const fileToAdd = { ...populateFile(undefined, 'file0'), mime_type: 'image/png' };
+		expect(addNodeInSortedList(nodes, fileToAdd, NodeSort.TypeAsc)).toBe(2);
+		expect(addNodeInSortedList([...nodes].reverse(), fileToAdd, NodeSort.TypeDesc)).toBe(1);
+		const folderToAdd = populateFolder(0, undefined, 'folder0');
+		expect(addNodeInSortedList(nodes, folderToAdd, NodeSort.TypeAsc)).toBe(0);
+	});
+	it('should build and parse every sort', () => {
+		Object.values(NodeSort).forEach((nodeSort) => {
+			const { order, orderType } = nodeSortParser(nodeSort);
+			expect(nodeSortGetter(order, orderType)).toBe(nodeSort);
+		});
+		expect(nodeSortGetter(OrderTrend.Descending, OrderType.LastEditor)).toBe(
+			NodeSort.LastEditorDesc
+		);
+	});
+});
+
+describe('Name with suffix', () => {
+	it('should add the suffix before the extension', () => {
+		expect(getNameWithSuffix('file.txt', ['file.txt'])).toBe('file (1).txt');
+		expect(getNameWithSuffix('archive.tar.gz', [])).toBe('archive.tar (1).gz');
+	});
+
+	it('should add the suffix at the end of names without extension', () => {
+		expect(getNameWithSuffix('folder', ['folder'])).toBe('folder (1)');
+		expect(getNameWithSuffix('.hidden', [])).toBe('.hidden (1)');
+	});
+
+	it('should use the first suffix which is not already used', () => {
+		expect(getNameWithSuffix('file.txt', ['file.txt', 'file (1).txt', 'file (2).txt'])).toBe(
+			'file (3).txt'
+		);
+	});
+});
+
+describe('Human duration', () => {
+	const { t } = new I18nFactory().getAppI18n();
+
+	it('should show only the most significant units', () => {
+		expect(humanDuration(45, t)).toBe('45s');
+		expect(humanDuration(130, t)).toBe('2m 10s');
+		expect(humanDuration(3725, t)).toBe('1h 2m');
+	});
+
+	it('should round up fractions of seconds', () => {
+		expect(humanDuration(0.2, t)).toBe('1s');
+	});
+});
+
+describe('Uploads summary', () => {
+	function buildUpload(
+		size: number,
+		status: UploadStatus,
+		loaded?: number,
+		speed?: number
+	): UploadType {
+		return {
+			id: `${size}-${status}`,
+			file: new File(['a'.repeat(size)], 'file.txt'),
+			parentId: 'parent',
+			status,
+			percentage: 0,
+			loaded,
+			speed
+		};
+	}
+
+	it('should aggregate only the uploads in progress or queued', () => {
+		const summary = getUploadsSummary([
+			buildUpload(100, UploadStatus.LOADING, 50, 10),
+			buildUpload(100, UploadStatus.QUEUED),
+			buildUpload(200, UploadStatus.COMPLETED, 200),
+			buildUpload(300, UploadStatus.FAILED, 10)
+		]);
+		expect(summary).toEqual({
+			count: 2,
+			totalBytes: 200,
+			loadedBytes: 50,
+			percentage: 25,
+			speed: 10,
+			eta: 15
+		});
+	});
+
+	it('should not estimate the remaining time if the speed is unknown', () => {
+		const summary = getUploadsSummary([buildUpload(100, UploadStatus.QUEUED)]);
+		expect(summary.eta).toBeUndefined();
+		expect(summary.percentage).toBe(0);
+	});
+});
+
+describe('Upload limits', () => {
+	it('should not set any limit if the configs are missing or not positive', () => {
+		expect(getUploadLimits({})).toEqual({
+			maxFileSize: undefined,
+			forbiddenExtensions: [],
+			maxFiles: undefined
+		});
+		expect(
+			getUploadLimits({ [CONFIGS.MAX_UPLOAD_SIZE]: '0', [CONFIGS.MAX_UPLOAD_FILES]: '-1' })
+		).toEqual({
+			maxFileSize: undefined,
+			forbiddenExtensions: [],
+			maxFiles: undefined
+		});
+	});
+
+	it('should normalize the forbidden extensions', () => {
+		const limits = getUploadLimits({
+			[CONFIGS.FORBIDDEN_UPLOAD_EXTENSIONS]: ' .EXE,bat,, Sh '
+		});
+		expect(limits.forbiddenExtensions).toEqual(['exe', 'bat', 'sh']);
+	});
+
+	it('should reject files which do not respect the limits', () => {
+		const limits = { maxFileSize: 4, forbiddenExtensions: ['exe'], maxFiles: 2 };
+		expect(getUploadRejectionReason(new File(['abc'], 'file.txt'), limits, 1)).toBeUndefined();
+		expect(getUploadRejectionReason(new File(['abcde'], 'file.txt'), limits, 1)).toBe(
+			UploadRejectionReason.FILE_TOO_LARGE
+		);
+		expect(getUploadRejectionReason(new File(['abc'], 'setup.Exe'), limits, 1)).toBe(
+			UploadRejectionReason.FORBIDDEN_EXTENSION
+		);
+		expect(getUploadRejectionReason(new File(['abc'], 'exe'), limits, 1)).toBeUndefined();
+		expect(getUploadRejectionReason(new File(['abc'], 'file.txt'), limits, 3)).toBe(
+			UploadRejectionReason.TOO_MANY_FILES
+		);
+	});
+});
+
+describe('Decode http error', () => {
+	const { t } = new I18nFactory().getAppI18n();
+
+	it('should return a specific message for the known statuses', () => {
+		expect(decodeHttpError({ status: 403 }, t)).toBe(
+			'You do not have the permission to access this item'
+		);
+		expect(decodeHttpError({ status: 404 }, t)).toBe('The item is no longer available');
+	});
+
+	it('should return a generic message with the status for the other statuses', () => {
+		expect(decodeHttpError({ status: 500 }, t)).toBe('Something went wrong (error 500)');
+	});
+});
+
+describe('Keywords highlight', () => {
+	it('should split the text marking the chunks which match the keywords ignoring the case', () => {
+		expect(getHighlightedChunks('Budget of the year (budget.xls)', ['budget', '.xls'])).toEqual([
+			{ text: 'Budget', highlighted: true },
+			{ text: ' of the year (', highlighted: false },
+			{ text: 'budget', highlighted: true },
+			{ text: '.xls', highlighted: true },
+			{ text: ')', highlighted: false }
+		]);
+	});
+
+	it('should return the whole text if there are no keywords', () => {
+		expect(getHighlightedChunks('Budget', [' '])).toEqual([{ text: 'Budget', highlighted: false }]);
+	});
+
+	it('should extract a snippet around the first match', () => {
+		const text = `${'a'.repeat(100)} budget ${'b'.repeat(100)}`;
+		const snippet = getTextSnippet(text, ['budget'], 40);
+		expect(snippet).toBe(`…${'a'.repeat(9)} budget ${'b'.repeat(23)}…`);
+		expect(getTextSnippet(text, ['report'])).toBeUndefined();
+	});
+});
+
+describe('CSV builder', () => {
+	it('should quote only the values with separators, quotes or new lines', () => {
+		expect(
+			buildCsv([
+				['name', 'size', 'description'],
+				['plain', 1024, undefined],
+				['a, b', null, 'say "hi"\nbye']
+			])
+		).toBe('name,size,description\r\nplain,1024,\r\n"a, b",,"say ""hi""\nbye"');
+	});
+
+	it('should prefix with a quote the texts which would be run as formulas', () => {
+		expect(
+			buildCsv([
+				['=SUM(A1:A2)', '+1', '-1', '@cmd', 'a=b'],
+				[-1, 0]
+			])
+		).toBe("'=SUM(A1:A2),'+1,'-1,'@cmd,a=b\r\n-1,0");
+	});
 });
@@ -10,20 +10,31 @@ import { ApolloError } from '@apollo/client';
 import { Location } from 'history';
 import { chain } from 'lodash';
 import debounce from 'lodash/debounce';
+import escapeRegExp from 'lodash/escapeRegExp';
+import filter from 'lodash/filter';
 import findIndex from 'lodash/findIndex';
+import findKey from 'lodash/findKey';
 import first from 'lodash/first';
 import includes from 'lodash/includes';
+import isString from 'lodash/isString';
+import last from 'lodash/last';
 import map from 'lodash/map';
+import reduce from 'lodash/reduce';
 import size from 'lodash/size';
 import toLower from 'lodash/toLower';
 import trim from 'lodash/trim';
 import moment, { Moment } from 'moment-timezone';
 import { TFunction } from 'react-i18next';
 
+import { scrollToNodeVar } from '../apollo/scrollToNodeVar';
 import { searchParamsVar } from '../apollo/searchVar';
 import {
+	CONFIGS,
 	DOCS_ENDPOINT,
+	DOWNLOAD_ARCHIVE_PATH,
 	DOWNLOAD_PATH,
+	GRID_ITEM_PREVIEW_HEIGHT,
+	GRID_ITEM_WIDTH,
 	OPEN_FILE_PATH,
 	PREVIEW_PATH,
 	PREVIEW_TYPE,
@@ -34,13 +45,28 @@ import {
 import {
 	Crumb,
 	CrumbNode,
+	NodeListItemType,
 	OrderTrend,
 	OrderType,
 	Role,
+	SearchFacet,
+	SearchFacets,
 	SortableNode,
-	TargetModule
+	TargetModule,
+	UploadLimits,
+	UploadRejectionReason,
+	UploadsSummary,
+	UploadStatus,
+	UploadType
 } from '../types/common';
-import { Maybe, Node, NodeSort, NodeType, SharePermission } from '../types/graphql/types';
+import {
+	Maybe,
+	Node,
+	NodeSort,
+	NodeType,
+	SharePermission,
+	User
+} from '../types/graphql/types';
 
 /**
  * Format a size in byte as human readable
@@ -53,6 +79,25 @@ export const humanFileSize = (inputSize: number): string => {
 	return `${(inputSize / 1024 ** i).toFixed(2).toString()} ${['B', 'KB', 'MB', 'GB', 'TB'][i]}`;
 };
 
+/**
+ * Format a duration in seconds as human readable, showing only the two most significant units
+ */
+export const humanDuration = (inputSeconds: number, t: TFunction): string => {
+	const seconds = Math.max(0, Math.ceil(inputSeconds));
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	if (hours > 0) {
+		return t('duration.hoursMinutes', '{{hours}}h {{minutes}}m', { hours, minutes });
+	}
+	if (minutes > 0) {
+		return t('duration.minutesSeconds', '{{minutes}}m {{seconds}}s', {
+			minutes,
+			seconds: seconds % 60
+		});
+	}
+	return t('duration.seconds', '{{seconds}}s', { seconds });
+};
+
 /**
  * Given a file type returns the DS icon name
  */
@@ -213,6 +258,29 @@ export const decodeError = (error: ApolloError, t: TFunction): string | null =>
 	return null;
 };
 
+/**
+ * Decode the status of a failed REST request into a message for the user,
+ * as {@link decodeError} does for graphql errors
+ */
+export const decodeHttpError = (
+	response: Pick<Response, 'status'>,
+	t: TFunction
+): string => {
+	switch (response.status) {
+		case 401:
+		case 403:
+			return t('errorCode.http.forbidden', 'You do not have the permission to access this item');
+		case 404:
+			return t('errorCode.http.notFound', 'The item is no longer available');
+		case 413:
+			return t('errorCode.http.tooLarge', 'The requested content is too large');
+		default:
+			return t('errorCode.http.generic', 'Something went wrong (error {{status}})', {
+				status: response.status
+			});
+	}
+};
+
 export const getChipLabel = (
 	contact?: {
 		firstName?: string;
@@ -253,11 +321,21 @@ export const copyToClipboard = (text: string): Promise<void> => {
 	return window.parent.navigator.clipboard.writeText(text);
 };
 
+export const getDownloadUrl = (id: string, version?: number): string =>
+	`${REST_ENDPOINT}${DOWNLOAD_PATH}/${encodeURIComponent(id)}${version ? `/${version}` : ''}`;
+
+/**
+ * Url of the zip archive with the given nodes, folders content included
+ */
+export const getDownloadArchiveUrl = (nodeIds: string[]): string =>
+	`${REST_ENDPOINT}${DOWNLOAD_ARCHIVE_PATH}?${map(
+		nodeIds,
+		(nodeId) => `node_id=${encodeURIComponent(nodeId)}`
+	).join('&')}`;
+
 export const downloadNode = (id: string, version?: number): void => {
 	if (id) {
-		const url = `${REST_ENDPOINT}${DOWNLOAD_PATH}/${encodeURIComponent(id)}${
-			version ? `/${version}` : ''
-		}`;
+		const url = getDownloadUrl(id, version);
 		const a = document.createElement('a');
 		if (a) {
 			a.download = url;
@@ -269,6 +347,38 @@ export const downloadNode = (id: string, version?: number): void => {
 	}
 };
 
+/**
+ * Build the content of a CSV file. Values are quoted when they contain separators, quotes or
+ * new lines. Texts which a spreadsheet would run as a formula are prefixed with a quote
+ */
+export const buildCsv = (rows: Array<Array<string | number | null | undefined>>): string =>
+	map(rows, (row) =>
+		map(row, (value) => {
+			let text = value != null ? `${value}` : '';
+			if (isString(value) && /^[=+\-@]/.test(text)) {
+				text = `'${text}`;
+			}
+			return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		}).join(',')
+	).join('\r\n');
+
+export const clickDownloadLink = (url: string, fileName: string): void => {
+	const a = document.createElement('a');
+	a.download = fileName;
+	a.href = url;
+	a.click();
+};
+
+/**
+ * Save the blob on the device of the user with the given name
+ */
+export const saveBlob = (blob: Blob, fileName: string): void => {
+	const url = URL.createObjectURL(blob);
+	clickDownloadLink(url, fileName);
+	// revoke the url only once the browser has started the download
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 const docsTabMap: { [url: string]: Window } = {};
 
 /**
@@ -297,6 +407,16 @@ export const inputElement = ((): HTMLInputElement => {
 	return input;
 })();
 
+export const folderInputElement = ((): HTMLInputElement => {
+	const input = document.createElement('input');
+	if (input) {
+		input.type = 'file';
+		input.webkitdirectory = true;
+		input.hidden = true;
+	}
+	return input;
+})();
+
 export const scrollToNodeItem = debounce((nodeId: string, isLast = false) => {
 	if (nodeId) {
 		const element = window.document.getElementById(nodeId);
@@ -307,10 +427,29 @@ export const scrollToNodeItem = debounce((nodeId: string, isLast = false) => {
 				options = { ...options, block: 'end' };
 			}
 			element.scrollIntoView(options);
+		} else {
+			// lists render only the visible items, so let the list scroll to the position of the node
+			scrollToNodeVar({ nodeId, isLast });
 		}
 	}
 }, 500);
 
+/**
+ * Nodes between the two given ones, both included, in the order of the list
+ */
+export function getNodesRange<T extends { id: string }>(
+	nodes: T[],
+	fromId: string,
+	toId: string
+): T[] {
+	const fromIndex = findIndex(nodes, (node) => node.id === fromId);
+	const toIndex = findIndex(nodes, (node) => node.id === toId);
+	if (fromIndex < 0 || toIndex < 0) {
+		return filter(nodes, (node) => node.id === toId);
+	}
+	return nodes.slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1);
+}
+
 export function propertyComparator<T extends SortableNode[keyof SortableNode]>(
 	a: Maybe<SortableNode> | undefined,
 	b: Maybe<SortableNode> | undefined,
@@ -345,10 +484,62 @@ export function propertyComparator<T extends SortableNode[keyof SortableNode]>(
 	return propA < propB ? -1 : 1;
 }
 
+function userNameComparator(
+	a: Maybe<Pick<User, 'full_name'>> | undefined,
+	b: Maybe<Pick<User, 'full_name'>> | undefined
+): number {
+	const nameA = toLower(a?.full_name || '');
+	const nameB = toLower(b?.full_name || '');
+	if (nameA === nameB) {
+		return 0;
+	}
+	return nameA < nameB ? -1 : 1;
+}
+
+/** step of a sorts list which keeps the folders before the files, see getNodeSortsList */
+const FOLDERS_FIRST = 'FOLDERS_FIRST';
+
+export type NodeSortStep = NodeSort | typeof FOLDERS_FIRST;
+
+function foldersFirstComparator(
+	a: Maybe<SortableNode> | undefined,
+	b: Maybe<SortableNode> | undefined
+): number {
+	if ((!a || !a.type) && (!b || !b.type)) {
+		return 0;
+	}
+	if (!a || !a.type) {
+		return -1;
+	}
+	if (!b || !b.type) {
+		return 1;
+	}
+	if (a.type === NodeType.Folder && b.type !== NodeType.Folder) {
+		return -1;
+	}
+	if (a.type !== NodeType.Folder && b.type === NodeType.Folder) {
+		return 1;
+	}
+	return 0;
+}
+
+/**
+ * Compare the nodes by mime type, and by type the ones without it (ex. folders)
+ */
+function typeComparator(
+	a: Maybe<SortableNode> | undefined,
+	b: Maybe<SortableNode> | undefined
+): number {
+	return (
+		propertyComparator<string>(a, b, 'mime_type', { propertyModifier: toLower }) ||
+		propertyComparator<string>(a, b, 'type')
+	);
+}
+
 export function nodeSortComparator(
 	a: Maybe<SortableNode> | undefined,
 	b: Maybe<SortableNode> | undefined,
-	sortsList: NodeSort[]
+	sortsList: NodeSortStep[]
 ): number {
 	let sortIndex = 0;
 	let comparatorResult = 0;
@@ -360,35 +551,14 @@ export function nodeSortComparator(
 			case NodeSort.NameDesc:
 				comparatorResult = propertyComparator<string>(b, a, 'name', { propertyModifier: toLower });
 				break;
+			case FOLDERS_FIRST:
+				comparatorResult = foldersFirstComparator(a, b);
+				break;
 			case NodeSort.TypeAsc:
-				if ((!a || !a.type) && (!b || !b.type)) {
-					comparatorResult = 0;
-				} else if (!a || !a.type) {
-					comparatorResult = -1;
-				} else if (!b || !b.type) {
-					comparatorResult = 1;
-				} else if (a.type === NodeType.Folder && b.type !== NodeType.Folder) {
-					comparatorResult = -1;
-				} else if (a.type !== NodeType.Folder && b.type === NodeType.Folder) {
-					comparatorResult = 1;
-				} else {
-					comparatorResult = 0;
-				}
+				comparatorResult = foldersFirstComparator(a, b) || typeComparator(a, b);
 				break;
 			case NodeSort.TypeDesc:
-				if ((!a || !a.type) && (!b || !b.type)) {
-					comparatorResult = 0;
-				} else if (!a || !a.type) {
-					comparatorResult = 1;
-				} else if (!b || !b.type) {
-					comparatorResult = -1;
-				} else if (a.type === NodeType.Folder && b.type !== NodeType.Folder) {
-					comparatorResult = 1;
-				} else if (a.type !== NodeType.Folder && b.type === NodeType.Folder) {
-					comparatorResult = -1;
-				} else {
-					comparatorResult = 0;
-				}
+				comparatorResult = foldersFirstComparator(b, a) || typeComparator(b, a);
 				break;
 			case NodeSort.UpdatedAtAsc:
 				comparatorResult = propertyComparator<number>(a, b, 'updated_at');
@@ -402,6 +572,18 @@ export function nodeSortComparator(
 			case NodeSort.SizeDesc:
 				comparatorResult = propertyComparator<number>(b, a, 'size', { defaultIfNull: 0 });
 				break;
+			case NodeSort.OwnerAsc:
+				comparatorResult = userNameComparator(a?.owner, b?.owner);
+				break;
+			case NodeSort.OwnerDesc:
+				comparatorResult = userNameComparator(b?.owner, a?.owner);
+				break;
+			case NodeSort.LastEditorAsc:
+				comparatorResult = userNameComparator(a?.last_editor, b?.last_editor);
+				break;
+			case NodeSort.LastEditorDesc:
+				comparatorResult = userNameComparator(b?.last_editor, a?.last_editor);
+				break;
 			default:
 				comparatorResult = propertyComparator<string>(a, b, 'name', { propertyModifier: toLower });
 				break;
@@ -411,13 +593,26 @@ export function nodeSortComparator(
 	return comparatorResult;
 }
 
+/**
+ * Sorts to apply in sequence to compare the nodes of a list sorted with the given sort
+ */
+export function getNodeSortsList(sort: NodeSort): NodeSortStep[] {
+	if (sort === NodeSort.SizeAsc || sort === NodeSort.SizeDesc) {
+		return [sort];
+	}
+	if (sort === NodeSort.TypeAsc || sort === NodeSort.TypeDesc) {
+		// nodes of the same type are sorted by name
+		return [sort, NodeSort.NameAsc];
+	}
+	return [FOLDERS_FIRST, sort];
+}
+
 export function addNodeInSortedList(
 	nodes: Array<Maybe<SortableNode> | undefined>,
 	node: Maybe<SortableNode>,
 	sort: NodeSort
 ): number {
-	const sortsList =
-		sort === NodeSort.SizeAsc || sort === NodeSort.SizeDesc ? [sort] : [NodeSort.TypeAsc, sort];
+	const sortsList = getNodeSortsList(sort);
 	return findIndex(nodes, (listNode) => nodeSortComparator(node, listNode, sortsList) < 0);
 }
 
@@ -454,26 +649,55 @@ export function sharePermissionsGetter(role: Role, sharingAllowed: boolean): Sha
 	throw new Error();
 }
 
-export function nodeSortGetter(order: OrderTrend, orderType: OrderType): NodeSort {
-	if (order === OrderTrend.Ascending && orderType === OrderType.Name) {
-		return NodeSort.NameAsc;
-	}
-	if (order === OrderTrend.Ascending && orderType === OrderType.UpdatedAt) {
-		return NodeSort.UpdatedAtAsc;
-	}
-	if (order === OrderTrend.Ascending && orderType === OrderType.Size) {
-		return NodeSort.SizeAsc;
+const NODE_SORTS: Record<OrderType, Record<OrderTrend, NodeSort>> = {
+	[OrderType.Name]: {
+		[OrderTrend.Ascending]: NodeSort.NameAsc,
+		[OrderTrend.Descending]: NodeSort.NameDesc
+	},
+	[OrderType.UpdatedAt]: {
+		[OrderTrend.Ascending]: NodeSort.UpdatedAtAsc,
+		[OrderTrend.Descending]: NodeSort.UpdatedAtDesc
+	},
+	[OrderType.Size]: {
+		[OrderTrend.Ascending]: NodeSort.SizeAsc,
+		[OrderTrend.Descending]: NodeSort.SizeDesc
+	},
+	[OrderType.Owner]: {
+		[OrderTrend.Ascending]: NodeSort.OwnerAsc,
+		[OrderTrend.Descending]: NodeSort.OwnerDesc
+	},
+	[OrderType.LastEditor]: {
+		[OrderTrend.Ascending]: NodeSort.LastEditorAsc,
+		[OrderTrend.Descending]: NodeSort.LastEditorDesc
+	},
+	[OrderType.Type]: {
+		[OrderTrend.Ascending]: NodeSort.TypeAsc,
+		[OrderTrend.Descending]: NodeSort.TypeDesc
 	}
-	if (order === OrderTrend.Descending && orderType === OrderType.Name) {
-		return NodeSort.NameDesc;
-	}
-	if (order === OrderTrend.Descending && orderType === OrderType.UpdatedAt) {
-		return NodeSort.UpdatedAtDesc;
+};
+
+export function nodeSortGetter(order: OrderTrend, orderType: OrderType): NodeSort {
+	const nodeSort = NODE_SORTS[orderType]?.[order];
+	if (!nodeSort) {
+		throw new Error();
 	}
-	if (order === OrderTrend.Descending && orderType === OrderType.Size) {
-		return NodeSort.SizeDesc;
+	return nodeSort;
+}
+
+/**
+ * Inverse of nodeSortGetter
+ */
+export function nodeSortParser(nodeSort: NodeSort): { order: OrderTrend; orderType: OrderType } {
+	const orderType = findKey(NODE_SORTS, (sorts) => includes(sorts, nodeSort)) as
+		| OrderType
+		| undefined;
+	if (!orderType) {
+		throw Error('Unhandled order');
 	}
-	throw new Error();
+	return {
+		order: findKey(NODE_SORTS[orderType], (sort) => sort === nodeSort) as OrderTrend,
+		orderType
+	};
 }
 
 export function getInverseOrder(order: OrderTrend): OrderTrend {
@@ -516,6 +740,98 @@ export function encodeBase64(str: string): string {
 	);
 }
 
+/**
+ * Add to the given name the first numeric suffix which makes it different from all the used names.
+ * The extension is kept at the end of the name (i.e. "file.txt" becomes "file (1).txt")
+ */
+export function getNameWithSuffix(name: string, usedNames: string[]): string {
+	const extensionIndex = name.lastIndexOf('.');
+	const baseName = extensionIndex > 0 ? name.substring(0, extensionIndex) : name;
+	const extension = extensionIndex > 0 ? name.substring(extensionIndex) : '';
+	let suffix = 1;
+	let newName = `${baseName} (${suffix})${extension}`;
+	while (includes(usedNames, newName)) {
+		suffix += 1;
+		newName = `${baseName} (${suffix})${extension}`;
+	}
+	return newName;
+}
+
+/**
+ * Aggregate the progress of the uploads which are in progress or waiting to start
+ */
+export function getUploadsSummary(uploads: UploadType[]): UploadsSummary {
+	const pendingUploads = filter(
+		uploads,
+		(item) => item.status === UploadStatus.LOADING || item.status === UploadStatus.QUEUED
+	);
+	const summary = reduce(
+		pendingUploads,
+		(accumulator: UploadsSummary, item) => {
+			accumulator.totalBytes += item.file.size;
+			accumulator.loadedBytes += item.loaded || 0;
+			if (item.status === UploadStatus.LOADING) {
+				accumulator.speed += item.speed || 0;
+			}
+			return accumulator;
+		},
+		{ count: pendingUploads.length, totalBytes: 0, loadedBytes: 0, percentage: 0, speed: 0 }
+	);
+	if (summary.totalBytes > 0) {
+		summary.percentage = Math.floor((summary.loadedBytes / summary.totalBytes) * 100);
+	}
+	if (summary.speed > 0) {
+		return {
+			...summary,
+			eta: Math.ceil((summary.totalBytes - summary.loadedBytes) / summary.speed)
+		};
+	}
+	return summary;
+}
+
+/**
+ * Build the upload limits from the configs. Missing or non positive values mean no limit
+ */
+export function getUploadLimits(configs: Record<string, string | undefined>): UploadLimits {
+	const toLimit = (value: string | undefined): number | undefined => {
+		const limit = Number(value);
+		return limit > 0 ? limit : undefined;
+	};
+	return {
+		maxFileSize: toLimit(configs[CONFIGS.MAX_UPLOAD_SIZE]),
+		forbiddenExtensions: filter(
+			map((configs[CONFIGS.FORBIDDEN_UPLOAD_EXTENSIONS] || '').split(','), (extension) =>
+				toLower(trim(extension)).replace(/^\./, '')
+			),
+			(extension) => extension.length > 0
+		),
+		maxFiles: toLimit(configs[CONFIGS.MAX_UPLOAD_FILES])
+	};
+}
+
+/**
+ * Check the file against the upload limits before sending it.
+ * The batch position is the 1-based index of the file among the ones uploaded with the same action
+ */
+export function getUploadRejectionReason(
+	file: File,
+	limits: UploadLimits,
+	batchPosition = 1
+): UploadRejectionReason | undefined {
+	if (limits.maxFiles !== undefined && batchPosition > limits.maxFiles) {
+		return UploadRejectionReason.TOO_MANY_FILES;
+	}
+	if (limits.maxFileSize !== undefined && file.size > limits.maxFileSize) {
+		return UploadRejectionReason.FILE_TOO_LARGE;
+	}
+	const nameParts = file.name.split('.');
+	const extension = nameParts.length > 1 ? toLower(last(nameParts)) : undefined;
+	if (extension && includes(limits.forbiddenExtensions, extension)) {
+		return UploadRejectionReason.FORBIDDEN_EXTENSION;
+	}
+	return undefined;
+}
+
 export const docsHandledMimeTypes = [
 	'text/rtf',
 	'text/plain',
@@ -704,3 +1020,111 @@ export const getListItemAvatarPictureUrl = (
 	type: NodeType,
 	mimeType: string | undefined
 ): string | undefined => getPreviewThumbnailSrc(id, version, type, mimeType, 80, 80);
+
+export const getGridItemPreviewUrl = (
+	id: string,
+	version: number | undefined,
+	type: NodeType,
+	mimeType: string | undefined
+): string | undefined =>
+	getPreviewThumbnailSrc(id, version, type, mimeType, GRID_ITEM_WIDTH, GRID_ITEM_PREVIEW_HEIGHT);
+
+function getKeywordsRegExp(keywords: string[]): RegExp | undefined {
+	const validKeywords = filter(map(keywords, trim), (keyword) => keyword.length > 0);
+	// longer keywords first, so that they win over the keywords they contain
+	validKeywords.sort((a, b) => b.length - a.length);
+	return validKeywords.length > 0
+		? new RegExp(`(${map(validKeywords, escapeRegExp).join('|')})`, 'gi')
+		: undefined;
+}
+
+/**
+ * Split a text in chunks, marking as highlighted the ones which match one of the keywords.
+ * The match is case-insensitive.
+ */
+export function getHighlightedChunks(
+	text: string,
+	keywords: string[]
+): Array<{ text: string; highlighted: boolean }> {
+	const keywordsRegExp = getKeywordsRegExp(keywords);
+	if (!keywordsRegExp) {
+		return [{ text, highlighted: false }];
+	}
+	// with a capturing group, split places the matches at the odd indexes
+	return filter(
+		map(text.split(keywordsRegExp), (chunk, index) => ({
+			text: chunk,
+			highlighted: index % 2 === 1
+		})),
+		(chunk) => chunk.text.length > 0
+	);
+}
+
+/**
+ * Extract from the text a snippet around the first match of the keywords.
+ * Return undefined if none of the keywords is contained in the text.
+ */
+export function getTextSnippet(text: string, keywords: string[], maxLength = 80): string | undefined {
+	const match = getKeywordsRegExp(keywords)?.exec(text);
+	if (!match) {
+		return undefined;
+	}
+	// show some context before the match
+	const start = Math.max(
+		0,
+		Math.min(match.index - Math.floor(maxLength / 4), text.length - maxLength)
+	);
+	const end = Math.min(text.length, start + maxLength);
+	return `${start > 0 ? '…' : ''}${text.substring(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Top level root of a node found by a search, used to group the results
+ */
+export function getSearchResultRoot(
+	node: Pick<NodeListItemType, 'rootId' | 'owner'>,
+	me: string
+): SearchFacets['roots'][number]['value'] {
+	if (node.rootId === ROOTS.TRASH) {
+		return ROOTS.TRASH;
+	}
+	return node.owner.id !== me ? ROOTS.SHARED_WITH_ME : ROOTS.LOCAL_ROOT;
+}
+
+function countBy<T>(items: T[], getKey: (item: T) => string): Array<SearchFacet<T>> {
+	const facets = reduce<T, Record<string, SearchFacet<T>>>(
+		items,
+		(accumulator, item) => {
+			const key = getKey(item);
+			if (accumulator[key]) {
+				accumulator[key].count += 1;
+			} else {
+				accumulator[key] = { value: item, count: 1 };
+			}
+			return accumulator;
+		},
+		{}
+	);
+	// sort is stable, so facets with the same count keep the order of the results
+	return Object.values(facets).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Count the loaded search results by type, owner and top level root
+ */
+export function getSearchFacets(nodes: NodeListItemType[], me: string): SearchFacets {
+	return {
+		types: countBy(
+			map(nodes, (node) => node.type),
+			(type) => type
+		),
+		owners: countBy(
+			map(nodes, (node) => node.owner),
+			(owner) => owner.id
+		),
+		roots: countBy(
+			map(nodes, (node) => getSearchResultRoot(node, me)),
+			(root) => root
+		)
+	};
+}
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 
 import { Container, Responsive, Snackbar } from '@zextras/carbonio-design-system';
 import noop from 'lodash/noop';
@@ -15,8 +15,11 @@ import { useCreateOptions } from '../../hooks/useCreateOptions';
 import { useNavigation } from '../../hooks/useNavigation';
 import { DISPLAYER_WIDTH, FILES_APP_ID, LIST_WIDTH, ROOTS } from '../constants';
 import { ListContext } from '../contexts';
+import { useGetPermissionsQuery } from '../hooks/graphql/queries/useGetPermissionsQuery';
+import { usePasteUpload } from '../hooks/usePasteUpload';
 import useQueryParam from '../hooks/useQueryParam';
 import { useUpload } from '../hooks/useUpload';
+import { canUploadFile } from '../utils/ActionsFactory';
 import { inputElement } from '../utils/utils';
 import { Displayer } from './components/Displayer';
 import FileList from './components/FileList';
@@ -52,6 +55,21 @@ const FileView: React.VFC = () => {
 		},
 		[add]
 	);
+
+	// files pasted in this view are uploaded in the local root, as the ones selected with the upload action
+	const { data: localRootPermissionsData } = useGetPermissionsQuery(ROOTS.LOCAL_ROOT);
+
+	const isCanUploadFileInLocalRoot = useMemo(
+		() => !!localRootPermissionsData?.getNode && canUploadFile(localRootPermissionsData.getNode),
+		[localRootPermissionsData]
+	);
+
+	const showUploadSnackbarCallback = useCallback(() => {
+		setShowUploadSnackbar(true);
+	}, []);
+
+	usePasteUpload(ROOTS.LOCAL_ROOT, isCanUploadFileInLocalRoot, showUploadSnackbarCallback);
+
 	useEffect(() => {
 		setCreateOptions(
 			{
@@ -16,6 +16,7 @@ import { useCreateOptions } from '../../hooks/useCreateOptions';
 import { useNavigation } from '../../hooks/useNavigation';
 import { DISPLAYER_WIDTH, FILES_APP_ID, LIST_WIDTH, ROOTS } from '../constants';
 import { ListContext } from '../contexts';
+import { useRestoreNodeSort } from '../hooks/useListPreferences';
 import { useUpload } from '../hooks/useUpload';
 import { URLParams } from '../types/common';
 import { inputElement } from '../utils/utils';
@@ -40,6 +41,9 @@ const FilterView: React.VFC = () => {
 	const [showUploadSnackbar, setShowUploadSnackbar] = useState(false);
 	const [isEmpty, setIsEmpty] = useState(false);
 
+	// filters do not show a folder, so they share the preferences of the lists without a folder
+	useRestoreNodeSort();
+
 	const closeUploadSnackbar = useCallback(() => {
 		setShowUploadSnackbar(false);
 	}, []);
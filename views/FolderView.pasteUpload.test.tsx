@@ -0,0 +1,88 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import find from 'lodash/find';
+
+import { CreateOptionsContent } from '../../hooks/useCreateOptions';
+import { uploadVar } from '../apollo/uploadVar';
+import { populateFolder } from '../mocks/mockUtils';
+import {
+	getChildrenVariables,
+	mockGetChildren,
+	mockGetConfigs,
+	mockGetPermissions
+} from '../utils/mockUtils';
+import { render, waitForNetworkResponse } from '../utils/testUtils';
+import FolderView from './FolderView';
+
+jest.mock('../../hooks/useCreateOptions', () => ({
+	useCreateOptions: (): CreateOptionsContent => ({
+		setCreateOptions: jest.fn(),
+		removeCreateOptions: jest.fn()
+	})
+}));
+
+describe('Paste upload', () => {
+	function pasteFiles(files: File[]): void {
+		fireEvent.paste(document, {
+			clipboardData: {
+				items: files.map((file) => ({ kind: 'file', getAsFile: (): File => file }))
+			}
+		});
+	}
+
+	test('Paste of an image asks for the name and uploads it in the current folder', async () => {
+		const currentFolder = populateFolder();
+		currentFolder.permissions.can_write_file = true;
+		const mocks = [
+			mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+			mockGetPermissions({ node_id: currentFolder.id }, currentFolder),
+			mockGetConfigs()
+		];
+
+		render(<FolderView />, { initialRouterEntries: [`/?folder=${currentFolder.id}`], mocks });
+		await screen.findByText(/nothing here/i);
+		await waitForNetworkResponse();
+
+		pasteFiles([new File(['image content'], 'image.png', { type: 'image/png' })]);
+
+		const inputField = within(await screen.findByTestId('input-name')).getByRole('textbox');
+		expect(inputField).toHaveValue(expect.stringMatching(/^Pasted .+\.png$/));
+		userEvent.clear(inputField);
+		userEvent.type(inputField, 'screenshot.png');
+		userEvent.click(screen.getByRole('button', { name: /upload/i }));
+
+		await waitFor(() =>
+			expect(
+				find(uploadVar(), (item) => item.file.name === 'screenshot.png')?.parentId
+			).toBe(currentFolder.id)
+		);
+		expect(screen.queryByTestId('input-name')).not.toBeInTheDocument();
+	});
+
+	test('Paste is ignored if the user cannot upload in the current folder', async () => {
+		const currentFolder = populateFolder();
+		currentFolder.permissions.can_write_file = false;
+		const mocks = [
+			mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+			mockGetPermissions({ node_id: currentFolder.id }, currentFolder),
+			mockGetConfigs()
+		];
+
+		render(<FolderView />, { initialRouterEntries: [`/?folder=${currentFolder.id}`], mocks });
+		await screen.findByText(/nothing here/i);
+		await waitForNetworkResponse();
+
+		pasteFiles([new File(['image content'], 'image.png', { type: 'image/png' })]);
+
+		expect(screen.queryByTestId('input-name')).not.toBeInTheDocument();
+		expect(find(uploadVar(), (item) => /^Pasted /.test(item.file.name))).toBeUndefined();
+	});
+});
@@ -21,6 +21,8 @@ import { useGetChildrenQuery } from '../hooks/graphql/queries/useGetChildrenQuer
 import { useGetPermissionsQuery } from '../hooks/graphql/queries/useGetPermissionsQuery';
 import { useCreateModal } from '../hooks/modals/useCreateModal';
 import { useCreateDocsFile } from '../hooks/useCreateDocsFile';
+import { useRestoreNodeSort } from '../hooks/useListPreferences';
+import { usePasteUpload } from '../hooks/usePasteUpload';
 import useQueryParam from '../hooks/useQueryParam';
 import { useUpload } from '../hooks/useUpload';
 import { DocsType, NodeListItemType, URLParams } from '../types/common';
@@ -32,7 +34,7 @@ import {
 	canUploadFile,
 	isFolder
 } from '../utils/ActionsFactory';
-import { inputElement } from '../utils/utils';
+import { folderInputElement, inputElement } from '../utils/utils';
 import { Displayer } from './components/Displayer';
 import { EmptySpaceFiller } from './components/EmptySpaceFiller';
 import { List } from './components/List';
@@ -50,6 +52,8 @@ const FolderView: React.VFC = () => {
 
 	const currentFolderId = useMemo(() => folderId || rootId || ROOTS.LOCAL_ROOT, [folderId, rootId]);
 
+	useRestoreNodeSort(currentFolderId);
+
 	const inputElementOnchange = useCallback(
 		(ev: Event) => {
 			if (ev.currentTarget instanceof HTMLInputElement && ev.currentTarget.files) {
@@ -72,6 +76,8 @@ const FolderView: React.VFC = () => {
 		[permissionsData]
 	);
 
+	usePasteUpload(currentFolderId, isCanUploadFile);
+
 	const isCanCreateFolder = useMemo(
 		() => !!permissionsData?.getNode && canCreateFolder(permissionsData.getNode),
 		[permissionsData]
@@ -179,9 +185,25 @@ const FolderView: React.VFC = () => {
 		setNewFile(DocsType.PRESENTATION);
 	}, []);
 
+	const uploadFolderAction = useCallback(
+		(event) => {
+			event && event.stopPropagation();
+			folderInputElement.click();
+			folderInputElement.onchange = inputElementOnchange;
+		},
+		[inputElementOnchange]
+	);
+
 	const actions = useMemo<ActionItem[]>(() => {
 		const fillerActions: ActionItem[] = [];
 		fillerActions.push(
+			{
+				id: 'upload-folder',
+				label: t('create.options.new.uploadFolder', 'Upload Folder'),
+				icon: 'FolderAddOutline',
+				click: uploadFolderAction,
+				disabled: !isCanUploadFile || !isCanCreateFolder
+			},
 			{
 				id: 'create-folder',
 				label: t('create.options.new.folder', 'New Folder'),
@@ -219,7 +241,9 @@ const FolderView: React.VFC = () => {
 		createSpreadsheetAction,
 		isCanCreateFile,
 		isCanCreateFolder,
-		t
+		isCanUploadFile,
+		t,
+		uploadFolderAction
 	]);
 
 	useEffect(() => {
@@ -15,6 +15,7 @@ import { useCreateOptions } from '../../hooks/useCreateOptions';
 import { useNavigation } from '../../hooks/useNavigation';
 import { DISPLAYER_WIDTH, FILES_APP_ID, LIST_WIDTH, ROOTS } from '../constants';
 import { ListContext } from '../contexts';
+import { useRestoreNodeSort } from '../hooks/useListPreferences';
 import { useUpload } from '../hooks/useUpload';
 import { inputElement } from '../utils/utils';
 import { Displayer } from './components/Displayer';
@@ -41,6 +42,8 @@ export const SearchView: React.VFC<SearchViewProps> = ({
 	const [isEmpty, setIsEmpty] = useState(false);
 	const [searchExecuted, setSearchExecuted] = useState(false);
 
+	useRestoreNodeSort();
+
 	const closeUploadSnackbar = useCallback(() => {
 		setShowUploadSnackbar(false);
 	}, []);
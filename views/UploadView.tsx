@@ -6,6 +6,7 @@
 
 import React, { useCallback, useEffect, useState } from 'react';
 
+import { useReactiveVar } from '@apollo/client';
 import { Container, Responsive, Snackbar } from '@zextras/carbonio-design-system';
 import noop from 'lodash/noop';
 import { useTranslation } from 'react-i18next';
@@ -13,12 +14,15 @@ import { useTranslation } from 'react-i18next';
 import { ACTION_IDS, ACTION_TYPES } from '../../constants';
 import { useCreateOptions } from '../../hooks/useCreateOptions';
 import { useNavigation } from '../../hooks/useNavigation';
+import { restoredUploadsVar } from '../apollo/uploadVar';
 import { DISPLAYER_WIDTH, FILES_APP_ID, LIST_WIDTH, ROOTS } from '../constants';
 import { ListContext } from '../contexts';
 import { useUpload } from '../hooks/useUpload';
 import { inputElement } from '../utils/utils';
 import { Displayer } from './components/Displayer';
+import { RestoredUploadsBanner } from './components/RestoredUploadsBanner';
 import { UploadList } from './components/UploadList';
+import { UploadsSummaryHeader } from './components/UploadsSummaryHeader';
 
 const UploadView: React.VFC = () => {
 	const [t] = useTranslation();
@@ -31,6 +35,9 @@ const UploadView: React.VFC = () => {
 
 	const [isEmpty, setIsEmpty] = useState(true);
 
+	// uploads are restored when the app is loaded, see UploadsRestorer
+	const restoredIds = useReactiveVar(restoredUploadsVar);
+
 	const closeUploadSnackbar = useCallback(() => {
 		setShowUploadSnackbar(false);
 	}, []);
@@ -156,6 +163,8 @@ const UploadView: React.VFC = () => {
 						borderRadius="none"
 						background="gray6"
 					>
+						<UploadsSummaryHeader />
+						<RestoredUploadsBanner restoredIds={restoredIds} />
 						<UploadList />
 					</Container>
 					<Container
@@ -172,6 +181,8 @@ const UploadView: React.VFC = () => {
 					</Container>
 				</Responsive>
 				<Responsive mode="mobile" target={window.top}>
+					<UploadsSummaryHeader />
+					<RestoredUploadsBanner restoredIds={restoredIds} />
 					<UploadList />
 				</Responsive>
 			</Container>
@@ -5,14 +5,16 @@
  */
 import React from 'react';
 
+import { ApolloError } from '@apollo/client';
 import { act, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 
 import { ROOTS } from '../../constants';
-import { populateFolder } from '../../mocks/mockUtils';
+import { populateFolder, populateUser } from '../../mocks/mockUtils';
 import { AdvancedFilters } from '../../types/common';
-import { mockGetPath } from '../../utils/mockUtils';
-import { render } from '../../utils/testUtils';
+import { NodeType } from '../../types/graphql/types';
+import { mockGetAccountByEmail, mockGetPath } from '../../utils/mockUtils';
+import { generateError, render } from '../../utils/testUtils';
 import { AdvancedSearchModalContent } from './AdvancedSearchModalContent';
 
 describe('Advanced search modal content', () => {
@@ -849,4 +851,214 @@ describe('Advanced search modal content', () => {
 			});
 		});
 	});
+
+	describe('type and format params', () => {
+		test('the chosen type and format are added to the filters', async () => {
+			const searchAdvancedFilters = jest.fn();
+			render(
+				<AdvancedSearchModalContent
+					filters={{}}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={searchAdvancedFilters}
+				/>,
+				{ mocks: [] }
+			);
+			userEvent.click(screen.getByText('Any type'));
+			userEvent.click(await screen.findByText('Folder'));
+			userEvent.click(screen.getByText('Any format'));
+			userEvent.click(await screen.findByText('Image'));
+			const searchButton = screen.getByRole('button', { name: /search/i });
+			await waitFor(() => expect(searchButton).not.toHaveAttribute('disabled', ''));
+			userEvent.click(searchButton);
+			expect(searchAdvancedFilters).toHaveBeenCalledWith({
+				type: expect.objectContaining({ value: NodeType.Folder, label: 'type:Folder' }),
+				mimeType: expect.objectContaining({ value: 'image/', label: 'format:Image' })
+			});
+		});
+
+		test('by default the type and the format of the previous search are selected', () => {
+			const filters: AdvancedFilters = {
+				type: { value: NodeType.Text, label: 'type:Text' },
+				mimeType: { value: 'video/', label: 'format:Video' }
+			};
+			render(
+				<AdvancedSearchModalContent
+					filters={filters}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={jest.fn()}
+				/>,
+				{ mocks: [] }
+			);
+			expect(screen.getByText('Text')).toBeVisible();
+			expect(screen.getByText('Video')).toBeVisible();
+			expect(screen.queryByText('Any type')).not.toBeInTheDocument();
+			expect(screen.queryByText('Any format')).not.toBeInTheDocument();
+		});
+	});
+
+	describe('modified date params', () => {
+		test('by default the dates of the previous search are set in the pickers', () => {
+			const filters: AdvancedFilters = {
+				modifiedAfter: { value: new Date(2022, 0, 10).getTime(), label: 'after:10/01/2022' },
+				modifiedBefore: { value: new Date(2022, 1, 20).getTime(), label: 'before:20/02/2022' }
+			};
+			render(
+				<AdvancedSearchModalContent
+					filters={filters}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={jest.fn()}
+				/>,
+				{ mocks: [] }
+			);
+			expect(screen.getByRole('textbox', { name: /modified after/i })).toHaveValue('10/01/2022');
+			expect(screen.getByRole('textbox', { name: /modified before/i })).toHaveValue('20/02/2022');
+			expect(screen.queryByText(/must not be later/i)).not.toBeInTheDocument();
+		});
+
+		test('a modified after date later than the modified before date disables the search', () => {
+			const filters: AdvancedFilters = {
+				modifiedAfter: { value: new Date(2022, 1, 20).getTime(), label: 'after:20/02/2022' },
+				modifiedBefore: { value: new Date(2022, 0, 10).getTime(), label: 'before:10/01/2022' }
+			};
+			render(
+				<AdvancedSearchModalContent
+					filters={filters}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={jest.fn()}
+				/>,
+				{ mocks: [] }
+			);
+			expect(
+				screen.getByText(/the modified after date must not be later than the modified before date/i)
+			).toBeVisible();
+			expect(screen.getByRole('button', { name: /search/i })).toHaveAttribute('disabled', '');
+		});
+	});
+
+	describe('size params', () => {
+		test('typing a size in MB creates the size filters in bytes', async () => {
+			const closeAction = jest.fn();
+			const searchAdvancedFilters = jest.fn();
+			render(
+				<AdvancedSearchModalContent
+					filters={{}}
+					closeAction={closeAction}
+					searchAdvancedFilters={searchAdvancedFilters}
+				/>,
+				{ mocks: [] }
+			);
+			const searchButton = screen.getByRole('button', { name: /search/i });
+			expect(searchButton).toHaveAttribute('disabled', '');
+			userEvent.type(screen.getByRole('textbox', { name: /minimum size/i }), '1.5');
+			userEvent.type(screen.getByRole('textbox', { name: /maximum size/i }), '10');
+			await waitFor(() => expect(searchButton).not.toHaveAttribute('disabled', ''));
+			userEvent.click(searchButton);
+			expect(searchAdvancedFilters).toHaveBeenCalledWith({
+				sizeMin: expect.objectContaining({ value: 1.5 * 1024 * 1024, label: 'larger:1.50 MB' }),
+				sizeMax: expect.objectContaining({ value: 10 * 1024 * 1024, label: 'smaller:10.00 MB' })
+			});
+		});
+
+		test('a minimum size greater than the maximum size disables the search', async () => {
+			render(
+				<AdvancedSearchModalContent
+					filters={{}}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={jest.fn()}
+				/>,
+				{ mocks: [] }
+			);
+			userEvent.type(screen.getByRole('textbox', { name: /minimum size/i }), '10');
+			userEvent.type(screen.getByRole('textbox', { name: /maximum size/i }), '2');
+			expect(
+				await screen.findByText(/the minimum size must not be greater than the maximum size/i)
+			).toBeVisible();
+			expect(screen.getByRole('button', { name: /search/i })).toHaveAttribute('disabled', '');
+			userEvent.type(screen.getByRole('textbox', { name: /maximum size/i }), '0');
+			await waitFor(() =>
+				expect(screen.queryByText(/must not be greater/i)).not.toBeInTheDocument()
+			);
+			expect(screen.getByRole('button', { name: /search/i })).not.toHaveAttribute('disabled', '');
+		});
+
+		test('reset filters clears the size inputs', async () => {
+			const filters: AdvancedFilters = {
+				sizeMin: { value: 2 * 1024 * 1024, label: 'larger:2.00 MB' }
+			};
+			render(
+				<AdvancedSearchModalContent
+					filters={filters}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={jest.fn()}
+				/>,
+				{ mocks: [] }
+			);
+			expect(screen.getByRole('textbox', { name: /minimum size/i })).toHaveValue('2');
+			userEvent.click(screen.getByRole('button', { name: /reset filters/i }));
+			await waitFor(() =>
+				expect(screen.getByRole('textbox', { name: /minimum size/i })).toHaveValue('')
+			);
+		});
+	});
+
+	describe('owner param', () => {
+		test('the typed email is resolved into the id of the owner', async () => {
+			const owner = populateUser();
+			const searchAdvancedFilters = jest.fn();
+			const mocks = [mockGetAccountByEmail({ email: owner.email }, owner)];
+			render(
+				<AdvancedSearchModalContent
+					filters={{}}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={searchAdvancedFilters}
+				/>,
+				{ mocks }
+			);
+			userEvent.type(screen.getByText(/owner email/i), `${owner.email},`);
+			expect(await screen.findByText(`owner:${owner.full_name}`)).toBeVisible();
+			userEvent.click(screen.getByRole('button', { name: /search/i }));
+			expect(searchAdvancedFilters).toHaveBeenCalledWith({
+				ownerId: expect.objectContaining({ value: owner.id, label: `owner:${owner.full_name}` })
+			});
+		});
+
+		test('an email which does not belong to any user shows an error', async () => {
+			const email = 'unknown@example.com';
+			const searchAdvancedFilters = jest.fn();
+			const mocks = [mockGetAccountByEmail({ email }, null)];
+			render(
+				<AdvancedSearchModalContent
+					filters={{}}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={searchAdvancedFilters}
+				/>,
+				{ mocks }
+			);
+			userEvent.type(screen.getByText(/owner email/i), `${email},`);
+			expect(await screen.findByText(/no user found with this email/i)).toBeVisible();
+			expect(screen.queryByText(`owner:${email}`)).not.toBeInTheDocument();
+			expect(screen.getByRole('button', { name: /search/i })).toHaveAttribute('disabled', '');
+		});
+
+		test('a failure of the lookup of the owner shows an error', async () => {
+			const owner = populateUser();
+			const mocks = [
+				mockGetAccountByEmail(
+					{ email: owner.email },
+					null,
+					new ApolloError({ graphQLErrors: [generateError('Failed to get account')] })
+				)
+			];
+			render(
+				<AdvancedSearchModalContent
+					filters={{}}
+					closeAction={jest.fn()}
+					searchAdvancedFilters={jest.fn()}
+				/>,
+				{ mocks }
+			);
+			userEvent.type(screen.getByText(/owner email/i), `${owner.email},`);
+			expect(await screen.findByText(/unable to find the owner/i)).toBeVisible();
+		});
+	});
 });
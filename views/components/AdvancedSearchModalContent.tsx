@@ -6,23 +6,42 @@
 
 import React, { useCallback, useMemo, useState } from 'react';
 
-import { ChipInput, Container, CustomModal, getColor, Row } from '@zextras/carbonio-design-system';
+import {
+	ChipInput,
+	Container,
+	CustomModal,
+	DateTimePicker,
+	getColor,
+	Row,
+	Select,
+	Text
+} from '@zextras/carbonio-design-system';
+import capitalize from 'lodash/capitalize';
 import every from 'lodash/every';
+import find from 'lodash/find';
 import isArray from 'lodash/isArray';
 import isEmpty from 'lodash/isEmpty';
 import isEqual from 'lodash/isEqual';
+import last from 'lodash/last';
 import map from 'lodash/map';
+import without from 'lodash/without';
+import moment from 'moment-timezone';
 import { useTranslation } from 'react-i18next';
 import styled from 'styled-components';
 
 import { useActiveNode } from '../../../hooks/useActiveNode';
 import { ROOTS } from '../../constants';
+import { useGetAccountByEmailQuery } from '../../hooks/graphql/queries/useGetAccountByEmailQuery';
 import { AdvancedFilters, ChipProps } from '../../types/common';
-import { Folder } from '../../types/graphql/types';
+import { Folder, NodeType } from '../../types/graphql/types';
+import { stopChipClickPropagation } from '../../utils/searchQuery';
+import { formatDate, getChipLabel, humanFileSize } from '../../utils/utils';
+import { AdvancedSizeInput } from './AdvancedSizeInput';
 import { AdvancedSwitch } from './AdvancedSwitch';
 import { FolderSelectionModalContent } from './FolderSelectionModalContent';
 import { ModalFooter } from './ModalFooter';
 import { ModalHeader } from './ModalHeader';
+import { SavedSearchesSection } from './SavedSearchesSection';
 
 const CustomChipInput = styled(ChipInput)`
 	& div[contenteditable] {
@@ -44,6 +63,13 @@ const FolderChipInputContainer = styled(Container)`
 	}
 `;
 
+const MIME_TYPE_FAMILIES = ['image/', 'video/', 'audio/', 'text/', 'application/'];
+
+interface SelectItem<T> {
+	label: string;
+	value: T | null;
+}
+
 interface AdvancedSearchModalContentProps {
 	filters: AdvancedFilters;
 	closeAction: () => void;
@@ -59,6 +85,23 @@ export const AdvancedSearchModalContent: React.VFC<AdvancedSearchModalContentPro
 	const [t] = useTranslation();
 	const [currentFilters, setCurrentFilters] = useState<AdvancedFilters>(filters);
 	const [keywordsHasTextContent, setKeywordsHasTextContent] = useState<boolean>(false);
+	const [ownerError, setOwnerError] = useState<string>();
+
+	const sizeRangeInvalid = useMemo(
+		() =>
+			currentFilters.sizeMin?.value != null &&
+			currentFilters.sizeMax?.value != null &&
+			currentFilters.sizeMin.value > currentFilters.sizeMax.value,
+		[currentFilters.sizeMax, currentFilters.sizeMin]
+	);
+
+	const dateRangeInvalid = useMemo(
+		() =>
+			!!currentFilters.modifiedAfter?.value &&
+			!!currentFilters.modifiedBefore?.value &&
+			currentFilters.modifiedAfter.value > currentFilters.modifiedBefore.value,
+		[currentFilters.modifiedAfter, currentFilters.modifiedBefore]
+	);
 
 	const keywords = useMemo(() => {
 		if (currentFilters.keywords) {
@@ -79,11 +122,13 @@ export const AdvancedSearchModalContent: React.VFC<AdvancedSearchModalContentPro
 
 	const searchDisabled = useMemo(
 		() =>
-			(isEmpty(currentFilters) ||
+			((isEmpty(currentFilters) ||
 				every(currentFilters, (filter) => isEmpty(filter)) ||
 				isEqual(currentFilters, filters)) &&
-			!keywordsHasTextContent,
-		[currentFilters, filters, keywordsHasTextContent]
+				!keywordsHasTextContent) ||
+			sizeRangeInvalid ||
+			dateRangeInvalid,
+		[currentFilters, dateRangeInvalid, filters, keywordsHasTextContent, sizeRangeInvalid]
 	);
 
 	const confirmHandler = useCallback(() => {
@@ -100,6 +145,7 @@ export const AdvancedSearchModalContent: React.VFC<AdvancedSearchModalContentPro
 
 	const resetFilters = useCallback(() => {
 		setCurrentFilters({});
+		setOwnerError(undefined);
 	}, []);
 
 	const updateFilter = useCallback(
@@ -186,10 +232,9 @@ export const AdvancedSearchModalContent: React.VFC<AdvancedSearchModalContentPro
 					})}`,
 					avatarIcon: 'Folder',
 					avatarBackground: 'secondary',
-					onClick: (event: React.SyntheticEvent): void => {
-						event.stopPropagation();
-					},
-					value: (folder.id !== ROOTS.SHARED_WITH_ME && folder.id) || undefined
+					onClick: stopChipClickPropagation,
+					value: (folder.id !== ROOTS.SHARED_WITH_ME && folder.id) || undefined,
+					queryValue: folder.name
 				});
 				updateFilter(
 					'sharedWithMe',
@@ -207,6 +252,217 @@ export const AdvancedSearchModalContent: React.VFC<AdvancedSearchModalContentPro
 		[t, updateFilter]
 	);
 
+	const typeItems = useMemo<SelectItem<NodeType>[]>(
+		() => [
+			{ label: t('search.advancedSearch.modal.type.any', 'Any type'), value: null },
+			...map(without(Object.values(NodeType), NodeType.Root), (nodeType) => ({
+				/* i18next-extract-disable-next-line */
+				label: t('search.advancedSearch.modal.type.option', capitalize(nodeType), {
+					context: nodeType.toLowerCase()
+				}),
+				value: nodeType
+			}))
+		],
+		[t]
+	);
+
+	const typeSelection = useMemo(
+		() =>
+			find(typeItems, (item) => item.value === (currentFilters.type?.value || null)) ||
+			typeItems[0],
+		[currentFilters.type, typeItems]
+	);
+
+	const typeOnChange = useCallback(
+		(newValue: NodeType | null) => {
+			const item = find(typeItems, ['value', newValue]);
+			updateFilter(
+				'type',
+				newValue && item
+					? {
+							label: `type:${item.label}`,
+							avatarIcon: 'FileTextOutline',
+							avatarBackground: 'secondary',
+							value: newValue
+					  }
+					: undefined
+			);
+		},
+		[typeItems, updateFilter]
+	);
+
+	const mimeTypeItems = useMemo<SelectItem<string>[]>(
+		() => [
+			{ label: t('search.advancedSearch.modal.mimeType.any', 'Any format'), value: null },
+			...map(MIME_TYPE_FAMILIES, (family) => ({
+				/* i18next-extract-disable-next-line */
+				label: t(
+					'search.advancedSearch.modal.mimeType.option',
+					capitalize(family.replace('/', '')),
+					{ context: family.replace('/', '') }
+				),
+				value: family
+			}))
+		],
+		[t]
+	);
+
+	const mimeTypeSelection = useMemo(
+		() =>
+			find(mimeTypeItems, (item) => item.value === (currentFilters.mimeType?.value || null)) ||
+			mimeTypeItems[0],
+		[currentFilters.mimeType, mimeTypeItems]
+	);
+
+	const mimeTypeOnChange = useCallback(
+		(newValue: string | null) => {
+			const item = find(mimeTypeItems, ['value', newValue]);
+			updateFilter(
+				'mimeType',
+				newValue && item
+					? {
+							label: `format:${item.label}`,
+							avatarIcon: 'FileOutline',
+							avatarBackground: 'secondary',
+							value: newValue
+					  }
+					: undefined
+			);
+		},
+		[mimeTypeItems, updateFilter]
+	);
+
+	const sizeMinOnChange = useCallback(
+		(newValue: number | undefined) => {
+			updateFilter(
+				'sizeMin',
+				newValue !== undefined
+					? {
+							label: `larger:${humanFileSize(newValue)}`,
+							avatarIcon: 'ArrowheadUpOutline',
+							avatarBackground: 'secondary',
+							value: newValue
+					  }
+					: undefined
+			);
+		},
+		[updateFilter]
+	);
+
+	const sizeMaxOnChange = useCallback(
+		(newValue: number | undefined) => {
+			updateFilter(
+				'sizeMax',
+				newValue !== undefined
+					? {
+							label: `smaller:${humanFileSize(newValue)}`,
+							avatarIcon: 'ArrowheadDownOutline',
+							avatarBackground: 'secondary',
+							value: newValue
+					  }
+					: undefined
+			);
+		},
+		[updateFilter]
+	);
+
+	const modifiedAfterOnChange = useCallback(
+		(date: Date | null) => {
+			// the whole chosen day is included
+			const value = date ? moment(date).startOf('day').valueOf() : undefined;
+			updateFilter(
+				'modifiedAfter',
+				value
+					? {
+							label: `after:${formatDate(value)}`,
+							avatarIcon: 'CalendarOutline',
+							avatarBackground: 'secondary',
+							value
+					  }
+					: undefined
+			);
+		},
+		[updateFilter]
+	);
+
+	const modifiedBeforeOnChange = useCallback(
+		(date: Date | null) => {
+			// the whole chosen day is included
+			const value = date ? moment(date).endOf('day').valueOf() : undefined;
+			updateFilter(
+				'modifiedBefore',
+				value
+					? {
+							label: `before:${formatDate(value)}`,
+							avatarIcon: 'CalendarOutline',
+							avatarBackground: 'secondary',
+							value
+					  }
+					: undefined
+			);
+		},
+		[updateFilter]
+	);
+
+	const getAccountByEmailLazyQuery = useGetAccountByEmailQuery();
+
+	const ownerId = useMemo(() => {
+		if (currentFilters.ownerId) {
+			return [{ ...currentFilters.ownerId, background: 'gray2' }];
+		}
+		return [];
+	}, [currentFilters.ownerId]);
+
+	const ownerOnAdd = useCallback<(email: string) => ChipProps>(
+		(email: string) => ({
+			label: email,
+			hasAvatar: false,
+			value: email
+		}),
+		[]
+	);
+
+	const ownerOnChange = useCallback(
+		(chips: Array<ChipProps & { value: string }>) => {
+			const chip = last(chips);
+			setOwnerError(undefined);
+			if (!chip) {
+				updateFilter('ownerId', undefined);
+			} else if (chip.value !== currentFilters.ownerId?.value) {
+				// the chip is created only when the typed email is resolved into a user
+				getAccountByEmailLazyQuery({ variables: { email: chip.value } })
+					.then((result) => {
+						const account = result?.data?.getAccountByEmail;
+						if (account) {
+							updateFilter('ownerId', {
+								label: `owner:${getChipLabel(account)}`,
+								avatarIcon: 'PersonOutline',
+								avatarBackground: 'secondary',
+								value: account.id,
+								queryValue: chip.value
+							});
+						} else if (result?.error) {
+							throw result.error;
+						} else {
+							setOwnerError(
+								t('search.advancedSearch.modal.owner.notFound', 'No user found with this email')
+							);
+						}
+					})
+					.catch((err) => {
+						console.error(err);
+						setOwnerError(
+							t(
+								'search.advancedSearch.modal.owner.error',
+								'Unable to find the owner, check your connection and try again'
+							)
+						);
+					});
+			}
+		},
+		[currentFilters.ownerId, getAccountByEmailLazyQuery, t, updateFilter]
+	);
+
 	const [folderSelectionModalOpen, setFolderSelectionModalOpen] = useState(false);
 
 	const openFolderSelectionModal = useCallback((event: React.SyntheticEvent) => {
@@ -276,6 +532,123 @@ export const AdvancedSearchModalContent: React.VFC<AdvancedSearchModalContentPro
 							</FolderChipInputContainer>
 						</Container>
 					</Row>
+					<Row takeAvailableSpace wrap="nowrap" width="fill">
+						<Container padding={{ all: 'extrasmall' }}>
+							<Select
+								label={t('search.advancedSearch.modal.type.label', 'Type')}
+								background="gray5"
+								items={typeItems}
+								selection={typeSelection}
+								onChange={typeOnChange}
+								data-testid="select-type"
+							/>
+						</Container>
+						<Container padding={{ all: 'extrasmall' }}>
+							<Select
+								label={t('search.advancedSearch.modal.mimeType.label', 'Format')}
+								background="gray5"
+								items={mimeTypeItems}
+								selection={mimeTypeSelection}
+								onChange={mimeTypeOnChange}
+								data-testid="select-mime-type"
+							/>
+						</Container>
+					</Row>
+					<Row takeAvailableSpace wrap="nowrap" width="fill">
+						<AdvancedSizeInput
+							label={t('search.advancedSearch.modal.size.min', 'Minimum size (MB)')}
+							value={currentFilters.sizeMin?.value ?? undefined}
+							onChange={sizeMinOnChange}
+							hasError={sizeRangeInvalid}
+							data-testid="input-size-min"
+						/>
+						<AdvancedSizeInput
+							label={t('search.advancedSearch.modal.size.max', 'Maximum size (MB)')}
+							value={currentFilters.sizeMax?.value ?? undefined}
+							onChange={sizeMaxOnChange}
+							hasError={sizeRangeInvalid}
+							data-testid="input-size-max"
+						/>
+					</Row>
+					{sizeRangeInvalid && (
+						<Row mainAlignment="flex-start" width="fill" padding={{ horizontal: 'extrasmall' }}>
+							<Text color="error" overflow="break-word" size="small">
+								{t(
+									'search.advancedSearch.modal.size.invalidRange',
+									'The minimum size must not be greater than the maximum size'
+								)}
+							</Text>
+						</Row>
+					)}
+					<Row takeAvailableSpace wrap="nowrap" width="fill">
+						<Container padding={{ all: 'extrasmall' }}>
+							<DateTimePicker
+								// remount to clear the picker when filters are reset
+								key={`modified-after-${currentFilters.modifiedAfter?.value}`}
+								width="fill"
+								label={t('search.advancedSearch.modal.modifiedAfter.label', 'Modified after')}
+								includeTime={false}
+								dateFormat="dd/MM/yyyy"
+								defaultValue={
+									currentFilters.modifiedAfter?.value
+										? new Date(currentFilters.modifiedAfter.value)
+										: undefined
+								}
+								maxDate={new Date()}
+								onChange={modifiedAfterOnChange}
+							/>
+						</Container>
+						<Container padding={{ all: 'extrasmall' }}>
+							<DateTimePicker
+								key={`modified-before-${currentFilters.modifiedBefore?.value}`}
+								width="fill"
+								label={t('search.advancedSearch.modal.modifiedBefore.label', 'Modified before')}
+								includeTime={false}
+								dateFormat="dd/MM/yyyy"
+								defaultValue={
+									currentFilters.modifiedBefore?.value
+										? new Date(currentFilters.modifiedBefore.value)
+										: undefined
+								}
+								onChange={modifiedBeforeOnChange}
+							/>
+						</Container>
+					</Row>
+					{dateRangeInvalid && (
+						<Row mainAlignment="flex-start" width="fill" padding={{ horizontal: 'extrasmall' }}>
+							<Text color="error" overflow="break-word" size="small">
+								{t(
+									'search.advancedSearch.modal.modified.invalidRange',
+									'The modified after date must not be later than the modified before date'
+								)}
+							</Text>
+						</Row>
+					)}
+					<Row takeAvailableSpace wrap="nowrap" width="fill">
+						<Container padding={{ all: 'extrasmall' }}>
+							<CustomChipInput
+								placeholder={t('search.advancedSearch.modal.owner.label', 'Owner email')}
+								background="gray5"
+								value={ownerId}
+								onChange={ownerOnChange}
+								onAdd={ownerOnAdd}
+								separators={[',', ';', 'Enter']}
+								maxChips={1}
+								confirmChipOnSpace={false}
+								hasError={ownerError !== undefined}
+							/>
+						</Container>
+					</Row>
+					{ownerError && (
+						<Row mainAlignment="flex-start" width="fill" padding={{ horizontal: 'extrasmall' }}>
+							<Text color="error" overflow="break-word" size="small">
+								{ownerError}
+							</Text>
+						</Row>
+					)}
+					<Row takeAvailableSpace wrap="nowrap" width="fill">
+						<SavedSearchesSection filters={currentFilters} editFilters={setCurrentFilters} />
+					</Row>
 				</Container>
 				<ModalFooter
 					confirmHandler={confirmHandler}
@@ -0,0 +1,68 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { Container, Input } from '@zextras/carbonio-design-system';
+import trim from 'lodash/trim';
+
+interface AdvancedSizeInputProps {
+	label: string;
+	/** size in bytes */
+	value: number | undefined;
+	onChange: (value: number | undefined) => void;
+	/** show the input as invalid even if the typed size is valid, i.e. when the range is not valid */
+	hasError?: boolean;
+	'data-testid'?: string;
+}
+
+const MB = 1024 * 1024;
+
+function parseSize(input: string): number | undefined {
+	const size = Number(trim(input));
+	return trim(input) && Number.isFinite(size) && size >= 0 ? Math.round(size * MB) : undefined;
+}
+
+/**
+ * Input for a size expressed in MB. The value is exposed in bytes.
+ */
+export const AdvancedSizeInput: React.VFC<AdvancedSizeInputProps> = ({
+	label,
+	value,
+	onChange,
+	hasError,
+	'data-testid': dataTestId
+}) => {
+	const [inputValue, setInputValue] = useState(value !== undefined ? `${value / MB}` : '');
+
+	useEffect(() => {
+		// keep the typed text when it already represents the value (ex. "1." while typing "1.5")
+		setInputValue((prevState) =>
+			parseSize(prevState) === value ? prevState : (value !== undefined && `${value / MB}`) || ''
+		);
+	}, [value]);
+
+	const changeHandler = useCallback(
+		(event: React.ChangeEvent<HTMLInputElement>) => {
+			setInputValue(event.target.value);
+			onChange(parseSize(event.target.value));
+		},
+		[onChange]
+	);
+
+	return (
+		<Container padding={{ all: 'extrasmall' }}>
+			<Input
+				label={label}
+				value={inputValue}
+				onChange={changeHandler}
+				background="gray5"
+				hasError={hasError || (!!trim(inputValue) && parseSize(inputValue) === undefined)}
+				data-testid={dataTestId}
+			/>
+		</Container>
+	);
+};
@@ -35,7 +35,9 @@ import {
 	mockCopyNodes,
 	mockFindNodes,
 	mockGetChildren,
-	mockGetPath
+	mockGetPath,
+	mockTrashNodes,
+	mockUpdateNode
 } from '../../utils/mockUtils';
 import {
 	actionRegexp,
@@ -488,6 +490,7 @@ describe('Copy Nodes Modal', () => {
 		const mocks = [
 			mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
 			mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+			mockGetChildren(getChildrenVariables(folder.id), folder),
 			mockCopyNodes(
 				{ node_ids: map(nodesToCopy, (node) => node.id), destination_id: folder.id },
 				copiedNodes
@@ -641,6 +644,7 @@ describe('Copy Nodes Modal', () => {
 		const mocks = [
 			mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
 			mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+			mockGetChildren(getChildrenVariables(localRoot.id), localRoot),
 			mockCopyNodes(
 				{ node_ids: map(nodesToCopy, (node) => node.id), destination_id: localRoot.id },
 				copiedNodes
@@ -765,4 +769,100 @@ describe('Copy Nodes Modal', () => {
 		);
 		expect(screen.queryByTestId('icon: Refresh')).not.toBeInTheDocument();
 	});
+
+	describe('Name conflicts', () => {
+		function setupConflict(): {
+			currentFolder: Folder;
+			file: File;
+			destination: Folder;
+			existingFile: File;
+		} {
+			const currentFolder = populateFolder();
+			const file = populateFile(undefined, 'conflict.txt');
+			file.parent = currentFolder;
+			currentFolder.children.nodes.push(file);
+			const destination = populateFolder(0);
+			destination.permissions.can_write_folder = true;
+			destination.permissions.can_write_file = true;
+			destination.parent = currentFolder;
+			currentFolder.children.nodes.push(destination);
+			const existingFile = populateFile(undefined, file.name);
+			existingFile.parent = destination;
+			destination.children.nodes.push(existingFile);
+			return { currentFolder, file, destination, existingFile };
+		}
+
+		async function confirmCopy(destinationName: string, resolution: RegExp): Promise<void> {
+			userEvent.click(await screen.findByText(destinationName));
+			act(() => {
+				userEvent.click(screen.getByRole('button', { name: actionRegexp.copy }));
+			});
+			await screen.findByText(/already exists in the destination folder/i);
+			userEvent.click(screen.getByRole('button', { name: resolution }));
+		}
+
+		test('keep both copies the node, which is renamed by the server', async () => {
+			const { currentFolder, file, destination } = setupConflict();
+			const mocks = [
+				mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
+				mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+				mockGetChildren(getChildrenVariables(destination.id), destination),
+				mockCopyNodes({ node_ids: [file.id], destination_id: destination.id }, [
+					{ ...file, id: `new-id-${file.id}`, name: 'conflict (1).txt', parent: destination }
+				])
+			];
+			const closeAction = jest.fn();
+
+			render(
+				<CopyNodesModalContent
+					folderId={currentFolder.id}
+					nodesToCopy={[file]}
+					closeAction={closeAction}
+				/>,
+				{ mocks }
+			);
+
+			await confirmCopy(destination.name, /keep both/i);
+			await waitFor(() => expect(closeAction).toHaveBeenCalled());
+		});
+
+		test('replace trashes the existing file after the copy and renames the copy', async () => {
+			const { currentFolder, file, destination, existingFile } = setupConflict();
+			const copy = {
+				...file,
+				id: `new-id-${file.id}`,
+				name: 'conflict (1).txt',
+				parent: destination
+			};
+			const calls: string[] = [];
+			const mocks = [
+				mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
+				mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+				mockGetChildren(getChildrenVariables(destination.id), destination),
+				mockCopyNodes({ node_ids: [file.id], destination_id: destination.id }, [copy], () =>
+					calls.push('copy')
+				),
+				mockTrashNodes({ node_ids: [existingFile.id] }, [existingFile.id], () =>
+					calls.push('trash')
+				),
+				mockUpdateNode({ node_id: copy.id, name: file.name }, { ...copy, name: file.name }, () =>
+					calls.push('rename')
+				)
+			];
+			const closeAction = jest.fn();
+
+			render(
+				<CopyNodesModalContent
+					folderId={currentFolder.id}
+					nodesToCopy={[file]}
+					closeAction={closeAction}
+				/>,
+				{ mocks }
+			);
+
+			await confirmCopy(destination.name, /replace/i);
+			await waitFor(() => expect(closeAction).toHaveBeenCalled());
+			expect(calls).toEqual(['copy', 'trash', 'rename']);
+		});
+	});
 });
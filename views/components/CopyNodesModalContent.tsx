@@ -18,6 +18,7 @@ import { NODES_LOAD_LIMIT } from '../../constants';
 import GET_CHILDREN from '../../graphql/queries/getChildren.graphql';
 import { useCopyNodesMutation } from '../../hooks/graphql/mutations/useCopyNodesMutation';
 import { useGetChildrenQuery } from '../../hooks/graphql/queries/useGetChildrenQuery';
+import { NodeReplacement, useNodesNameConflicts } from '../../hooks/useNodesNameConflicts';
 import { GetNodeParentType, Node, NodeListItemType, RootListItemType } from '../../types/common';
 import { Folder, GetChildrenQuery, GetChildrenQueryVariables } from '../../types/graphql/types';
 import { canBeCopyDestination, isFile, isFolder, isRoot } from '../../utils/ActionsFactory';
@@ -27,7 +28,7 @@ import { ModalList } from './ModalList';
 import { ModalRootsList } from './ModalRootsList';
 
 interface CopyNodesModalContentProps {
-	nodesToCopy: Array<Pick<Node, '__typename' | 'id'> & GetNodeParentType>;
+	nodesToCopy: Array<Pick<Node, '__typename' | 'id' | 'name'> & GetNodeParentType>;
 	folderId?: string;
 	closeAction?: () => void;
 }
@@ -51,6 +52,8 @@ export const CopyNodesModalContent: React.VFC<CopyNodesModalContentProps> = ({
 	/** Mutation to copy nodes */
 	const { copyNodes, loading: copyNodesMutationLoading } = useCopyNodesMutation();
 
+	const { resolveNodesNameConflicts, replaceExistingNodes } = useNodesNameConflicts();
+
 	const title = useMemo(
 		() =>
 			t('node.copy.modal.title', 'Copy items', {
@@ -169,21 +172,58 @@ export const CopyNodesModalContent: React.VFC<CopyNodesModalContentProps> = ({
 		}
 
 		if (destinationFolderNode) {
-			copyNodes(destinationFolderNode as Folder, ...nodesToCopy).then((result) => {
-				// TODO: handle case when not all nodes are copied
-				if (result?.data) {
-					closeHandler();
-				}
-			});
+			const destination = destinationFolderNode as Folder;
+			// copies are renamed by the server, so nodes kept together with the existing ones need no rename
+			resolveNodesNameConflicts(destination.id, nodesToCopy)
+				.then(({ nodes: nodesToProcess, replacedNodes }) => {
+					if (nodesToProcess.length === 0) {
+						closeHandler();
+						return undefined;
+					}
+					return copyNodes(destination, ...nodesToProcess).then((result) => {
+						const copies = result?.data?.copyNodes;
+						// copies match the copied nodes by position only if all of them are copied
+						const replacements =
+							copies?.length === nodesToProcess.length
+								? reduce(
+										nodesToProcess,
+										(accumulator: NodeReplacement[], node, index) => {
+											const copy = copies[index];
+											if (replacedNodes[node.id] && copy) {
+												accumulator.push({
+													id: copy.id,
+													name: node.name,
+													existing: replacedNodes[node.id]
+												});
+											}
+											return accumulator;
+										},
+										[]
+								  )
+								: [];
+						// existing nodes are replaced only once the copies exist
+						return replaceExistingNodes(replacements).then(() => {
+							// TODO: handle case when not all nodes are copied
+							if (result?.data) {
+								closeHandler();
+							}
+						});
+					});
+				})
+				.catch((err) => {
+					console.error(err);
+				});
 		}
 	}, [
 		destinationFolder,
 		currentFolder?.getNode,
 		nodes,
 		apolloClient,
-		copyNodes,
+		resolveNodesNameConflicts,
 		nodesToCopy,
-		closeHandler
+		closeHandler,
+		copyNodes,
+		replaceExistingNodes
 	]);
 
 	const navigateTo = useCallback((id) => {
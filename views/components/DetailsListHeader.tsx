@@ -0,0 +1,235 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import { Icon, Text } from '@zextras/carbonio-design-system';
+import map from 'lodash/map';
+import { useTranslation } from 'react-i18next';
+import styled from 'styled-components';
+
+import { nodeSortVar } from '../../apollo/nodeSortVar';
+import { DETAILS_HEADER_HEIGHT, DRAG_TYPES } from '../../constants';
+import { DetailsColumn, DetailsColumnLayout, OrderTrend, OrderType } from '../../types/common';
+import { NodeSort } from '../../types/graphql/types';
+import { getInverseOrder, nodeSortGetter, nodeSortParser } from '../../utils/utils';
+import { DetailsCell } from './StyledComponents';
+
+const HeaderContainer = styled.div`
+	display: flex;
+	position: sticky;
+	top: 0;
+	z-index: 1;
+	flex-shrink: 0;
+	width: 100%;
+	height: ${DETAILS_HEADER_HEIGHT}px;
+	background: ${({ theme }): string => theme.palette.gray5.regular};
+`;
+
+const HeaderCell = styled(DetailsCell)<{ $sortable: boolean }>`
+	position: relative;
+	cursor: ${({ $sortable }): string => ($sortable ? 'pointer' : 'default')};
+	user-select: none;
+`;
+
+const ResizeHandle = styled.div`
+	position: absolute;
+	top: 0;
+	right: 0;
+	width: 8px;
+	height: 100%;
+	cursor: col-resize;
+	&:hover {
+		background: ${({ theme }): string => theme.palette.gray3.regular};
+	}
+`;
+
+const COLUMNS_ORDER_TYPE: Partial<Record<DetailsColumn, OrderType>> = {
+	[DetailsColumn.Name]: OrderType.Name,
+	[DetailsColumn.Owner]: OrderType.Owner,
+	[DetailsColumn.LastEditor]: OrderType.LastEditor,
+	[DetailsColumn.Type]: OrderType.Type,
+	[DetailsColumn.Size]: OrderType.Size,
+	[DetailsColumn.UpdatedAt]: OrderType.UpdatedAt
+};
+
+interface DetailsHeaderCellProps {
+	column: DetailsColumnLayout;
+	label: string;
+	/** trend of the sort of the list when it is sorted by this column */
+	sortTrend: OrderTrend | undefined;
+	setNodeSort: (nodeSort: NodeSort) => void;
+	resizeColumn: (id: DetailsColumn, width: number, isResizeEnd?: boolean) => void;
+	moveColumn: (id: DetailsColumn, targetId: DetailsColumn) => void;
+}
+
+const DetailsHeaderCell: React.VFC<DetailsHeaderCellProps> = ({
+	column,
+	label,
+	sortTrend,
+	setNodeSort,
+	resizeColumn,
+	moveColumn
+}) => {
+	const orderType = COLUMNS_ORDER_TYPE[column.id];
+	const stopResizeRef = useRef<() => void>();
+
+	useEffect(
+		() => () => {
+			stopResizeRef.current && stopResizeRef.current();
+		},
+		[]
+	);
+
+	const clickHandler = useCallback(() => {
+		if (orderType) {
+			// a click on the column which sorts the list inverts the trend
+			setNodeSort(
+				nodeSortGetter(sortTrend ? getInverseOrder(sortTrend) : OrderTrend.Ascending, orderType)
+			);
+		}
+	}, [orderType, setNodeSort, sortTrend]);
+
+	const resizeStartHandler = useCallback(
+		(event: React.MouseEvent) => {
+			event.preventDefault();
+			event.stopPropagation();
+			const startX = event.clientX;
+			const startWidth = column.width;
+			let width = startWidth;
+			const mouseMoveHandler = (moveEvent: MouseEvent): void => {
+				width = startWidth + moveEvent.clientX - startX;
+				resizeColumn(column.id, width);
+			};
+			const stopResize = (): void => {
+				window.removeEventListener('mousemove', mouseMoveHandler);
+				window.removeEventListener('mouseup', stopResize);
+				stopResizeRef.current = undefined;
+				if (width !== startWidth) {
+					resizeColumn(column.id, width, true);
+				}
+			};
+			window.addEventListener('mousemove', mouseMoveHandler);
+			window.addEventListener('mouseup', stopResize);
+			stopResizeRef.current = stopResize;
+		},
+		[column.id, column.width, resizeColumn]
+	);
+
+	const stopPropagation = useCallback((event: React.SyntheticEvent) => {
+		// the end of a resize must not sort the list
+		event.stopPropagation();
+	}, []);
+
+	const dragStartHandler = useCallback(
+		(event: React.DragEvent) => {
+			event.dataTransfer.setData(DRAG_TYPES.detailsColumn, column.id);
+			event.dataTransfer.effectAllowed = 'move';
+		},
+		[column.id]
+	);
+
+	const dragOverHandler = useCallback((event: React.DragEvent) => {
+		if (event.dataTransfer.types.includes(DRAG_TYPES.detailsColumn)) {
+			event.preventDefault();
+		}
+	}, []);
+
+	const dropHandler = useCallback(
+		(event: React.DragEvent) => {
+			const movedColumnId = event.dataTransfer.getData(DRAG_TYPES.detailsColumn);
+			if (movedColumnId) {
+				event.preventDefault();
+				event.stopPropagation();
+				moveColumn(movedColumnId as DetailsColumn, column.id);
+			}
+		},
+		[column.id, moveColumn]
+	);
+
+	return (
+		<HeaderCell
+			$width={column.width}
+			$sortable={!!orderType}
+			role="columnheader"
+			aria-sort={
+				(sortTrend === OrderTrend.Ascending && 'ascending') ||
+				(sortTrend === OrderTrend.Descending && 'descending') ||
+				undefined
+			}
+			onClick={clickHandler}
+			draggable
+			onDragStart={dragStartHandler}
+			onDragOver={dragOverHandler}
+			onDrop={dropHandler}
+			data-testid={`details-column-${column.id}`}
+		>
+			<Text size="small" color="secondary" weight="bold" overflow="ellipsis">
+				{label}
+			</Text>
+			{sortTrend && (
+				<Icon
+					icon={sortTrend === OrderTrend.Ascending ? 'ArrowUpwardOutline' : 'ArrowDownwardOutline'}
+					color="secondary"
+				/>
+			)}
+			<ResizeHandle
+				onMouseDown={resizeStartHandler}
+				onClick={stopPropagation}
+				data-testid={`details-column-resize-${column.id}`}
+			/>
+		</HeaderCell>
+	);
+};
+
+interface DetailsListHeaderProps {
+	columns: DetailsColumnLayout[];
+	setNodeSort: (nodeSort: NodeSort) => void;
+	resizeColumn: (id: DetailsColumn, width: number, isResizeEnd?: boolean) => void;
+	moveColumn: (id: DetailsColumn, targetId: DetailsColumn) => void;
+}
+
+export const DetailsListHeader: React.VFC<DetailsListHeaderProps> = ({
+	columns,
+	setNodeSort,
+	resizeColumn,
+	moveColumn
+}) => {
+	const [t] = useTranslation();
+	const nodeSort = useReactiveVar(nodeSortVar);
+
+	const { order, orderType } = useMemo(() => nodeSortParser(nodeSort), [nodeSort]);
+
+	const labels = useMemo<Record<DetailsColumn, string>>(
+		() => ({
+			[DetailsColumn.Name]: t('detailsView.column.name', 'Name'),
+			[DetailsColumn.Owner]: t('detailsView.column.owner', 'Owner'),
+			[DetailsColumn.LastEditor]: t('detailsView.column.lastEditor', 'Last editor'),
+			[DetailsColumn.Type]: t('detailsView.column.type', 'Type'),
+			[DetailsColumn.Size]: t('detailsView.column.size', 'Size'),
+			[DetailsColumn.UpdatedAt]: t('detailsView.column.updatedAt', 'Modified'),
+			[DetailsColumn.Shares]: t('detailsView.column.shares', 'Shares')
+		}),
+		[t]
+	);
+
+	return (
+		<HeaderContainer role="row" data-testid="details-header">
+			{map(columns, (column) => (
+				<DetailsHeaderCell
+					key={column.id}
+					column={column}
+					label={labels[column.id]}
+					sortTrend={COLUMNS_ORDER_TYPE[column.id] === orderType ? order : undefined}
+					setNodeSort={setNodeSort}
+					resizeColumn={resizeColumn}
+					moveColumn={moveColumn}
+				/>
+			))}
+		</HeaderContainer>
+	);
+};
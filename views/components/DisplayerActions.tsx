@@ -29,6 +29,7 @@ import { useCopyModal } from '../../hooks/modals/useCopyModal';
 import { useDeletePermanentlyModal } from '../../hooks/modals/useDeletePermanentlyModal';
 import { useMoveModal } from '../../hooks/modals/useMoveModal';
 import { useRenameModal } from '../../hooks/modals/useRenameModal';
+import { useDownload } from '../../hooks/useDownload';
 import { Action, GetNodeParentType } from '../../types/common';
 import { File, MakeOptional, Node } from '../../types/graphql/types';
 import {
@@ -39,7 +40,6 @@ import {
 	isFile
 } from '../../utils/ActionsFactory';
 import {
-	downloadNode,
 	getDocumentPreviewSrc,
 	getImgPreviewSrc,
 	getPdfPreviewSrc,
@@ -107,6 +107,8 @@ export const DisplayerActions: React.VFC<DisplayerActionsParams> = ({ node }) =>
 
 	const { openRenameModal } = useRenameModal(updateNodeAction);
 
+	const { downloadFile, downloadArchive } = useDownload();
+
 	const { sendViaMail } = useSendViaMail();
 
 	const sendViaMailCallback = useCallback(() => {
@@ -139,7 +141,9 @@ export const DisplayerActions: React.VFC<DisplayerActionsParams> = ({ node }) =>
 					icon: 'DownloadOutline',
 					tooltipLabel: t('preview.actions.tooltip.download', 'Download'),
 					id: 'DownloadOutline',
-					onClick: (): void => downloadNode(id)
+					onClick: (): void => {
+						downloadFile({ id, name, size });
+					}
 				}
 			];
 			const closeAction = {
@@ -194,7 +198,8 @@ export const DisplayerActions: React.VFC<DisplayerActionsParams> = ({ node }) =>
 		t,
 		documentType,
 		setActiveNode,
-		createPreview
+		createPreview,
+		downloadFile
 	]);
 
 	const itemsMap = useMemo<Partial<Record<Action, ActionItem>>>(
@@ -224,8 +229,12 @@ export const DisplayerActions: React.VFC<DisplayerActionsParams> = ({ node }) =>
 				icon: 'Download',
 				label: t('actions.download', 'Download'),
 				click: (): void => {
-					// download node without version to be sure last version is downlaoded
-					downloadNode(node.id);
+					if (isFile(node)) {
+						downloadFile(node);
+					} else {
+						// folders are downloaded as a zip archive with all their content
+						downloadArchive([node]);
+					}
 				}
 			},
 			[Action.ManageShares]: {
@@ -310,6 +319,8 @@ export const DisplayerActions: React.VFC<DisplayerActionsParams> = ({ node }) =>
 			// }
 		}),
 		[
+			downloadArchive,
+			downloadFile,
 			manageShares,
 			markNodesForDeletionCallback,
 			node,
@@ -13,11 +13,11 @@ import styled from 'styled-components';
 
 import { useActiveNode } from '../../../hooks/useActiveNode';
 import { DISPLAYER_TABS, PREVIEW_MAX_SIZE, PREVIEW_TYPE } from '../../constants';
+import { useDownload } from '../../hooks/useDownload';
 import { Node } from '../../types/common';
 import { NodeType } from '../../types/graphql/types';
 import { canOpenWithDocs } from '../../utils/ActionsFactory';
 import {
-	downloadNode,
 	getDocumentPreviewSrc,
 	getIconByFileType,
 	getImgPreviewSrc,
@@ -64,6 +64,7 @@ export const DisplayerPreview: React.VFC<DisplayerPreviewProps> = ({
 	const previewContainerRef = useRef<HTMLDivElement>(null);
 	const { createPreview } = useContext(PreviewsManagerContext);
 	const { setActiveNode } = useActiveNode();
+	const { downloadFile } = useDownload();
 	const [t] = useTranslation();
 	const previewHeight = useMemo(() => Math.ceil(window.innerHeight / 3), []);
 	const [loading, setLoading] = useState(true);
@@ -94,7 +95,9 @@ export const DisplayerPreview: React.VFC<DisplayerPreviewProps> = ({
 				icon: 'DownloadOutline',
 				tooltipLabel: t('preview.actions.tooltip.download', 'Download'),
 				id: 'DownloadOutline',
-				onClick: (): void => downloadNode(id)
+				onClick: (): void => {
+					downloadFile({ id, name: name || '', size });
+				}
 			}
 		];
 		const closeAction = {
@@ -151,7 +154,8 @@ export const DisplayerPreview: React.VFC<DisplayerPreviewProps> = ({
 		size,
 		version,
 		typeName,
-		type
+		type,
+		downloadFile
 	]);
 
 	const buildPreviewSrc = useCallback(() => {
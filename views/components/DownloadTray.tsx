@@ -0,0 +1,85 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import { Container, Divider, Row, Text } from '@zextras/carbonio-design-system';
+import map from 'lodash/map';
+import size from 'lodash/size';
+import some from 'lodash/some';
+import values from 'lodash/values';
+import { useTranslation } from 'react-i18next';
+import styled from 'styled-components';
+
+import { downloadVar } from '../../apollo/downloadVar';
+import { useDownload } from '../../hooks/useDownload';
+import { DownloadStatus } from '../../types/common';
+import { DownloadTrayItem } from './DownloadTrayItem';
+import { RoundedButton } from './StyledComponents';
+
+const TrayContainer = styled(Container)`
+	position: fixed;
+	right: 16px;
+	bottom: 16px;
+	z-index: 3;
+	box-shadow: 0 0 4px rgba(166, 166, 166, 0.5);
+`;
+
+/**
+ * Progress of the downloads, rendered once for the whole app so that it is visible from every view
+ */
+export const DownloadTray: React.VFC = () => {
+	const [t] = useTranslation();
+	const downloads = useReactiveVar(downloadVar);
+	const { removeAllCompleted } = useDownload();
+
+	const hasCompleted = useMemo(
+		() => some(downloads, (download) => download.status === DownloadStatus.COMPLETED),
+		[downloads]
+	);
+
+	const items = useMemo(
+		() =>
+			map(values(downloads), (download) => (
+				<DownloadTrayItem key={download.id} {...download} />
+			)),
+		[downloads]
+	);
+
+	return size(downloads) > 0 ? (
+		<TrayContainer
+			width="360px"
+			height="auto"
+			maxHeight="50%"
+			background="gray6"
+			mainAlignment="flex-start"
+			data-testid="download-tray"
+		>
+			<Row
+				width="fill"
+				mainAlignment="space-between"
+				wrap="nowrap"
+				padding={{ vertical: 'small', horizontal: 'medium' }}
+			>
+				<Text weight="bold">{t('download.tray.title', 'Downloads')}</Text>
+				{hasCompleted && (
+					<RoundedButton
+						type="outlined"
+						size="small"
+						label={t('download.tray.clean', 'Clean completed')}
+						icon="CloseOutline"
+						onClick={removeAllCompleted}
+					/>
+				)}
+			</Row>
+			<Divider color="gray3" />
+			<Container height="auto" mainAlignment="flex-start" style={{ overflowY: 'auto' }}>
+				{items}
+			</Container>
+		</TrayContainer>
+	) : null;
+};
@@ -0,0 +1,146 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useMemo } from 'react';
+
+import {
+	Container,
+	Icon,
+	IconButton,
+	Padding,
+	Row,
+	Text,
+	Tooltip
+} from '@zextras/carbonio-design-system';
+import { useTranslation } from 'react-i18next';
+
+import { useDownload } from '../../hooks/useDownload';
+import { DownloadStatus, DownloadType } from '../../types/common';
+import { humanFileSize } from '../../utils/utils';
+import { ProgressBar } from './StyledComponents';
+
+type DownloadTrayItemProps = DownloadType;
+
+export const DownloadTrayItem: React.VFC<DownloadTrayItemProps> = React.memo(
+	({ id, name, status, loaded, total, errorMessage, handedToBrowser }) => {
+		const [t] = useTranslation();
+		const { cancelById, retryById, removeById } = useDownload();
+
+		const cancelDownload = useCallback(() => {
+			cancelById([id]);
+		}, [cancelById, id]);
+
+		const retryDownload = useCallback(() => {
+			retryById([id]);
+		}, [id, retryById]);
+
+		const removeDownload = useCallback(() => {
+			removeById([id]);
+		}, [id, removeById]);
+
+		const percentage = useMemo(() => {
+			if (status === DownloadStatus.COMPLETED) {
+				return 100;
+			}
+			return total ? Math.floor((loaded / total) * 100) : 0;
+		}, [loaded, status, total]);
+
+		const statusIcon = useMemo(() => {
+			switch (status) {
+				case DownloadStatus.COMPLETED:
+					return <Icon icon="CheckmarkCircle2" color="success" />;
+				case DownloadStatus.FAILED:
+					return <Icon icon="AlertCircle" color="error" />;
+				case DownloadStatus.CANCELED:
+					return <Icon icon="CloseCircle" color="secondary" />;
+				default:
+					return <Icon icon="AnimatedLoader" />;
+			}
+		}, [status]);
+
+		const details = useMemo(() => {
+			switch (status) {
+				case DownloadStatus.COMPLETED:
+					return handedToBrowser
+						? t('download.item.handedToBrowser', 'Downloading in the browser')
+						: t('download.item.completed', 'Completed - {{size}}', {
+								size: humanFileSize(total || loaded)
+						  });
+				case DownloadStatus.FAILED:
+					return errorMessage || t('download.item.failed', 'Download failed');
+				case DownloadStatus.CANCELED:
+					return t('download.item.canceled', 'Canceled');
+				default:
+					// streamed archives do not declare their size, so only the received bytes can be shown
+					return total
+						? `${humanFileSize(loaded)} / ${humanFileSize(total)}`
+						: humanFileSize(loaded);
+			}
+		}, [errorMessage, handedToBrowser, loaded, status, t, total]);
+
+		return (
+			<Container
+				height="auto"
+				padding={{ horizontal: 'medium', vertical: 'small' }}
+				data-testid={`download-item-${id}`}
+			>
+				<Row width="fill" wrap="nowrap" mainAlignment="space-between">
+					<Row wrap="nowrap" mainAlignment="flex-start" minWidth={0} flexGrow={1}>
+						<Padding right="small">{statusIcon}</Padding>
+						<Text overflow="ellipsis" size="small">
+							{name}
+						</Text>
+					</Row>
+					<Row wrap="nowrap" flexShrink={0}>
+						{status === DownloadStatus.LOADING && (
+							<Tooltip label={t('download.item.cancel', 'Cancel download')}>
+								<IconButton
+									icon="CloseCircleOutline"
+									size="small"
+									iconColor="secondary"
+									onClick={cancelDownload}
+								/>
+							</Tooltip>
+						)}
+						{(status === DownloadStatus.FAILED || status === DownloadStatus.CANCELED) && (
+							<Tooltip label={t('download.item.retry', 'Retry download')}>
+								<IconButton
+									icon="PlayCircleOutline"
+									size="small"
+									iconColor="secondary"
+									onClick={retryDownload}
+								/>
+							</Tooltip>
+						)}
+						{status !== DownloadStatus.LOADING && (
+							<Tooltip label={t('download.item.remove', 'Remove from the list')}>
+								<IconButton
+									icon="Close"
+									size="small"
+									iconColor="secondary"
+									onClick={removeDownload}
+								/>
+							</Tooltip>
+						)}
+					</Row>
+				</Row>
+				<Row width="fill" padding={{ vertical: 'small' }}>
+					<ProgressBar $percentage={percentage} />
+				</Row>
+				<Row width="fill" mainAlignment="flex-start">
+					<Text
+						size="extrasmall"
+						color={status === DownloadStatus.FAILED ? 'error' : 'secondary'}
+					>
+						{details}
+					</Text>
+				</Row>
+			</Container>
+		);
+	}
+);
+
+DownloadTrayItem.displayName = 'DownloadTrayItem';
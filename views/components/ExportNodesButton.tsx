@@ -0,0 +1,45 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback } from 'react';
+
+import { IconButton, Row, Text, Tooltip } from '@zextras/carbonio-design-system';
+import { useTranslation } from 'react-i18next';
+
+import { useExportNodes } from '../../hooks/useExportNodes';
+import { SearchParams } from '../../types/common';
+import { LoadingIcon } from './LoadingIcon';
+
+interface ExportNodesButtonProps {
+	/** params of the findNodes query which loads the nodes to export */
+	params: SearchParams;
+	fileName: string;
+}
+
+export const ExportNodesButton: React.VFC<ExportNodesButtonProps> = ({ params, fileName }) => {
+	const [t] = useTranslation();
+	const { exportProgress, exportNodes, cancelExport } = useExportNodes();
+
+	const exportClickHandler = useCallback(() => {
+		exportNodes(params, fileName);
+	}, [exportNodes, fileName, params]);
+
+	return exportProgress ? (
+		<Row wrap="nowrap" gap="0.25rem" data-testid="export-progress">
+			<LoadingIcon icon="Refresh" iconColor="primary" type="ghost" />
+			<Text size="small" color="secondary">
+				{t('export.progress', 'Exporting {{count}} items', { count: exportProgress.loaded })}
+			</Text>
+			<Tooltip label={t('export.cancel', 'Cancel export')}>
+				<IconButton icon="CloseOutline" size="large" onClick={cancelExport} />
+			</Tooltip>
+		</Row>
+	) : (
+		<Tooltip label={t('export.button', 'Export as CSV')}>
+			<IconButton icon="DownloadOutline" size="large" onClick={exportClickHandler} />
+		</Tooltip>
+	);
+};
@@ -6,16 +6,30 @@
 
 import React from 'react';
 
-import { act, screen, waitForElementToBeRemoved, within } from '@testing-library/react';
+import {
+	act,
+	fireEvent,
+	screen,
+	waitFor,
+	waitForElementToBeRemoved,
+	within
+} from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import forEach from 'lodash/forEach';
 import { Link, Route, Switch } from 'react-router-dom';
 
 import { CreateOptionsContent } from '../../../hooks/useCreateOptions';
-import { NODES_LOAD_LIMIT, ROOTS } from '../../constants';
+import { LOGGED_USER } from '../../../mocks/constants';
+import { listPreferencesVar } from '../../apollo/listPreferencesVar';
+import {
+	FULL_SHARES_LOAD_LIMIT,
+	LIST_PREFERENCES_STORAGE_KEY,
+	NODES_LOAD_LIMIT,
+	ROOTS
+} from '../../constants';
 import FIND_NODES from '../../graphql/queries/findNodes.graphql';
 import { populateFolder, populateNode, populateNodes } from '../../mocks/mockUtils';
-import { Node } from '../../types/common';
+import { Node, ViewMode } from '../../types/common';
 import { FindNodesQuery, FindNodesQueryVariables } from '../../types/graphql/types';
 import {
 	getChildrenVariables,
@@ -267,4 +281,130 @@ describe('Filter list', () => {
 			});
 		});
 	});
+
+	describe('Export', () => {
+		function readBlob(blob: Blob): Promise<string> {
+			return new Promise((resolve) => {
+				const reader = new FileReader();
+				reader.onload = (): void => resolve(reader.result as string);
+				reader.readAsText(blob);
+			});
+		}
+
+		beforeEach(() => {
+			URL.createObjectURL = jest.fn(() => 'blob:export');
+			URL.revokeObjectURL = jest.fn();
+			jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation();
+		});
+
+		test('export loads all the pages of the filter and saves them in a CSV file', async () => {
+			const firstPage = populateNodes(NODES_LOAD_LIMIT);
+			const secondPage = populateNodes(2);
+			const exportVariables = getFindNodesVariables({
+				flagged: true,
+				shares_limit: FULL_SHARES_LOAD_LIMIT
+			});
+			const mocks = [
+				mockFindNodes(getFindNodesVariables({ flagged: true }), firstPage),
+				mockFindNodes(exportVariables, firstPage),
+				mockFindNodes({ ...exportVariables, page_token: 'next_page_token' }, secondPage)
+			];
+
+			render(<FilterList flagged />, { mocks });
+
+			await screen.findByText(firstPage[0].name);
+			const listHeader = screen.getByTestId('list-header', { exact: false });
+			userEvent.click(within(listHeader).getByTestId('icon: DownloadOutline'));
+			await waitFor(() => expect(URL.createObjectURL).toHaveBeenCalled());
+			expect(HTMLAnchorElement.prototype.click).toHaveBeenCalled();
+			const csv = await readBlob((URL.createObjectURL as jest.Mock).mock.calls[0][0]);
+			const rows = csv.split('\r\n');
+			expect(rows).toHaveLength(firstPage.length + secondPage.length + 1);
+			expect(rows[0]).toBe('Path,Owner,Last editor,Size (bytes),Type,Created at,Updated at,Shares');
+			expect(rows[firstPage.length + 2]).toContain(`/${secondPage[1].name}`);
+			expect(screen.queryByTestId('export-progress')).not.toBeInTheDocument();
+		});
+
+		test('export can be cancelled while pages are loading', async () => {
+			const nodes = populateNodes(NODES_LOAD_LIMIT);
+			const exportVariables = getFindNodesVariables({
+				flagged: true,
+				shares_limit: FULL_SHARES_LOAD_LIMIT
+			});
+			const mocks = [
+				mockFindNodes(getFindNodesVariables({ flagged: true }), nodes),
+				{ ...mockFindNodes(exportVariables, nodes), delay: 1000 }
+			];
+
+			render(<FilterList flagged />, { mocks });
+
+			await screen.findByText(nodes[0].name);
+			const listHeader = screen.getByTestId('list-header', { exact: false });
+			userEvent.click(within(listHeader).getByTestId('icon: DownloadOutline'));
+			const exportProgress = await screen.findByTestId('export-progress');
+			userEvent.click(within(exportProgress).getByTestId('icon: CloseOutline'));
+			await waitForElementToBeRemoved(exportProgress);
+			expect(within(listHeader).getByTestId('icon: DownloadOutline')).toBeVisible();
+			expect(URL.createObjectURL).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Keyboard navigation', () => {
+		test('arrows move the focus between the nodes of the list, only the focused one is reachable with tab', async () => {
+			const nodes = populateNodes(3);
+			const mocks = [mockFindNodes(getFindNodesVariables({ flagged: true }), nodes)];
+
+			render(<FilterList flagged />, { mocks });
+
+			await screen.findByText(nodes[0].name);
+			const firstItem = screen.getByTestId(`node-item-${nodes[0].id}`);
+			expect(firstItem).toHaveAttribute('tabindex', '0');
+			expect(screen.getByTestId(`node-item-${nodes[1].id}`)).toHaveAttribute('tabindex', '-1');
+			act(() => {
+				firstItem.focus();
+			});
+			fireEvent.keyDown(firstItem, { key: 'ArrowDown' });
+			expect(screen.getByTestId(`node-item-${nodes[1].id}`)).toHaveFocus();
+			expect(screen.getByTestId(`node-item-${nodes[1].id}`)).toHaveAttribute('tabindex', '0');
+			expect(firstItem).toHaveAttribute('tabindex', '-1');
+			fireEvent.keyDown(screen.getByTestId(`node-item-${nodes[1].id}`), { key: 'End' });
+			expect(screen.getByTestId(`node-item-${nodes[2].id}`)).toHaveFocus();
+			fireEvent.keyDown(screen.getByTestId(`node-item-${nodes[2].id}`), { key: 'ArrowUp' });
+			expect(screen.getByTestId(`node-item-${nodes[1].id}`)).toHaveFocus();
+		});
+	});
+	describe('View mode', () => {
+		beforeEach(() => {
+			listPreferencesVar({});
+			window.localStorage.clear();
+		});
+
+		test('grid view shows the nodes as tiles, keeps the selection and is remembered', async () => {
+			const nodes = populateNodes(3);
+			const mocks = [mockFindNodes(getFindNodesVariables({ flagged: true }), nodes)];
+
+			render(<FilterList flagged />, { mocks });
+
+			await screen.findByText(nodes[0].name);
+			expect(screen.queryByTestId('grid-view')).not.toBeInTheDocument();
+			userEvent.click(screen.getByTestId('icon: ListOutline'));
+			userEvent.click(await screen.findByText(/grid view/i));
+			const gridView = screen.getByTestId('grid-view');
+			expect(within(gridView).getByText(nodes[0].name)).toBeVisible();
+			expect(within(gridView).getByText(nodes[2].name)).toBeVisible();
+			expect(screen.getByTestId('icon: GridOutline')).toBeVisible();
+			// lists which do not show a folder share the same entry
+			expect(
+				JSON.parse(
+					window.localStorage.getItem(`${LIST_PREFERENCES_STORAGE_KEY}-${LOGGED_USER.id}`) || ''
+				)
+			).toEqual({ default: {}, folders: { '': { viewMode: ViewMode.Grid } } });
+			fireEvent.click(screen.getByTestId(`node-item-${nodes[1].id}`), { ctrlKey: true });
+			expect(screen.getByTestId('checkedAvatar')).toBeVisible();
+			userEvent.click(screen.getByTestId('icon: GridOutline'));
+			userEvent.click(await screen.findByText(/list view/i));
+			expect(screen.queryByTestId('grid-view')).not.toBeInTheDocument();
+			expect(screen.getByTestId('checkedAvatar')).toBeVisible();
+		});
+	});
 });
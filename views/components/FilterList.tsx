@@ -7,12 +7,14 @@
 import React, { useMemo } from 'react';
 
 import filter from 'lodash/filter';
+import map from 'lodash/map';
 import { useTranslation } from 'react-i18next';
 
 import { ROOTS } from '../../constants';
 import { useFindNodesQuery } from '../../hooks/graphql/queries/useFindNodesQuery';
-import { Crumb, NodeListItemType } from '../../types/common';
+import { Crumb, NodeListItemType, SearchParams } from '../../types/common';
 import { NonNullableListItem, Unwrap } from '../../types/utils';
+import { ExportNodesButton } from './ExportNodesButton';
 import { List } from './List';
 
 interface FilterListProps {
@@ -34,20 +36,25 @@ const FilterList: React.VFC<FilterListProps> = ({
 	cascade,
 	directShare
 }) => {
+	const findNodesParams = useMemo<SearchParams>(
+		() => ({
+			flagged,
+			sharedByMe,
+			sharedWithMe,
+			folderId:
+				(trashed === true && ROOTS.TRASH) || (trashed === false && ROOTS.LOCAL_ROOT) || undefined,
+			cascade,
+			directShare
+		}),
+		[cascade, directShare, flagged, sharedByMe, sharedWithMe, trashed]
+	);
+
 	const {
 		data: findNodesResult,
 		loading,
 		hasMore,
 		loadMore
-	} = useFindNodesQuery({
-		flagged,
-		sharedByMe,
-		sharedWithMe,
-		folderId:
-			(trashed === true && ROOTS.TRASH) || (trashed === false && ROOTS.LOCAL_ROOT) || undefined,
-		cascade,
-		directShare
-	});
+	} = useFindNodesQuery(findNodesParams);
 
 	const [t] = useTranslation();
 
@@ -128,6 +135,17 @@ const FilterList: React.VFC<FilterListProps> = ({
 			canUpload={canUploadFile}
 			mainList={false}
 			emptyListMessage={emptyListMessage}
+			headerActions={
+				nodes.length > 0 ? (
+					<ExportNodesButton
+						params={findNodesParams}
+						fileName={`${
+							map(crumbs, (crumb) => crumb.label).join(' - ') ||
+							t('export.fileName.filter', 'filter-results')
+						}.csv`}
+					/>
+				) : undefined
+			}
 		/>
 	);
 };
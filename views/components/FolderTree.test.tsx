@@ -0,0 +1,103 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { LOGGED_USER } from '../../../mocks/constants';
+import { expandedFoldersVar } from '../../apollo/expandedFoldersVar';
+import { EXPANDED_FOLDERS_STORAGE_KEY, ROOTS } from '../../constants';
+import {
+	populateFile,
+	populateFolder,
+	populateLocalRoot,
+	populateNodePage
+} from '../../mocks/mockUtils';
+import { getChildrenVariables, mockGetChildren } from '../../utils/mockUtils';
+import { render } from '../../utils/testUtils';
+import { FolderTree } from './FolderTree';
+
+describe('Folder Tree', () => {
+	beforeEach(() => {
+		expandedFoldersVar({});
+		window.localStorage.clear();
+	});
+
+	test('only folders are shown and subfolders are loaded when they are expanded', async () => {
+		const localRoot = populateLocalRoot();
+		const folder = populateFolder(0, 'folder1', 'folder1');
+		const subFolder = populateFolder(0, 'subFolder1', 'subFolder1');
+		const file = populateFile('file1', 'file1');
+		localRoot.children = populateNodePage([folder, file]);
+		folder.children = populateNodePage([subFolder]);
+		const mocks = [
+			mockGetChildren(getChildrenVariables(localRoot.id), localRoot),
+			mockGetChildren(getChildrenVariables(folder.id), folder)
+		];
+
+		render(<FolderTree folderId={localRoot.id} />, { mocks });
+
+		const folderItem = await screen.findByTestId(`folder-tree-item-${folder.id}`);
+		expect(within(folderItem).getByText(folder.name)).toBeVisible();
+		expect(screen.queryByText(file.name)).not.toBeInTheDocument();
+		expect(screen.queryByText(subFolder.name)).not.toBeInTheDocument();
+
+		userEvent.click(within(folderItem).getByRole('button', { expanded: false }));
+		expect(await screen.findByText(subFolder.name)).toBeVisible();
+		expect(
+			JSON.parse(
+				window.localStorage.getItem(`${EXPANDED_FOLDERS_STORAGE_KEY}-${LOGGED_USER.id}`) || ''
+			)
+		).toEqual([folder.id]);
+
+		userEvent.click(within(folderItem).getByRole('button', { expanded: true }));
+		expect(screen.queryByText(subFolder.name)).not.toBeInTheDocument();
+		expect(expandedFoldersVar()[LOGGED_USER.id]).toEqual([]);
+	});
+
+	test('the folders expanded in a previous session are expanded again', async () => {
+		const localRoot = populateLocalRoot();
+		const folder = populateFolder(0, 'folder1', 'folder1');
+		const subFolder = populateFolder(0, 'subFolder1', 'subFolder1');
+		localRoot.children = populateNodePage([folder]);
+		folder.children = populateNodePage([subFolder]);
+		window.localStorage.setItem(
+			`${EXPANDED_FOLDERS_STORAGE_KEY}-${LOGGED_USER.id}`,
+			JSON.stringify([folder.id])
+		);
+		const mocks = [
+			mockGetChildren(getChildrenVariables(localRoot.id), localRoot),
+			mockGetChildren(getChildrenVariables(folder.id), folder)
+		];
+
+		render(<FolderTree folderId={ROOTS.LOCAL_ROOT} />, { mocks });
+
+		expect(await screen.findByText(subFolder.name)).toBeVisible();
+	});
+
+	test('the current folder is highlighted', async () => {
+		const localRoot = populateLocalRoot();
+		const folder = populateFolder(0, 'folder1', 'folder1');
+		const otherFolder = populateFolder(0, 'folder2', 'folder2');
+		localRoot.children = populateNodePage([folder, otherFolder]);
+		const mocks = [mockGetChildren(getChildrenVariables(localRoot.id), localRoot)];
+
+		render(<FolderTree folderId={localRoot.id} />, {
+			mocks,
+			initialRouterEntries: [`/?folder=${folder.id}`]
+		});
+
+		expect(await screen.findByTestId(`folder-tree-item-${folder.id}`)).toHaveAttribute(
+			'aria-current',
+			'page'
+		);
+		expect(screen.getByTestId(`folder-tree-item-${otherFolder.id}`)).not.toHaveAttribute(
+			'aria-current'
+		);
+	});
+});
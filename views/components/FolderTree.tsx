@@ -0,0 +1,198 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import {
+	Button,
+	Container,
+	getColor,
+	Icon,
+	IconButton,
+	Row,
+	Text
+} from '@zextras/carbonio-design-system';
+import filter from 'lodash/filter';
+import includes from 'lodash/includes';
+import map from 'lodash/map';
+import { useTranslation } from 'react-i18next';
+import styled from 'styled-components';
+
+import { useNavigation } from '../../../hooks/useNavigation';
+import { DRAG_TYPES } from '../../constants';
+import { useGetChildrenQuery } from '../../hooks/graphql/queries/useGetChildrenQuery';
+import { useExpandedFolders } from '../../hooks/useExpandedFolders';
+import { useFolderDrop } from '../../hooks/useFolderDrop';
+import useQueryParam from '../../hooks/useQueryParam';
+import { NodeListItemType } from '../../types/common';
+import { isFolder } from '../../utils/ActionsFactory';
+import { Dropzone } from './Dropzone';
+
+// the indentation changes with the depth of the folder, so it is set as style
+const FolderTreeRow = styled(Row).attrs<{ $level: number; $active: boolean }>(({ $level }) => ({
+	style: { paddingLeft: `${$level}rem` }
+}))<{ $level: number; $active: boolean }>`
+	cursor: pointer;
+	background-color: ${({ theme, $active }): string =>
+		$active ? getColor('highlight', theme) : 'inherit'};
+	&:hover {
+		background-color: ${({ theme }): string => getColor('gray5.hover', theme)};
+	}
+`;
+
+interface FolderTreeItemProps {
+	folder: NodeListItemType;
+	level: number;
+}
+
+const FolderTreeItem: React.VFC<FolderTreeItemProps> = ({ folder, level }) => {
+	const { navigateToFolder } = useNavigation();
+	const { expandedFolderIds, setFolderExpanded } = useExpandedFolders();
+	const currentFolderId = useQueryParam('folder');
+	const { getDropState, drop } = useFolderDrop(folder);
+	const [dropEnabled, setDropEnabled] = useState(false);
+	const [dropAction, setDropAction] = useState<typeof DataTransfer.prototype.dropEffect>('none');
+	// timer to expand the folder while dragging over it
+	const expandTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+	useEffect(
+		() => (): void => {
+			// clear timers on component unmount
+			expandTimerRef.current && clearTimeout(expandTimerRef.current);
+		},
+		[]
+	);
+
+	const expanded = useMemo(
+		() => includes(expandedFolderIds, folder.id),
+		[expandedFolderIds, folder.id]
+	);
+
+	const toggleExpanded = useCallback(
+		(event: React.SyntheticEvent) => {
+			event.stopPropagation();
+			setFolderExpanded(folder.id, !expanded);
+		},
+		[expanded, folder.id, setFolderExpanded]
+	);
+
+	const clickHandler = useCallback(() => {
+		navigateToFolder(folder.id);
+	}, [folder.id, navigateToFolder]);
+
+	const dragEnterHandler = useCallback<React.DragEventHandler>(
+		(event) => {
+			expandTimerRef.current && clearTimeout(expandTimerRef.current);
+			const { effect, enabled } = getDropState(event);
+			setDropAction(effect);
+			setDropEnabled(enabled);
+			if (enabled && !expanded) {
+				expandTimerRef.current = setTimeout(() => {
+					setFolderExpanded(folder.id, true);
+				}, 1500);
+			}
+		},
+		[expanded, folder.id, getDropState, setFolderExpanded]
+	);
+
+	const dragLeaveHandler = useCallback(() => {
+		expandTimerRef.current && clearTimeout(expandTimerRef.current);
+	}, []);
+
+	const dropHandler = useCallback<React.DragEventHandler>(
+		(event) => {
+			expandTimerRef.current && clearTimeout(expandTimerRef.current);
+			if (dropEnabled) {
+				drop(event);
+			}
+		},
+		[drop, dropEnabled]
+	);
+
+	return (
+		<Container height="fit" mainAlignment="flex-start">
+			<Dropzone
+				onDrop={dropHandler}
+				onDragEnter={dragEnterHandler}
+				onDragLeave={dragLeaveHandler}
+				disabled={!dropEnabled}
+				effect={dropAction}
+				types={[DRAG_TYPES.upload, DRAG_TYPES.move]}
+			>
+				{(): JSX.Element => (
+					<FolderTreeRow
+						$level={level}
+						$active={folder.id === currentFolderId}
+						width="fill"
+						height="2.5rem"
+						mainAlignment="flex-start"
+						wrap="nowrap"
+						gap="0.5rem"
+						onClick={clickHandler}
+						aria-current={folder.id === currentFolderId ? 'page' : undefined}
+						data-testid={`folder-tree-item-${folder.id}`}
+					>
+						<IconButton
+							icon={expanded ? 'ChevronDown' : 'ChevronRight'}
+							size="small"
+							onClick={toggleExpanded}
+							aria-expanded={expanded}
+						/>
+						<Icon icon={expanded ? 'FolderOpen' : 'Folder'} size="large" color="secondary" />
+						<Text overflow="ellipsis">{folder.name}</Text>
+					</FolderTreeRow>
+				)}
+			</Dropzone>
+			{expanded && <FolderTree folderId={folder.id} level={level + 1} />}
+		</Container>
+	);
+};
+
+interface FolderTreeProps {
+	/** id of the folder whose subfolders are listed */
+	folderId: string;
+	/** depth of the subfolders in the tree, used for the indentation */
+	level?: number;
+}
+
+/**
+ * Subfolders of a folder, shown as an expandable tree.
+ * The subfolders of each folder are loaded only once the folder is expanded.
+ */
+export const FolderTree: React.VFC<FolderTreeProps> = ({ folderId, level = 1 }) => {
+	const [t] = useTranslation();
+	// the children are shared with the list, so the tree gets the same cache updates
+	const { data, hasMore, loadMore } = useGetChildrenQuery(folderId);
+
+	const folders = useMemo(
+		() =>
+			data?.getNode && isFolder(data.getNode)
+				? filter(
+						data.getNode.children?.nodes,
+						(child): child is NodeListItemType => !!child && isFolder(child)
+				  )
+				: [],
+		[data]
+	);
+
+	return (
+		<Container height="fit" mainAlignment="flex-start" data-testid={`folder-tree-${folderId}`}>
+			{map(folders, (folder) => (
+				<FolderTreeItem key={folder.id} folder={folder} level={level} />
+			))}
+			{hasMore && (
+				<Row width="fill" mainAlignment="flex-start" padding={{ left: `${level + 2}rem` }}>
+					<Button
+						type="ghost"
+						color="secondary"
+						label={t('secondaryBar.folderTree.loadMore', 'Show more')}
+						onClick={loadMore}
+					/>
+				</Row>
+			)}
+		</Container>
+	);
+};
@@ -11,6 +11,7 @@ import { act, fireEvent, screen, waitFor, waitForElementToBeRemoved } from '@tes
 import userEvent from '@testing-library/user-event';
 import forEach from 'lodash/forEach';
 import map from 'lodash/map';
+import times from 'lodash/times';
 
 import { UseNavigationHook } from '../../../hooks/useNavigation';
 import { draggedItemsVar } from '../../apollo/dragAndDropVar';
@@ -21,11 +22,27 @@ import {
 	populateParents,
 	populateUser
 } from '../../mocks/mockUtils';
-import { Node } from '../../types/graphql/types';
-import { mockGetParent, mockGetPath, mockMoveNodes } from '../../utils/mockUtils';
+import { Node, NodeType } from '../../types/graphql/types';
+import {
+	getFindNodesVariables,
+	Mock,
+	mockFindNodes,
+	mockGetParent,
+	mockGetPath,
+	mockMoveNodes
+} from '../../utils/mockUtils';
 import { buildBreadCrumbRegExp, render } from '../../utils/testUtils';
 import { HeaderBreadcrumbs } from './HeaderBreadcrumbs';
 
+const mockFindChildFolders = (
+	folder: Pick<Node, 'id'>,
+	childFolders: Node[]
+): ReturnType<typeof mockFindNodes> =>
+	mockFindNodes(
+		getFindNodesVariables({ folder_id: folder.id, cascade: false, type: NodeType.Folder }),
+		childFolders
+	);
+
 let mockedUseNavigationHook: ReturnType<UseNavigationHook>;
 
 jest.mock('../../../hooks/useNavigation', () => ({
@@ -918,4 +935,148 @@ describe('Header Breadcrumbs', () => {
 			expect(moveMutationFn).not.toHaveBeenCalled();
 		});
 	});
+
+	describe('Path input', () => {
+		function getPathMocks(): {
+			currentFolder: Node;
+			path: Node[];
+			sibling: Node;
+			mocks: Mock[];
+		} {
+			const { node: currentFolder, path } = populateParents(populateFolder(), 2);
+			const sibling = populateFolder(0, 'sibling-id', 'sibling');
+			const mocks = [
+				mockGetParent({ node_id: currentFolder.id }, currentFolder),
+				mockGetPath({ node_id: currentFolder.id }, path),
+				// children are not cached, so they are requested again each time the parent path changes
+				...times(4, () => mockFindChildFolders(path[0], [path[1], sibling])),
+				mockFindChildFolders(path[1], [currentFolder]),
+				mockFindChildFolders(currentFolder, []),
+				mockFindChildFolders(sibling, [])
+			];
+			return { currentFolder, path, sibling, mocks };
+		}
+
+		test('a click on the bar shows the path and suggests child folders while typing', async () => {
+			const { currentFolder, path, sibling, mocks } = getPathMocks();
+			render(<HeaderBreadcrumbs folderId={currentFolder.id} />, { mocks });
+			await screen.findByText(currentFolder.name);
+
+			userEvent.click(screen.getByTestId('breadcrumbs-bar'));
+			const input = screen.getByRole('textbox');
+			await waitFor(() =>
+				expect(input).toHaveValue(`${map(path, (node) => node.name).join('/')}/`)
+			);
+			userEvent.clear(input);
+			userEvent.type(input, `${path[0].name}/`);
+			expect(await screen.findByRole('option', { name: path[1].name })).toBeVisible();
+			expect(screen.getByRole('option', { name: sibling.name })).toBeVisible();
+			userEvent.type(input, 'sib');
+			await waitFor(() =>
+				expect(screen.queryByRole('option', { name: path[1].name })).not.toBeInTheDocument()
+			);
+			userEvent.tab();
+			expect(input).toHaveValue(`${path[0].name}/${sibling.name}/`);
+			userEvent.type(input, '{enter}');
+			await waitFor(() =>
+				expect(mockedUseNavigationHook.navigateToFolder).toHaveBeenCalledWith(sibling.id)
+			);
+			expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+		});
+
+		test('an unknown path shows an error and escape restores the breadcrumbs', async () => {
+			const { currentFolder, mocks } = getPathMocks();
+			render(<HeaderBreadcrumbs folderId={currentFolder.id} />, { mocks });
+			await screen.findByText(currentFolder.name);
+
+			userEvent.click(screen.getByTestId('breadcrumbs-bar'));
+			const input = screen.getByRole('textbox');
+			userEvent.clear(input);
+			userEvent.type(input, 'unknown/folder{enter}');
+			expect(screen.getByText('Folder not found')).toBeVisible();
+			expect(mockedUseNavigationHook.navigateToFolder).not.toHaveBeenCalled();
+			userEvent.type(input, '{esc}');
+			expect(await screen.findByText(currentFolder.name)).toBeVisible();
+			expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+		});
+
+		test('a slash inside a folder name is escaped', async () => {
+			const { node: currentFolder, path } = populateParents(populateFolder(), 1);
+			const folder = populateFolder(0, undefined, 'first/second');
+			const mocks = [
+				mockGetParent({ node_id: currentFolder.id }, currentFolder),
+				mockGetPath({ node_id: currentFolder.id }, path),
+				...times(4, () => mockFindChildFolders(path[0], [currentFolder, folder])),
+				mockFindChildFolders(currentFolder, []),
+				mockFindChildFolders(folder, [])
+			];
+			render(<HeaderBreadcrumbs folderId={currentFolder.id} />, { mocks });
+			await screen.findByText(currentFolder.name);
+
+			userEvent.click(screen.getByTestId('breadcrumbs-bar'));
+			const input = screen.getByRole('textbox');
+			await waitFor(() => expect(input).toHaveValue(`${path[0].name}/${currentFolder.name}/`));
+			userEvent.clear(input);
+			userEvent.type(input, `${path[0].name}/`);
+			userEvent.click(await screen.findByRole('option', { name: folder.name }));
+			expect(input).toHaveValue(`${path[0].name}/first\\/second/`);
+			userEvent.type(input, '{enter}');
+			await waitFor(() =>
+				expect(mockedUseNavigationHook.navigateToFolder).toHaveBeenCalledWith(folder.id)
+			);
+		});
+
+		test('folders with the same path are suggested once and cannot be opened', async () => {
+			const { node: currentFolder, path } = populateParents(populateFolder(), 1);
+			const folders = [populateFolder(0, undefined, 'same'), populateFolder(0, undefined, 'same')];
+			const mocks = [
+				mockGetParent({ node_id: currentFolder.id }, currentFolder),
+				mockGetPath({ node_id: currentFolder.id }, path),
+				...times(3, () => mockFindChildFolders(path[0], [currentFolder, ...folders])),
+				mockFindChildFolders(currentFolder, [])
+			];
+			render(<HeaderBreadcrumbs folderId={currentFolder.id} />, { mocks });
+			await screen.findByText(currentFolder.name);
+
+			userEvent.click(screen.getByTestId('breadcrumbs-bar'));
+			const input = screen.getByRole('textbox');
+			await waitFor(() => expect(input).toHaveValue(`${path[0].name}/${currentFolder.name}/`));
+			userEvent.clear(input);
+			userEvent.type(input, `${path[0].name}/`);
+			expect(await screen.findByRole('option', { name: 'same' })).toBeVisible();
+			expect(screen.getAllByRole('option', { name: 'same' })).toHaveLength(1);
+			userEvent.type(input, 'same{enter}');
+			expect(await screen.findByText('More folders have this path')).toBeVisible();
+			expect(mockedUseNavigationHook.navigateToFolder).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Sibling folders', () => {
+		test('the hidden crumbs of the collapsed breadcrumb list the sibling folders', async () => {
+			const { node: currentFolder, path } = populateParents(populateFolder(), 2);
+			const sibling = populateFolder(0, undefined, 'sibling');
+			const mocks = [
+				mockGetParent({ node_id: currentFolder.id }, currentFolder),
+				mockGetPath({ node_id: currentFolder.id }, path),
+				mockFindChildFolders(path[0], [path[1], sibling])
+			];
+			render(<HeaderBreadcrumbs folderId={currentFolder.id} />, { mocks });
+			await screen.findByText(currentFolder.name);
+			// the breadcrumb is not expanded, so only the parent and the current folder are shown
+			expect(screen.queryByText(path[0].name)).not.toBeInTheDocument();
+
+			const breadcrumbsComponent = screen.getByTestId('customBreadcrumbs');
+			jest.spyOn(breadcrumbsComponent, 'offsetWidth', 'get').mockReturnValue(450);
+			jest.spyOn(breadcrumbsComponent, 'scrollWidth', 'get').mockReturnValue(500);
+			act(() => {
+				window.resizeTo(500, 300);
+			});
+
+			userEvent.click(await screen.findByText('…'));
+			const parentItem = await screen.findByText(path[1].name);
+			userEvent.hover(parentItem);
+			userEvent.click(await screen.findByText(sibling.name));
+			expect(mockedUseNavigationHook.navigateToFolder).toHaveBeenCalledWith(sibling.id);
+		});
+	});
 });
@@ -4,17 +4,20 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 
 import { getColor, Icon, Row, Tooltip } from '@zextras/carbonio-design-system';
 import { useTranslation } from 'react-i18next';
 import styled, { css, FlattenSimpleInterpolation } from 'styled-components';
 
 import { useNavigation } from '../../../hooks/useNavigation';
+import { draggedItemsVar } from '../../apollo/dragAndDropVar';
 import useBreadcrumb from '../../hooks/useBreadcrumb';
 import { useDroppableCrumbs } from '../../hooks/useDroppableCrumbs';
+import { useSiblingCrumbs } from '../../hooks/useSiblingCrumbs';
 import { Crumb } from '../../types/common';
 import { InteractiveBreadcrumbs } from '../InteractiveBreadcrumbs';
+import { PathInput } from './PathInput';
 import { OverFlowHiddenRow } from './StyledComponents';
 
 const Cta = styled(Row)`
@@ -37,6 +40,7 @@ export interface HeaderBreadcrumbsProps {
 export const HeaderBreadcrumbs: React.VFC<HeaderBreadcrumbsProps> = ({ folderId, crumbs }) => {
 	const { navigateToFolder } = useNavigation();
 	const [t] = useTranslation();
+	const [editingPath, setEditingPath] = useState(false);
 
 	const { data, toggleExpanded, loading, error, expanded, expandable, loadPath } = useBreadcrumb(
 		folderId,
@@ -51,6 +55,12 @@ export const HeaderBreadcrumbs: React.VFC<HeaderBreadcrumbsProps> = ({ folderId,
 		dropdownProps
 	} = useDroppableCrumbs(data, folderId);
 
+	const { data: siblingsCrumbs, loadSiblings } = useSiblingCrumbs(
+		droppableCrumbs,
+		folderId,
+		navigateToFolder
+	);
+
 	const ctaDragEnterHandler = useCallback(() => {
 		if (!expanded) {
 			loadPath();
@@ -59,9 +69,13 @@ export const HeaderBreadcrumbs: React.VFC<HeaderBreadcrumbsProps> = ({ folderId,
 
 	const onDropdownOpen = useCallback(() => {
 		dropdownProps.onOpen && dropdownProps.onOpen();
+		// siblings are not useful as destinations of a drop, so they are loaded only on a click
+		if (!draggedItemsVar()) {
+			loadSiblings();
+		}
 		const collapser = document.querySelector('.breadcrumbCollapser');
 		collapser && collapser.classList.add('active');
-	}, [dropdownProps]);
+	}, [dropdownProps, loadSiblings]);
 
 	const onDropdownClose = useCallback(() => {
 		dropdownProps.onClose && dropdownProps.onClose();
@@ -69,6 +83,30 @@ export const HeaderBreadcrumbs: React.VFC<HeaderBreadcrumbsProps> = ({ folderId,
 		collapser && collapser.classList.remove('active');
 	}, [dropdownProps]);
 
+	const barClickHandler = useCallback(
+		(event: React.MouseEvent<HTMLElement>) => {
+			// crumbs and collapser keep their own click, the rest of the bar switches to the path input.
+			// Clicks on the items of the dropdown, which is in a portal, are excluded too
+			const target = event.target as HTMLElement;
+			if (
+				folderId &&
+				event.currentTarget.contains(target) &&
+				!target.closest('.breadcrumbCrumb, .breadcrumbCollapser')
+			) {
+				setEditingPath(true);
+			}
+		},
+		[folderId]
+	);
+
+	const closePathInput = useCallback(() => {
+		setEditingPath(false);
+	}, []);
+
+	if (folderId && editingPath) {
+		return <PathInput folderId={folderId} onClose={closePathInput} />;
+	}
+
 	return (
 		<Row
 			wrap="nowrap"
@@ -100,10 +138,17 @@ export const HeaderBreadcrumbs: React.VFC<HeaderBreadcrumbsProps> = ({ folderId,
 					</Cta>
 				</Tooltip>
 			)}
-			<OverFlowHiddenRow minWidth="0" width="fill" maxWidth="100%" mainAlignment="flex-start">
+			<OverFlowHiddenRow
+				minWidth="0"
+				width="fill"
+				maxWidth="100%"
+				mainAlignment="flex-start"
+				onClick={barClickHandler}
+				data-testid="breadcrumbs-bar"
+			>
 				{data && (
 					<InteractiveBreadcrumbs
-						crumbs={droppableCrumbs}
+						crumbs={siblingsCrumbs}
 						collapserProps={collapserProps}
 						dropdownProps={{ ...dropdownProps, onOpen: onDropdownOpen, onClose: onDropdownClose }}
 						data-testid="customBreadcrumbs"
@@ -0,0 +1,37 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useMemo } from 'react';
+
+import map from 'lodash/map';
+import styled from 'styled-components';
+
+import { getHighlightedChunks } from '../../utils/utils';
+
+const Mark = styled.mark`
+	background-color: ${({ theme }): string => theme.palette.highlight.regular};
+	color: inherit;
+`;
+
+interface HighlightedTextProps {
+	text: string;
+	keywords: string[];
+}
+
+/**
+ * Render the text highlighting the parts which match the keywords
+ */
+export const HighlightedText: React.VFC<HighlightedTextProps> = ({ text, keywords }) => {
+	const chunks = useMemo(() => getHighlightedChunks(text, keywords), [keywords, text]);
+
+	return (
+		<>
+			{map(chunks, (chunk, index) =>
+				chunk.highlighted ? <Mark key={`${index}-${chunk.text}`}>{chunk.text}</Mark> : chunk.text
+			)}
+		</>
+	);
+};
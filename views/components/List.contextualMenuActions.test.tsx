@@ -512,7 +512,7 @@ describe('Contextual menu actions', () => {
 
 			expect(screen.queryByText(actionRegexp.openDocument)).not.toBeInTheDocument();
 			expect(screen.queryByText(actionRegexp.rename)).not.toBeInTheDocument();
-			expect(screen.queryByText(actionRegexp.download)).not.toBeInTheDocument();
+			expect(screen.getByText(actionRegexp.download)).toBeVisible();
 			expect(screen.queryByText(actionRegexp.unflag)).not.toBeInTheDocument();
 
 			const copyAction = await screen.findByText(actionRegexp.copy);
@@ -567,7 +567,7 @@ describe('Contextual menu actions', () => {
 
 			expect(screen.queryByText(actionRegexp.openDocument)).not.toBeInTheDocument();
 			expect(screen.queryByText(actionRegexp.rename)).not.toBeInTheDocument();
-			expect(screen.queryByText(actionRegexp.download)).not.toBeInTheDocument();
+			expect(screen.getByText(actionRegexp.download)).toBeVisible();
 			expect(screen.queryByText(actionRegexp.unflag)).not.toBeInTheDocument();
 
 			// right click on unSelected node close open contextual menu
@@ -0,0 +1,280 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import React from 'react';
+
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { rest } from 'msw';
+
+import server from '../../../mocks/server';
+import { downloadVar } from '../../apollo/downloadVar';
+import {
+	DOWNLOAD_ARCHIVE_PATH,
+	DOWNLOAD_IN_MEMORY_MAX_SIZE,
+	DOWNLOAD_PATH,
+	REST_ENDPOINT
+} from '../../constants';
+import { SaveFileHandle } from '../../hooks/useDownload';
+import handleDownloadArchiveRequest from '../../mocks/handleDownloadArchiveRequest';
+import { populateFile, populateFolder } from '../../mocks/mockUtils';
+import { Node } from '../../types/common';
+import { actionRegexp, render, selectNodes } from '../../utils/testUtils';
+import { DownloadTray } from './DownloadTray';
+import { List } from './List';
+
+// the tray is rendered once for the whole app, outside of the views
+const ListWithTray = (props: React.ComponentProps<typeof List>): JSX.Element => (
+	<>
+		<List {...props} />
+		<DownloadTray />
+	</>
+);
+
+/**
+ * Emulate the choice of the file in which a streamed download is saved.
+ * Return the chunks written in the file
+ */
+function mockSaveFilePicker(): Array<Uint8Array | Blob> {
+	const written: Array<Uint8Array | Blob> = [];
+	const fileHandle: SaveFileHandle = {
+		createWritable: () =>
+			Promise.resolve({
+				getWriter: () => ({
+					write: (chunk: Uint8Array | Blob): Promise<void> => {
+						written.push(chunk);
+						return Promise.resolve();
+					},
+					close: (): Promise<void> => Promise.resolve(),
+					abort: (): Promise<void> => Promise.resolve()
+				})
+			} as unknown as WritableStream<Uint8Array | Blob>)
+	};
+	Object.defineProperty(window, 'showSaveFilePicker', {
+		value: jest.fn(() => Promise.resolve(fileHandle)),
+		configurable: true
+	});
+	return written;
+}
+
+describe('Download', () => {
+	beforeEach(() => {
+		downloadVar({});
+		// jsdom does not implement object urls and navigation
+		window.URL.createObjectURL = jest.fn(() => 'blob:archive');
+		window.URL.revokeObjectURL = jest.fn();
+		jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+		delete (window as Window & { showSaveFilePicker?: unknown }).showSaveFilePicker;
+	});
+
+	test('Download of multiple nodes streams a single archive in the chosen file', async () => {
+		const file = populateFile();
+		const folder = populateFolder();
+		const written = mockSaveFilePicker();
+		const requestedIds = jest.fn();
+		server.use(
+			rest.get(`${REST_ENDPOINT}${DOWNLOAD_ARCHIVE_PATH}`, (req, res, ctx) => {
+				requestedIds(req.url.searchParams.getAll('node_id'));
+				return handleDownloadArchiveRequest(req, res, ctx);
+			})
+		);
+
+		render(
+			<ListWithTray nodes={[file, folder] as Array<Node>} mainList emptyListMessage="empty list" />
+		);
+
+		selectNodes([file.id, folder.id]);
+		fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+		userEvent.click(await screen.findByText(actionRegexp.download));
+
+		const tray = await screen.findByTestId('download-tray');
+		expect(within(tray).getByText(/files .+\.zip/i)).toBeVisible();
+		await within(tray).findByText(/^completed - /i);
+		expect(requestedIds).toHaveBeenCalledWith([file.id, folder.id]);
+		expect(written).not.toHaveLength(0);
+		// the archive is never kept in memory
+		expect(window.URL.createObjectURL).not.toHaveBeenCalled();
+		expect(screen.queryByTestId('checkedAvatar')).not.toBeInTheDocument();
+	});
+
+	test('Download of a folder without file picker hands the archive to the browser', async () => {
+		const folder = populateFolder();
+		const requests = jest.fn();
+		server.use(
+			rest.get(`${REST_ENDPOINT}${DOWNLOAD_ARCHIVE_PATH}`, (req, res, ctx) => {
+				requests();
+				return handleDownloadArchiveRequest(req, res, ctx);
+			})
+		);
+
+		render(<ListWithTray nodes={[folder]} mainList emptyListMessage="empty list" />);
+
+		fireEvent.contextMenu(screen.getByTestId(`node-item-${folder.id}`));
+		userEvent.click(await screen.findByText(actionRegexp.download));
+
+		const tray = await screen.findByTestId('download-tray');
+		expect(within(tray).getByText(`${folder.name}.zip`)).toBeVisible();
+		expect(within(tray).getByText(/downloading in the browser/i)).toBeVisible();
+		const link = (HTMLAnchorElement.prototype.click as jest.Mock).mock
+			.instances[0] as HTMLAnchorElement;
+		expect(link.href).toContain(`${DOWNLOAD_ARCHIVE_PATH}?node_id=${folder.id}`);
+		expect(link.download).toBe(`${folder.name}.zip`);
+		expect(requests).not.toHaveBeenCalled();
+		userEvent.click(within(tray).getByTestId('icon: Close'));
+		await waitFor(() => expect(screen.queryByTestId('download-tray')).not.toBeInTheDocument());
+	});
+
+	test('Download of a single file in selection mode shows its progress in the tray', async () => {
+		const file = populateFile();
+		file.size = 'file content'.length;
+		server.use(
+			rest.get(`${REST_ENDPOINT}${DOWNLOAD_PATH}/:id`, (req, res, ctx) =>
+				res(ctx.set('Content-Type', 'text/plain'), ctx.body('file content'))
+			)
+		);
+
+		render(<ListWithTray nodes={[file]} mainList emptyListMessage="empty list" />);
+
+		selectNodes([file.id]);
+		fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+		userEvent.click(await screen.findByText(actionRegexp.download));
+
+		const tray = await screen.findByTestId('download-tray');
+		expect(within(tray).getByText(file.name)).toBeVisible();
+		await within(tray).findByText(/^completed - /i);
+		expect(window.URL.createObjectURL).toHaveBeenCalled();
+	});
+
+	test('Download of a big file without file picker hands the file to the browser', async () => {
+		const file = populateFile();
+		file.size = DOWNLOAD_IN_MEMORY_MAX_SIZE + 1;
+		const requests = jest.fn();
+		server.use(
+			rest.get(`${REST_ENDPOINT}${DOWNLOAD_PATH}/:id`, (req, res, ctx) => {
+				requests();
+				return res(ctx.body('file content'));
+			})
+		);
+
+		render(<ListWithTray nodes={[file]} mainList emptyListMessage="empty list" />);
+
+		fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+		userEvent.click(await screen.findByText(actionRegexp.download));
+
+		const tray = await screen.findByTestId('download-tray');
+		expect(within(tray).getByText(/downloading in the browser/i)).toBeVisible();
+		const link = (HTMLAnchorElement.prototype.click as jest.Mock).mock
+			.instances[0] as HTMLAnchorElement;
+		expect(link.href).toContain(`${DOWNLOAD_PATH}/${file.id}`);
+		expect(requests).not.toHaveBeenCalled();
+		expect(window.URL.createObjectURL).not.toHaveBeenCalled();
+	});
+
+	test('Download of a file of unknown size streams it in the chosen file', async () => {
+		const file = populateFile();
+		file.size = 0;
+		const written = mockSaveFilePicker();
+		server.use(
+			rest.get(`${REST_ENDPOINT}${DOWNLOAD_PATH}/:id`, (req, res, ctx) =>
+				res(ctx.body('file content'))
+			)
+		);
+
+		render(<ListWithTray nodes={[file]} mainList emptyListMessage="empty list" />);
+
+		fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+		userEvent.click(await screen.findByText(actionRegexp.download));
+
+		const tray = await screen.findByTestId('download-tray');
+		await within(tray).findByText(/^completed - /i);
+		expect(written).not.toHaveLength(0);
+		expect(window.URL.createObjectURL).not.toHaveBeenCalled();
+	});
+
+	test('A failed archive download shows the reason of the failure in the tray', async () => {
+		const file = populateFile();
+		const folder = populateFolder();
+		mockSaveFilePicker();
+		server.use(
+			rest.get(`${REST_ENDPOINT}${DOWNLOAD_ARCHIVE_PATH}`, (req, res, ctx) => res(ctx.status(500)))
+		);
+
+		render(
+			<ListWithTray nodes={[file, folder] as Array<Node>} mainList emptyListMessage="empty list" />
+		);
+
+		selectNodes([file.id, folder.id]);
+		fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+		userEvent.click(await screen.findByText(actionRegexp.download));
+
+		const tray = await screen.findByTestId('download-tray');
+		expect(await within(tray).findByText(/something went wrong/i)).toBeVisible();
+		expect(window.URL.createObjectURL).not.toHaveBeenCalled();
+	});
+
+	describe('Tray actions', () => {
+		test('A running download can be canceled and then retried', async () => {
+			const file = populateFile();
+			file.size = 'file content'.length;
+			const requests = jest.fn();
+			server.use(
+				rest.get(`${REST_ENDPOINT}${DOWNLOAD_PATH}/:id`, (req, res, ctx) => {
+					requests();
+					return res(ctx.delay(500), ctx.body('file content'));
+				})
+			);
+
+			render(<ListWithTray nodes={[file]} mainList emptyListMessage="empty list" />);
+
+			fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+			userEvent.click(await screen.findByText(actionRegexp.download));
+
+			const tray = await screen.findByTestId('download-tray');
+			userEvent.click(within(tray).getByTestId('icon: CloseCircleOutline'));
+			expect(await within(tray).findByText(/canceled/i)).toBeVisible();
+			expect(within(tray).queryByTestId('icon: CloseCircleOutline')).not.toBeInTheDocument();
+
+			userEvent.click(within(tray).getByTestId('icon: PlayCircleOutline'));
+			await within(tray).findByText(/^completed - /i, undefined, { timeout: 2000 });
+			expect(requests).toHaveBeenCalledTimes(2);
+			expect(window.URL.createObjectURL).toHaveBeenCalledTimes(1);
+		});
+
+		test('Clean completed removes only the completed downloads', async () => {
+			const file = populateFile();
+			file.size = 'file content'.length;
+			const folder = populateFolder();
+			server.use(
+				rest.get(`${REST_ENDPOINT}${DOWNLOAD_PATH}/:id`, (req, res, ctx) =>
+					res(ctx.body('file content'))
+				),
+				rest.get(`${REST_ENDPOINT}${DOWNLOAD_ARCHIVE_PATH}`, (req, res, ctx) =>
+					res(ctx.status(404))
+				)
+			);
+			mockSaveFilePicker();
+
+			render(
+				<ListWithTray nodes={[file, folder] as Array<Node>} mainList emptyListMessage="empty list" />
+			);
+
+			fireEvent.contextMenu(screen.getByTestId(`node-item-${file.id}`));
+			userEvent.click(await screen.findByText(actionRegexp.download));
+			fireEvent.contextMenu(screen.getByTestId(`node-item-${folder.id}`));
+			userEvent.click(await screen.findByText(actionRegexp.download));
+
+			const tray = await screen.findByTestId('download-tray');
+			await within(tray).findByText(/^completed - /i);
+			await within(tray).findByText(/no longer available/i);
+			userEvent.click(within(tray).getByRole('button', { name: /clean completed/i }));
+			expect(within(tray).queryByText(file.name)).not.toBeInTheDocument();
+			expect(within(tray).getByText(`${folder.name}.zip`)).toBeVisible();
+		});
+	});
+});
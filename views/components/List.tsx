@@ -20,6 +20,7 @@ import { useActiveNode } from '../../../hooks/useActiveNode';
 import { useNavigation } from '../../../hooks/useNavigation';
 import { useSendViaMail } from '../../../hooks/useSendViaMail';
 import useUserInfo from '../../../hooks/useUserInfo';
+import { nodeSortVar } from '../../apollo/nodeSortVar';
 import { DISPLAYER_TABS, DRAG_TYPES, PREVIEW_MAX_SIZE, PREVIEW_TYPE, ROOTS } from '../../constants';
 import { ListContext, NodeAvatarIconContext } from '../../contexts';
 import {
@@ -47,19 +48,21 @@ import { useDeletePermanentlyModal } from '../../hooks/modals/useDeletePermanent
 import { OpenMoveModal, useMoveModal } from '../../hooks/modals/useMoveModal';
 import { OpenRenameModal, useRenameModal } from '../../hooks/modals/useRenameModal';
 import { useCreateSnackbar } from '../../hooks/useCreateSnackbar';
+import { useDownload } from '../../hooks/useDownload';
+import { useListPreferences } from '../../hooks/useListPreferences';
 import useSelection from '../../hooks/useSelection';
 import { useUpload } from '../../hooks/useUpload';
-import { Action, Crumb, NodeListItemType } from '../../types/common';
-import { File } from '../../types/graphql/types';
+import { Action, Crumb, ListDensity, NodeListItemType, ViewMode } from '../../types/common';
+import { File, NodeSort } from '../../types/graphql/types';
 import {
 	ActionItem,
 	ActionsFactoryChecker,
 	ActionsFactoryCheckerMap,
 	buildActionItems,
-	getAllPermittedActions
+	getAllPermittedActions,
+	isFile
 } from '../../utils/ActionsFactory';
 import {
-	downloadNode,
 	getDocumentPreviewSrc,
 	getImgPreviewSrc,
 	getPdfPreviewSrc,
@@ -71,6 +74,7 @@ import { Dropzone } from './Dropzone';
 import { EmptyFolder } from './EmptyFolder';
 import { ListContent } from './ListContent';
 import { SortingComponent } from './SortingComponent';
+import { ViewModeComponent } from './ViewModeComponent';
 
 const MainContainer = styled(Container)`
 	border-left: 1px solid ${(props): string => props.theme.palette.gray6.regular};
@@ -87,6 +91,10 @@ interface ListProps {
 	emptyListMessage: string;
 	canUpload?: boolean;
 	fillerWithActions?: JSX.Element;
+	/** element shown between the header and the list of nodes */
+	headerComponent?: JSX.Element;
+	/** actions shown in the header before the sorting one */
+	headerActions?: JSX.Element;
 }
 
 export const List: React.VFC<ListProps> = ({
@@ -99,7 +107,9 @@ export const List: React.VFC<ListProps> = ({
 	mainList = false,
 	emptyListMessage,
 	canUpload = true,
-	fillerWithActions
+	fillerWithActions,
+	headerComponent,
+	headerActions
 }) => {
 	const { navigateToFolder } = useNavigation();
 	const { activeNodeId: activeNode, setActiveNode } = useActiveNode();
@@ -121,9 +131,20 @@ export const List: React.VFC<ListProps> = ({
 		isSelectionModeActive,
 		unSelectAll,
 		selectAll,
+		selectRange,
 		exitSelectionMode
 	} = useSelection(nodes);
 
+	const { preferences, setPreferences, setDefaultPreferences } = useListPreferences(folderId);
+
+	const setNodeSort = useCallback(
+		(nodeSort: NodeSort) => {
+			nodeSortVar(nodeSort);
+			setPreferences({ sort: nodeSort });
+		},
+		[setPreferences]
+	);
+
 	const { openMoveNodesModal } = useMoveModal(exitSelectionMode);
 
 	const { openCopyNodesModal } = useCopyModal(exitSelectionMode);
@@ -273,21 +294,23 @@ export const List: React.VFC<ListProps> = ({
 
 	const createSnackbar = useCreateSnackbar();
 
+	const { downloadFile, downloadArchive } = useDownload();
+
 	const downloadSelection = useCallback(() => {
-		const nodeToDownload = find(nodes, (node) => node.id === selectedIDs[0]);
-		if (nodeToDownload) {
-			// download node without version to be sure last version is downloaded
-			downloadNode(nodeToDownload.id);
-			exitSelectionMode();
-			createSnackbar({
-				key: new Date().toLocaleString(),
-				type: 'info',
-				label: t('snackbar.download.start', 'Your download will start soon'),
-				replace: true,
-				hideButton: true
-			});
+		if (size(selectedNodes) === 1 && isFile(selectedNodes[0])) {
+			downloadFile(selectedNodes[0]);
+		} else if (size(selectedNodes) > 0) {
+			downloadArchive(selectedNodes);
 		}
-	}, [createSnackbar, nodes, selectedIDs, t, exitSelectionMode]);
+		exitSelectionMode();
+		createSnackbar({
+			key: new Date().toLocaleString(),
+			type: 'info',
+			label: t('snackbar.download.start', 'Your download will start soon'),
+			replace: true,
+			hideButton: true
+		});
+	}, [selectedNodes, exitSelectionMode, createSnackbar, t, downloadFile, downloadArchive]);
 
 	const { sendViaMail } = useSendViaMail();
 
@@ -340,7 +363,9 @@ export const List: React.VFC<ListProps> = ({
 					icon: 'DownloadOutline',
 					tooltipLabel: t('preview.actions.tooltip.download', 'Download'),
 					id: 'DownloadOutline',
-					onClick: (): void => downloadNode(id)
+					onClick: (): void => {
+						downloadFile({ id, name, size: fileSize });
+					}
 				}
 			];
 			const closeAction = {
@@ -388,7 +413,15 @@ export const List: React.VFC<ListProps> = ({
 			// if preview is not supported and document can be opened with docs, open editor
 			openNodeWithDocs(id);
 		}
-	}, [nodes, permittedSelectionModeActions, selectedIDs, t, setActiveNode, createPreview]);
+	}, [
+		nodes,
+		permittedSelectionModeActions,
+		selectedIDs,
+		t,
+		setActiveNode,
+		createPreview,
+		downloadFile
+	]);
 
 	const itemsMap = useMemo<Partial<Record<Action, ActionItem>>>(
 		() => ({
@@ -508,7 +541,7 @@ export const List: React.VFC<ListProps> = ({
 	const uploadWithDragAndDrop = useCallback<React.DragEventHandler>(
 		(event) => {
 			if (canUpload) {
-				add(event.dataTransfer.files, folderId || ROOTS.LOCAL_ROOT, true);
+				add(event.dataTransfer, folderId || ROOTS.LOCAL_ROOT);
 				if (!folderId) {
 					createSnackbar({
 						key: new Date().toLocaleString(),
@@ -572,8 +605,19 @@ export const List: React.VFC<ListProps> = ({
 				selectAll={selectAll}
 				exitSelectionMode={exitSelectionMode}
 				permittedSelectionModeActionsItems={permittedSelectionModeActionsItems}
-				actionComponent={<SortingComponent />}
+				actionComponent={
+					<>
+						{headerActions}
+						<ViewModeComponent
+							preferences={preferences}
+							setPreferences={setPreferences}
+							setDefaultPreferences={setDefaultPreferences}
+						/>
+						<SortingComponent setNodeSort={setNodeSort} />
+					</>
+				}
 			/>
+			{headerComponent}
 			<Dropzone
 				onDrop={uploadWithDragAndDrop}
 				disabled={!canUpload}
@@ -596,6 +640,7 @@ export const List: React.VFC<ListProps> = ({
 									nodes={nodes}
 									selectedMap={selectedMap}
 									selectId={selectId}
+									selectRange={selectRange}
 									isSelectionModeActive={isSelectionModeActive}
 									exitSelectionMode={exitSelectionMode}
 									toggleFlag={toggleFlag}
@@ -608,6 +653,13 @@ export const List: React.VFC<ListProps> = ({
 									copyNodes={openCopyNodesModalAction}
 									activeNodes={activeNode}
 									setActiveNode={setActiveNodeHandler}
+									grid={preferences.viewMode === ViewMode.Grid}
+									details={preferences.viewMode === ViewMode.Details}
+									dense={
+										preferences.viewMode === ViewMode.List &&
+										preferences.density === ListDensity.Compact
+									}
+									setNodeSort={setNodeSort}
 									navigateTo={navigateToFolder}
 									loading={loading}
 									hasMore={hasMore}
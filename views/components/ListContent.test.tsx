@@ -0,0 +1,153 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { act, fireEvent, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { DETAILS_COLUMNS_DEFAULT, detailsColumnsVar } from '../../apollo/detailsColumnsVar';
+import { nodeSortVar } from '../../apollo/nodeSortVar';
+import {
+	DETAILS_COLUMNS_STORAGE_KEY,
+	GRID_ITEM_GAP,
+	GRID_ITEM_WIDTH,
+	LIST_ITEM_HEIGHT,
+	WINDOWED_LIST_OVERSCAN
+} from '../../constants';
+import { populateNodes } from '../../mocks/mockUtils';
+import { DetailsColumn } from '../../types/common';
+import { NodeSort } from '../../types/graphql/types';
+import { render } from '../../utils/testUtils';
+import { ListContent } from './ListContent';
+
+describe('List Content', () => {
+	describe('Windowed rendering', () => {
+		const clientHeight = 640;
+		const visibleItems = clientHeight / LIST_ITEM_HEIGHT;
+
+		beforeEach(() => {
+			jest.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(clientHeight);
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		test('with 20k nodes only the items around the visible ones are rendered', () => {
+			const nodes = populateNodes(20000);
+			const scrollContainerRef = React.createRef<HTMLDivElement>();
+			render(<ListContent nodes={nodes} ref={scrollContainerRef} />);
+
+			// the rendered rows do not grow with the number of nodes
+			const renderedItems = visibleItems + WINDOWED_LIST_OVERSCAN;
+			expect(screen.getAllByTestId(/^node-item-/)).toHaveLength(renderedItems);
+			expect(screen.getByText(nodes[0].name)).toBeVisible();
+			expect(screen.queryByText(nodes[renderedItems].name)).not.toBeInTheDocument();
+
+			const scrollContainer = scrollContainerRef.current as HTMLDivElement;
+			Object.defineProperty(scrollContainer, 'scrollTop', {
+				value: 10000 * LIST_ITEM_HEIGHT,
+				writable: true
+			});
+			fireEvent.scroll(scrollContainer);
+			expect(screen.getAllByTestId(/^node-item-/)).toHaveLength(
+				visibleItems + WINDOWED_LIST_OVERSCAN * 2
+			);
+			expect(screen.getByText(nodes[10000].name)).toBeVisible();
+			expect(screen.queryByText(nodes[0].name)).not.toBeInTheDocument();
+		}, 60000);
+
+		test('keyboard navigation scrolls to the items which are not rendered and focuses them', () => {
+			const nodes = populateNodes(500);
+			const scrollContainerRef = React.createRef<HTMLDivElement>();
+			render(<ListContent nodes={nodes} ref={scrollContainerRef} />);
+
+			const scrollContainer = scrollContainerRef.current as HTMLDivElement;
+			Object.defineProperty(scrollContainer, 'scrollTop', { value: 0, writable: true });
+			const firstItem = screen.getByTestId(`node-item-${nodes[0].id}`);
+			act(() => {
+				firstItem.focus();
+			});
+			fireEvent.keyDown(firstItem, { key: 'End' });
+			expect(scrollContainer.scrollTop).toBe(nodes.length * LIST_ITEM_HEIGHT - clientHeight);
+			fireEvent.scroll(scrollContainer);
+			expect(screen.getByTestId(`node-item-${nodes[nodes.length - 1].id}`)).toHaveFocus();
+			expect(screen.queryByText(nodes[0].name)).not.toBeInTheDocument();
+		});
+
+		test('in the grid view up and down move by the tiles which fit in a row', () => {
+			// 3 tiles would fit only without the gaps and the padding
+			const clientWidth = GRID_ITEM_WIDTH * 3 + GRID_ITEM_GAP * 2;
+			jest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(clientWidth);
+			const nodes = populateNodes(10);
+			const scrollContainerRef = React.createRef<HTMLDivElement>();
+			render(<ListContent nodes={nodes} ref={scrollContainerRef} grid />);
+
+			const scrollContainer = scrollContainerRef.current as HTMLDivElement;
+			scrollContainer.style.paddingLeft = `${GRID_ITEM_GAP}px`;
+			fireEvent(window, new Event('resize'));
+			const firstItem = screen.getByTestId(`node-item-${nodes[0].id}`);
+			act(() => {
+				firstItem.focus();
+			});
+			fireEvent.keyDown(firstItem, { key: 'ArrowDown' });
+			expect(screen.getByTestId(`node-item-${nodes[2].id}`)).toHaveFocus();
+			fireEvent.keyDown(screen.getByTestId(`node-item-${nodes[2].id}`), { key: 'ArrowUp' });
+			expect(firstItem).toHaveFocus();
+		});
+	});
+
+	describe('Details view', () => {
+		beforeEach(() => {
+			nodeSortVar(NodeSort.NameAsc);
+			detailsColumnsVar(DETAILS_COLUMNS_DEFAULT);
+			window.localStorage.clear();
+		});
+
+		test('a click on a column header sorts by it and a second click inverts the trend', () => {
+			const nodes = populateNodes(3);
+			render(<ListContent nodes={nodes} details />);
+
+			const row = screen.getByTestId(`node-item-${nodes[0].id}`);
+			expect(within(row).getByText(nodes[0].owner.full_name)).toBeVisible();
+			const nameHeader = screen.getByTestId(`details-column-${DetailsColumn.Name}`);
+			const ownerHeader = screen.getByTestId(`details-column-${DetailsColumn.Owner}`);
+			expect(nameHeader).toHaveAttribute('aria-sort', 'ascending');
+			userEvent.click(ownerHeader);
+			expect(nodeSortVar()).toBe(NodeSort.OwnerAsc);
+			expect(ownerHeader).toHaveAttribute('aria-sort', 'ascending');
+			expect(nameHeader).not.toHaveAttribute('aria-sort');
+			userEvent.click(ownerHeader);
+			expect(nodeSortVar()).toBe(NodeSort.OwnerDesc);
+			expect(ownerHeader).toHaveAttribute('aria-sort', 'descending');
+			// shares are not sortable
+			userEvent.click(screen.getByTestId(`details-column-${DetailsColumn.Shares}`));
+			expect(nodeSortVar()).toBe(NodeSort.OwnerDesc);
+		});
+
+		test('columns are resized by dragging the handle and the widths are remembered', () => {
+			render(<ListContent nodes={populateNodes(3)} details />);
+
+			const ownerWidth = DETAILS_COLUMNS_DEFAULT[1].width;
+			const resizeHandle = screen.getByTestId(`details-column-resize-${DetailsColumn.Owner}`);
+			fireEvent.mouseDown(resizeHandle, { clientX: 100 });
+			fireEvent.mouseMove(window, { clientX: 150 });
+			// the width is stored only at the end of the resize
+			expect(window.localStorage.getItem(DETAILS_COLUMNS_STORAGE_KEY)).toBeNull();
+			fireEvent.mouseUp(window, { clientX: 150 });
+			// moves after the end of the resize are ignored
+			fireEvent.mouseMove(window, { clientX: 300 });
+			expect(screen.getByTestId(`details-column-${DetailsColumn.Owner}`)).toHaveStyle({
+				width: `${ownerWidth + 50}px`
+			});
+			expect(nodeSortVar()).toBe(NodeSort.NameAsc);
+			expect(JSON.parse(window.localStorage.getItem(DETAILS_COLUMNS_STORAGE_KEY) || '')).toEqual(
+				expect.arrayContaining([{ id: DetailsColumn.Owner, width: ownerWidth + 50 }])
+			);
+		});
+	});
+});
@@ -4,20 +4,37 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 
-import React, { useCallback, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
+import { useReactiveVar } from '@apollo/client';
 import filter from 'lodash/filter';
+import findIndex from 'lodash/findIndex';
 import forEach from 'lodash/forEach';
 import includes from 'lodash/includes';
 import map from 'lodash/map';
+import some from 'lodash/some';
 import styled from 'styled-components';
 
 import useUserInfo from '../../../hooks/useUserInfo';
 import { draggedItemsVar } from '../../apollo/dragAndDropVar';
-import { DRAG_TYPES } from '../../constants';
+import { nodeSortVar } from '../../apollo/nodeSortVar';
+import { scrollToNodeVar } from '../../apollo/scrollToNodeVar';
+import {
+	DETAILS_HEADER_HEIGHT,
+	DRAG_TYPES,
+	GRID_ITEM_GAP,
+	GRID_ITEM_HEIGHT,
+	GRID_ITEM_WIDTH,
+	LIST_ITEM_HEIGHT,
+	LIST_ITEM_HEIGHT_COMPACT
+} from '../../constants';
+import { useKeyboard } from '../../design_system_fork/useKeyboard';
 import { DeleteNodesType } from '../../hooks/graphql/mutations/useDeleteNodesMutation';
+import { useCombinedRefs } from '../../hooks/useCombinedRefs';
+import { useDetailsColumns } from '../../hooks/useDetailsColumns';
+import { useWindowedList } from '../../hooks/useWindowedList';
 import { Action, GetNodeParentType, NodeListItemType, PickIdNodeType } from '../../types/common';
-import { Node } from '../../types/graphql/types';
+import { Node, NodeSort } from '../../types/graphql/types';
 import { DeepPick, OneOrMany } from '../../types/utils';
 import {
 	ActionItem,
@@ -25,10 +42,12 @@ import {
 	getPermittedActions,
 	isFile
 } from '../../utils/ActionsFactory';
+import { DetailsListHeader } from './DetailsListHeader';
 import { Draggable } from './Draggable';
 import { NodeListItem } from './NodeListItem';
 import { NodeListItemWrapper } from './NodeListItemWrapper';
 import { ScrollContainer } from './ScrollContainer';
+import { DetailsContainer, GridContainer } from './StyledComponents';
 
 const DragImageContainer = styled.div`
 	position: absolute;
@@ -38,10 +57,19 @@ const DragImageContainer = styled.div`
 	width: 100%;
 `;
 
+// the height changes while scrolling, so it is set as style to not generate a class for each value
+const WindowOffset = styled.div.attrs<{ $height: number }>(({ $height }) => ({
+	style: { height: `${$height}px` }
+}))<{ $height: number }>`
+	flex-shrink: 0;
+	width: 100%;
+`;
+
 interface ListContentProps {
 	nodes: NodeListItemType[];
 	selectedMap?: Record<string, boolean>;
 	selectId?: (id: string) => void;
+	selectRange?: (id: string, fallbackAnchorId?: string) => void;
 	isSelectionModeActive?: boolean;
 	exitSelectionMode?: () => void;
 	toggleFlag?: (flagValue: boolean, ...nodes: PickIdNodeType[]) => void;
@@ -59,6 +87,14 @@ interface ListContentProps {
 	setActiveNode?: (node: NodeListItemType, event: React.SyntheticEvent) => void;
 	manageShares?: (nodeId: string) => void;
 	compact?: boolean;
+	/** show only the name of the nodes, in rows as high as the compact ones */
+	dense?: boolean;
+	/** show the nodes as tiles instead of rows */
+	grid?: boolean;
+	/** show the nodes as rows of a table, with a column for each attribute */
+	details?: boolean;
+	/** change the sort of the list from the headers of the details view */
+	setNodeSort?: (nodeSort: NodeSort) => void;
 	navigateTo?: (id: string, event?: React.SyntheticEvent) => void;
 	loading?: boolean;
 	hasMore?: boolean;
@@ -75,6 +111,7 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 			nodes,
 			selectedMap = {},
 			selectId,
+			selectRange,
 			isSelectionModeActive,
 			exitSelectionMode,
 			toggleFlag,
@@ -87,6 +124,10 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 			activeNodes,
 			setActiveNode,
 			compact,
+			dense = false,
+			grid = false,
+			details = false,
+			setNodeSort = nodeSortVar,
 			navigateTo,
 			loading = false,
 			hasMore = false,
@@ -100,6 +141,9 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 		ref
 	) {
 		const dragImageRef = useRef<HTMLDivElement>(null);
+		// the element is kept in the state too, so the windowed list is updated once it is mounted
+		const [scrollContainer, setScrollContainer] = useState<HTMLDivElement | null>(null);
+		const scrollContainerRef = useCombinedRefs(ref, setScrollContainer);
 
 		const { me } = useUserInfo();
 
@@ -163,9 +207,120 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 			draggedItemsVar(null);
 		}, []);
 
+		const { columns: detailsColumns, resizeColumn, moveColumn } = useDetailsColumns();
+
+		const windowedListOptions = useMemo(() => {
+			if (grid) {
+				return { rowHeight: GRID_ITEM_HEIGHT, columnWidth: GRID_ITEM_WIDTH, gap: GRID_ITEM_GAP };
+			}
+			if (details) {
+				return { rowHeight: LIST_ITEM_HEIGHT_COMPACT, headerHeight: DETAILS_HEADER_HEIGHT };
+			}
+			return { rowHeight: compact || dense ? LIST_ITEM_HEIGHT_COMPACT : LIST_ITEM_HEIGHT };
+		}, [compact, dense, details, grid]);
+
+		const { startIndex, endIndex, offsetTop, offsetBottom, itemsPerRow, scrollToIndex } =
+			useWindowedList(scrollContainer, nodes.length, windowedListOptions);
+
+		const scrollToNode = useReactiveVar(scrollToNodeVar);
+
+		useEffect(() => {
+			if (scrollToNode) {
+				const index = findIndex(nodes, ({ id }) => id === scrollToNode.nodeId);
+				if (index >= 0) {
+					scrollToIndex(index, scrollToNode.isLast ? 'end' : 'center');
+					scrollToNodeVar(null);
+				}
+			}
+		}, [nodes, scrollToIndex, scrollToNode]);
+
+		const [focusedNodeId, setFocusedNodeId] = useState<string>();
+		// node to focus as soon as its item is rendered
+		const pendingFocusNodeIdRef = useRef<string>();
+
+		// only one item at a time can be reached with the tab key, the others are reached with arrows
+		const focusableNodeId = useMemo(
+			() =>
+				(focusedNodeId && some(nodes, ({ id }) => id === focusedNodeId) && focusedNodeId) ||
+				nodes[0]?.id,
+			[focusedNodeId, nodes]
+		);
+
+		const focusRenderedNode = useCallback((nodeId: string): boolean => {
+			const element = window.document
+				.getElementById(nodeId)
+				?.querySelector<HTMLElement>('[tabindex]');
+			element?.focus({ preventScroll: true });
+			return !!element;
+		}, []);
+
+		useEffect(() => {
+			if (pendingFocusNodeIdRef.current && focusRenderedNode(pendingFocusNodeIdRef.current)) {
+				pendingFocusNodeIdRef.current = undefined;
+			}
+		});
+
+		const focusNode = useCallback(
+			(index: number) => {
+				const node = nodes[index];
+				if (node) {
+					setFocusedNodeId(node.id);
+					scrollToIndex(index, 'nearest');
+					pendingFocusNodeIdRef.current = focusRenderedNode(node.id) ? undefined : node.id;
+				}
+			},
+			[focusRenderedNode, nodes, scrollToIndex]
+		);
+
+		const keyboardEvents = useMemo(
+			() => [
+				{
+					type: 'keydown',
+					callback: (event: KeyboardEvent): void => {
+						const focusedIndex = findIndex(nodes, ({ id }) => id === focusableNodeId);
+						let nextIndex = focusedIndex;
+						switch (event.key) {
+							case 'ArrowUp':
+								// in the grid view up and down move by a whole row of tiles
+								nextIndex = Math.max(focusedIndex - itemsPerRow, 0);
+								break;
+							case 'ArrowDown':
+								nextIndex = Math.min(focusedIndex + itemsPerRow, nodes.length - 1);
+								break;
+							case 'ArrowLeft':
+								nextIndex = Math.max(focusedIndex - 1, 0);
+								break;
+							case 'ArrowRight':
+								nextIndex = Math.min(focusedIndex + 1, nodes.length - 1);
+								break;
+							case 'Home':
+								nextIndex = 0;
+								break;
+							case 'End':
+								nextIndex = nodes.length - 1;
+								break;
+							default:
+								break;
+						}
+						focusNode(nextIndex);
+						// shift extends the selection from the anchor, or from the node focused before
+						if (event.shiftKey && selectRange && nodes[nextIndex]) {
+							selectRange(nodes[nextIndex].id, nodes[focusedIndex]?.id);
+						}
+					},
+					// left and right are handled only by the grid view, where tiles are side by side
+					keys: grid
+						? ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End']
+						: ['ArrowUp', 'ArrowDown', 'Home', 'End']
+				}
+			],
+			[focusNode, focusableNodeId, grid, itemsPerRow, nodes, selectRange]
+		);
+		useKeyboard(scrollContainerRef, keyboardEvents);
+
 		const items = useMemo(
 			() =>
-				map(nodes, (node) => (
+				map(nodes.slice(startIndex, endIndex), (node) => (
 					<Draggable
 						draggable={draggable}
 						onDragStart={dragStartHandler(node)}
@@ -185,6 +340,7 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 							isSelected={selectedMap && selectedMap[node.id]}
 							isSelectionModeActive={isSelectionModeActive}
 							selectId={selectId}
+							selectRange={selectRange}
 							exitSelectionMode={exitSelectionMode}
 							renameNode={renameNode}
 							isActive={
@@ -193,17 +349,24 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 							}
 							setActive={setActiveNode}
 							compact={compact}
+							dense={dense}
+							grid={grid}
+							detailsColumns={details ? detailsColumns : undefined}
 							navigateTo={navigateTo}
 							selectionContextualMenuActionsItems={
 								selectedMap && selectedMap[node.id]
 									? selectionContextualMenuActionsItems
 									: undefined
 							}
+							focusable={node.id === focusableNodeId}
+							onFocus={setFocusedNodeId}
 						/>
 					</Draggable>
 				)),
 			[
 				nodes,
+				startIndex,
+				endIndex,
 				draggable,
 				dragStartHandler,
 				dragEndHandler,
@@ -217,13 +380,19 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 				selectedMap,
 				isSelectionModeActive,
 				selectId,
+				selectRange,
 				exitSelectionMode,
 				renameNode,
 				activeNodes,
 				setActiveNode,
 				compact,
+				dense,
+				grid,
+				details,
+				detailsColumns,
 				navigateTo,
-				selectionContextualMenuActionsItems
+				selectionContextualMenuActionsItems,
+				focusableNodeId
 			]
 		);
 
@@ -233,10 +402,28 @@ export const ListContent = React.forwardRef<HTMLDivElement, ListContentProps>(
 					loading={loading}
 					hasMore={hasMore}
 					loadMore={loadMore}
-					ref={ref}
+					ref={scrollContainerRef}
 					fillerWithActions={fillerWithActions}
 				>
-					{items}
+					{details ? (
+						<DetailsContainer data-testid="details-view">
+							<DetailsListHeader
+								columns={detailsColumns}
+								setNodeSort={setNodeSort}
+								resizeColumn={resizeColumn}
+								moveColumn={moveColumn}
+							/>
+							{offsetTop > 0 && <WindowOffset $height={offsetTop} />}
+							{items}
+							{offsetBottom > 0 && <WindowOffset $height={offsetBottom} />}
+						</DetailsContainer>
+					) : (
+						<>
+							{offsetTop > 0 && <WindowOffset $height={offsetTop} />}
+							{grid ? <GridContainer data-testid="grid-view">{items}</GridContainer> : items}
+							{offsetBottom > 0 && <WindowOffset $height={offsetBottom} />}
+						</>
+					)}
 				</ScrollContainer>
 				<DragImageContainer ref={dragImageRef}>{dragImage}</DragImageContainer>
 			</>
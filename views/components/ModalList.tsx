@@ -30,6 +30,10 @@ interface ModalListProps {
 	nodes: Array<NodeListItemType>;
 	activeNodes?: OneOrMany<string>;
 	setActiveNode: (node: NodeListItemType, event: React.SyntheticEvent) => void;
+	/** toggle the selection of a node, on a click with ctrl or cmd */
+	selectId?: (id: string) => void;
+	/** select the nodes between the last selected one and the given one */
+	selectRange?: (id: string, fallbackAnchorId?: string) => void;
 	loadMore: () => void;
 	hasMore: boolean;
 	navigateTo: (id: string, event?: React.SyntheticEvent) => void;
@@ -49,6 +53,8 @@ export const ModalList: React.VFC<ModalListProps> = ({
 	nodes,
 	activeNodes,
 	setActiveNode,
+	selectId,
+	selectRange,
 	loadMore,
 	hasMore,
 	navigateTo,
@@ -153,6 +159,8 @@ export const ModalList: React.VFC<ModalListProps> = ({
 						nodes={nodes}
 						activeNodes={activeNodes}
 						setActiveNode={setActiveNode}
+						selectId={selectId}
+						selectRange={selectRange}
 						compact
 						navigateTo={navigateTo}
 						loading={loading}
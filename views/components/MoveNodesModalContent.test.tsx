@@ -30,7 +30,9 @@ import {
 	getChildrenVariables,
 	mockGetChildren,
 	mockGetPath,
-	mockMoveNodes
+	mockMoveNodes,
+	mockTrashNodes,
+	mockUpdateNode
 } from '../../utils/mockUtils';
 import {
 	actionRegexp,
@@ -266,6 +268,7 @@ describe('Move Nodes Modal', () => {
 		const mocks = [
 			mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
 			mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+			mockGetChildren(getChildrenVariables(folder.id), folder),
 			mockMoveNodes(
 				{ node_ids: map(nodesToMove, (node) => node.id), destination_id: folder.id },
 				map(nodesToMove, (node) => ({ ...node, parent: folder }))
@@ -520,4 +523,143 @@ describe('Move Nodes Modal', () => {
 		);
 		expect(screen.queryByTestId('icon: Refresh')).not.toBeInTheDocument();
 	});
+
+	describe('Name conflicts', () => {
+		function setupConflict(): {
+			currentFolder: Folder;
+			file: File;
+			destination: Folder;
+			existingFile: File;
+			newName: string;
+		} {
+			const currentFolder = populateFolder();
+			const file = populateFile(undefined, 'conflict.txt');
+			file.permissions.can_write_file = true;
+			file.parent = currentFolder;
+			currentFolder.children.nodes.push(file);
+			const destination = populateFolder(0);
+			destination.permissions.can_write_folder = true;
+			destination.permissions.can_write_file = true;
+			destination.parent = currentFolder;
+			currentFolder.children.nodes.push(destination);
+			const existingFile = populateFile(undefined, file.name);
+			existingFile.parent = destination;
+			destination.children.nodes.push(existingFile);
+			return { currentFolder, file, destination, existingFile, newName: 'conflict (1).txt' };
+		}
+
+		async function confirmMove(destinationName: string, resolution: RegExp): Promise<void> {
+			userEvent.click(await screen.findByText(destinationName));
+			act(() => {
+				userEvent.click(screen.getByRole('button', { name: actionRegexp.move }));
+			});
+			await screen.findByText(/already exists in the destination folder/i);
+			userEvent.click(screen.getByRole('button', { name: resolution }));
+		}
+
+		test('keep both renames the node before moving it', async () => {
+			const { currentFolder, file, destination, newName } = setupConflict();
+			const calls: string[] = [];
+			const mocks = [
+				mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
+				mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+				mockGetChildren(getChildrenVariables(destination.id), destination),
+				mockUpdateNode({ node_id: file.id, name: newName }, { ...file, name: newName }, () =>
+					calls.push('rename')
+				),
+				mockMoveNodes(
+					{ node_ids: [file.id], destination_id: destination.id },
+					[{ ...file, name: newName, parent: destination }],
+					() => calls.push('move')
+				)
+			];
+			const closeAction = jest.fn();
+
+			render(
+				<MoveNodesModalContent
+					folderId={currentFolder.id}
+					nodesToMove={[file]}
+					closeAction={closeAction}
+				/>,
+				{ mocks }
+			);
+
+			await confirmMove(destination.name, /keep both/i);
+			await waitFor(() => expect(closeAction).toHaveBeenCalled());
+			expect(calls).toEqual(['rename', 'move']);
+		});
+
+		test('replace trashes the existing file after the move and restores the name', async () => {
+			const { currentFolder, file, destination, existingFile, newName } = setupConflict();
+			const calls: string[] = [];
+			const mocks = [
+				mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
+				mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+				mockGetChildren(getChildrenVariables(destination.id), destination),
+				mockUpdateNode({ node_id: file.id, name: newName }, { ...file, name: newName }, () =>
+					calls.push('rename')
+				),
+				mockMoveNodes(
+					{ node_ids: [file.id], destination_id: destination.id },
+					[{ ...file, name: newName, parent: destination }],
+					() => calls.push('move')
+				),
+				mockTrashNodes({ node_ids: [existingFile.id] }, [existingFile.id], () =>
+					calls.push('trash')
+				),
+				mockUpdateNode(
+					{ node_id: file.id, name: file.name },
+					{ ...file, parent: destination },
+					() => calls.push('restore name')
+				)
+			];
+			const closeAction = jest.fn();
+
+			render(
+				<MoveNodesModalContent
+					folderId={currentFolder.id}
+					nodesToMove={[file]}
+					closeAction={closeAction}
+				/>,
+				{ mocks }
+			);
+
+			await confirmMove(destination.name, /replace/i);
+			await waitFor(() => expect(closeAction).toHaveBeenCalled());
+			expect(calls).toEqual(['rename', 'move', 'trash', 'restore name']);
+		});
+
+		test('if the node is not moved, nothing is trashed and the rename is rolled back', async () => {
+			const { currentFolder, file, destination, newName } = setupConflict();
+			const calls: string[] = [];
+			const mocks = [
+				mockGetPath({ node_id: currentFolder.id }, [currentFolder]),
+				mockGetChildren(getChildrenVariables(currentFolder.id), currentFolder),
+				mockGetChildren(getChildrenVariables(destination.id), destination),
+				mockUpdateNode({ node_id: file.id, name: newName }, { ...file, name: newName }, () =>
+					calls.push('rename')
+				),
+				mockMoveNodes({ node_ids: [file.id], destination_id: destination.id }, [], () =>
+					calls.push('move')
+				),
+				mockUpdateNode({ node_id: file.id, name: file.name }, file, () =>
+					calls.push('restore name')
+				)
+			];
+			const closeAction = jest.fn();
+
+			render(
+				<MoveNodesModalContent
+					folderId={currentFolder.id}
+					nodesToMove={[file]}
+					closeAction={closeAction}
+				/>,
+				{ mocks }
+			);
+
+			await confirmMove(destination.name, /replace/i);
+			await waitFor(() => expect(calls).toEqual(['rename', 'move', 'restore name']));
+			expect(closeAction).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -7,13 +7,19 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { Container, Text } from '@zextras/carbonio-design-system';
+import compact from 'lodash/compact';
+import filter from 'lodash/filter';
 import find from 'lodash/find';
+import includes from 'lodash/includes';
+import map from 'lodash/map';
 import reduce from 'lodash/reduce';
 import { useTranslation } from 'react-i18next';
 
 import useUserInfo from '../../../hooks/useUserInfo';
 import { useMoveNodesMutation } from '../../hooks/graphql/mutations/useMoveNodesMutation';
+import { useUpdateNodeMutation } from '../../hooks/graphql/mutations/useUpdateNodeMutation';
 import { useGetChildrenQuery } from '../../hooks/graphql/queries/useGetChildrenQuery';
+import { NodeReplacement, useNodesNameConflicts } from '../../hooks/useNodesNameConflicts';
 import { Node, NodeListItemType } from '../../types/common';
 import { Folder, GetChildrenQuery } from '../../types/graphql/types';
 import { canBeMoveDestination, isFile, isFolder } from '../../utils/ActionsFactory';
@@ -22,7 +28,7 @@ import { ModalHeader } from './ModalHeader';
 import { ModalList } from './ModalList';
 
 interface MoveNodesModalContentProps {
-	nodesToMove: Array<Pick<Node, '__typename' | 'id' | 'owner'>>;
+	nodesToMove: Array<Pick<Node, '__typename' | 'id' | 'owner' | 'name'>>;
 	folderId: string;
 	closeAction?: () => void;
 }
@@ -47,6 +53,9 @@ export const MoveNodesModalContent: React.VFC<MoveNodesModalContentProps> = ({
 	/** Mutation to move nodes * */
 	const { moveNodes, loading: moveNodesMutationLoading } = useMoveNodesMutation();
 
+	const { resolveNodesNameConflicts, replaceExistingNodes } = useNodesNameConflicts();
+	const [updateNode] = useUpdateNodeMutation();
+
 	const title = useMemo(
 		() =>
 			t('node.move.modal.title', 'Move items', {
@@ -109,13 +118,74 @@ export const MoveNodesModalContent: React.VFC<MoveNodesModalContentProps> = ({
 
 		// reset the opened folder so that the eviction of the children in the mutation does not run a new network query
 		if (destinationFolderNode) {
-			moveNodes(destinationFolderNode as Folder, ...nodesToMove).then((result) => {
-				if (result.data?.moveNodes?.length === nodesToMove.length) {
-					closeHandler();
-				}
-			});
+			const destination = destinationFolderNode as Folder;
+			resolveNodesNameConflicts(destination.id, nodesToMove)
+				.then(({ nodes: nodesToProcess, newNames, replacedNodes }) => {
+					if (nodesToProcess.length === 0) {
+						closeHandler();
+						return undefined;
+					}
+					const renamedNodes = filter(nodesToProcess, (node) => newNames[node.id] !== undefined);
+					// restore the original names of the renamed nodes which have not been moved
+					const rollbackRenames = (movedIds: string[]): Promise<unknown> =>
+						Promise.all(
+							map(
+								filter(renamedNodes, (node) => !includes(movedIds, node.id)),
+								(node) => updateNode(node.id, node.name)
+							)
+						);
+					// nodes which are kept together with or replace the existing ones are renamed before
+					// being moved, since the move cannot set a new name
+					return Promise.all(map(renamedNodes, (node) => updateNode(node.id, newNames[node.id])))
+						.then(() => moveNodes(destination, ...nodesToProcess))
+						.catch((err) =>
+							rollbackRenames([]).then(() => {
+								throw err;
+							})
+						)
+						.then((result) => {
+							const movedIds = map(compact(result.data?.moveNodes), (node) => node.id);
+							return Promise.all([
+								rollbackRenames(movedIds),
+								// existing nodes are replaced only by the nodes which have been moved
+								replaceExistingNodes(
+									reduce(
+										nodesToProcess,
+										(accumulator: NodeReplacement[], node) => {
+											if (replacedNodes[node.id] && includes(movedIds, node.id)) {
+												accumulator.push({
+													id: node.id,
+													name: node.name,
+													existing: replacedNodes[node.id]
+												});
+											}
+											return accumulator;
+										},
+										[]
+									)
+								)
+							]).then(() => {
+								if (movedIds.length === nodesToProcess.length) {
+									closeHandler();
+								}
+							});
+						});
+				})
+				.catch((err) => {
+					console.error(err);
+				});
 		}
-	}, [destinationFolder, currentFolder, nodes, moveNodes, nodesToMove, closeHandler]);
+	}, [
+		destinationFolder,
+		currentFolder,
+		nodes,
+		resolveNodesNameConflicts,
+		nodesToMove,
+		updateNode,
+		moveNodes,
+		replaceExistingNodes,
+		closeHandler
+	]);
 
 	const navigateTo = useCallback((id: string, event?: React.SyntheticEvent) => {
 		setOpenedFolder(id);
@@ -0,0 +1,104 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useState } from 'react';
+
+import { Button, Checkbox, Container, Padding, Row, Text } from '@zextras/carbonio-design-system';
+import { useTranslation } from 'react-i18next';
+
+import { NameConflictResolution } from '../../types/common';
+import { ModalFooter } from './ModalFooter';
+import { ModalHeader } from './ModalHeader';
+
+interface NameConflictModalContentProps {
+	name: string;
+	allowReplace: boolean;
+	remainingConflicts: number;
+	resolveAction: (resolution: NameConflictResolution, applyToAll: boolean) => void;
+	closeAction: () => void;
+}
+
+export const NameConflictModalContent: React.VFC<NameConflictModalContentProps> = ({
+	name,
+	allowReplace,
+	remainingConflicts,
+	resolveAction,
+	closeAction
+}) => {
+	const [t] = useTranslation();
+	const [applyToAll, setApplyToAll] = useState(false);
+
+	const toggleApplyToAll = useCallback((event: React.SyntheticEvent) => {
+		setApplyToAll((prevState) => !prevState);
+		event.stopPropagation();
+	}, []);
+
+	const keepBothHandler = useCallback(() => {
+		resolveAction(NameConflictResolution.KEEP_BOTH, applyToAll);
+	}, [applyToAll, resolveAction]);
+
+	const replaceHandler = useCallback(() => {
+		resolveAction(NameConflictResolution.REPLACE, applyToAll);
+	}, [applyToAll, resolveAction]);
+
+	const skipHandler = useCallback(() => {
+		resolveAction(NameConflictResolution.SKIP, applyToAll);
+	}, [applyToAll, resolveAction]);
+
+	return (
+		<Container
+			padding={{ all: 'large' }}
+			mainAlignment="flex-start"
+			crossAlignment="flex-start"
+			height="fit"
+		>
+			<ModalHeader
+				title={t('modal.nameConflict.title', 'Name already in use')}
+				closeHandler={closeAction}
+			/>
+			<Container padding={{ vertical: 'small' }} crossAlignment="flex-start" height="fit">
+				<Text overflow="break-word" size="small">
+					{t(
+						'modal.nameConflict.message',
+						'An item named "{{name}}" already exists in the destination folder. What do you want to do?',
+						{ name }
+					)}
+				</Text>
+			</Container>
+			{remainingConflicts > 0 && (
+				<Row padding={{ vertical: 'small' }}>
+					<Checkbox
+						value={applyToAll}
+						onClick={toggleApplyToAll}
+						label={t(
+							'modal.nameConflict.applyToAll',
+							'Apply to all the remaining conflicts ({{count}})',
+							{ count: remainingConflicts }
+						)}
+					/>
+				</Row>
+			)}
+			<ModalFooter
+				confirmLabel={t('modal.nameConflict.button.keepBoth', 'Keep both')}
+				confirmHandler={keepBothHandler}
+				cancelLabel={t('modal.nameConflict.button.skip', 'Skip')}
+				cancelHandler={skipHandler}
+				cancelButtonColor="secondary"
+			>
+				{allowReplace && (
+					<Padding left="small">
+						<Button
+							color="primary"
+							type="outlined"
+							label={t('modal.nameConflict.button.replace', 'Replace')}
+							onClick={replaceHandler}
+						/>
+					</Padding>
+				)}
+			</ModalFooter>
+		</Container>
+	);
+};
@@ -19,6 +19,8 @@ import { useTranslation } from 'react-i18next';
 import styled from 'styled-components';
 
 import { useUpdateNodeDescriptionMutation } from '../../hooks/graphql/mutations/useUpdateNodeDescriptionMutation';
+import { useSearchKeywords } from '../../hooks/useSearchKeywords';
+import { HighlightedText } from './HighlightedText';
 import { RouteLeavingGuard } from './RouteLeavingGuard';
 import { ItalicText, ShimmerText } from './StyledComponents';
 
@@ -54,6 +56,7 @@ export const NodeDetailsDescription: React.VFC<NodeDetailsDescriptionProps> = ({
 	const [t] = useTranslation();
 	const [editingDescription, setEditingDescription] = useState(false);
 	const { updateNodeDescription } = useUpdateNodeDescriptionMutation();
+	const searchKeywords = useSearchKeywords();
 
 	const [descriptionValue, setDescriptionValue] = useState(description || '');
 
@@ -186,7 +189,9 @@ export const NodeDetailsDescription: React.VFC<NodeDetailsDescriptionProps> = ({
 					{loading && description === undefined && <ShimmerText $size="medium" width="70%" />}
 					{!loading && (
 						<Text size="medium" overflow="break-word">
-							{description ||
+							{(description && (
+								<HighlightedText text={description} keywords={searchKeywords} />
+							)) ||
 								(canUpsertDescription && (
 									<CustomItalicText color="secondary" size="medium" overflow="break-word">
 										{t(
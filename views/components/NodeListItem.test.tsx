@@ -6,15 +6,23 @@
 
 import React from 'react';
 
-import { screen, waitFor } from '@testing-library/react';
+import { fireEvent, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 
-import { PREVIEW_PATH, PREVIEW_TYPE, REST_ENDPOINT, ROOTS } from '../../constants';
+import { searchParamsVar } from '../../apollo/searchVar';
+import {
+	GRID_ITEM_PREVIEW_HEIGHT,
+	GRID_ITEM_WIDTH,
+	PREVIEW_PATH,
+	PREVIEW_TYPE,
+	REST_ENDPOINT,
+	ROOTS
+} from '../../constants';
 import { populateFile, populateFolder, populateNode, populateUser } from '../../mocks/mockUtils';
 import { Action } from '../../types/common';
 import { NodeType, User } from '../../types/graphql/types';
 import { getPermittedHoverBarActions } from '../../utils/ActionsFactory';
-import { iconRegexp, render } from '../../utils/testUtils';
+import { buildChipsFromKeywords, iconRegexp, render } from '../../utils/testUtils';
 import { formatDate, humanFileSize } from '../../utils/utils';
 import * as moduleUtils from '../../utils/utils';
 import { NodeListItem } from './NodeListItem';
@@ -494,4 +502,182 @@ describe('Node List Item', () => {
 		expect(screen.getByText(node.name)).toBeVisible();
 		expect(screen.queryByTestId(iconRegexp.trash)).not.toBeInTheDocument();
 	});
+
+	describe('Search keywords highlight', () => {
+		afterEach(() => {
+			searchParamsVar({});
+		});
+
+		test('keywords are highlighted inside the name in the search view', () => {
+			const node = populateNode();
+			node.name = 'Annual budget report';
+			searchParamsVar({ keywords: buildChipsFromKeywords(['BUDGET']) });
+			render(<NodeListItem id={node.id} name={node.name} type={node.type} />, {
+				initialRouterEntries: ['/search']
+			});
+			const highlighted = screen.getByText('budget');
+			expect(highlighted.tagName).toBe('MARK');
+			expect(highlighted).toBeVisible();
+			expect(screen.queryByTestId('description-snippet')).not.toBeInTheDocument();
+		});
+
+		test('a snippet of the description is shown when only the description matches', () => {
+			const node = populateNode();
+			node.name = 'Annual report';
+			searchParamsVar({ keywords: buildChipsFromKeywords(['budget']) });
+			render(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					description="Includes the budget of the next year"
+					type={node.type}
+				/>,
+				{ initialRouterEntries: ['/search'] }
+			);
+			expect(screen.getByText('Annual report')).toBeVisible();
+			const snippet = screen.getByTestId('description-snippet');
+			expect(snippet).toHaveTextContent('Includes the budget of the next year');
+			expect(within(snippet).getByText('budget').tagName).toBe('MARK');
+		});
+
+		test('nothing is highlighted outside the search view', () => {
+			const node = populateNode();
+			node.name = 'Annual budget report';
+			searchParamsVar({ keywords: buildChipsFromKeywords(['budget']) });
+			render(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					description="Includes the budget of the next year"
+					type={node.type}
+				/>
+			);
+			expect(screen.getByText(node.name)).toBeVisible();
+			expect(screen.queryByTestId('description-snippet')).not.toBeInTheDocument();
+		});
+	});
+
+	describe('Keyboard', () => {
+		test('enter opens the node and space toggles the selection', () => {
+			const node = populateFolder(0);
+			const selectIdFn = jest.fn();
+			render(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					type={node.type}
+					navigateTo={mockedNavigation}
+					selectId={selectIdFn}
+					focusable
+				/>
+			);
+			const item = screen.getByTestId(`node-item-${node.id}`);
+			expect(item).toHaveAttribute('tabindex', '0');
+			fireEvent.keyDown(item, { key: 'Enter' });
+			expect(mockedNavigation).toHaveBeenCalledTimes(1);
+			// the default action is prevented, so the list is not scrolled
+			expect(fireEvent.keyDown(item, { key: ' ' })).toBe(false);
+			expect(selectIdFn).toHaveBeenCalledWith(node.id);
+		});
+
+		test('delete and F2 run move to trash and rename only if permitted', () => {
+			const node = populateFile();
+			const markForDeletionFn = jest.fn();
+			const renameFn = jest.fn();
+			const { rerender } = render(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					type={node.type}
+					markNodesForDeletionCallback={markForDeletionFn}
+					renameNode={renameFn}
+					permittedContextualMenuActions={[]}
+				/>
+			);
+			const item = screen.getByTestId(`node-item-${node.id}`);
+			expect(item).toHaveAttribute('tabindex', '-1');
+			fireEvent.keyDown(item, { key: 'Delete' });
+			fireEvent.keyDown(item, { key: 'F2' });
+			expect(markForDeletionFn).not.toHaveBeenCalled();
+			expect(renameFn).not.toHaveBeenCalled();
+
+			rerender(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					type={node.type}
+					markNodesForDeletionCallback={markForDeletionFn}
+					renameNode={renameFn}
+					permittedContextualMenuActions={[Action.MoveToTrash, Action.Rename]}
+				/>
+			);
+			fireEvent.keyDown(screen.getByTestId(`node-item-${node.id}`), { key: 'Delete' });
+			expect(markForDeletionFn).toHaveBeenCalledTimes(1);
+			fireEvent.keyDown(screen.getByTestId(`node-item-${node.id}`), { key: 'F2' });
+			expect(renameFn).toHaveBeenCalledTimes(1);
+		});
+	});
+	describe('Click with modifiers', () => {
+		test('shift+click selects the range and ctrl or cmd+click toggles the selection', () => {
+			const node = populateFile();
+			const selectIdFn = jest.fn();
+			const selectRangeFn = jest.fn();
+			const setActiveFn = jest.fn();
+			render(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					type={node.type}
+					selectId={selectIdFn}
+					selectRange={selectRangeFn}
+					setActive={setActiveFn}
+					compact
+				/>
+			);
+			const item = screen.getByTestId(`node-item-${node.id}`);
+			fireEvent.click(item, { shiftKey: true });
+			expect(selectRangeFn).toHaveBeenCalledWith(node.id);
+			fireEvent.click(item, { ctrlKey: true });
+			fireEvent.click(item, { metaKey: true });
+			// the compact list selects nodes with a simple click
+			expect(selectIdFn).not.toHaveBeenCalled();
+			expect(setActiveFn).toHaveBeenCalledTimes(2);
+		});
+
+		test('ctrl or cmd+click toggles the selection without the selection mode', () => {
+			const node = populateFile();
+			const selectIdFn = jest.fn();
+			render(
+				<NodeListItem id={node.id} name={node.name} type={node.type} selectId={selectIdFn} />
+			);
+			const item = screen.getByTestId(`node-item-${node.id}`);
+			fireEvent.click(item, { ctrlKey: true });
+			fireEvent.click(item, { metaKey: true });
+			expect(selectIdFn).toHaveBeenCalledTimes(2);
+			expect(selectIdFn).toHaveBeenCalledWith(node.id);
+		});
+	});
+	describe('Grid', () => {
+		test('tile shows the thumbnail of the file and no hover bar', () => {
+			const node = populateFile();
+			node.mime_type = 'image/png';
+			render(
+				<NodeListItem
+					id={node.id}
+					name={node.name}
+					type={node.type}
+					mimeType={node.mime_type}
+					version={node.version}
+					permittedHoverBarActions={[Action.Download]}
+					grid
+				/>
+			);
+			expect(screen.getByText(node.name)).toBeVisible();
+			expect(screen.getByTestId('grid-item-preview')).toHaveAttribute(
+				'src',
+				`${REST_ENDPOINT}${PREVIEW_PATH}/${PREVIEW_TYPE.IMAGE}/${node.id}/${node.version}/${GRID_ITEM_WIDTH}x${GRID_ITEM_PREVIEW_HEIGHT}/thumbnail/`
+			);
+			expect(screen.queryByTestId('hover-bar')).not.toBeInTheDocument();
+		});
+	});
 });
@@ -10,7 +10,9 @@ import { Container, Icon, Padding, Row, Text } from '@zextras/carbonio-design-sy
 import { PreviewsManagerContext } from '@zextras/carbonio-ui-preview';
 import debounce from 'lodash/debounce';
 import includes from 'lodash/includes';
+import map from 'lodash/map';
 import some from 'lodash/some';
+import toLower from 'lodash/toLower';
 import { useTranslation } from 'react-i18next';
 import { useLocation } from 'react-router-dom';
 import styled from 'styled-components';
@@ -21,6 +23,8 @@ import useUserInfo from '../../../hooks/useUserInfo';
 import {
 	DISPLAYER_TABS,
 	DOUBLE_CLICK_DELAY,
+	GRID_ITEM_HEIGHT,
+	GRID_ITEM_PREVIEW_HEIGHT,
 	LIST_ITEM_AVATAR_HEIGHT,
 	LIST_ITEM_HEIGHT,
 	LIST_ITEM_HEIGHT_COMPACT,
@@ -29,27 +33,34 @@ import {
 	ROOTS
 } from '../../constants';
 import { useCreateSnackbar } from '../../hooks/useCreateSnackbar';
-import { Action } from '../../types/common';
+import { useDownload } from '../../hooks/useDownload';
+import { useSearchKeywords } from '../../hooks/useSearchKeywords';
+import { Action, DetailsColumn, DetailsColumnLayout } from '../../types/common';
 import { NodeType, User } from '../../types/graphql/types';
 import { ActionItem, buildActionItems } from '../../utils/ActionsFactory';
 import {
-	downloadNode,
 	formatDate,
 	getIconByFileType,
 	getPdfPreviewSrc,
 	getImgPreviewSrc,
+	getGridItemPreviewUrl,
 	getListItemAvatarPictureUrl,
 	humanFileSize,
 	openNodeWithDocs,
 	getDocumentPreviewSrc,
 	isSupportedByPreview,
-	isSearchView
+	isSearchView,
+	getTextSnippet
 } from '../../utils/utils';
 import { ContextualMenu } from './ContextualMenu';
+import { HighlightedText } from './HighlightedText';
 import { NodeAvatarIcon } from './NodeAvatarIcon';
 import { NodeHoverBar } from './NodeHoverBar';
 import {
+	DetailsCell,
 	FlexContainer,
+	GridItemPreview,
+	GridItemPreviewImage,
 	HoverBarContainer,
 	HoverContainer,
 	ListItemContainer
@@ -62,6 +73,8 @@ const CustomText = styled(Text)`
 interface NodeListItemProps {
 	id: string;
 	name: string;
+	/** shown as a snippet in search results, when the keywords match the description */
+	description?: string;
 	type: NodeType;
 	extension?: string | null;
 	mimeType?: string;
@@ -84,12 +97,20 @@ interface NodeListItemProps {
 	isSelected?: boolean;
 	isSelectionModeActive?: boolean;
 	selectId?: (id: string) => void;
+	/** select the nodes from the selection anchor to this one, on shift+click */
+	selectRange?: (id: string) => void;
 	permittedHoverBarActions?: Action[];
 	permittedContextualMenuActions?: Action[];
 	renameNode?: () => void;
 	isActive?: boolean;
 	setActive?: (event: React.SyntheticEvent) => void;
 	compact?: boolean;
+	/** show only the first line of the item, for lists with a compact density */
+	dense?: boolean;
+	/** show the node as a tile with a big preview, for the grid view */
+	grid?: boolean;
+	/** show the node as a row of the details view, with a cell for each column */
+	detailsColumns?: DetailsColumnLayout[];
 	navigateTo?: (id: string, event?: React.SyntheticEvent) => void;
 	disabled?: boolean;
 	selectable?: boolean;
@@ -98,11 +119,15 @@ interface NodeListItemProps {
 	selectionContextualMenuActionsItems?: ActionItem[];
 	dragging?: boolean;
 	version?: number;
+	/** whether the item is the one reachable with the tab key in the list (roving focus) */
+	focusable?: boolean;
+	onFocus?: (id: string) => void;
 }
 
 const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 	id,
 	name,
+	description,
 	type,
 	extension,
 	mimeType,
@@ -125,12 +150,16 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 	isSelected,
 	isSelectionModeActive,
 	selectId,
+	selectRange,
 	permittedHoverBarActions = [],
 	permittedContextualMenuActions = [],
 	renameNode,
 	isActive,
 	setActive = (): void => undefined,
 	compact,
+	dense = false,
+	grid = false,
+	detailsColumns,
 	navigateTo = (): void => undefined,
 	disabled = false,
 	selectable = true,
@@ -138,7 +167,9 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 	deletePermanentlyCallback,
 	selectionContextualMenuActionsItems,
 	dragging = false,
-	version
+	version,
+	focusable = false,
+	onFocus
 }) => {
 	const [t] = useTranslation();
 	const { createPreview } = useContext(PreviewsManagerContext);
@@ -158,6 +189,8 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 
 	const createSnackbar = useCreateSnackbar();
 
+	const { downloadFile, downloadArchive } = useDownload();
+
 	const { sendViaMail } = useSendViaMail();
 
 	const sendViaMailCallback = useCallback(() => {
@@ -200,7 +233,9 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 							icon: 'DownloadOutline',
 							tooltipLabel: t('preview.actions.tooltip.download', 'Download'),
 							id: 'DownloadOutline',
-							onClick: (): void => downloadNode(id)
+							onClick: (): void => {
+								downloadFile({ id, name, size });
+							}
 						}
 					];
 					const closeAction = {
@@ -267,7 +302,8 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 			t,
 			version,
 			setActiveNode,
-			documentType
+			documentType,
+			downloadFile
 		]
 	);
 
@@ -298,8 +334,12 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 				icon: 'Download',
 				label: t('actions.download', 'Download'),
 				click: (): void => {
-					// download node without version to be sure last version is downloaded
-					downloadNode(id);
+					if (isNavigable) {
+						// folders are downloaded as a zip archive with all their content
+						downloadArchive([{ id, name }]);
+					} else {
+						downloadFile({ id, name, size });
+					}
 					createSnackbar({
 						key: new Date().toLocaleString(),
 						type: 'info',
@@ -386,7 +426,12 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 			restoreNodeCallback,
 			deletePermanentlyCallback,
 			id,
-			createSnackbar
+			createSnackbar,
+			isNavigable,
+			downloadArchive,
+			downloadFile,
+			name,
+			size
 		]
 	);
 
@@ -412,6 +457,32 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 		[setActive]
 	);
 
+	const clickHandler = useCallback(
+		(event: React.MouseEvent) => {
+			if (!disabled && selectable && event.shiftKey && selectRange) {
+				event.preventDefault();
+				selectRange(id);
+			} else if (!disabled && selectable && (event.ctrlKey || event.metaKey)) {
+				// toggle the selection without the need to enter the selection mode first
+				selectIdCallback(event);
+			} else if (compact) {
+				setActive(event);
+			} else {
+				setActiveDebounced(event);
+			}
+		},
+		[
+			compact,
+			disabled,
+			id,
+			selectIdCallback,
+			selectRange,
+			selectable,
+			setActive,
+			setActiveDebounced
+		]
+	);
+
 	const doubleClickHandler = useCallback(
 		(event: React.SyntheticEvent) => {
 			setActiveDebounced.cancel();
@@ -430,6 +501,77 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 		return '';
 	}, [lastEditor, owner, userInfo.me]);
 
+	const searchKeywords = useSearchKeywords();
+
+	const descriptionSnippet = useMemo(
+		() =>
+			// the snippet explains the match only when the name does not match
+			(!compact &&
+				description &&
+				!some(searchKeywords, (keyword) => includes(toLower(name), toLower(keyword))) &&
+				getTextSnippet(description, searchKeywords)) ||
+			undefined,
+		[compact, description, name, searchKeywords]
+	);
+
+	const focusHandler = useCallback(() => {
+		onFocus && onFocus(id);
+	}, [id, onFocus]);
+
+	const keyDownHandler = useCallback(
+		(event: React.KeyboardEvent) => {
+			// keys pressed on the elements inside the item (ex. hover bar buttons) are handled by them
+			if (event.target !== event.currentTarget || disabled) {
+				return;
+			}
+			switch (event.key) {
+				case 'Enter':
+					event.preventDefault();
+					openNode(event);
+					break;
+				case ' ':
+					if (selectable) {
+						// prevent the scroll of the list
+						event.preventDefault();
+						selectIdCallback(event);
+					}
+					break;
+				case 'Delete':
+					if (
+						!isSelectionModeActive &&
+						includes(permittedContextualMenuActions, Action.MoveToTrash) &&
+						markNodesForDeletionCallback
+					) {
+						event.preventDefault();
+						markNodesForDeletionCallback();
+					}
+					break;
+				case 'F2':
+					if (
+						!isSelectionModeActive &&
+						includes(permittedContextualMenuActions, Action.Rename) &&
+						renameNode
+					) {
+						event.preventDefault();
+						renameNode();
+					}
+					break;
+				default:
+					break;
+			}
+		},
+		[
+			disabled,
+			isSelectionModeActive,
+			markNodesForDeletionCallback,
+			openNode,
+			permittedContextualMenuActions,
+			renameNode,
+			selectIdCallback,
+			selectable
+		]
+	);
+
 	const openContextualMenuHandler = useCallback(() => {
 		setIsContextualMenuActive(true);
 	}, []);
@@ -438,8 +580,98 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 		setIsContextualMenuActive(false);
 	}, []);
 
+	const gridItemPreviewUrl = useMemo(
+		() => (grid ? getGridItemPreviewUrl(id, version, type, mimeType) : undefined),
+		[grid, id, mimeType, type, version]
+	);
+
+	const detailsCells = useMemo<Record<DetailsColumn, React.ReactNode> | undefined>(
+		() =>
+			detailsColumns && {
+				[DetailsColumn.Name]: (
+					<>
+						<NodeAvatarIcon
+							selectionModeActive={isSelectionModeActive}
+							selected={isSelected}
+							onClick={selectIdCallback}
+							compact
+							disabled={disabled}
+							selectable={selectable}
+							icon={getIconByFileType(type, mimeType || id)}
+						/>
+						<Text overflow="ellipsis" disabled={disabled} size="medium">
+							<HighlightedText text={name} keywords={searchKeywords} />
+						</Text>
+						{flagActive && <Icon icon="Flag" color="error" disabled={disabled} />}
+					</>
+				),
+				[DetailsColumn.Owner]: (
+					<Text overflow="ellipsis" disabled={disabled} size="small">
+						{owner?.full_name}
+					</Text>
+				),
+				[DetailsColumn.LastEditor]: (
+					<Text overflow="ellipsis" disabled={disabled} size="small">
+						{lastEditor?.full_name}
+					</Text>
+				),
+				[DetailsColumn.Type]: (
+					<CustomText overflow="ellipsis" color="gray1" disabled={disabled} size="small">
+						{/* i18next-extract-disable-next-line */}
+						{extension || t(`node.type.${type.toLowerCase()}`, type)}
+					</CustomText>
+				),
+				[DetailsColumn.Size]: size != null && (
+					<Text color="gray1" disabled={disabled} size="small">
+						{humanFileSize(size)}
+					</Text>
+				),
+				[DetailsColumn.UpdatedAt]: (
+					<Text overflow="ellipsis" color="gray1" disabled={disabled} size="small">
+						{formatDate(updatedAt, undefined, userInfo.zimbraPrefTimeZoneId)}
+					</Text>
+				),
+				[DetailsColumn.Shares]: (
+					<>
+						{linkActive && <Icon icon="Link2" disabled={disabled} />}
+						{incomingShare && (
+							<Icon icon="ArrowCircleLeft" customColor="#AB47BC" disabled={disabled} />
+						)}
+						{outgoingShare && (
+							<Icon icon="ArrowCircleRight" customColor="#FFB74D" disabled={disabled} />
+						)}
+					</>
+				)
+			},
+		[
+			detailsColumns,
+			disabled,
+			extension,
+			flagActive,
+			id,
+			incomingShare,
+			isSelected,
+			isSelectionModeActive,
+			lastEditor,
+			linkActive,
+			mimeType,
+			name,
+			outgoingShare,
+			owner,
+			searchKeywords,
+			selectIdCallback,
+			selectable,
+			size,
+			t,
+			type,
+			updatedAt,
+			userInfo.zimbraPrefTimeZoneId
+		]
+	);
+
 	const preventTextSelection = useCallback<React.MouseEventHandler>((e: React.MouseEvent): void => {
-		if (e.detail > 1) {
+		// avoid text selection on double click and on shift+click
+		if (e.detail > 1 || e.shiftKey) {
 			e.preventDefault();
 		}
 	}, []);
@@ -457,7 +689,7 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 			>
 				<ListItemContainer
 					height="fit"
-					onClick={compact ? setActive : setActiveDebounced}
+					onClick={clickHandler}
 					onDoubleClick={doubleClickHandler}
 					data-testid={`node-item-${id}`}
 					crossAlignment="flex-end"
@@ -465,128 +697,227 @@ const NodeListItemComponent: React.VFC<NodeListItemProps> = ({
 					disableHover={isContextualMenuActive || dragging || disabled}
 					disabled={disabled}
 					onMouseDown={preventTextSelection}
+					tabIndex={focusable ? 0 : -1}
+					onFocus={focusHandler}
+					onKeyDown={keyDownHandler}
 				>
-					<HoverContainer
-						height={compact ? LIST_ITEM_HEIGHT_COMPACT : LIST_ITEM_HEIGHT}
-						wrap="nowrap"
-						mainAlignment="flex-start"
-						crossAlignment="center"
-						padding={{ all: 'small' }}
-						width="fill"
-						background={isActive ? 'highlight' : 'gray6'}
-					>
-						<NodeAvatarIcon
-							selectionModeActive={isSelectionModeActive}
-							selected={isSelected}
-							onClick={selectIdCallback}
-							compact={compact}
-							disabled={disabled}
-							selectable={selectable}
-							icon={getIconByFileType(type, mimeType || id)}
-							picture={getListItemAvatarPictureUrl(id, version, type, mimeType)}
-						/>
-						<Container
+					{detailsCells && (
+						<HoverContainer
+							height={LIST_ITEM_HEIGHT_COMPACT}
+							wrap="nowrap"
+							mainAlignment="flex-start"
+							crossAlignment="center"
+							width="fill"
+							background={isActive ? 'highlight' : 'gray6'}
+						>
+							{map(detailsColumns, (column) => (
+								<DetailsCell key={column.id} $width={column.width}>
+									{detailsCells[column.id]}
+								</DetailsCell>
+							))}
+						</HoverContainer>
+					)}
+					{!detailsCells && grid && (
+						<HoverContainer
 							orientation="vertical"
+							height={GRID_ITEM_HEIGHT}
+							mainAlignment="flex-start"
 							crossAlignment="flex-start"
-							mainAlignment="space-around"
-							padding={{ left: 'large' }}
-							minWidth="auto"
+							padding={{ all: 'small' }}
 							width="fill"
-							maxWidth={`calc(100% - ${LIST_ITEM_AVATAR_HEIGHT}px)`}
+							background={isActive ? 'highlight' : 'gray6'}
 						>
-							<Row
-								padding={{ vertical: 'extrasmall' }}
-								width="fill"
-								wrap="nowrap"
-								mainAlignment="space-between"
-							>
-								<Text overflow="ellipsis" disabled={disabled} size="medium">
-									{name}
-								</Text>
-								{!compact && (
-									<Container orientation="horizontal" mainAlignment="flex-end" width="fit">
-										{flagActive && (
-											<Padding left="extrasmall">
-												<Icon icon="Flag" color="error" disabled={disabled} />
-											</Padding>
-										)}
-										{linkActive && (
-											<Padding left="extrasmall">
-												<Icon icon="Link2" disabled={disabled} />
-											</Padding>
-										)}
-										{incomingShare && (
-											<Padding left="extrasmall">
-												<Icon icon="ArrowCircleLeft" customColor="#AB47BC" disabled={disabled} />
-											</Padding>
-										)}
-										{outgoingShare && (
-											<Padding left="extrasmall">
-												<Icon icon="ArrowCircleRight" customColor="#FFB74D" disabled={disabled} />
-											</Padding>
-										)}
-										{trashed && isSearchView(location) && (
-											<Padding left="extrasmall">
-												<Icon icon="Trash2Outline" disabled={disabled} />
-											</Padding>
-										)}
-										<Padding left="extrasmall">
-											<Text size="extrasmall" color="gray1" disabled={disabled}>
-												{formatDate(updatedAt, undefined, userInfo.zimbraPrefTimeZoneId)}
-											</Text>
-										</Padding>
-									</Container>
+							<GridItemPreview height={GRID_ITEM_PREVIEW_HEIGHT} background="gray5">
+								{gridItemPreviewUrl ? (
+									<GridItemPreviewImage
+										src={gridItemPreviewUrl}
+										alt=""
+										loading="lazy"
+										data-testid="grid-item-preview"
+									/>
+								) : (
+									<Icon
+										icon={getIconByFileType(type, mimeType || id)}
+										size="large"
+										color="secondary"
+										disabled={disabled}
+									/>
+								)}
+							</GridItemPreview>
+							<Row width="fill" wrap="nowrap" mainAlignment="flex-start" padding={{ top: 'small' }}>
+								<NodeAvatarIcon
+									selectionModeActive={isSelectionModeActive}
+									selected={isSelected}
+									onClick={selectIdCallback}
+									compact
+									disabled={disabled}
+									selectable={selectable}
+									icon={getIconByFileType(type, mimeType || id)}
+								/>
+								<Container
+									orientation="vertical"
+									crossAlignment="flex-start"
+									padding={{ left: 'small' }}
+									minWidth={0}
+									width="fill"
+								>
+									<Text overflow="ellipsis" disabled={disabled} size="medium">
+										<HighlightedText text={name} keywords={searchKeywords} />
+									</Text>
+									<Text overflow="ellipsis" color="gray1" disabled={disabled} size="extrasmall">
+										{/* i18next-extract-disable-next-line */}
+										{extension || t(`node.type.${type.toLowerCase()}`, type)}
+										{size != null && ` · ${humanFileSize(size)}`}
+									</Text>
+								</Container>
+								{flagActive && (
+									<Padding left="extrasmall">
+										<Icon icon="Flag" color="error" disabled={disabled} />
+									</Padding>
 								)}
 							</Row>
-							{!compact && (
+						</HoverContainer>
+					)}
+					{!detailsCells && !grid && (
+						<HoverContainer
+							height={compact || dense ? LIST_ITEM_HEIGHT_COMPACT : LIST_ITEM_HEIGHT}
+							wrap="nowrap"
+							mainAlignment="flex-start"
+							crossAlignment="center"
+							padding={{ all: 'small' }}
+							width="fill"
+							background={isActive ? 'highlight' : 'gray6'}
+						>
+							<NodeAvatarIcon
+								selectionModeActive={isSelectionModeActive}
+								selected={isSelected}
+								onClick={selectIdCallback}
+								compact={compact || dense}
+								disabled={disabled}
+								selectable={selectable}
+								icon={getIconByFileType(type, mimeType || id)}
+								picture={getListItemAvatarPictureUrl(id, version, type, mimeType)}
+							/>
+							<Container
+								orientation="vertical"
+								crossAlignment="flex-start"
+								mainAlignment="space-around"
+								padding={{ left: 'large' }}
+								minWidth="auto"
+								width="fill"
+								maxWidth={`calc(100% - ${LIST_ITEM_AVATAR_HEIGHT}px)`}
+							>
 								<Row
 									padding={{ vertical: 'extrasmall' }}
 									width="fill"
 									wrap="nowrap"
-									mainAlignment="flex-start"
+									mainAlignment="space-between"
 								>
-									<FlexContainer
-										$flexShrink={0}
-										$flexGrow={1}
-										$flexBasis="auto"
+									<Text overflow="ellipsis" disabled={disabled} size="medium">
+										<HighlightedText text={name} keywords={searchKeywords} />
+									</Text>
+									{!compact && (
+										<Container orientation="horizontal" mainAlignment="flex-end" width="fit">
+											{flagActive && (
+												<Padding left="extrasmall">
+													<Icon icon="Flag" color="error" disabled={disabled} />
+												</Padding>
+											)}
+											{linkActive && (
+												<Padding left="extrasmall">
+													<Icon icon="Link2" disabled={disabled} />
+												</Padding>
+											)}
+											{incomingShare && (
+												<Padding left="extrasmall">
+													<Icon icon="ArrowCircleLeft" customColor="#AB47BC" disabled={disabled} />
+												</Padding>
+											)}
+											{outgoingShare && (
+												<Padding left="extrasmall">
+													<Icon icon="ArrowCircleRight" customColor="#FFB74D" disabled={disabled} />
+												</Padding>
+											)}
+											{trashed && isSearchView(location) && (
+												<Padding left="extrasmall">
+													<Icon icon="Trash2Outline" disabled={disabled} />
+												</Padding>
+											)}
+											<Padding left="extrasmall">
+												<Text size="extrasmall" color="gray1" disabled={disabled}>
+													{formatDate(updatedAt, undefined, userInfo.zimbraPrefTimeZoneId)}
+												</Text>
+											</Padding>
+										</Container>
+									)}
+								</Row>
+								{!compact && !dense && (
+									<Row
+										padding={{ vertical: 'extrasmall' }}
+										width="fill"
+										wrap="nowrap"
 										mainAlignment="flex-start"
-										orientation="horizontal"
-										width="fit"
 									>
-										<CustomText color="gray1" disabled={disabled} size="small">
-											{/* i18next-extract-disable-next-line */}
-											{extension || t(`node.type.${type.toLowerCase()}`, type)}
-										</CustomText>
-										{size != null && (
-											<Padding left="small">
-												<CustomText color="gray1" disabled={disabled} size="small">
-													{humanFileSize(size)}
-												</CustomText>
-											</Padding>
-										)}
-									</FlexContainer>
-									{displayName && (
 										<FlexContainer
-											width="fit"
-											minWidth={0}
-											$flexShrink={1}
+											$flexShrink={0}
 											$flexGrow={1}
 											$flexBasis="auto"
+											mainAlignment="flex-start"
 											orientation="horizontal"
-											mainAlignment="flex-end"
-											padding={{ left: 'small' }}
+											width="fit"
 										>
-											<Text size="extrasmall" overflow="ellipsis">
-												{displayName}
-											</Text>
+											<CustomText color="gray1" disabled={disabled} size="small">
+												{/* i18next-extract-disable-next-line */}
+												{extension || t(`node.type.${type.toLowerCase()}`, type)}
+											</CustomText>
+											{size != null && (
+												<Padding left="small">
+													<CustomText color="gray1" disabled={disabled} size="small">
+														{humanFileSize(size)}
+													</CustomText>
+												</Padding>
+											)}
 										</FlexContainer>
-									)}
-								</Row>
-							)}
-						</Container>
-					</HoverContainer>
+										{descriptionSnippet && (
+											<FlexContainer
+												width="fit"
+												minWidth={0}
+												$flexShrink={1}
+												$flexGrow={1}
+												$flexBasis="auto"
+												orientation="horizontal"
+												mainAlignment="flex-end"
+												padding={{ left: 'small' }}
+												data-testid="description-snippet"
+											>
+												<Text size="extrasmall" color="gray1" overflow="ellipsis">
+													<HighlightedText text={descriptionSnippet} keywords={searchKeywords} />
+												</Text>
+											</FlexContainer>
+										)}
+										{!descriptionSnippet && displayName && (
+											<FlexContainer
+												width="fit"
+												minWidth={0}
+												$flexShrink={1}
+												$flexGrow={1}
+												$flexBasis="auto"
+												orientation="horizontal"
+												mainAlignment="flex-end"
+												padding={{ left: 'small' }}
+											>
+												<Text size="extrasmall" overflow="ellipsis">
+													{displayName}
+												</Text>
+											</FlexContainer>
+										)}
+									</Row>
+								)}
+							</Container>
+						</HoverContainer>
+					)}
 
-					{!compact && !isSelectionModeActive && !dragging && (
+					{!compact && !grid && !detailsColumns && !isSelectionModeActive && !dragging && (
 						<HoverBarContainer
 							wrap="nowrap"
 							mainAlignment="flex-end"
@@ -20,7 +20,12 @@ import { useMoveNodesMutation } from '../../hooks/graphql/mutations/useMoveNodes
 import { useDeletePermanentlyModal } from '../../hooks/modals/useDeletePermanentlyModal';
 import { useCreateSnackbar } from '../../hooks/useCreateSnackbar';
 import { useUpload } from '../../hooks/useUpload';
-import { Action, NodeListItemType, URLParams } from '../../types/common';
+import {
+	Action,
+	DetailsColumnLayout,
+	NodeListItemType,
+	URLParams
+} from '../../types/common';
 import {
 	ActionItem,
 	canBeMoveDestination,
@@ -46,13 +51,19 @@ interface NodeListItemWrapperProps {
 	isSelected?: boolean;
 	isSelectionModeActive?: boolean;
 	selectId?: (id: string) => void;
+	selectRange?: (id: string) => void;
 	exitSelectionMode?: () => void;
 	renameNode?: (node: NodeListItemType) => void;
 	isActive?: boolean;
 	setActive?: (node: NodeListItemType, event: React.SyntheticEvent) => void;
 	compact?: boolean;
+	dense?: boolean;
+	grid?: boolean;
+	detailsColumns?: DetailsColumnLayout[];
 	navigateTo?: (id: string, event?: React.SyntheticEvent) => void;
 	selectionContextualMenuActionsItems?: ActionItem[];
+	focusable?: boolean;
+	onFocus?: (id: string) => void;
 }
 
 export const NodeListItemWrapper: React.VFC<NodeListItemWrapperProps> = ({
@@ -68,13 +79,19 @@ export const NodeListItemWrapper: React.VFC<NodeListItemWrapperProps> = ({
 	isSelected = false,
 	isSelectionModeActive = false,
 	selectId = (): void => undefined,
+	selectRange,
 	exitSelectionMode = (): void => undefined,
 	renameNode = (): void => undefined,
 	isActive = false,
 	setActive = (): void => undefined,
 	compact = false,
+	dense = false,
+	grid = false,
+	detailsColumns,
 	navigateTo = (): void => undefined,
-	selectionContextualMenuActionsItems
+	selectionContextualMenuActionsItems,
+	focusable,
+	onFocus
 }) => {
 	const [t] = useTranslation();
 	const draggedItems = useReactiveVar(draggedItemsVar);
@@ -219,7 +236,7 @@ export const NodeListItemWrapper: React.VFC<NodeListItemWrapperProps> = ({
 
 	const uploadAction = useCallback(
 		(event) => {
-			add(event.dataTransfer.files, node.id, true);
+			add(event.dataTransfer, node.id);
 			createSnackbar({
 				key: new Date().toLocaleString(),
 				type: 'info',
@@ -285,6 +302,7 @@ export const NodeListItemWrapper: React.VFC<NodeListItemWrapperProps> = ({
 					key={node.id}
 					id={node.id}
 					name={node.name}
+					description={node.description}
 					type={node.type}
 					extension={(isFile(node) && node.extension) || undefined}
 					mimeType={(isFile(node) && node.mime_type) || undefined}
@@ -306,12 +324,16 @@ export const NodeListItemWrapper: React.VFC<NodeListItemWrapperProps> = ({
 					isSelected={isSelected}
 					isSelectionModeActive={isSelectionModeActive}
 					selectId={selectId}
+					selectRange={selectRange}
 					permittedHoverBarActions={permittedHoverBarActions}
 					permittedContextualMenuActions={permittedContextualMenuActions}
 					renameNode={renameNodeCallback}
 					isActive={isActive}
 					setActive={setActiveNode}
 					compact={compact}
+					dense={dense}
+					grid={grid}
+					detailsColumns={detailsColumns}
 					navigateTo={navigateTo}
 					disabled={node.disabled || isDragged}
 					selectable={node.selectable}
@@ -319,6 +341,8 @@ export const NodeListItemWrapper: React.VFC<NodeListItemWrapperProps> = ({
 					selectionContextualMenuActionsItems={selectionContextualMenuActionsItems}
 					dragging={dragging}
 					version={(isFile(node) && node.version) || undefined}
+					focusable={focusable}
+					onFocus={onFocus}
 				/>
 			)}
 		</Dropzone>
@@ -2107,6 +2107,62 @@ describe('Nodes Selection Modal Content', () => {
 				// confirm action is called with local root node
 				expect(confirmAction).toHaveBeenCalledWith([expect.objectContaining({ id: localRoot.id })]);
 			});
+
+			test('Ctrl click toggles a node and shift click selects the range from the last toggled one', async () => {
+				const localRoot = populateLocalRoot();
+				const folder = populateFolder();
+				const files = [populateFile(), populateFile(), populateFile()];
+				localRoot.children = populateNodePage([folder, ...files]);
+				forEach([folder, ...files], (node) => {
+					node.parent = localRoot;
+				});
+
+				const mocks = [
+					mockGetRootsList(),
+					mockGetPath({ node_id: localRoot.id }, [localRoot]),
+					mockGetChildren(getChildrenVariables(localRoot.id), localRoot),
+					mockGetPermissions({ node_id: localRoot.id }, localRoot)
+				];
+
+				render(
+					<NodesSelectionModalContent
+						confirmAction={confirmAction}
+						confirmLabel="Select"
+						title="Select nodes"
+						closeAction={closeAction}
+						canSelectOpenedFolder={false}
+						maxSelection={undefined}
+					/>,
+					{
+						mocks
+					}
+				);
+				userEvent.dblClick(await screen.findByText(/home/i));
+				await screen.findByText(folder.name);
+				act(() => {
+					userEvent.click(screen.getByText(files[0].name), { ctrlKey: true });
+				});
+				expect(screen.getByText(/1 element selected/i)).toBeVisible();
+				act(() => {
+					userEvent.click(screen.getByText(files[0].name), { metaKey: true });
+				});
+				expect(screen.queryByText(/elements? selected/i)).not.toBeInTheDocument();
+				act(() => {
+					userEvent.click(screen.getByText(folder.name), { ctrlKey: true });
+				});
+				act(() => {
+					userEvent.click(screen.getByText(files[1].name), { shiftKey: true });
+				});
+				expect(screen.getByText(/3 elements selected/i)).toBeVisible();
+				act(() => {
+					userEvent.click(screen.getByRole('button', { name: /select/i }));
+				});
+				expect(confirmAction).toHaveBeenCalledWith([
+					expect.objectContaining({ id: folder.id }),
+					expect.objectContaining({ id: files[0].id }),
+					expect.objectContaining({ id: files[1].id })
+				]);
+			});
 		});
 
 		describe('with criteria to select nodes', () => {
@@ -18,6 +18,8 @@ import {
 	Tooltip
 } from '@zextras/carbonio-design-system';
 import debounce from 'lodash/debounce';
+import filter from 'lodash/filter';
+import find from 'lodash/find';
 import findIndex from 'lodash/findIndex';
 import map from 'lodash/map';
 import reduce from 'lodash/reduce';
@@ -43,7 +45,7 @@ import {
 } from '../../types/graphql/types';
 import { ArrayOneOrMore } from '../../types/utils';
 import { canCreateFolder, isFile, isFolder } from '../../utils/ActionsFactory';
-import { decodeError } from '../../utils/utils';
+import { decodeError, getNodesRange } from '../../utils/utils';
 import { LoadingIcon } from './LoadingIcon';
 import { ModalFooter } from './ModalFooter';
 import { ModalHeader } from './ModalHeader';
@@ -87,6 +89,8 @@ export const NodesSelectionModalContent: React.VFC<NodesSelectionModalContentPro
 	const [selectedNodes, setSelectedNodes] = useState<NodeWithMetadata[]>([]);
 	const selectedNodesIds = useMemo(() => map(selectedNodes, (node) => node.id), [selectedNodes]);
 	const navigationOccurredRef = useRef(false);
+	// last node selected with a click, used as start of the range selected with shift
+	const selectionAnchorRef = useRef<string>();
 	const [newFolderInputVisible, setNewFolderInputVisible] = useState(false);
 	const [newFolderName, setNewFolderName] = useState('');
 	const newFolderInputRef = useRef<HTMLInputElement>(null);
@@ -103,6 +107,7 @@ export const NodesSelectionModalContent: React.VFC<NodesSelectionModalContentPro
 
 	const selectId = useCallback(
 		(node: NodeWithMetadata) => {
+			selectionAnchorRef.current = node.id;
 			setSelectedNodes((prevState) => {
 				if (!maxSelection || maxSelection > 1) {
 					if (prevState.length === 1) {
@@ -208,6 +213,19 @@ export const NodesSelectionModalContent: React.VFC<NodesSelectionModalContentPro
 		return [];
 	}, [checkDisabled, checkSelectable, currentFolderNode]);
 
+	const selectRange = useCallback(
+		(id: string, fallbackAnchorId?: string) => {
+			const anchorId = some(nodes, (node) => node.id === selectionAnchorRef.current)
+				? (selectionAnchorRef.current as string)
+				: fallbackAnchorId || id;
+			selectionAnchorRef.current = anchorId;
+			setSelectedNodes(
+				filter(getNodesRange(nodes, anchorId, id), (node) => !!node.selectable && !node.disabled)
+			);
+		},
+		[nodes]
+	);
+
 	const getBaseNodeData = useCallback(
 		(node: Pick<NodeListItemType, 'id'>) =>
 			// for nodes already loaded as child these query should read data in cache
@@ -290,6 +308,15 @@ export const NodesSelectionModalContent: React.VFC<NodesSelectionModalContentPro
 		]
 	);
 
+	const selectNodeById = useCallback(
+		(id: string) => {
+			// same toggle of a click, so the anchor of the range is updated too
+			const node = find(nodes, (item) => item.id === id);
+			node && setSelectedNodeHandler(node);
+		},
+		[nodes, setSelectedNodeHandler]
+	);
+
 	const navigateTo = useCallback(
 		(id: string) => {
 			setOpenedFolder(id || '');
@@ -457,6 +484,8 @@ export const NodesSelectionModalContent: React.VFC<NodesSelectionModalContentPro
 						nodes={nodes}
 						activeNodes={selectedNodesIds}
 						setActiveNode={setSelectedNodeHandler}
+						selectId={selectNodeById}
+						selectRange={maxSelection === 1 ? undefined : selectRange}
 						loadMore={loadMore}
 						hasMore={hasMore}
 						navigateTo={navigateTo}
@@ -0,0 +1,286 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useQuery } from '@apollo/client';
+import { Container, getColor, Icon, Input, Row, Text } from '@zextras/carbonio-design-system';
+import compact from 'lodash/compact';
+import filter from 'lodash/filter';
+import first from 'lodash/first';
+import flatten from 'lodash/flatten';
+import forEach from 'lodash/forEach';
+import isEmpty from 'lodash/isEmpty';
+import last from 'lodash/last';
+import map from 'lodash/map';
+import startsWith from 'lodash/startsWith';
+import toLower from 'lodash/toLower';
+import uniqBy from 'lodash/uniqBy';
+import { useTranslation } from 'react-i18next';
+import styled from 'styled-components';
+
+import { useNavigation } from '../../../hooks/useNavigation';
+import GET_PATH from '../../graphql/queries/getPath.graphql';
+import { useFolderPath } from '../../hooks/useFolderPath';
+import { GetPathQuery, GetPathQueryVariables, Node } from '../../types/graphql/types';
+
+const PATH_SEPARATOR = '/';
+const ESCAPE_CHAR = '\\';
+
+// separators and escape characters inside a name are preceded by the escape character
+function escapeName(name: string): string {
+	return name.replace(/[\\/]/g, (char) => `${ESCAPE_CHAR}${char}`);
+}
+
+function joinPath(names: string[]): string {
+	return map(names, escapeName).join(PATH_SEPARATOR);
+}
+
+function splitPath(path: string): string[] {
+	const names = [''];
+	forEach(path.match(/\\[\s\S]?|\/|[^\\/]+/g), (token) => {
+		if (token === PATH_SEPARATOR) {
+			names.push('');
+		} else {
+			names[names.length - 1] += startsWith(token, ESCAPE_CHAR) ? token.slice(1) : token;
+		}
+	});
+	return names;
+}
+
+const SuggestionsContainer = styled(Container)`
+	position: absolute;
+	top: 100%;
+	left: 0;
+	z-index: 3;
+	max-height: 15rem;
+	overflow-y: auto;
+	box-shadow: 0 0 4px rgba(166, 166, 166, 0.5);
+`;
+
+const Suggestion = styled(Row)<{ $highlighted: boolean }>`
+	cursor: pointer;
+	background-color: ${({ theme, $highlighted }): string =>
+		$highlighted ? getColor('highlight', theme) : 'inherit'};
+	&:hover {
+		background-color: ${({ theme }): string => getColor('gray6.hover', theme)};
+	}
+`;
+
+interface PathInputProps {
+	/** id of the folder whose path is edited */
+	folderId: string;
+	onClose: () => void;
+}
+
+/**
+ * Editable path of a folder, with the names of the child folders suggested for the last segment.
+ * The path is relative to the first folder of the path of the current one.
+ * A separator which is part of a name is escaped with a backslash.
+ */
+export const PathInput: React.VFC<PathInputProps> = ({ folderId, onClose }) => {
+	const [t] = useTranslation();
+	const { navigateToFolder } = useNavigation();
+	const { findFoldersByPath, getChildFolders } = useFolderPath();
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [value, setValue] = useState<string>();
+	const [pathError, setPathError] = useState<string>();
+	// folders whose names are suggested, children of all the folders with the typed parent path
+	const [childFolders, setChildFolders] = useState<Array<Pick<Node, 'id' | 'name'>>>([]);
+	const [highlightedIndex, setHighlightedIndex] = useState(-1);
+
+	const { data: pathData } = useQuery<GetPathQuery, GetPathQueryVariables>(GET_PATH, {
+		variables: { node_id: folderId }
+	});
+
+	const pathNodes = useMemo(() => compact(pathData?.getPath), [pathData]);
+	const rootNode = first(pathNodes);
+	/* i18next-extract-disable-next-line */
+	const rootLabel = rootNode ? t('node.alias.name', rootNode.name, { context: rootNode.id }) : '';
+
+	useEffect(() => {
+		if (!isEmpty(pathNodes)) {
+			// initialize the value only once, to not override what the user is typing
+			setValue(
+				(prevValue) =>
+					prevValue ??
+					`${joinPath(
+						map(pathNodes, (node, index) => (index === 0 ? rootLabel : node.name))
+					)}${PATH_SEPARATOR}`
+			);
+		}
+	}, [pathNodes, rootLabel]);
+
+	useEffect(() => {
+		inputRef.current && inputRef.current.focus();
+	}, []);
+
+	// only the last segment changes while the user is typing a name
+	const segments = useMemo(() => splitPath(value || ''), [value]);
+	const lastSegment = last(segments) || '';
+	const parentPath = segments.length > 1 ? joinPath(segments.slice(0, -1)) : undefined;
+	const parentSegments = useMemo(
+		() => (parentPath !== undefined ? splitPath(parentPath) : []),
+		[parentPath]
+	);
+
+	useEffect(() => {
+		let cancelled = false;
+		if (rootNode && parentSegments[0] === rootLabel) {
+			findFoldersByPath(rootNode.id, parentSegments.slice(1))
+				.then((ids) => Promise.all(map(ids, (id) => getChildFolders(id))))
+				.then((folders) => {
+					if (!cancelled) {
+						// folders with the same name complete the path in the same way
+						setChildFolders(uniqBy(flatten(folders), (folder) => folder.name));
+					}
+				});
+		} else {
+			setChildFolders([]);
+		}
+		return (): void => {
+			// discard the result of a path which has been edited in the meantime
+			cancelled = true;
+		};
+	}, [findFoldersByPath, getChildFolders, parentSegments, rootLabel, rootNode]);
+
+	const suggestions = useMemo(
+		() =>
+			filter(childFolders, (folder) => startsWith(toLower(folder.name), toLower(lastSegment))),
+		[childFolders, lastSegment]
+	);
+
+	useEffect(() => {
+		setHighlightedIndex(-1);
+	}, [suggestions]);
+
+	const changeHandler = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+		setValue(event.target.value);
+		setPathError(undefined);
+	}, []);
+
+	const complete = useCallback(
+		(name: string) => {
+			setValue(`${joinPath([...parentSegments, name])}${PATH_SEPARATOR}`);
+			inputRef.current && inputRef.current.focus();
+		},
+		[parentSegments]
+	);
+
+	const submit = useCallback(() => {
+		// a trailing separator does not add a segment
+		const names = lastSegment ? [...parentSegments, lastSegment] : parentSegments;
+		const notFoundError = t('breadcrumb.pathInput.notFound', 'Folder not found');
+		if (rootNode && names[0] === rootLabel) {
+			findFoldersByPath(rootNode.id, names.slice(1)).then((ids) => {
+				if (ids.length === 1) {
+					navigateToFolder(ids[0]);
+					onClose();
+				} else if (ids.length > 1) {
+					// names are not unique, so the path can lead to more folders
+					setPathError(t('breadcrumb.pathInput.ambiguous', 'More folders have this path'));
+				} else {
+					setPathError(notFoundError);
+				}
+			});
+		} else {
+			setPathError(notFoundError);
+		}
+	}, [
+		findFoldersByPath,
+		lastSegment,
+		navigateToFolder,
+		onClose,
+		parentSegments,
+		rootLabel,
+		rootNode,
+		t
+	]);
+
+	const keyDownHandler = useCallback(
+		(event: React.KeyboardEvent<HTMLInputElement>) => {
+			const highlighted = suggestions[highlightedIndex];
+			switch (event.key) {
+				case 'ArrowDown':
+					if (!isEmpty(suggestions)) {
+						event.preventDefault();
+						setHighlightedIndex((prevIndex) => (prevIndex + 1) % suggestions.length);
+					}
+					break;
+				case 'ArrowUp':
+					if (!isEmpty(suggestions)) {
+						event.preventDefault();
+						setHighlightedIndex(
+							(prevIndex) => (prevIndex <= 0 ? suggestions.length : prevIndex) - 1
+						);
+					}
+					break;
+				case 'Tab':
+					// a single suggestion is completed even if it is not highlighted
+					if (highlighted || suggestions.length === 1) {
+						event.preventDefault();
+						complete((highlighted || suggestions[0]).name);
+					}
+					break;
+				case 'Enter':
+					if (highlighted) {
+						complete(highlighted.name);
+					} else {
+						submit();
+					}
+					break;
+				case 'Escape':
+					onClose();
+					break;
+				default:
+					break;
+			}
+		},
+		[complete, highlightedIndex, onClose, submit, suggestions]
+	);
+
+	const preventBlur = useCallback((event: React.MouseEvent) => {
+		// keep the focus on the input when a suggestion is clicked
+		event.preventDefault();
+	}, []);
+
+	return (
+		<Container height="fit" style={{ position: 'relative' }} data-testid="path-input">
+			<Input
+				label={t('breadcrumb.pathInput.label', 'Path')}
+				value={value || ''}
+				onChange={changeHandler}
+				onKeyDown={keyDownHandler}
+				onBlur={onClose}
+				inputRef={inputRef}
+				hasError={!!pathError}
+				description={pathError}
+				backgroundColor="gray5"
+			/>
+			{!isEmpty(suggestions) && (
+				<SuggestionsContainer background="gray6" height="fit" role="listbox">
+					{map(suggestions, (folder, index) => (
+						<Suggestion
+							key={folder.id}
+							$highlighted={index === highlightedIndex}
+							width="fill"
+							mainAlignment="flex-start"
+							padding={{ all: 'small' }}
+							gap="0.5rem"
+							role="option"
+							aria-selected={index === highlightedIndex}
+							onMouseDown={preventBlur}
+							onClick={(): void => complete(folder.name)}
+						>
+							<Icon icon="Folder" size="medium" color="secondary" />
+							<Text>{folder.name}</Text>
+						</Suggestion>
+					))}
+				</SuggestionsContainer>
+			)}
+		</Container>
+	);
+};
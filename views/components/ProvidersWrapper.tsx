@@ -12,6 +12,9 @@ import { PreviewManager } from '@zextras/carbonio-ui-preview';
 
 import StyledWrapper from '../../../StyledWrapper';
 import buildClient from '../../apollo';
+import { DownloadTray } from './DownloadTray';
+import { UploadLimitsLoader } from './UploadLimitsLoader';
+import { UploadsRestorer } from './UploadsRestorer';
 
 export const ProvidersWrapper: React.FC = ({ children }) => {
 	const apolloClient = useMemo(() => buildClient(), []);
@@ -20,7 +23,12 @@ export const ProvidersWrapper: React.FC = ({ children }) => {
 			<ApolloProvider client={apolloClient}>
 				<SnackbarManager>
 					<ModalManager>
-						<PreviewManager>{children}</PreviewManager>
+						<PreviewManager>
+							<UploadLimitsLoader />
+							<UploadsRestorer />
+							{children}
+							<DownloadTray />
+						</PreviewManager>
 					</ModalManager>
 				</SnackbarManager>
 			</ApolloProvider>
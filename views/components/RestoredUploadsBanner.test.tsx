@@ -0,0 +1,66 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { uploadVar } from '../../apollo/uploadVar';
+import { populateFolder } from '../../mocks/mockUtils';
+import { UploadStatus, UploadType } from '../../types/common';
+import { render } from '../../utils/testUtils';
+import { RestoredUploadsBanner } from './RestoredUploadsBanner';
+
+describe('Restored Uploads Banner', () => {
+	test('Discard removes the restored uploads which are still paused', async () => {
+		const destinationFolder = populateFolder();
+		const restoredItems: UploadType[] = [
+			{
+				file: new File(['restored file'], 'file1.txt', { type: 'text/plain' }),
+				percentage: 0,
+				parentId: destinationFolder.id,
+				id: 'restored1',
+				status: UploadStatus.PAUSED
+			},
+			{
+				file: new File(['restored file'], 'file2.txt', { type: 'text/plain' }),
+				percentage: 40,
+				parentId: destinationFolder.id,
+				id: 'restored2',
+				status: UploadStatus.PAUSED,
+				uploadId: 'uploadId',
+				offset: 5
+			}
+		];
+		uploadVar({ restored1: restoredItems[0], restored2: restoredItems[1] });
+
+		render(<RestoredUploadsBanner restoredIds={['restored1', 'restored2']} />, { mocks: [] });
+
+		expect(screen.getByText(/2 uploads have been interrupted/i)).toBeVisible();
+		expect(screen.getByRole('button', { name: /resume/i })).toBeVisible();
+		userEvent.click(screen.getByRole('button', { name: /discard/i }));
+		expect(uploadVar()).toEqual({});
+		expect(screen.queryByTestId('restored-uploads-banner')).not.toBeInTheDocument();
+	});
+
+	test('Banner is not shown if restored uploads are not paused anymore', () => {
+		const destinationFolder = populateFolder();
+		uploadVar({
+			restored1: {
+				file: new File(['restored file'], 'file1.txt', { type: 'text/plain' }),
+				percentage: 100,
+				parentId: destinationFolder.id,
+				id: 'restored1',
+				status: UploadStatus.COMPLETED
+			}
+		});
+
+		render(<RestoredUploadsBanner restoredIds={['restored1']} />, { mocks: [] });
+
+		expect(screen.queryByTestId('restored-uploads-banner')).not.toBeInTheDocument();
+	});
+});
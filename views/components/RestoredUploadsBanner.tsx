@@ -0,0 +1,73 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import { Button, Container, Padding, Text } from '@zextras/carbonio-design-system';
+import filter from 'lodash/filter';
+import { useTranslation } from 'react-i18next';
+
+import { uploadVar } from '../../apollo/uploadVar';
+import { useUpload } from '../../hooks/useUpload';
+import { UploadStatus, UploadType } from '../../types/common';
+
+interface RestoredUploadsBannerProps {
+	restoredIds: string[];
+}
+
+export const RestoredUploadsBanner: React.VFC<RestoredUploadsBannerProps> = ({ restoredIds }) => {
+	const [t] = useTranslation();
+	const { resumeById, removeById } = useUpload();
+	const uploadStatusMap = useReactiveVar<{ [id: string]: UploadType }>(uploadVar);
+
+	// once resumed, restored items are handled like all other uploads
+	const pendingIds = useMemo(
+		() => filter(restoredIds, (id) => uploadStatusMap[id]?.status === UploadStatus.PAUSED),
+		[restoredIds, uploadStatusMap]
+	);
+
+	const resumeAll = useCallback(() => {
+		resumeById(pendingIds);
+	}, [pendingIds, resumeById]);
+
+	const discardAll = useCallback(() => {
+		removeById(pendingIds);
+	}, [pendingIds, removeById]);
+
+	return pendingIds.length > 0 ? (
+		<Container
+			orientation="horizontal"
+			mainAlignment="space-between"
+			height="auto"
+			background="gray5"
+			padding={{ all: 'small' }}
+			data-testid="restored-uploads-banner"
+		>
+			<Text overflow="break-word" size="small">
+				{t(
+					'uploads.restored.message',
+					'{{count}} uploads have been interrupted in your last session',
+					{ count: pendingIds.length }
+				)}
+			</Text>
+			<Container orientation="horizontal" mainAlignment="flex-end" width="fit">
+				<Button
+					type="outlined"
+					color="secondary"
+					label={t('uploads.restored.discard', 'Discard')}
+					onClick={discardAll}
+				/>
+				<Padding left="small" />
+				<Button
+					type="outlined"
+					label={t('uploads.restored.resume', 'Resume')}
+					onClick={resumeAll}
+				/>
+			</Container>
+		</Container>
+	) : null;
+};
@@ -0,0 +1,50 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { LOGGED_USER } from '../../../mocks/constants';
+import { savedSearchesVar } from '../../apollo/savedSearchesVar';
+import { AdvancedFilters } from '../../types/common';
+import { mockGetRootsList } from '../../utils/mockUtils';
+import { buildChipsFromKeywords, render } from '../../utils/testUtils';
+import { SavedSearchesSecondaryBarItem } from './SavedSearchesSecondaryBarItem';
+
+const mockSearchAdvancedFilters = jest.fn();
+
+jest.mock('../../../hooks/useSearch', () => ({
+	useSearch: (): unknown => ({
+		searchParams: {},
+		searchAdvancedFilters: mockSearchAdvancedFilters
+	})
+}));
+
+describe('Saved searches secondary bar item', () => {
+	beforeEach(() => {
+		savedSearchesVar({});
+		window.localStorage.clear();
+	});
+
+	test('nothing is rendered if the user has not saved any search', () => {
+		render(<SavedSearchesSecondaryBarItem expanded />, { mocks: [mockGetRootsList()] });
+
+		expect(screen.queryByTestId('saved-searches')).not.toBeInTheDocument();
+	});
+
+	test('the saved searches of the user are listed and run when clicked', () => {
+		const filters: AdvancedFilters = { keywords: buildChipsFromKeywords(['report']) };
+		savedSearchesVar({ [LOGGED_USER.id]: [{ id: 'saved-search', name: 'Reports', filters }] });
+
+		render(<SavedSearchesSecondaryBarItem expanded />, { mocks: [mockGetRootsList()] });
+
+		expect(screen.getByText(/saved searches/i)).toBeVisible();
+		userEvent.click(screen.getByText('Reports'));
+		expect(mockSearchAdvancedFilters).toHaveBeenCalledWith(filters);
+	});
+});
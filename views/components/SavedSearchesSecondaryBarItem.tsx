@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useMemo } from 'react';
+
+import { Accordion, Container } from '@zextras/carbonio-design-system';
+
+import { useSavedSearchesItem } from '../../hooks/useSavedSearchesItem';
+import { SecondaryBarItem } from './SecondaryBarItem';
+
+interface SavedSearchesSecondaryBarItemProps {
+	expanded: boolean;
+}
+
+/**
+ * Entry of the secondary bar with the searches saved by the user, which are listed below it
+ * when the bar is expanded. Nothing is rendered until the user saves a search.
+ * The app registers it as the component of the secondary bar entry with id SAVED_SEARCHES_ITEM_ID.
+ */
+export const SavedSearchesSecondaryBarItem: React.VFC<SavedSearchesSecondaryBarItemProps> = ({
+	expanded
+}) => {
+	const savedSearchesItem = useSavedSearchesItem();
+
+	// the saved searches are listed open, so that they can be run with a single click
+	const accordionItems = useMemo(
+		() => (savedSearchesItem ? [{ ...savedSearchesItem, open: true }] : []),
+		[savedSearchesItem]
+	);
+
+	if (!savedSearchesItem) {
+		return null;
+	}
+	return (
+		<Container height="fit" mainAlignment="flex-start" data-testid="saved-searches">
+			{expanded ? (
+				<Accordion items={accordionItems} />
+			) : (
+				<SecondaryBarItem item={savedSearchesItem} expanded={false} />
+			)}
+		</Container>
+	);
+};
+
+export const SavedSearchesSecondaryBarItemExpanded: React.VFC = () => (
+	<SavedSearchesSecondaryBarItem expanded />
+);
+
+export const SavedSearchesSecondaryBarItemNotExpanded: React.VFC = () => (
+	<SavedSearchesSecondaryBarItem expanded={false} />
+);
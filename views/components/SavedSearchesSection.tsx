@@ -0,0 +1,163 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+
+import {
+	Button,
+	Container,
+	IconButton,
+	Input,
+	Padding,
+	Row,
+	Text,
+	Tooltip
+} from '@zextras/carbonio-design-system';
+import every from 'lodash/every';
+import isEmpty from 'lodash/isEmpty';
+import map from 'lodash/map';
+import trim from 'lodash/trim';
+import { useTranslation } from 'react-i18next';
+
+import { useSavedSearches } from '../../hooks/useSavedSearches';
+import { AdvancedFilters, SavedSearch } from '../../types/common';
+
+interface SavedSearchesSectionProps {
+	filters: AdvancedFilters;
+	editFilters: (filters: AdvancedFilters) => void;
+}
+
+export const SavedSearchesSection: React.VFC<SavedSearchesSectionProps> = ({
+	filters,
+	editFilters
+}) => {
+	const [t] = useTranslation();
+	const { savedSearches, saveSearch, updateSavedSearch, deleteSavedSearch } = useSavedSearches();
+	const [name, setName] = useState('');
+	const [editingId, setEditingId] = useState<string>();
+
+	const changeName = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+		setName(event.target.value);
+	}, []);
+
+	const saveDisabled = useMemo(
+		() =>
+			!trim(name) || isEmpty(filters) || every(filters, (filterValue) => isEmpty(filterValue)),
+		[filters, name]
+	);
+
+	const resetEdit = useCallback(() => {
+		setName('');
+		setEditingId(undefined);
+	}, []);
+
+	const saveHandler = useCallback(() => {
+		if (editingId) {
+			updateSavedSearch(editingId, { name: trim(name), filters });
+		} else {
+			saveSearch(trim(name), filters);
+		}
+		resetEdit();
+	}, [editingId, filters, name, resetEdit, saveSearch, updateSavedSearch]);
+
+	const editHandler = useCallback(
+		(savedSearch: SavedSearch) => {
+			setEditingId(savedSearch.id);
+			setName(savedSearch.name);
+			editFilters(savedSearch.filters);
+		},
+		[editFilters]
+	);
+
+	const deleteHandler = useCallback(
+		(savedSearch: SavedSearch) => {
+			deleteSavedSearch(savedSearch.id);
+			if (savedSearch.id === editingId) {
+				resetEdit();
+			}
+		},
+		[deleteSavedSearch, editingId, resetEdit]
+	);
+
+	const items = useMemo(
+		() =>
+			map(savedSearches, (savedSearch) => (
+				<Row
+					key={savedSearch.id}
+					width="fill"
+					wrap="nowrap"
+					mainAlignment="space-between"
+					padding={{ vertical: 'extrasmall' }}
+					data-testid={`saved-search-${savedSearch.id}`}
+				>
+					<Text overflow="ellipsis" weight={savedSearch.id === editingId ? 'bold' : 'regular'}>
+						{savedSearch.name}
+					</Text>
+					<Row wrap="nowrap" flexShrink={0}>
+						<Tooltip label={t('search.advancedSearch.modal.savedSearches.edit', 'Edit')}>
+							<IconButton
+								icon="Edit2Outline"
+								size="small"
+								iconColor="secondary"
+								onClick={(): void => editHandler(savedSearch)}
+							/>
+						</Tooltip>
+						<Tooltip label={t('search.advancedSearch.modal.savedSearches.delete', 'Delete')}>
+							<IconButton
+								icon="Trash2Outline"
+								size="small"
+								iconColor="error"
+								onClick={(): void => deleteHandler(savedSearch)}
+							/>
+						</Tooltip>
+					</Row>
+				</Row>
+			)),
+		[deleteHandler, editHandler, editingId, savedSearches, t]
+	);
+
+	return (
+		<Container padding={{ all: 'extrasmall' }} height="auto" crossAlignment="flex-start">
+			<Padding vertical="small">
+				<Text weight="bold">
+					{t('search.advancedSearch.modal.savedSearches.title', 'Saved searches')}
+				</Text>
+			</Padding>
+			<Row width="fill" wrap="nowrap" crossAlignment="center">
+				<Input
+					value={name}
+					onChange={changeName}
+					label={t('search.advancedSearch.modal.savedSearches.name', 'Name')}
+					background="gray5"
+					data-testid="input-saved-search-name"
+				/>
+				{editingId && (
+					<Padding left="small">
+						<Button
+							type="outlined"
+							color="secondary"
+							label={t('search.advancedSearch.modal.savedSearches.cancel', 'Cancel')}
+							onClick={resetEdit}
+						/>
+					</Padding>
+				)}
+				<Padding left="small">
+					<Button
+						type="outlined"
+						label={
+							editingId
+								? t('search.advancedSearch.modal.savedSearches.update', 'Update')
+								: t('search.advancedSearch.modal.savedSearches.save', 'Save')
+						}
+						onClick={saveHandler}
+						disabled={saveDisabled}
+					/>
+				</Padding>
+			</Row>
+			{items}
+		</Container>
+	);
+};
@@ -5,10 +5,11 @@
  */
 import React, { useEffect, useRef } from 'react';
 
-import { Container, Row, useCombinedRefs } from '@zextras/carbonio-design-system';
+import { Container, Row } from '@zextras/carbonio-design-system';
 import styled from 'styled-components';
 
 import { LIST_ITEM_HEIGHT } from '../../constants';
+import { useCombinedRefs } from '../../hooks/useCombinedRefs';
 import { LoadingIcon } from './LoadingIcon';
 
 export const SCScrollContainer = styled(Container)`
@@ -27,7 +28,7 @@ export const ScrollContainer = React.forwardRef<HTMLDivElement, ScrollContainerP
 	function ScrollContainerFn({ loadMore, hasMore, children, loading, fillerWithActions }, ref) {
 		const loadMoreRef = useRef<HTMLElement>(null);
 		const loadMoreObserverRef = useRef<IntersectionObserver>();
-		const scrollContainerRef = useCombinedRefs(ref) as React.MutableRefObject<HTMLDivElement>;
+		const scrollContainerRef = useCombinedRefs(ref);
 
 		useEffect(() => {
 			if (loadMore) {
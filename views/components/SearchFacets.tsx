@@ -0,0 +1,183 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useMemo } from 'react';
+
+import { useReactiveVar } from '@apollo/client';
+import { Chip, Container, Row, Text } from '@zextras/carbonio-design-system';
+import capitalize from 'lodash/capitalize';
+import isEmpty from 'lodash/isEmpty';
+import map from 'lodash/map';
+import { useTranslation } from 'react-i18next';
+
+import useUserInfo from '../../../hooks/useUserInfo';
+import { searchParamsVar } from '../../apollo/searchVar';
+import { ROOTS } from '../../constants';
+import {
+	AdvancedFilters,
+	NodeListItemType,
+	SearchFacets as SearchFacetsType
+} from '../../types/common';
+import { getSearchFacets } from '../../utils/utils';
+
+interface SearchFacetsProps {
+	/** search results already loaded */
+	nodes: NodeListItemType[];
+}
+
+interface FacetGroupProps {
+	label: string;
+	items: Array<{ id: string; label: string; count: number; onClick: () => void }>;
+	'data-testid'?: string;
+}
+
+const FacetGroup: React.VFC<FacetGroupProps> = ({ label, items, 'data-testid': dataTestId }) => (
+	<Row
+		mainAlignment="flex-start"
+		gap="0.5rem"
+		padding={{ vertical: 'extrasmall' }}
+		data-testid={dataTestId}
+	>
+		<Text size="small" color="secondary">
+			{label}
+		</Text>
+		{map(items, (item) => (
+			<Chip
+				key={item.id}
+				label={`${item.label} (${item.count})`}
+				background="gray2"
+				onClick={item.onClick}
+			/>
+		))}
+	</Row>
+);
+
+/**
+ * Strip which counts the loaded search results by type, owner and location.
+ * Clicking on a facet narrows the search adding the related filter.
+ */
+export const SearchFacets: React.VFC<SearchFacetsProps> = ({ nodes }) => {
+	const [t] = useTranslation();
+	const { me } = useUserInfo();
+	const searchParams = useReactiveVar(searchParamsVar);
+
+	const facets = useMemo<SearchFacetsType>(() => getSearchFacets(nodes, me), [nodes, me]);
+
+	const addFilters = useCallback((filters: AdvancedFilters) => {
+		searchParamsVar({ ...searchParamsVar(), ...filters });
+	}, []);
+
+	const typeItems = useMemo(
+		() =>
+			map(facets.types, ({ value: nodeType, count }) => {
+				/* i18next-extract-disable-next-line */
+				const label = t('search.advancedSearch.modal.type.option', capitalize(nodeType), {
+					context: nodeType.toLowerCase()
+				});
+				return {
+					id: nodeType,
+					label,
+					count,
+					onClick: (): void =>
+						addFilters({
+							type: {
+								label: `type:${label}`,
+								avatarIcon: 'FileTextOutline',
+								avatarBackground: 'secondary',
+								value: nodeType
+							}
+						})
+				};
+			}),
+		[addFilters, facets.types, t]
+	);
+
+	const ownerItems = useMemo(
+		() =>
+			map(facets.owners, ({ value: owner, count }) => ({
+				id: owner.id,
+				label:
+					owner.id === me ? t('search.facets.owner.me', 'Me') : owner.full_name || owner.email,
+				count,
+				onClick: (): void =>
+					addFilters({
+						ownerId: {
+							label: `owner:${owner.email}`,
+							avatarIcon: 'PersonOutline',
+							avatarBackground: 'secondary',
+							value: owner.id
+						}
+					})
+			})),
+		[addFilters, facets.owners, me, t]
+	);
+
+	const rootItems = useMemo(
+		() =>
+			map(facets.roots, ({ value: rootId, count }) => {
+				/* i18next-extract-disable-next-line */
+				const label = t('node.alias.name', rootId, { context: rootId });
+				return {
+					id: rootId,
+					label,
+					count,
+					onClick: (): void =>
+						addFilters({
+							folderId: {
+								label: `under:${label}`,
+								avatarIcon: 'Folder',
+								avatarBackground: 'secondary',
+								value: (rootId !== ROOTS.SHARED_WITH_ME && rootId) || undefined
+							},
+							sharedWithMe:
+								(rootId === ROOTS.LOCAL_ROOT && { value: false }) ||
+								(rootId === ROOTS.SHARED_WITH_ME && { value: true }) ||
+								undefined,
+							cascade: { value: true }
+						})
+				};
+			}),
+		[addFilters, facets.roots, t]
+	);
+
+	if (isEmpty(nodes)) {
+		return null;
+	}
+
+	// facets of a filter which is already set cannot narrow the search further
+	return (
+		<Container
+			height="auto"
+			mainAlignment="flex-start"
+			crossAlignment="flex-start"
+			padding={{ horizontal: 'large', vertical: 'small' }}
+			background="gray6"
+			data-testid="search-facets"
+		>
+			{!searchParams.type && (
+				<FacetGroup
+					label={t('search.facets.type', 'Type')}
+					items={typeItems}
+					data-testid="search-facets-type"
+				/>
+			)}
+			{!searchParams.ownerId && (
+				<FacetGroup
+					label={t('search.facets.owner', 'Owner')}
+					items={ownerItems}
+					data-testid="search-facets-owner"
+				/>
+			)}
+			{!searchParams.folderId && (
+				<FacetGroup
+					label={t('search.facets.location', 'Location')}
+					items={rootItems}
+					data-testid="search-facets-location"
+				/>
+			)}
+		</Container>
+	);
+};
@@ -21,13 +21,14 @@ import { graphql } from 'msw';
 import server from '../../../mocks/server';
 import { searchParamsVar } from '../../apollo/searchVar';
 import { NODES_LOAD_LIMIT, ROOTS } from '../../constants';
-import { populateFolder, populateNodes } from '../../mocks/mockUtils';
+import { populateFolder, populateNodes, populateUser } from '../../mocks/mockUtils';
 import { AdvancedFilters } from '../../types/common';
 import {
 	File as FilesFile,
 	GetChildQuery,
 	GetChildrenQuery,
-	GetChildrenQueryVariables
+	GetChildrenQueryVariables,
+	NodeType
 } from '../../types/graphql/types';
 import {
 	getChildrenVariables,
@@ -1083,4 +1084,49 @@ describe('Search list', () => {
 			);
 		});
 	});
+
+	describe('Facets', () => {
+		test('Facets count loaded results by type, owner and location. Click on a facet narrows the search', async () => {
+			const currentSearch = populateNodes(3, 'File');
+			currentSearch[0].type = NodeType.Image;
+			currentSearch[1].type = NodeType.Image;
+			currentSearch[1].rootId = ROOTS.TRASH;
+			currentSearch[2].type = NodeType.Text;
+			currentSearch[2].owner = populateUser();
+			const keywords = ['keyword1'];
+			searchParamsVar({ keywords: buildChipsFromKeywords(keywords) });
+
+			const mocks = [
+				mockFindNodes(getFindNodesVariables({ keywords }), currentSearch),
+				mockFindNodes(getFindNodesVariables({ keywords, type: NodeType.Image }), [
+					currentSearch[0],
+					currentSearch[1]
+				])
+			];
+
+			render(<SearchList />, { mocks });
+
+			const facets = await screen.findByTestId('search-facets');
+			const typeFacets = within(facets).getByTestId('search-facets-type');
+			expect(within(typeFacets).getByText('Image (2)')).toBeVisible();
+			expect(within(typeFacets).getByText('Text (1)')).toBeVisible();
+			const ownerFacets = within(facets).getByTestId('search-facets-owner');
+			expect(within(ownerFacets).getByText('Me (2)')).toBeVisible();
+			expect(within(ownerFacets).getByText(`${currentSearch[2].owner.full_name} (1)`)).toBeVisible();
+			const locationFacets = within(facets).getByTestId('search-facets-location');
+			expect(within(locationFacets).getByText('Home (1)')).toBeVisible();
+			expect(within(locationFacets).getByText('Trash (1)')).toBeVisible();
+			expect(within(locationFacets).getByText('Shared with me (1)')).toBeVisible();
+
+			userEvent.click(within(typeFacets).getByText('Image (2)'));
+			await waitForElementToBeRemoved(screen.queryByText(currentSearch[2].name));
+			expect(searchParamsVar().type).toEqual(
+				expect.objectContaining({ label: 'type:Image', value: NodeType.Image })
+			);
+			expect(searchParamsVar().keywords).toHaveLength(1);
+			expect(screen.queryByTestId('search-facets-type')).not.toBeInTheDocument();
+			expect(screen.getByTestId('search-facets-owner')).toBeVisible();
+			searchParamsVar({});
+		});
+	});
 });
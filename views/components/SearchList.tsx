@@ -16,37 +16,52 @@ import { useTranslation } from 'react-i18next';
 import { useSearch } from '../../../hooks/useSearch';
 import { ListContext } from '../../contexts';
 import { useFindNodesQuery } from '../../hooks/graphql/queries/useFindNodesQuery';
-import { NodeListItemType } from '../../types/common';
+import { NodeListItemType, SearchParams } from '../../types/common';
 import { NonNullableList, OneOrMany } from '../../types/utils';
+import { ExportNodesButton } from './ExportNodesButton';
 import { List } from './List';
+import { SearchFacets } from './SearchFacets';
 
 export const SearchList: React.VFC = () => {
 	const [t] = useTranslation();
 	const { searchParams } = useSearch();
 	const { queryCalled, setQueryCalled } = useContext(ListContext);
+
+	const findNodesParams = useMemo<SearchParams>(
+		() => ({
+			keywords: reduce(
+				searchParams.keywords,
+				(keyStrList, keyword) => {
+					if (keyword?.value && typeof keyword?.value === 'string') {
+						keyStrList.push(keyword.value);
+					}
+					return keyStrList;
+				},
+				[] as string[]
+			),
+			flagged: searchParams.flagged?.value,
+			sharedByMe: searchParams.sharedByMe?.value,
+			folderId: searchParams.folderId?.value,
+			cascade: searchParams.cascade?.value,
+			sharedWithMe: searchParams.sharedWithMe?.value,
+			type: searchParams.type?.value,
+			mimeType: searchParams.mimeType?.value,
+			sizeMin: searchParams.sizeMin?.value,
+			sizeMax: searchParams.sizeMax?.value,
+			modifiedAfter: searchParams.modifiedAfter?.value,
+			modifiedBefore: searchParams.modifiedBefore?.value,
+			ownerId: searchParams.ownerId?.value
+		}),
+		[searchParams]
+	);
+
 	const {
 		data: searchResult,
 		loadMore,
 		loading,
 		hasMore,
 		previousData
-	} = useFindNodesQuery({
-		keywords: reduce(
-			searchParams.keywords,
-			(keyStrList, keyword) => {
-				if (keyword?.value && typeof keyword?.value === 'string') {
-					keyStrList.push(keyword.value);
-				}
-				return keyStrList;
-			},
-			[] as string[]
-		),
-		flagged: searchParams.flagged?.value,
-		sharedByMe: searchParams.sharedByMe?.value,
-		folderId: searchParams.folderId?.value,
-		cascade: searchParams.cascade?.value,
-		sharedWithMe: searchParams.sharedWithMe?.value
-	});
+	} = useFindNodesQuery(findNodesParams);
 
 	useEffect(() => {
 		const filterCount = filter(
@@ -90,6 +105,15 @@ export const SearchList: React.VFC = () => {
 			loadMore={loadMore}
 			mainList={false}
 			emptyListMessage={emptyListMessage}
+			headerComponent={<SearchFacets nodes={nodes} />}
+			headerActions={
+				nodes.length > 0 ? (
+					<ExportNodesButton
+						params={findNodesParams}
+						fileName={`${t('export.fileName.search', 'search-results')}.csv`}
+					/>
+				) : undefined
+			}
 		/>
 	);
 };
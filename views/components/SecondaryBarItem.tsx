@@ -8,6 +8,7 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 
 import {
 	AccordionItem,
+	Container,
 	getColor,
 	IconButton,
 	Padding,
@@ -16,29 +17,28 @@ import {
 } from '@zextras/carbonio-design-system';
 import every from 'lodash/every';
 import find from 'lodash/find';
+import includes from 'lodash/includes';
 import map from 'lodash/map';
 import uniq from 'lodash/uniq';
+import { useTranslation } from 'react-i18next';
 import styled from 'styled-components';
 
 import useUserInfo from '../../../hooks/useUserInfo';
 import { draggedItemsVar } from '../../apollo/dragAndDropVar';
 import { selectionModeVar } from '../../apollo/selectionVar';
-import { DRAG_TYPES, ROOTS } from '../../constants';
-import { useMoveNodesMutation } from '../../hooks/graphql/mutations/useMoveNodesMutation';
+import { DRAG_TYPES, ROOTS, UPLOADS_ITEM_ID } from '../../constants';
 import { useTrashNodesMutation } from '../../hooks/graphql/mutations/useTrashNodesMutation';
 import { useGetBaseNodeQuery } from '../../hooks/graphql/queries/useGetBaseNodeQuery';
 import { useGetRootsListQuery } from '../../hooks/graphql/queries/useGetRootsListQuery';
-import { useUpload } from '../../hooks/useUpload';
+import { useExpandedFolders } from '../../hooks/useExpandedFolders';
+import { useFolderDrop } from '../../hooks/useFolderDrop';
+import { useUploadQueue } from '../../hooks/useUploadQueue';
+import { useUploadsSummary } from '../../hooks/useUploadsSummary';
 import { PickIdNodeType } from '../../types/common';
-import { Folder, Node } from '../../types/graphql/types';
+import { Node } from '../../types/graphql/types';
 import { DeepPick } from '../../types/utils';
-import {
-	canBeWriteNodeDestination,
-	canUploadFile,
-	isFile,
-	isFolder
-} from '../../utils/ActionsFactory';
 import { Dropzone } from './Dropzone';
+import { FolderTree } from './FolderTree';
 
 // TODO: replace with updated DS Accordion once available
 const CustomAccordionItem = styled(AccordionItem)`
@@ -75,7 +75,11 @@ interface SecondaryBarItemProps {
 }
 
 export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expanded }) => {
-	const { add } = useUpload();
+	const [t] = useTranslation();
+	const { percentage: uploadsPercentage } = useUploadsSummary();
+	const { waiting: waitingUploads, loading: loadingUploads } = useUploadQueue();
+	// the uploads which are still to be completed are the ones scheduled by the upload manager
+	const uploadsCount = waitingUploads.length + loadingUploads.length;
 	const accordionItemRef = useRef<HTMLDivElement>();
 	const { data } = useGetRootsListQuery();
 	const [rootId, setRootId] = useState<string>();
@@ -83,6 +87,7 @@ export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expan
 	const [dropAction, setDropAction] = useState<typeof DataTransfer.prototype.dropEffect>('none');
 	const { data: getBaseNodeData } = useGetBaseNodeQuery(rootId);
 	const navigationTimerRef = useRef<NodeJS.Timeout | null>(null);
+	const { expandedFolderIds, setFolderExpanded } = useExpandedFolders();
 
 	useEffect(
 		() => (): void => {
@@ -103,13 +108,11 @@ export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expan
 		}
 	}, [isRoot, item]);
 
-	const { moveNodes: moveNodesMutation } = useMoveNodesMutation();
 	const markNodesForDeletionMutation = useTrashNodesMutation();
+	const { getDropState, drop } = useFolderDrop(getBaseNodeData?.getNode || undefined);
 
 	const dropHandler = useCallback<React.DragEventHandler>(
 		(event) => {
-			const isUploadingFiles = event.dataTransfer.files.length > 0;
-			const movingNodes = event.dataTransfer.getData(DRAG_TYPES.move);
 			const markingForDeletion = event.dataTransfer.getData(DRAG_TYPES.markForDeletion);
 			navigationTimerRef.current && clearTimeout(navigationTimerRef.current);
 			if (item.id.includes(ROOTS.TRASH) && markingForDeletion) {
@@ -118,26 +121,17 @@ export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expan
 				markNodesForDeletionMutation(...nodesToMarkForDeletion).then(() => {
 					selectionModeVar(false);
 				});
-			} else if (getBaseNodeData?.getNode) {
-				if (isUploadingFiles) {
-					add(event.dataTransfer.files, item.id, true);
-				} else if (movingNodes) {
-					const nodesToMove: Array<Partial<Node> & PickIdNodeType> = JSON.parse(movingNodes);
-					moveNodesMutation(getBaseNodeData.getNode as Folder, ...nodesToMove).then(() => {
-						selectionModeVar(false);
-					});
-				}
+			} else {
+				drop(event);
 			}
 		},
-		[add, getBaseNodeData, item, markNodesForDeletionMutation, moveNodesMutation]
+		[drop, item, markNodesForDeletionMutation]
 	);
 
 	const { me } = useUserInfo();
 
 	const dragEnterHandler = useCallback<React.DragEventHandler>(
 		(event) => {
-			const isUploadingFiles = event.dataTransfer.types.includes(DRAG_TYPES.upload);
-			const isMovingNode = event.dataTransfer.types.includes(DRAG_TYPES.move);
 			const isMarkingForDeletion = event.dataTransfer.types.includes(DRAG_TYPES.markForDeletion);
 			const draggedNodes = draggedItemsVar();
 			const owners = uniq(map(draggedNodes, (node) => node.owner?.id));
@@ -153,48 +147,49 @@ export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expan
 							(item.id === ROOTS.TRASH_MY_ELEMENTS && allOwnedNodes) ||
 							(item.id === ROOTS.TRASH_SHARED_ELEMENTS && allSharedNodes))
 				);
-			} else if (getBaseNodeData?.getNode) {
-				if (isUploadingFiles) {
-					setDropAction('copy');
-					const dropEnabledForUpload = canUploadFile(getBaseNodeData.getNode as Folder);
-					setDropEnabled(dropEnabledForUpload);
-					if (dropEnabledForUpload) {
-						// for the secondary bar allow navigation only for roots with permission to upload
-						navigationTimerRef.current = setTimeout(() => {
-							item.onClick && item.onClick(event);
-						}, 1500);
-					}
-				} else if (isMovingNode) {
-					setDropAction('move');
-					const movingFile = find(draggedNodes, (node) => isFile(node)) !== undefined;
-					const movingFolder = find(draggedNodes, (node) => isFolder(node)) !== undefined;
-					const parents = uniq(map(draggedNodes, (node) => node.parent?.id));
-					// shared node cannot be moved in roots
-					const dropEnabledForMove =
-						(movingFile || movingFolder) &&
-						allOwnedNodes &&
-						(parents.length !== 1 || parents[0] !== getBaseNodeData.getNode.id) &&
-						canBeWriteNodeDestination(getBaseNodeData.getNode as Folder, movingFile, movingFolder);
-					setDropEnabled(dropEnabledForMove);
-					if (dropEnabledForMove) {
-						navigationTimerRef.current = setTimeout(() => {
-							item.onClick && item.onClick(event);
-						}, 1500);
-					}
-				}
 			} else {
-				setDropAction('none');
-				setDropEnabled(false);
+				// roots have no owner, so only the nodes of the user can be moved in them
+				const { effect, enabled } = getDropState(event);
+				setDropAction(effect);
+				setDropEnabled(enabled);
+				if (enabled) {
+					// for the secondary bar allow navigation only for roots where the items can be dropped
+					navigationTimerRef.current = setTimeout(() => {
+						item.onClick && item.onClick(event);
+					}, 1500);
+				}
 			}
 		},
-		[getBaseNodeData, item, me]
+		[getDropState, item, me]
 	);
 
 	const dragLeaveHandler = useCallback(() => {
 		navigationTimerRef.current && clearTimeout(navigationTimerRef.current);
 	}, []);
 
-	return (
+	// the uploads entry shows the overall progress of the uploads as badge
+	const itemWithBadge = useMemo<AccordionItemShape>(
+		() =>
+			item.id === UPLOADS_ITEM_ID && uploadsCount > 0
+				? {
+						...item,
+						label: `${item.label} (${uploadsPercentage}%)`,
+						badgeType: 'unread',
+						badgeCounter: uploadsCount
+				  }
+				: item,
+		[item, uploadsCount, uploadsPercentage]
+	);
+
+	// the home entry shows the tree of its folders, which are loaded only when it is expanded
+	const hasFolderTree = expanded && item.id === ROOTS.LOCAL_ROOT;
+	const folderTreeExpanded = hasFolderTree && includes(expandedFolderIds, item.id);
+
+	const toggleFolderTree = useCallback(() => {
+		setFolderExpanded(item.id, !folderTreeExpanded);
+	}, [folderTreeExpanded, item.id, setFolderExpanded]);
+
+	const dropzone = (
 		<Dropzone
 			onDrop={dropHandler}
 			onDragEnter={dragEnterHandler}
@@ -205,10 +200,10 @@ export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expan
 		>
 			{(dragging): JSX.Element =>
 				expanded ? (
-					<CustomAccordionItem item={item} ref={accordionItemRef} dragging={dragging} />
+					<CustomAccordionItem item={itemWithBadge} ref={accordionItemRef} dragging={dragging} />
 				) : (
 					<Row mainAlignment="flex-start" takeAvailableSpace>
-						<Tooltip label={item.label} placement="right">
+						<Tooltip label={itemWithBadge.label} placement="right">
 							<Padding all="extrasmall">
 								<IconButton
 									customSize={{ iconSize: 'large', paddingSize: 'small' }}
@@ -224,6 +219,34 @@ export const SecondaryBarItem: React.VFC<SecondaryBarItemProps> = ({ item, expan
 			}
 		</Dropzone>
 	);
+
+	return hasFolderTree ? (
+		<Container height="fit" mainAlignment="flex-start">
+			<Row width="fill" wrap="nowrap">
+				<Row takeAvailableSpace mainAlignment="flex-start">
+					{dropzone}
+				</Row>
+				<Tooltip
+					label={
+						folderTreeExpanded
+							? t('secondaryBar.folderTree.collapse', 'Hide folders')
+							: t('secondaryBar.folderTree.expand', 'Show folders')
+					}
+				>
+					<IconButton
+						icon={folderTreeExpanded ? 'ChevronUp' : 'ChevronDown'}
+						size="small"
+						onClick={toggleFolderTree}
+						aria-expanded={folderTreeExpanded}
+						data-testid="folder-tree-toggle"
+					/>
+				</Tooltip>
+			</Row>
+			{folderTreeExpanded && <FolderTree folderId={item.id} />}
+		</Container>
+	) : (
+		dropzone
+	);
 };
 
 export const SecondaryBarItemExpanded: React.VFC<{
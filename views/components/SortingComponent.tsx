@@ -13,49 +13,28 @@ import { useTranslation } from 'react-i18next';
 import { nodeSortVar } from '../../apollo/nodeSortVar';
 import { OrderTrend, OrderType } from '../../types/common';
 import { NodeSort } from '../../types/graphql/types';
-import { getInverseOrder, nodeSortGetter } from '../../utils/utils';
+import { getInverseOrder, nodeSortGetter, nodeSortParser } from '../../utils/utils';
 
-export const SortingComponent: React.VFC = () => {
+interface SortingComponentProps {
+	/** change the sort of the list, and remember it as preference of the list */
+	setNodeSort: (nodeSort: NodeSort) => void;
+}
+
+export const SortingComponent: React.VFC<SortingComponentProps> = ({ setNodeSort }) => {
 	const buttonRef = useRef(undefined);
 	const nodeSort = useReactiveVar(nodeSortVar);
 	const [t] = useTranslation();
 
-	const ascendingOrDescending = useMemo(() => {
-		if (
-			nodeSort === NodeSort.NameAsc ||
-			nodeSort === NodeSort.UpdatedAtAsc ||
-			nodeSort === NodeSort.SizeAsc
-		) {
-			return OrderTrend.Ascending;
-		}
-		if (
-			nodeSort === NodeSort.NameDesc ||
-			nodeSort === NodeSort.UpdatedAtDesc ||
-			nodeSort === NodeSort.SizeDesc
-		) {
-			return OrderTrend.Descending;
-		}
-		throw Error('Unhandled order');
-	}, [nodeSort]);
+	const { order: ascendingOrDescending, orderType } = useMemo(
+		() => nodeSortParser(nodeSort),
+		[nodeSort]
+	);
 
 	const iconButtonIconProps = useMemo(
 		() => (ascendingOrDescending === OrderTrend.Ascending ? 'ZaListOutline' : 'AzListOutline'),
 		[ascendingOrDescending]
 	);
 
-	const orderType: OrderType = useMemo(() => {
-		if (nodeSort === NodeSort.NameAsc || nodeSort === NodeSort.NameDesc) {
-			return OrderType.Name;
-		}
-		if (nodeSort === NodeSort.UpdatedAtAsc || nodeSort === NodeSort.UpdatedAtDesc) {
-			return OrderType.UpdatedAt;
-		}
-		if (nodeSort === NodeSort.SizeAsc || nodeSort === NodeSort.SizeDesc) {
-			return OrderType.Size;
-		}
-		throw Error('Unhandled order');
-	}, [nodeSort]);
-
 	const tooltipLabel = useMemo(() => {
 		switch (nodeSort) {
 			case NodeSort.SizeAsc:
@@ -76,20 +55,38 @@ export const SortingComponent: React.VFC = () => {
 					'sortingDropdown.icon.tooltip.OrderLastUpdateDescending',
 					'Descending order by last update'
 				);
+			case NodeSort.OwnerAsc:
+				return t('sortingDropdown.icon.tooltip.OrderOwnerAscending', 'Ascending order by owner');
+			case NodeSort.OwnerDesc:
+				return t('sortingDropdown.icon.tooltip.OrderOwnerDescending', 'Descending order by owner');
+			case NodeSort.LastEditorAsc:
+				return t(
+					'sortingDropdown.icon.tooltip.OrderLastEditorAscending',
+					'Ascending order by last editor'
+				);
+			case NodeSort.LastEditorDesc:
+				return t(
+					'sortingDropdown.icon.tooltip.OrderLastEditorDescending',
+					'Descending order by last editor'
+				);
+			case NodeSort.TypeAsc:
+				return t('sortingDropdown.icon.tooltip.OrderTypeAscending', 'Ascending order by type');
+			case NodeSort.TypeDesc:
+				return t('sortingDropdown.icon.tooltip.OrderTypeDescending', 'Descending order by type');
 			default:
 				return '';
 		}
 	}, [nodeSort, t]);
 
 	const switchAscendingOrDescendingOrder = useCallback(() => {
-		nodeSortVar(nodeSortGetter(getInverseOrder(ascendingOrDescending), orderType));
-	}, [ascendingOrDescending, orderType]);
+		setNodeSort(nodeSortGetter(getInverseOrder(ascendingOrDescending), orderType));
+	}, [ascendingOrDescending, orderType, setNodeSort]);
 
 	const selectOrderType = useCallback(
 		(orderTypeValue) => {
-			nodeSortVar(nodeSortGetter(ascendingOrDescending, orderTypeValue));
+			setNodeSort(nodeSortGetter(ascendingOrDescending, orderTypeValue));
 		},
-		[ascendingOrDescending]
+		[ascendingOrDescending, setNodeSort]
 	);
 
 	const selectNameOrderType = useCallback(() => {
@@ -104,6 +101,18 @@ export const SortingComponent: React.VFC = () => {
 		selectOrderType(OrderType.Size);
 	}, [selectOrderType]);
 
+	const selectOwnerOrderType = useCallback(() => {
+		selectOrderType(OrderType.Owner);
+	}, [selectOrderType]);
+
+	const selectLastEditorOrderType = useCallback(() => {
+		selectOrderType(OrderType.LastEditor);
+	}, [selectOrderType]);
+
+	const selectTypeOrderType = useCallback(() => {
+		selectOrderType(OrderType.Type);
+	}, [selectOrderType]);
+
 	const items = [
 		{
 			id: 'activity-1',
@@ -134,6 +143,27 @@ export const SortingComponent: React.VFC = () => {
 			selected: orderType === OrderType.Size,
 			click: selectSizeOrderType,
 			icon: orderType === OrderType.Size ? 'RadioButtonOn' : 'RadioButtonOff'
+		},
+		{
+			id: 'activity-5',
+			label: t('sortingDropdown.owner', 'Owner'),
+			selected: orderType === OrderType.Owner,
+			click: selectOwnerOrderType,
+			icon: orderType === OrderType.Owner ? 'RadioButtonOn' : 'RadioButtonOff'
+		},
+		{
+			id: 'activity-6',
+			label: t('sortingDropdown.lastEditor', 'Last Editor'),
+			selected: orderType === OrderType.LastEditor,
+			click: selectLastEditorOrderType,
+			icon: orderType === OrderType.LastEditor ? 'RadioButtonOn' : 'RadioButtonOff'
+		},
+		{
+			id: 'activity-7',
+			label: t('sortingDropdown.type', 'Type'),
+			selected: orderType === OrderType.Type,
+			click: selectTypeOrderType,
+			icon: orderType === OrderType.Type ? 'RadioButtonOn' : 'RadioButtonOff'
 		}
 	];
 
@@ -17,6 +17,8 @@ import {
 import styled, { css, SimpleInterpolation } from 'styled-components';
 
 import {
+	GRID_ITEM_GAP,
+	GRID_ITEM_WIDTH,
 	LIST_ITEM_AVATAR_HEIGHT,
 	LIST_ITEM_AVATAR_HEIGHT_COMPACT,
 	LIST_ITEM_AVATAR_ICON_HEIGHT,
@@ -48,6 +50,48 @@ export const HoverBarContainer = styled(Row)`
 	);
 `;
 
+export const GridContainer = styled.div`
+	display: grid;
+	grid-template-columns: repeat(auto-fill, minmax(${GRID_ITEM_WIDTH}px, 1fr));
+	gap: ${GRID_ITEM_GAP}px;
+	width: 100%;
+`;
+
+export const GridItemPreview = styled(Container)`
+	border-radius: 8px;
+	overflow: hidden;
+	flex-shrink: 0;
+`;
+
+export const GridItemPreviewImage = styled.img`
+	width: 100%;
+	height: 100%;
+	object-fit: cover;
+`;
+
+export const DetailsContainer = styled.div`
+	display: flex;
+	flex-direction: column;
+	flex-shrink: 0;
+	min-width: fit-content;
+	width: 100%;
+`;
+
+// the width changes while resizing the column, so it is set as style
+export const DetailsCell = styled.div.attrs<{ $width: number }>(({ $width }) => ({
+	style: { width: `${$width}px` }
+}))<{ $width: number }>`
+	display: flex;
+	align-items: center;
+	flex-shrink: 0;
+	gap: 4px;
+	min-width: 0;
+	height: 100%;
+	padding: 0 8px;
+	box-sizing: border-box;
+	overflow: hidden;
+`;
+
 export const ListItemContainer = styled(Container).attrs<
 	{
 		contextualMenuActive: boolean;
@@ -88,6 +132,12 @@ export const ListItemContainer = styled(Container).attrs<
 		css`
 			cursor: pointer;
 		`}
+	&:focus {
+		outline: none;
+	}
+	&:focus-visible ${HoverContainer} {
+		background-color: ${({ theme }): string => getColor('gray6.focus', theme)};
+	}
 `;
 
 export const CheckedAvatar = styled(Avatar)`
@@ -196,6 +246,16 @@ export const FlexContainer = styled(Container)<{
 	gap: ${({ gap }): SimpleInterpolation => gap}
 `;
 
+export const ProgressBar = styled.div<{ $percentage: number }>`
+	height: 4px;
+	width: 100%;
+	background: linear-gradient(
+		to right,
+		${({ theme }): string => getColor('primary', theme)} ${({ $percentage }): number => $percentage}%,
+		${({ theme }): string => getColor('gray3', theme)} ${({ $percentage }): number => $percentage}%
+	);
+`;
+
 export const ShimmerText = styled(Shimmer.Text).attrs<{
 	$size: 'extrasmall' | 'small' | 'medium' | 'large' | 'extralarge';
 }>(({ $size, theme }) => ({
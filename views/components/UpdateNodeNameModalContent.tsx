@@ -24,8 +24,10 @@ interface UpdateNodeNameModalProps<T extends UpdateNameMutation> {
 	nodeName: string;
 	inputLabel: string;
 	confirmLabel: string;
-	confirmAction: (nodeId: string, newName: string) => Promise<FetchResult<T>>;
+	confirmAction: (nodeId: string, newName: string) => Promise<FetchResult<T> | void>;
 	closeAction?: () => void;
+	// allow to confirm the name received as initial value
+	allowSameName?: boolean;
 }
 
 export const UpdateNodeNameModalContent = <T extends UpdateNameMutation>({
@@ -34,7 +36,8 @@ export const UpdateNodeNameModalContent = <T extends UpdateNameMutation>({
 	inputLabel,
 	confirmLabel,
 	confirmAction,
-	closeAction
+	closeAction,
+	allowSameName = false
 }: UpdateNodeNameModalProps<T>): JSX.Element => {
 	const [t] = useTranslation();
 	const [newName, setNewName] = useState(nodeName || '');
@@ -109,7 +112,9 @@ export const UpdateNodeNameModalContent = <T extends UpdateNameMutation>({
 			<ModalFooter
 				confirmLabel={confirmLabel}
 				confirmHandler={confirmHandler}
-				confirmDisabled={!newName || newName === nodeName || pendingRequest}
+				confirmDisabled={
+					!newName || (!allowSameName && newName === nodeName) || pendingRequest
+				}
 			/>
 		</>
 	);
@@ -0,0 +1,54 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback } from 'react';
+
+import { IconButton, Row, Text, Tooltip } from '@zextras/carbonio-design-system';
+import { useTranslation } from 'react-i18next';
+
+import { UPLOAD_QUEUE_MAX_LIMIT } from '../../constants';
+import { uploadManager } from '../../hooks/useUpload';
+import { useUploadQueue } from '../../hooks/useUploadQueue';
+
+/**
+ * Change the number of uploads which can be in progress at the same time
+ */
+export const UploadConcurrencyControl: React.VFC = () => {
+	const [t] = useTranslation();
+	const { concurrency } = useUploadQueue();
+
+	const decreaseHandler = useCallback(() => {
+		uploadManager.setConcurrency(concurrency - 1);
+	}, [concurrency]);
+
+	const increaseHandler = useCallback(() => {
+		uploadManager.setConcurrency(Math.min(concurrency + 1, UPLOAD_QUEUE_MAX_LIMIT));
+	}, [concurrency]);
+
+	return (
+		<Row wrap="nowrap" gap="0.25rem" data-testid="upload-concurrency">
+			<Tooltip label={t('uploads.concurrency.decrease', 'Fewer parallel uploads')}>
+				<IconButton
+					icon="MinusOutline"
+					size="large"
+					onClick={decreaseHandler}
+					disabled={concurrency <= 1}
+				/>
+			</Tooltip>
+			<Text size="small" color="secondary">
+				{t('uploads.concurrency.label', 'Parallel uploads: {{count}}', { count: concurrency })}
+			</Text>
+			<Tooltip label={t('uploads.concurrency.increase', 'More parallel uploads')}>
+				<IconButton
+					icon="PlusOutline"
+					size="large"
+					onClick={increaseHandler}
+					disabled={concurrency >= UPLOAD_QUEUE_MAX_LIMIT}
+				/>
+			</Tooltip>
+		</Row>
+	);
+};
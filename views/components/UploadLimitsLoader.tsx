@@ -0,0 +1,25 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useEffect } from 'react';
+
+import { uploadLimitsVar } from '../../apollo/uploadVar';
+import { useGetConfigsQuery } from '../../hooks/graphql/queries/useGetConfigsQuery';
+import { getUploadLimits } from '../../utils/utils';
+
+/**
+ * Read the upload limits from the configs once for the whole app,
+ * instead of running the configs query in each consumer of the upload hook.
+ */
+export const UploadLimitsLoader: React.VFC = () => {
+	const configs = useGetConfigsQuery();
+
+	useEffect(() => {
+		uploadLimitsVar(getUploadLimits(configs));
+	}, [configs]);
+
+	return null;
+};
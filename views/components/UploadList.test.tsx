@@ -7,14 +7,7 @@
 import React from 'react';
 
 import { faker } from '@faker-js/faker';
-import {
-	act,
-	fireEvent,
-	screen,
-	waitFor,
-	waitForElementToBeRemoved,
-	within
-} from '@testing-library/react';
+import { fireEvent, screen, waitFor, waitForElementToBeRemoved, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import filter from 'lodash/filter';
 import find from 'lodash/find';
@@ -23,16 +16,24 @@ import keyBy from 'lodash/keyBy';
 import { graphql, rest } from 'msw';
 
 import server from '../../../mocks/server';
-import { uploadVar } from '../../apollo/uploadVar';
-import { REST_ENDPOINT, ROOTS, UPLOAD_PATH, UPLOAD_QUEUE_LIMIT } from '../../constants';
+import { uploadLimitsVar, uploadVar } from '../../apollo/uploadVar';
+import { CONFIGS, REST_ENDPOINT, ROOTS, UPLOAD_PATH, UPLOAD_QUEUE_LIMIT } from '../../constants';
 import {
 	UploadRequestBody,
 	UploadRequestParams,
 	UploadResponse
 } from '../../mocks/handleUploadFileRequest';
-import { populateFolder, populateLocalRoot, populateNodes } from '../../mocks/mockUtils';
+import {
+	populateConfigs,
+	populateFolder,
+	populateLocalRoot,
+	populateNodes
+} from '../../mocks/mockUtils';
+import { uploadManager } from '../../hooks/useUpload';
 import { UploadStatus, UploadType } from '../../types/common';
 import {
+	CreateFolderMutation,
+	CreateFolderMutationVariables,
 	File as FilesFile,
 	Folder,
 	GetChildQuery,
@@ -41,11 +42,22 @@ import {
 	GetChildrenQueryVariables,
 	Maybe
 } from '../../types/graphql/types';
-import { getChildrenVariables, mockGetBaseNode, mockGetChildren } from '../../utils/mockUtils';
-import { render } from '../../utils/testUtils';
+import {
+	getChildrenVariables,
+	mockGetBaseNode,
+	mockGetChildren,
+	mockGetConfigs
+} from '../../utils/mockUtils';
+import { render, waitForNetworkResponse } from '../../utils/testUtils';
+import { UploadLimitsLoader } from './UploadLimitsLoader';
 import { UploadList } from './UploadList';
 
 describe('Upload list', () => {
+	afterEach(() => {
+		// the limits are read once for the whole app, so they are not reset between the renders
+		uploadLimitsVar({ forbiddenExtensions: [] });
+	});
+
 	describe('Drag and drop', () => {
 		test('Drag of files in the upload list shows upload dropzone with dropzone message. Drop triggers upload in local root', async () => {
 			const localRoot = populateFolder(0, ROOTS.LOCAL_ROOT);
@@ -84,7 +96,7 @@ describe('Upload list', () => {
 				files
 			};
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
 
 			render(<UploadList />, { mocks });
 
@@ -166,7 +178,7 @@ describe('Upload list', () => {
 				})
 			});
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
 
 			render(<UploadList />, { mocks });
 
@@ -192,18 +204,37 @@ describe('Upload list', () => {
 			expect(screen.queryByTestId('dropzone-overlay')).not.toBeInTheDocument();
 		});
 
-		test('Drop of mixed files and folder in the upload list shows folder item as failed and a snackbar to inform upload of folder is not allowed', async () => {
+		test('Drop of mixed files and folder in the upload list creates the folder and uploads its content inside it', async () => {
 			const localRoot = populateFolder(0, ROOTS.LOCAL_ROOT);
+			const folder = populateFolder(0, undefined, 'dropped folder');
+			folder.parent = localRoot;
 			const uploadedFiles = populateNodes(2, 'File') as FilesFile[];
 			const files: File[] = [];
-			// invalid folder (file without size nor type)
-			uploadedFiles[0].parent = localRoot;
-			files.push(new File([], uploadedFiles[0].name, { type: '' }));
-			// valid file
+			forEach(uploadedFiles, (file) => {
+				files.push(new File(['(⌐□_□)'], file.name, { type: file.mime_type }));
+			});
+			// first file is inside the folder, second one is in the local root
+			uploadedFiles[0].parent = folder;
 			uploadedFiles[1].parent = localRoot;
-			files.push(new File(['(⌐□_□)'], uploadedFiles[1].name, { type: uploadedFiles[1].mime_type }));
 
-			let reqIndex = 0;
+			const fileEntry = (file: File): unknown => ({
+				isFile: true,
+				isDirectory: false,
+				name: file.name,
+				file: (callback: (f: File) => void): void => callback(file)
+			});
+			let folderRead = false;
+			const folderEntry = {
+				isFile: false,
+				isDirectory: true,
+				name: folder.name,
+				createReader: (): unknown => ({
+					readEntries: (callback: (entries: unknown[]) => void): void => {
+						callback(folderRead ? [] : [fileEntry(files[0])]);
+						folderRead = true;
+					}
+				})
+			};
 
 			// write local root data in cache as if it was already loaded
 			const getChildrenMockedQuery = mockGetChildren(getChildrenVariables(localRoot.id), localRoot);
@@ -215,23 +246,44 @@ describe('Upload list', () => {
 			});
 
 			server.use(
+				graphql.mutation<CreateFolderMutation, CreateFolderMutationVariables>(
+					'createFolder',
+					(req, res, ctx) => res(ctx.data({ createFolder: folder }))
+				),
 				graphql.query<GetChildQuery, GetChildQueryVariables>('getChild', (req, res, ctx) => {
 					const { node_id: id } = req.variables;
-					const result = (reqIndex < uploadedFiles.length && uploadedFiles[reqIndex]) || null;
-					if (result) {
-						result.id = id;
-					}
-					reqIndex += 1;
-					return res(ctx.data({ getNode: result }));
-				})
+					return res(ctx.data({ getNode: find(uploadedFiles, (file) => file.id === id) || null }));
+				}),
+				rest.post<UploadRequestBody, UploadRequestParams, UploadResponse>(
+					`${REST_ENDPOINT}${UPLOAD_PATH}`,
+					(req, res, ctx) =>
+						res(
+							ctx.json({
+								nodeId:
+									req.headers.get('ParentId') === folder.id ? uploadedFiles[0].id : uploadedFiles[1].id
+							})
+						)
+				)
 			);
 
 			const dataTransferObj = {
 				types: ['Files'],
-				files
+				files: [files[1]],
+				items: [
+					{ kind: 'file', webkitGetAsEntry: (): unknown => folderEntry, getAsFile: (): null => null },
+					{
+						kind: 'file',
+						webkitGetAsEntry: (): unknown => fileEntry(files[1]),
+						getAsFile: (): File => files[1]
+					}
+				]
 			};
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [
+				mockGetBaseNode({ node_id: localRoot.id }, localRoot),
+				mockGetBaseNode({ node_id: folder.id }, folder),
+				mockGetConfigs()
+			];
 
 			render(<UploadList />, { mocks });
 
@@ -242,60 +294,30 @@ describe('Upload list', () => {
 			});
 
 			await screen.findByTestId('dropzone-overlay');
-			expect(
-				screen.getByText(/Drop here your attachments to quick-add them to your Home/m)
-			).toBeVisible();
 
 			fireEvent.drop(screen.getByText(/nothing here/i), {
 				dataTransfer: dataTransferObj
 			});
 
-			// snackbar with action to open additional info modal is shown
+			await screen.findByText(uploadedFiles[1].name);
 			await screen.findByText(uploadedFiles[0].name);
-			const snackbar = await screen.findByText(/some items have not been uploaded/i);
-			expect(screen.getByRole('button', { name: /more info/i })).toBeInTheDocument();
-			userEvent.click(screen.getByRole('button', { name: /more info/i }));
-			await screen.findByText(/additional info/i);
-			await waitForElementToBeRemoved(snackbar);
-
-			expect(screen.getByText(/additional info/i)).toBeInTheDocument();
-			expect(
-				screen.getByText(/Folders cannot be uploaded. Instead, if you are trying to upload a file/i)
-			).toBeInTheDocument();
-			expect(screen.getByTestId('icon: Close')).toBeInTheDocument();
-			userEvent.click(screen.getByTestId('icon: Close'));
-			expect(screen.queryByText(/additional info/i)).not.toBeInTheDocument();
-
+			await waitFor(() => expect(screen.getAllByTestId('icon: CheckmarkCircle2')).toHaveLength(2));
 			expect(screen.getAllByTestId('node-item', { exact: false })).toHaveLength(
 				uploadedFiles.length
 			);
-			expect(screen.queryByText(/Drop here your attachments/m)).not.toBeInTheDocument();
+			expect(screen.queryByText(/folders cannot be uploaded/i)).not.toBeInTheDocument();
+			expect(screen.queryByTestId('icon: AlertCircle')).not.toBeInTheDocument();
 
 			await waitFor(() => {
 				const localRootCachedData = global.apolloClient.readQuery<
 					GetChildrenQuery,
 					GetChildrenQueryVariables
 				>(getChildrenMockedQuery.request);
+				// local root contains the new folder and the file dropped at first level
 				return expect(
 					(localRootCachedData?.getNode as Maybe<Folder> | undefined)?.children.nodes || []
-				).toHaveLength(1);
+				).toHaveLength(2);
 			});
-
-			expect(screen.getByText(uploadedFiles[0].name)).toBeVisible();
-			expect(screen.getByTestId('icon: AlertCircle')).toBeVisible();
-			const folderItem = screen.getByTestId(/node-item-0-\d*/);
-			expect(within(folderItem).getByTestId('icon: PlayCircleOutline')).not.toHaveAttribute(
-				'disabled',
-				''
-			);
-			act(() => {
-				userEvent.click(within(folderItem).getByTestId('icon: PlayCircleOutline'));
-			});
-			const snackbar2 = await screen.findByText(/folders cannot be uploaded/i);
-			expect(screen.getByRole('button', { name: /more info/i })).toBeInTheDocument();
-			await waitForElementToBeRemoved(snackbar2);
-			expect(screen.getByText(uploadedFiles[1].name)).toBeVisible();
-			expect(screen.getByTestId('icon: CheckmarkCircle2')).toBeVisible();
 		});
 
 		test('upload more then 3 files in the upload list queues excess elements', async () => {
@@ -346,7 +368,7 @@ describe('Upload list', () => {
 				files
 			};
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
 
 			render(<UploadList />, { mocks });
 
@@ -449,7 +471,7 @@ describe('Upload list', () => {
 				files
 			};
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
 
 			render(<UploadList />, { mocks });
 
@@ -486,6 +508,114 @@ describe('Upload list', () => {
 			expect(screen.queryByTestId('icon: AnimatedLoader')).not.toBeInTheDocument();
 		});
 
+		test('when the name is already used, the user can keep both files and the upload is retried with a suffix', async () => {
+			const localRoot = populateLocalRoot();
+			const uploadedFile = populateNodes(1, 'File')[0] as FilesFile;
+			uploadedFile.parent = localRoot;
+			uploadedFile.name = 'conflict.txt';
+			const file = new File(['😂😂😂😂'], uploadedFile.name, { type: uploadedFile.mime_type });
+			const uploadedNames: string[] = [];
+
+			server.use(
+				graphql.query<GetChildQuery, GetChildQueryVariables>('getChild', (req, res, ctx) =>
+					res(ctx.data({ getNode: { ...uploadedFile, id: req.variables.node_id } }))
+				),
+				rest.post<UploadRequestBody, UploadRequestParams, UploadResponse>(
+					`${REST_ENDPOINT}${UPLOAD_PATH}`,
+					(req, res, ctx) => {
+						const fileName = window.atob(req.headers.get('filename') as string);
+						uploadedNames.push(fileName);
+						if (fileName === uploadedFile.name) {
+							return res(ctx.status(500));
+						}
+						return res(ctx.json({ nodeId: faker.datatype.uuid() }));
+					}
+				)
+			);
+
+			const dataTransferObj = {
+				types: ['Files'],
+				files: [file]
+			};
+
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
+
+			render(<UploadList />, { mocks });
+
+			await screen.findByText(/nothing here/i);
+
+			fireEvent.drop(screen.getByText(/nothing here/i), {
+				dataTransfer: dataTransferObj
+			});
+
+			await screen.findByText(/name already in use/i);
+			expect(screen.getByText(/an item named "conflict.txt" already exists/i)).toBeVisible();
+			expect(screen.getByRole('button', { name: /replace/i })).toBeVisible();
+			expect(screen.getByRole('button', { name: /skip/i })).toBeVisible();
+			// there is only one conflict, so the option to apply to all is not shown
+			expect(screen.queryByText(/apply to all/i)).not.toBeInTheDocument();
+			userEvent.click(screen.getByRole('button', { name: /keep both/i }));
+			await screen.findByTestId('icon: CheckmarkCircle2');
+			expect(screen.queryByText(/name already in use/i)).not.toBeInTheDocument();
+			expect(uploadedNames).toEqual(['conflict.txt', 'conflict (1).txt']);
+		});
+
+		test('files which do not respect the upload limits are rejected with the reason and are not uploaded', async () => {
+			const localRoot = populateLocalRoot();
+			const uploadedNames: string[] = [];
+
+			server.use(
+				graphql.query<GetChildQuery, GetChildQueryVariables>('getChild', (req, res, ctx) =>
+					res(ctx.data({ getNode: populateNodes(1, 'File')[0] }))
+				),
+				rest.post<UploadRequestBody, UploadRequestParams, UploadResponse>(
+					`${REST_ENDPOINT}${UPLOAD_PATH}`,
+					(req, res, ctx) => {
+						uploadedNames.push(window.atob(req.headers.get('filename') as string));
+						return res(ctx.json({ nodeId: faker.datatype.uuid() }));
+					}
+				)
+			);
+
+			const files = [
+				new File(['small'], 'allowed.txt', { type: 'text/plain' }),
+				new File(['a very large content'], 'large.txt', { type: 'text/plain' }),
+				new File(['small'], 'script.EXE', { type: 'application/octet-stream' })
+			];
+
+			const mocks = [
+				mockGetBaseNode({ node_id: localRoot.id }, localRoot),
+				mockGetConfigs(
+					populateConfigs({
+						[CONFIGS.MAX_UPLOAD_SIZE]: '10',
+						[CONFIGS.FORBIDDEN_UPLOAD_EXTENSIONS]: 'bat, .exe'
+					})
+				)
+			];
+
+			render(
+				<>
+					<UploadLimitsLoader />
+					<UploadList />
+				</>,
+				{ mocks }
+			);
+
+			await screen.findByText(/nothing here/i);
+			// wait for the configs with the limits
+			await waitForNetworkResponse();
+
+			fireEvent.drop(screen.getByText(/nothing here/i), {
+				dataTransfer: { types: ['Files'], files }
+			});
+
+			await screen.findByTestId('icon: CheckmarkCircle2');
+			expect(screen.getByText(/exceeds the maximum size allowed/i)).toBeVisible();
+			expect(screen.getByText(/this type of file is not allowed/i)).toBeVisible();
+			expect(screen.getAllByText(/rejected/i)).toHaveLength(2);
+			expect(uploadedNames).toEqual(['allowed.txt']);
+		});
+
 		// FIXME: this test run by itself but fails when run with all other tests
 		test.skip('when an uploading item is aborted, the next in the queue is uploaded', async () => {
 			const localRoot = populateLocalRoot();
@@ -526,7 +656,7 @@ describe('Upload list', () => {
 				files
 			};
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
 
 			render(<UploadList />, { mocks });
 
@@ -613,7 +743,7 @@ describe('Upload list', () => {
 				files: files.slice(4)
 			};
 
-			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot)];
+			const mocks = [mockGetBaseNode({ node_id: localRoot.id }, localRoot), mockGetConfigs()];
 
 			render(<UploadList />, { mocks });
 
@@ -695,4 +825,25 @@ describe('Upload list', () => {
 			expect(screen.queryByText(/queued/i)).not.toBeInTheDocument();
 		});
 	});
+
+	describe('Parallel uploads', () => {
+		afterEach(() => {
+			// the upload manager is shared by all the tests
+			uploadManager.setConcurrency(UPLOAD_QUEUE_LIMIT);
+		});
+
+		test('the number of parallel uploads can be changed from the header', async () => {
+			render(<UploadList />, { mocks: [mockGetConfigs()] });
+
+			await screen.findByText(/nothing here/i);
+			expect(screen.getByText(`Parallel uploads: ${UPLOAD_QUEUE_LIMIT}`)).toBeVisible();
+			userEvent.click(screen.getByTestId('icon: PlusOutline'));
+			await screen.findByText(`Parallel uploads: ${UPLOAD_QUEUE_LIMIT + 1}`);
+			expect(uploadManager.getState().concurrency).toBe(UPLOAD_QUEUE_LIMIT + 1);
+			userEvent.click(screen.getByTestId('icon: MinusOutline'));
+			userEvent.click(screen.getByTestId('icon: MinusOutline'));
+			await screen.findByText(`Parallel uploads: ${UPLOAD_QUEUE_LIMIT - 1}`);
+			expect(uploadManager.getState().concurrency).toBe(UPLOAD_QUEUE_LIMIT - 1);
+		});
+	});
 });
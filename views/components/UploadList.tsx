@@ -7,11 +7,14 @@
 import React, { useCallback, useContext, useEffect, useMemo } from 'react';
 
 import { useReactiveVar } from '@apollo/client';
-import { Container } from '@zextras/carbonio-design-system';
+import { Container, Row } from '@zextras/carbonio-design-system';
 import filter from 'lodash/filter';
 import includes from 'lodash/includes';
+import indexOf from 'lodash/indexOf';
 import map from 'lodash/map';
+import noop from 'lodash/noop';
 import size from 'lodash/size';
+import sortBy from 'lodash/sortBy';
 import { useTranslation } from 'react-i18next';
 
 import ListHeader from '../../../components/ListHeader';
@@ -21,25 +24,44 @@ import { DRAG_TYPES, ROOTS } from '../../constants';
 import { ListContext } from '../../contexts';
 import { useCreateSnackbar } from '../../hooks/useCreateSnackbar';
 import useSelection from '../../hooks/useSelection';
-import { useUpload } from '../../hooks/useUpload';
+import { uploadManager, useUpload } from '../../hooks/useUpload';
+import { useUploadQueue } from '../../hooks/useUploadQueue';
 import { Action, UploadType } from '../../types/common';
 import {
 	ActionItem,
 	buildActionItems,
 	getPermittedUploadActions
 } from '../../utils/ActionsFactory';
+import { Draggable } from './Draggable';
 import { Dropzone } from './Dropzone';
 import { EmptyFolder } from './EmptyFolder';
 import { ScrollContainer } from './ScrollContainer';
 import { RoundedButton } from './StyledComponents';
+import { UploadConcurrencyControl } from './UploadConcurrencyControl';
 import { UploadListItemWrapper } from './UploadListItemWrapper';
 
 export const UploadList: React.VFC = () => {
 	const [t] = useTranslation();
 
-	const { add, removeById, removeAllCompleted, retryById } = useUpload();
+	const { add, removeById, removeAllCompleted, retryById, pauseById, resumeById } = useUpload();
 	const uploadStatusMap = useReactiveVar<{ [id: string]: UploadType }>(uploadVar);
-	const uploadStatus = useMemo(() => map(uploadStatusMap, (value) => value), [uploadStatusMap]);
+	const { waiting } = useUploadQueue();
+	const uploadStatus = useMemo(() => {
+		const uploadItems = map(uploadStatusMap, (value) => value);
+		// queued items are shown in the order in which they are going to be uploaded
+		const queuedItems = sortBy(
+			filter(uploadItems, (item) => includes(waiting, item.id)),
+			(item) => indexOf(waiting, item.id)
+		);
+		let queuedIndex = 0;
+		return map(uploadItems, (item) => {
+			if (includes(waiting, item.id)) {
+				queuedIndex += 1;
+				return queuedItems[queuedIndex - 1];
+			}
+			return item;
+		});
+	}, [uploadStatusMap, waiting]);
 
 	const uploadStatusSizeIsZero = useMemo(() => uploadStatus.length === 0, [uploadStatus]);
 
@@ -79,18 +101,72 @@ export const UploadList: React.VFC = () => {
 		[selectedItems]
 	);
 
+	const queueDragStartHandler = useCallback(
+		(id: string): React.DragEventHandler<HTMLElement> =>
+			(event): void => {
+				event.dataTransfer.setData(DRAG_TYPES.uploadQueue, id);
+			},
+		[]
+	);
+
+	const queueDragOverHandler = useCallback<React.DragEventHandler>((event) => {
+		if (includes(event.dataTransfer.types, DRAG_TYPES.uploadQueue)) {
+			event.preventDefault();
+			event.dataTransfer.dropEffect = 'move';
+		}
+	}, []);
+
+	const queueDropHandler = useCallback(
+		(targetId: string): React.DragEventHandler =>
+			(event): void => {
+				const draggedId = event.dataTransfer.getData(DRAG_TYPES.uploadQueue);
+				if (draggedId) {
+					event.preventDefault();
+					// the dragged item takes the place of the one on which it is dropped
+					uploadManager.reorder(draggedId, indexOf(uploadManager.getState().waiting, targetId));
+				}
+			},
+		[]
+	);
+
 	const items = useMemo(
 		() =>
-			map(uploadStatus, (item) => (
-				<UploadListItemWrapper
-					key={item.id}
-					node={item}
-					isSelected={selectedMap && selectedMap[item.id]}
-					isSelectionModeActive={isSelectionModeActive}
-					selectId={selectId}
-				/>
-			)),
-		[isSelectionModeActive, uploadStatus, selectId, selectedMap]
+			map(uploadStatus, (item) => {
+				const listItem = (
+					<UploadListItemWrapper
+						key={item.id}
+						node={item}
+						isSelected={selectedMap && selectedMap[item.id]}
+						isSelectionModeActive={isSelectionModeActive}
+						selectId={selectId}
+					/>
+				);
+				// queued items can be dragged to change the order of the queue
+				return includes(waiting, item.id) ? (
+					<Draggable
+						key={item.id}
+						onDragStart={queueDragStartHandler(item.id)}
+						onDragEnd={noop}
+						effect="move"
+					>
+						<Container onDragOver={queueDragOverHandler} onDrop={queueDropHandler(item.id)}>
+							{listItem}
+						</Container>
+					</Draggable>
+				) : (
+					listItem
+				);
+			}),
+		[
+			uploadStatus,
+			selectedMap,
+			isSelectionModeActive,
+			selectId,
+			waiting,
+			queueDragStartHandler,
+			queueDragOverHandler,
+			queueDropHandler
+		]
 	);
 
 	const removeUploadSelection = useCallback(() => {
@@ -103,6 +179,16 @@ export const UploadList: React.VFC = () => {
 		unSelectAll();
 	}, [retryById, selectedIDs, unSelectAll]);
 
+	const pauseUploadSelection = useCallback(() => {
+		pauseById(selectedIDs);
+		unSelectAll();
+	}, [pauseById, selectedIDs, unSelectAll]);
+
+	const resumeUploadSelection = useCallback(() => {
+		resumeById(selectedIDs);
+		unSelectAll();
+	}, [resumeById, selectedIDs, unSelectAll]);
+
 	const { navigateToFolder } = useNavigation();
 
 	const goToFolderSelection = useCallback(() => {
@@ -124,6 +210,18 @@ export const UploadList: React.VFC = () => {
 				label: t('actions.retryUpload', 'Retry upload'),
 				click: retryUploadSelection
 			},
+			[Action.PauseUpload]: {
+				id: 'PauseUpload',
+				icon: 'PauseCircleOutline',
+				label: t('actions.pauseUpload', 'Pause upload'),
+				click: pauseUploadSelection
+			},
+			[Action.ResumeUpload]: {
+				id: 'ResumeUpload',
+				icon: 'PlayCircleOutline',
+				label: t('actions.resumeUpload', 'Resume upload'),
+				click: resumeUploadSelection
+			},
 			[Action.GoToFolder]: {
 				id: 'GoToFolder ',
 				icon: 'FolderOutline',
@@ -131,7 +229,14 @@ export const UploadList: React.VFC = () => {
 				click: goToFolderSelection
 			}
 		}),
-		[removeUploadSelection, goToFolderSelection, retryUploadSelection, t]
+		[
+			removeUploadSelection,
+			goToFolderSelection,
+			retryUploadSelection,
+			pauseUploadSelection,
+			resumeUploadSelection,
+			t
+		]
 	);
 
 	const permittedSelectionModePrimaryActionsItems = useMemo(
@@ -143,7 +248,7 @@ export const UploadList: React.VFC = () => {
 
 	const uploadWithDragAndDrop = useCallback(
 		(event) => {
-			add(event.dataTransfer.files, ROOTS.LOCAL_ROOT, true);
+			add(event.dataTransfer, ROOTS.LOCAL_ROOT);
 			createSnackbar({
 				key: new Date().toLocaleString(),
 				type: 'info',
@@ -172,15 +277,19 @@ export const UploadList: React.VFC = () => {
 	);
 
 	const headerAction = useMemo(
-		() =>
-			items.length > 0 && (
-				<RoundedButton
-					type="outlined"
-					label={t('uploads.clean.completed', 'Clean completed uploads')}
-					icon="CloseOutline"
-					onClick={removeAllCompleted}
-				/>
-			),
+		() => (
+			<Row wrap="nowrap" gap="0.5rem">
+				<UploadConcurrencyControl />
+				{items.length > 0 && (
+					<RoundedButton
+						type="outlined"
+						label={t('uploads.clean.completed', 'Clean completed uploads')}
+						icon="CloseOutline"
+						onClick={removeAllCompleted}
+					/>
+				)}
+			</Row>
+		),
 		[items.length, removeAllCompleted, t]
 	);
 
@@ -14,10 +14,10 @@ import { useNavigation } from '../../../hooks/useNavigation';
 import { LIST_ITEM_HEIGHT } from '../../constants';
 import { Breadcrumbs } from '../../design_system_fork/Breadcrumbs';
 import { useUpload } from '../../hooks/useUpload';
-import { Action, UploadStatus } from '../../types/common';
+import { Action, UploadRejectionReason, UploadStatus } from '../../types/common';
 import { Maybe, Node } from '../../types/graphql/types';
 import { buildActionItems } from '../../utils/ActionsFactory';
-import { buildCrumbs, humanFileSize, scrollToNodeItem } from '../../utils/utils';
+import { buildCrumbs, humanDuration, humanFileSize, scrollToNodeItem } from '../../utils/utils';
 import { ContextualMenu } from './ContextualMenu';
 import { NodeAvatarIcon } from './NodeAvatarIcon';
 import { NodeHoverBar } from './NodeHoverBar';
@@ -33,6 +33,10 @@ interface UploadListItemProps {
 	mimeType: string;
 	status: UploadStatus;
 	percentage: number;
+	loaded?: number;
+	speed?: number;
+	eta?: number;
+	rejectionReason?: UploadRejectionReason;
 	permittedContextualMenuActions: Action[];
 	permittedHoverBarActions: Action[];
 	isSelected: boolean;
@@ -59,6 +63,10 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 		mimeType: _mimeType,
 		status,
 		percentage,
+		loaded,
+		speed,
+		eta,
+		rejectionReason,
 		isSelected,
 		isSelectionModeActive,
 		selectId,
@@ -77,7 +85,7 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 			setIsContextualMenuActive(false);
 		}, []);
 
-		const { removeById, retryById } = useUpload();
+		const { removeById, retryById, pauseById, resumeById } = useUpload();
 
 		const items = useMemo(
 			() => ({
@@ -103,6 +111,22 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 						retryById([id]);
 					}
 				},
+				[Action.PauseUpload]: {
+					id: 'PauseUpload',
+					icon: 'PauseCircleOutline',
+					label: t('actions.pauseUpload', 'Pause upload'),
+					click: (): void => {
+						pauseById([id]);
+					}
+				},
+				[Action.ResumeUpload]: {
+					id: 'ResumeUpload',
+					icon: 'PlayCircleOutline',
+					label: t('actions.resumeUpload', 'Resume upload'),
+					click: (): void => {
+						resumeById([id]);
+					}
+				},
 
 				[Action.removeUpload]: {
 					id: 'removeUpload',
@@ -113,7 +137,18 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 					}
 				}
 			}),
-			[id, navigateTo, navigateToFolder, nodeId, parent, removeById, retryById, t]
+			[
+				id,
+				navigateTo,
+				navigateToFolder,
+				nodeId,
+				parent,
+				pauseById,
+				removeById,
+				resumeById,
+				retryById,
+				t
+			]
 		);
 
 		const permittedContextualMenuActionItems = useMemo(
@@ -143,11 +178,48 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 					return <Icon icon="AnimatedLoader" />;
 				case UploadStatus.FAILED:
 					return <Icon icon="AlertCircle" color="error" />;
+				case UploadStatus.PAUSED:
+					return <Icon icon="PauseCircle" color="secondary" />;
 				default:
 					return <Icon icon="AnimatedLoader" />;
 			}
 		}, [status]);
 
+		const progressDetails = useMemo(() => {
+			if (status === UploadStatus.LOADING && loaded !== undefined) {
+				const loadedSize = `${humanFileSize(loaded)} / ${humanFileSize(size)}`;
+				if (speed === undefined || eta === undefined) {
+					return loadedSize;
+				}
+				const etaLabel = t('uploadItem.eta', '{{eta}} left', { eta: humanDuration(eta, t) });
+				return `${loadedSize} - ${humanFileSize(speed)}/s - ${etaLabel}`;
+			}
+			return undefined;
+		}, [eta, loaded, size, speed, status, t]);
+
+		const rejectionLabel = useMemo(() => {
+			switch (rejectionReason) {
+				case UploadRejectionReason.FILE_TOO_LARGE:
+					return t('uploadItem.rejected.fileTooLarge', 'The file exceeds the maximum size allowed');
+				case UploadRejectionReason.FORBIDDEN_EXTENSION:
+					return t('uploadItem.rejected.forbiddenExtension', 'This type of file is not allowed');
+				case UploadRejectionReason.TOO_MANY_FILES:
+					return t(
+						'uploadItem.rejected.tooManyFiles',
+						'Too many files have been uploaded at the same time'
+					);
+				default:
+					return undefined;
+			}
+		}, [rejectionReason, t]);
+
+		const statusLabel = useMemo(() => {
+			if (rejectionReason) {
+				return t('uploadItem.rejected.status', 'Rejected');
+			}
+			return status === UploadStatus.QUEUED ? t('uploadItem.queued', 'Queued') : `${percentage}%`;
+		}, [percentage, rejectionReason, status, t]);
+
 		return (
 			<ContextualMenu
 				onOpen={openContextualMenuHandler}
@@ -198,9 +270,7 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 								mainAlignment="flex-end"
 							>
 								<Text size="small">
-									{status === UploadStatus.QUEUED
-										? t('uploadItem.queued', 'Queued')
-										: `${percentage}%`}
+									{statusLabel}
 								</Text>
 								<Padding left="extrasmall">{statusIcon}</Padding>
 							</Container>
@@ -209,9 +279,19 @@ export const UploadListItem: React.VFC<UploadListItemProps> = React.memo(
 								padding={{ vertical: 'extrasmall' }}
 								mainAlignment="flex-end"
 							>
-								<CustomText size="extrasmall" overflow="ellipsis" color="gray1">
-									{humanFileSize(size)}
-								</CustomText>
+								{rejectionLabel || progressDetails ? (
+									<Text
+										size="extrasmall"
+										overflow="ellipsis"
+										color={rejectionLabel ? 'error' : 'gray1'}
+									>
+										{rejectionLabel || progressDetails}
+									</Text>
+								) : (
+									<CustomText size="extrasmall" overflow="ellipsis" color="gray1">
+										{humanFileSize(size)}
+									</CustomText>
+								)}
 							</Container>
 						</Container>
 					</HoverContainer>
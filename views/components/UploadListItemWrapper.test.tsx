@@ -25,7 +25,10 @@ const mockedUseUploadHook: ReturnType<UseUploadHook> = {
 	removeById: jest.fn(),
 	removeByNodeId: jest.fn(),
 	removeAllCompleted: jest.fn(),
-	retryById: jest.fn()
+	retryById: jest.fn(),
+	pauseById: jest.fn(),
+	resumeById: jest.fn(),
+	restoreStoredUploads: jest.fn()
 };
 
 const mockedUseNavigationHook: ReturnType<UseNavigationHook> = {
@@ -76,6 +79,37 @@ describe('Upload List Item Wrapper', () => {
 		expect(screen.getByTestId('icon: AnimatedLoader')).toBeVisible();
 	});
 
+	test('Loaded bytes, speed and remaining time are visible if uploading is in progress', async () => {
+		const destinationFolder = populateFolder();
+		const file: UploadType = {
+			file: new File(['a'.repeat(2048)], 'file1.txt', { type: 'text/plain' }),
+			percentage: 50,
+			parentId: destinationFolder.id,
+			id: 'fileToUploadId',
+			status: UploadStatus.LOADING,
+			loaded: 1024,
+			speed: 512,
+			eta: 2
+		};
+
+		const mocks = [mockGetBaseNode({ node_id: destinationFolder.id }, destinationFolder)];
+
+		render(
+			<UploadListItemWrapper
+				node={file}
+				isSelected={false}
+				isSelectionModeActive={false}
+				selectId={jest.fn()}
+			/>,
+			{ mocks }
+		);
+
+		const loadedSize = `${humanFileSize(1024)} / ${humanFileSize(2048)}`;
+		const speed = `${humanFileSize(512)}/s`;
+		expect(screen.getByText(`${loadedSize} - ${speed} - 2s left`)).toBeVisible();
+		expect(screen.queryByText(humanFileSize(file.file.size))).not.toBeInTheDocument();
+	});
+
 	test('Retry action is disabled if uploading is in progress', async () => {
 		const destinationFolder = populateFolder();
 		const file: UploadType = {
@@ -129,6 +163,67 @@ describe('Upload List Item Wrapper', () => {
 		);
 	});
 
+	test('Pause action is visible if uploading is in progress, resume action if uploading is paused', async () => {
+		const destinationFolder = populateFolder();
+		const file: UploadType = {
+			file: new File(['uploading file'], 'file1.txt', { type: 'text/plain' }),
+			percentage: 20,
+			parentId: destinationFolder.id,
+			id: 'fileToUploadId',
+			status: UploadStatus.LOADING
+		};
+		const mockSelectId = jest.fn();
+
+		const mockedGetBaseNodeRequest = mockGetBaseNode(
+			{ node_id: destinationFolder.id },
+			destinationFolder
+		);
+		global.apolloClient.writeQuery<GetBaseNodeQuery, GetBaseNodeQueryVariables>({
+			...mockedGetBaseNodeRequest.request,
+			data: {
+				getNode: destinationFolder
+			}
+		});
+
+		const { rerender } = render(
+			<UploadListItemWrapper
+				node={file}
+				isSelected={false}
+				isSelectionModeActive={false}
+				selectId={mockSelectId}
+			/>,
+			{ mocks: [] }
+		);
+
+		userEvent.hover(screen.getByText(file.file.name));
+		expect(screen.getByTestId('icon: PauseCircleOutline')).toBeInTheDocument();
+		expect(screen.queryByTestId('icon: PlayCircleOutline')).not.toBeInTheDocument();
+		userEvent.click(screen.getByTestId('icon: PauseCircleOutline'));
+		expect(mockedUseUploadHook.pauseById).toHaveBeenCalledWith([file.id]);
+
+		rerender(
+			<UploadListItemWrapper
+				node={{ ...file, status: UploadStatus.PAUSED }}
+				isSelected={false}
+				isSelectionModeActive={false}
+				selectId={mockSelectId}
+			/>
+		);
+
+		expect(screen.getByText(new RegExp(`${file.percentage}\\s*%`, 'm'))).toBeVisible();
+		expect(screen.getByTestId('icon: PauseCircle')).toBeVisible();
+		userEvent.hover(screen.getByText(file.file.name));
+		expect(screen.queryByTestId('icon: PauseCircleOutline')).not.toBeInTheDocument();
+		expect(screen.getByTestId('icon: PlayCircleOutline')).toBeInTheDocument();
+		userEvent.click(screen.getByTestId('icon: PlayCircleOutline'));
+		expect(mockedUseUploadHook.resumeById).toHaveBeenCalledWith([file.id]);
+		// contextual menu
+		fireEvent.contextMenu(screen.getByText(file.file.name));
+		await screen.findByText(/resume upload/i);
+		expect(screen.queryByText(/pause upload/i)).not.toBeInTheDocument();
+		expect(screen.queryByText(/retry upload/i)).not.toBeInTheDocument();
+	});
+
 	test('File name, destination folder, queued label and size are visible', async () => {
 		const destinationFolder = populateFolder();
 		const file = {
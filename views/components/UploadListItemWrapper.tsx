@@ -37,6 +37,10 @@ export const UploadListItemWrapper: React.VFC<UploadListItemWrapperProps> = ({
 			size={node.file.size}
 			status={node.status}
 			percentage={node.percentage}
+			loaded={node.loaded}
+			speed={node.speed}
+			eta={node.eta}
+			rejectionReason={node.rejectionReason}
 			parent={parentData?.getNode}
 			isSelected={isSelected}
 			selectId={selectId}
@@ -0,0 +1,58 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { waitFor } from '@testing-library/react';
+
+import { restoredUploadsVar, uploadFunctionsVar, uploadVar } from '../../apollo/uploadVar';
+import { UploadStatus } from '../../types/common';
+import { mockIndexedDB, render, waitForNetworkResponse } from '../../utils/testUtils';
+import { UploadsRestorer } from './UploadsRestorer';
+
+describe('Uploads Restorer', () => {
+	const records = mockIndexedDB();
+
+	test('interrupted uploads are restored as paused only once, without replacing queued ones', async () => {
+		const file = new File(['some content'], 'file1.txt', { type: 'text/plain' });
+		records.set('restored1', {
+			id: 'restored1',
+			file,
+			parentId: 'folder1',
+			uploadId: 'uploadId1',
+			offset: 6
+		});
+		records.set('queued1', { id: 'queued1', file, parentId: 'folder1' });
+		uploadVar({
+			queued1: {
+				id: 'queued1',
+				file,
+				parentId: 'folder1',
+				percentage: 0,
+				status: UploadStatus.QUEUED
+			}
+		});
+
+		const { unmount } = render(<UploadsRestorer />, { mocks: [] });
+		await waitFor(() => expect(restoredUploadsVar()).toEqual(['restored1']));
+		expect(uploadVar().restored1).toEqual(
+			expect.objectContaining({
+				status: UploadStatus.PAUSED,
+				uploadId: 'uploadId1',
+				loaded: 6,
+				percentage: 50
+			})
+		);
+		expect(uploadFunctionsVar().restored1).toBeDefined();
+		expect(uploadVar().queued1.status).toBe(UploadStatus.QUEUED);
+
+		unmount();
+		uploadVar({});
+		render(<UploadsRestorer />, { mocks: [] });
+		await waitForNetworkResponse();
+		expect(uploadVar()).toEqual({});
+	});
+});
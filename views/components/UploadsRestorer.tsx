@@ -0,0 +1,23 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useEffect } from 'react';
+
+import { useUpload } from '../../hooks/useUpload';
+
+/**
+ * Restore the uploads interrupted in a previous session as soon as the app is loaded,
+ * so that they can be resumed without opening the uploads view.
+ */
+export const UploadsRestorer: React.VFC = () => {
+	const { restoreStoredUploads } = useUpload();
+
+	useEffect(() => {
+		restoreStoredUploads();
+	}, [restoreStoredUploads]);
+
+	return null;
+};
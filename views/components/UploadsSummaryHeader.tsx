@@ -0,0 +1,61 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React from 'react';
+
+import { Container, Row, Text } from '@zextras/carbonio-design-system';
+import { useTranslation } from 'react-i18next';
+import styled from 'styled-components';
+
+import { useUploadsSummary } from '../../hooks/useUploadsSummary';
+import { humanDuration, humanFileSize } from '../../utils/utils';
+import { ProgressBar } from './StyledComponents';
+
+const StickyContainer = styled(Container)`
+	position: sticky;
+	top: 0;
+	z-index: 1;
+`;
+
+export const UploadsSummaryHeader: React.VFC = () => {
+	const [t] = useTranslation();
+	const { count, totalBytes, loadedBytes, percentage, speed, eta } = useUploadsSummary();
+
+	return count > 0 ? (
+		<StickyContainer
+			height="auto"
+			background="gray5"
+			padding={{ all: 'small' }}
+			data-testid="uploads-summary"
+		>
+			<Row width="fill" mainAlignment="space-between" wrap="nowrap">
+				<Text size="small">
+					{t('uploads.summary.count', '{{count}} uploads in progress', { count })}
+				</Text>
+				<Text size="small" weight="bold">{`${percentage}%`}</Text>
+			</Row>
+			<Row width="fill" padding={{ vertical: 'small' }}>
+				<ProgressBar $percentage={percentage} />
+			</Row>
+			<Row width="fill" mainAlignment="space-between" wrap="nowrap">
+				<Text size="extrasmall" color="secondary">
+					{t('uploads.summary.bytes', '{{loaded}} of {{total}}', {
+						loaded: humanFileSize(loadedBytes),
+						total: humanFileSize(totalBytes)
+					})}
+				</Text>
+				{eta !== undefined && (
+					<Text size="extrasmall" color="secondary">
+						{t('uploads.summary.speed', '{{speed}}/s - {{eta}} left', {
+							speed: humanFileSize(speed),
+							eta: humanDuration(eta, t)
+						})}
+					</Text>
+				)}
+			</Row>
+		</StickyContainer>
+	) : null;
+};
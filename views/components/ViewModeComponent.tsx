@@ -0,0 +1,83 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Zextras <https://www.zextras.com>
+ *
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+
+import React, { useCallback, useMemo } from 'react';
+
+import { Dropdown, IconButton, Tooltip } from '@zextras/carbonio-design-system';
+import find from 'lodash/find';
+import map from 'lodash/map';
+import { useTranslation } from 'react-i18next';
+
+import { ListDensity, ListPreferences, ViewMode } from '../../types/common';
+
+interface ViewModeComponentProps {
+	preferences: ListPreferences;
+	setPreferences: (preferences: Partial<ListPreferences>) => void;
+	setDefaultPreferences: () => void;
+}
+
+export const ViewModeComponent: React.VFC<ViewModeComponentProps> = ({
+	preferences: { viewMode, density },
+	setPreferences,
+	setDefaultPreferences
+}) => {
+	const [t] = useTranslation();
+
+	const viewModes = useMemo(
+		() => [
+			{ id: ViewMode.List, label: t('viewMode.list', 'List view'), icon: 'ListOutline' },
+			{ id: ViewMode.Grid, label: t('viewMode.grid', 'Grid view'), icon: 'GridOutline' },
+			{ id: ViewMode.Details, label: t('viewMode.details', 'Details view'), icon: 'MenuOutline' }
+		],
+		[t]
+	);
+
+	const toggleDensity = useCallback(() => {
+		setPreferences({
+			density: density === ListDensity.Compact ? ListDensity.Comfortable : ListDensity.Compact
+		});
+	}, [density, setPreferences]);
+
+	const items = useMemo(
+		() => [
+			...map(viewModes, (mode) => ({
+				...mode,
+				selected: mode.id === viewMode,
+				click: (): void => setPreferences({ viewMode: mode.id })
+			})),
+			{
+				id: 'density',
+				label: t('viewMode.compactDensity', 'Compact rows'),
+				icon: density === ListDensity.Compact ? 'CheckmarkSquare' : 'Square',
+				// the density applies only to the rows of the list view
+				disabled: viewMode !== ViewMode.List,
+				click: toggleDensity
+			},
+			{
+				id: 'setAsDefault',
+				label: t('viewMode.setAsDefault', 'Use these settings as default'),
+				icon: 'SaveOutline',
+				click: setDefaultPreferences
+			}
+		],
+		[density, setDefaultPreferences, setPreferences, t, toggleDensity, viewMode, viewModes]
+	);
+
+	const currentViewMode = find(viewModes, ['id', viewMode]) || viewModes[0];
+
+	return (
+		<Tooltip label={currentViewMode.label} placement="top">
+			<Dropdown
+				items={items}
+				itemPaddingBetween="large"
+				itemIconSize="large"
+				selectedBackgroundColor="highlight"
+			>
+				<IconButton icon={currentViewMode.icon} size="large" />
+			</Dropdown>
+		</Tooltip>
+	);
+};